@@ -1,126 +1,283 @@
-import { Image } from "expo-image";
-import { Platform, StyleSheet } from "react-native";
-
-import { ExternalLink } from "@/components/external-link";
-import ParallaxScrollView from "@/components/parallax-scroll-view";
-import { ThemedText } from "@/components/themed-text";
-import { ThemedView } from "@/components/themed-view";
-import { Collapsible } from "@/components/ui/collapsible";
-import { IconSymbol } from "@/components/ui/icon-symbol";
-import { Fonts } from "@/constants/theme";
-
-export default function TabTwoScreen() {
-  return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: "#D0D0D0", dark: "#353636" }}
-      headerImage={
-        <IconSymbol
-          size={310}
-          color="#808080"
-          name="chevron.left.forwardslash.chevron.right"
-          style={styles.headerImage}
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { Search } from "lucide-react-native";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { AttractionCard } from "@/components/tourism";
+import { ChipFilter } from "@/components/ui/chip-filter";
+import { MunicipalityFilter } from "@/components/ui/municipality-filter";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  TOURISM_CATEGORIES,
+  TOURISM_CATEGORY_IDS,
+  TourismCategory,
+} from "@/constants/tourism";
+import { useCurrentMunicipality } from "@/context/municipality-context";
+import { useAttractions, useSavedAttractions } from "@/hooks/use-tourism";
+
+/**
+ * TolimaGO - Explore Screen
+ * Catálogo turístico del Tolima por categoría y municipio
+ */
+
+const CATEGORY_OPTIONS = TOURISM_CATEGORY_IDS.map(
+  (id) => TOURISM_CATEGORIES[id]
+);
+
+export default function ExploreScreen() {
+  const { municipality: currentMunicipality } = useCurrentMunicipality();
+  // Los visitantes arrancan viendo todo el departamento
+  const [municipality, setMunicipality] = useState<string | null>(null);
+  const [category, setCategory] = useState<TourismCategory | null>(null);
+  const [search, setSearch] = useState("");
+  const { attractions, fromFixture, isLoading, isRefreshing, error, refresh } =
+    useAttractions(municipality, category);
+  const { saved, isSaved } = useSavedAttractions();
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return attractions;
+
+    return attractions.filter(
+      (attraction) =>
+        attraction.name.toLowerCase().includes(query) ||
+        attraction.summary.toLowerCase().includes(query) ||
+        attraction.municipality.toLowerCase().includes(query)
+    );
+  }, [attractions, search]);
+
+  const header = (
+    <View style={styles.filters}>
+      <View style={styles.searchContainer}>
+        <Search size={20} color={theme.colors.text.secondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Buscar lugares, platos o festivales..."
+          value={search}
+          onChangeText={setSearch}
+          placeholderTextColor={theme.colors.text.secondary}
+          returnKeyType="search"
         />
-      }
-    >
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText
-          type="title"
-          style={{
-            fontFamily: Fonts.rounded,
-          }}
-        >
-          Explore
-        </ThemedText>
-      </ThemedView>
-      <ThemedText>
-        This app includes example code to help you get started.
-      </ThemedText>
-      <Collapsible title="File-based routing">
-        <ThemedText>
-          This app has two screens:{" "}
-          <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText>{" "}
-          and{" "}
-          <ThemedText type="defaultSemiBold">app/(tabs)/explore.tsx</ThemedText>
-        </ThemedText>
-        <ThemedText>
-          The layout file in{" "}
-          <ThemedText type="defaultSemiBold">app/(tabs)/_layout.tsx</ThemedText>{" "}
-          sets up the tab navigator.
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/router/introduction">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Android, iOS, and web support">
-        <ThemedText>
-          You can open this project on Android, iOS, and the web. To open the
-          web version, press <ThemedText type="defaultSemiBold">w</ThemedText>{" "}
-          in the terminal running this project.
-        </ThemedText>
-      </Collapsible>
-      <Collapsible title="Images">
-        <ThemedText>
-          For static images, you can use the{" "}
-          <ThemedText type="defaultSemiBold">@2x</ThemedText> and{" "}
-          <ThemedText type="defaultSemiBold">@3x</ThemedText> suffixes to
-          provide files for different screen densities
-        </ThemedText>
-        <Image
-          source={require("@/assets/images/react-logo.png")}
-          style={{ width: 100, height: 100, alignSelf: "center" }}
+      </View>
+
+      <TouchableOpacity
+        style={styles.eventsLink}
+        onPress={() => router.push("/events")}
+        activeOpacity={0.7}
+      >
+        <Ionicons
+          name="calendar-outline"
+          size={20}
+          color={theme.colors.primary.main}
         />
-        <ExternalLink href="https://reactnative.dev/docs/images">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Light and dark mode components">
-        <ThemedText>
-          This template has light and dark mode support. The{" "}
-          <ThemedText type="defaultSemiBold">useColorScheme()</ThemedText> hook
-          lets you inspect what the user&apos;s current color scheme is, and so
-          you can adjust UI colors accordingly.
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/develop/user-interface/color-themes/">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Animations">
-        <ThemedText>
-          This template includes an example of an animated component. The{" "}
-          <ThemedText type="defaultSemiBold">
-            components/HelloWave.tsx
-          </ThemedText>{" "}
-          component uses the powerful{" "}
-          <ThemedText type="defaultSemiBold" style={{ fontFamily: Fonts.mono }}>
-            react-native-reanimated
-          </ThemedText>{" "}
-          library to create a waving hand animation.
-        </ThemedText>
-        {Platform.select({
-          ios: (
-            <ThemedText>
-              The{" "}
-              <ThemedText type="defaultSemiBold">
-                components/ParallaxScrollView.tsx
-              </ThemedText>{" "}
-              component provides a parallax effect for the header image.
-            </ThemedText>
-          ),
-        })}
-      </Collapsible>
-    </ParallaxScrollView>
+        <Text style={styles.eventsText}>Agenda de eventos y festivales</Text>
+        <Ionicons
+          name="chevron-forward"
+          size={18}
+          color={theme.colors.text.secondary}
+        />
+      </TouchableOpacity>
+
+      <ChipFilter
+        options={CATEGORY_OPTIONS}
+        value={category}
+        onChange={setCategory}
+        allLabel="Todo"
+      />
+      <MunicipalityFilter
+        value={municipality}
+        onChange={setMunicipality}
+        fallbackMunicipality={currentMunicipality}
+      />
+
+      {fromFixture && (
+        <View style={styles.notice}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.noticeText}>
+            Catálogo no disponible. Mostrando lugares destacados guardados en la
+            app
+          </Text>
+        </View>
+      )}
+
+      {error && <FormError errors={error} variant="error" animated={true} />}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Explora el Tolima"
+        subtitle="Atractivos, naturaleza, sabores y fiestas"
+        showBackButton={false}
+        rightAction={
+          <TouchableOpacity
+            style={styles.tripButton}
+            onPress={() => router.push("/trips")}
+            hitSlop={8}
+            accessibilityLabel="Mi viaje"
+          >
+            <Ionicons
+              name="bookmark-outline"
+              size={20}
+              color={theme.colors.primary.main}
+            />
+            <Text style={styles.tripText}>
+              Mi viaje{saved.length > 0 ? ` (${saved.length})` : ""}
+            </Text>
+          </TouchableOpacity>
+        }
+      />
+
+      <FlatList
+        data={filtered}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <AttractionCard
+            attraction={item}
+            isSaved={isSaved(item.id)}
+            onPress={() =>
+              router.push({
+                pathname: "/tourism/[id]",
+                params: { id: item.id },
+              })
+            }
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={header}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : error ? null : (
+            <Text style={styles.emptyText}>
+              {search
+                ? "Ningún lugar coincide con tu búsqueda"
+                : "Aún no hay lugares publicados con estos filtros"}
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
-  headerImage: {
-    color: "#808080",
-    bottom: -90,
-    left: -35,
-    position: "absolute",
+  tripButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
   },
-  titleContainer: {
+
+  tripText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  filters: {
+    gap: theme.spacing[3],
+    marginBottom: theme.spacing[2],
+  },
+
+  searchContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[2],
+    gap: theme.spacing[2],
+  },
+
+  searchInput: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    paddingVertical: theme.spacing[1],
+  },
+
+  eventsLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  eventsText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+
+  notice: {
     flexDirection: "row",
-    gap: 8,
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  noticeText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
   },
 });
@@ -0,0 +1,200 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Href, router, useFocusEffect } from "expo-router";
+import React, { useCallback } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { NotificationItem } from "@/components/notifications";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useNotificationInbox } from "@/hooks/use-notifications";
+import { AppNotification } from "@/services/notification-service";
+
+/**
+ * TolimaGO - Notification Inbox Screen
+ * Bandeja de avisos del usuario; cada aviso abre la pantalla relacionada
+ */
+
+export default function InboxScreen() {
+  const {
+    notifications,
+    unreadCount,
+    fromCache,
+    isLoading,
+    isRefreshing,
+    error,
+    reload,
+    refresh,
+    markAsRead,
+    markAllAsRead,
+  } = useNotificationInbox();
+
+  // Al volver a la pestaña se consultan los avisos nuevos
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  const handleOpen = (notification: AppNotification) => {
+    markAsRead(notification.id);
+    if (notification.url?.startsWith("/")) {
+      router.push(notification.url as Href);
+    }
+  };
+
+  const header = (
+    <View style={styles.headerContent}>
+      <View style={styles.toolbar}>
+        <Text style={styles.summary}>
+          {unreadCount > 0
+            ? `${unreadCount} sin leer`
+            : "Estás al día con tus avisos"}
+        </Text>
+        {unreadCount > 0 && (
+          <TouchableOpacity onPress={markAllAsRead} hitSlop={8}>
+            <Text style={styles.markAllText}>Marcar todas como leídas</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {fromCache && (
+        <View style={styles.offlineBanner}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.offlineText}>
+            Sin conexión. Mostrando los avisos guardados en tu dispositivo
+          </Text>
+        </View>
+      )}
+
+      {error && <FormError errors={error} variant="error" animated={true} />}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Avisos"
+        subtitle="Reportes, noticias y eventos"
+        showBackButton={false}
+        rightAction={
+          <TouchableOpacity
+            onPress={() => router.push("/notifications/preferences")}
+            hitSlop={8}
+            accessibilityLabel="Preferencias de notificación"
+          >
+            <Ionicons
+              name="settings-outline"
+              size={22}
+              color={theme.colors.primary.main}
+            />
+          </TouchableOpacity>
+        }
+      />
+
+      <FlatList
+        data={notifications}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <NotificationItem
+            notification={item}
+            onPress={() => handleOpen(item)}
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={header}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : error ? null : (
+            <Text style={styles.emptyText}>Aún no tienes avisos</Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  headerContent: {
+    gap: theme.spacing[2],
+    marginBottom: theme.spacing[2],
+  },
+
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  markAllText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  offlineText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
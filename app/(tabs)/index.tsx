@@ -1,5 +1,6 @@
 import { Ionicons } from "@expo/vector-icons";
 import { Image } from "expo-image";
+import { router } from "expo-router";
 import React from "react";
 import {
   Alert,
@@ -12,6 +13,7 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
+import { OutboxStatus } from "@/components/offline/outbox-status";
 import { colors, spacing, typography } from "@/constants/design-tokens";
 import { useAuth } from "@/context/auth-context";
 
@@ -65,6 +67,28 @@ export default function HomeScreen() {
         </TouchableOpacity>
       </View>
 
+      {user && !user.isEmailVerified && (
+        <TouchableOpacity
+          style={styles.verifyBanner}
+          onPress={() => router.push("/auth/verify-email")}
+          activeOpacity={0.8}
+        >
+          <Ionicons
+            name="mail-unread-outline"
+            size={20}
+            color={colors.warning.dark}
+          />
+          <Text style={styles.verifyBannerText}>
+            Verifica tu email para enviar reportes y trámites
+          </Text>
+          <Ionicons
+            name="chevron-forward"
+            size={18}
+            color={colors.warning.dark}
+          />
+        </TouchableOpacity>
+      )}
+
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.heroSection}>
           <View style={styles.logoContainer}>
@@ -88,11 +112,17 @@ export default function HomeScreen() {
           </Text>
         </View>
 
+        <OutboxStatus containerStyle={styles.outbox} />
+
         {/* Quick Actions */}
         <View style={styles.actionsSection}>
           <Text style={styles.sectionTitle}>Acciones Rápidas</Text>
           <View style={styles.actionsGrid}>
-            <TouchableOpacity style={styles.actionCard} activeOpacity={0.7}>
+            <TouchableOpacity
+              style={styles.actionCard}
+              onPress={() => router.push("/tramites")}
+              activeOpacity={0.7}
+            >
               <View style={styles.actionIcon}>
                 <Ionicons
                   name="document-text-outline"
@@ -106,7 +136,11 @@ export default function HomeScreen() {
               </Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.actionCard} activeOpacity={0.7}>
+            <TouchableOpacity
+              style={styles.actionCard}
+              onPress={() => router.push("/reports")}
+              activeOpacity={0.7}
+            >
               <View style={styles.actionIcon}>
                 <Ionicons
                   name="warning-outline"
@@ -120,7 +154,11 @@ export default function HomeScreen() {
               </Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.actionCard} activeOpacity={0.7}>
+            <TouchableOpacity
+              style={styles.actionCard}
+              onPress={() => router.push("/news")}
+              activeOpacity={0.7}
+            >
               <View style={styles.actionIcon}>
                 <Ionicons
                   name="information-circle-outline"
@@ -134,7 +172,11 @@ export default function HomeScreen() {
               </Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.actionCard} activeOpacity={0.7}>
+            <TouchableOpacity
+              style={styles.actionCard}
+              onPress={() => router.push("/places")}
+              activeOpacity={0.7}
+            >
               <View style={styles.actionIcon}>
                 <Ionicons
                   name="map-outline"
@@ -208,6 +250,22 @@ const styles = StyleSheet.create({
     backgroundColor: colors.error.light,
   },
 
+  verifyBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: spacing[6],
+    paddingVertical: spacing[3],
+    backgroundColor: colors.warning.light,
+  },
+
+  verifyBannerText: {
+    flex: 1,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.warning.dark,
+    marginHorizontal: spacing[2],
+  },
+
   content: {
     flex: 1,
   },
@@ -265,6 +323,11 @@ const styles = StyleSheet.create({
     lineHeight: typography.lineHeight.relaxed * typography.fontSize.base,
   },
 
+  outbox: {
+    marginHorizontal: spacing[6],
+    marginTop: spacing[4],
+  },
+
   actionsSection: {
     padding: spacing[6],
   },
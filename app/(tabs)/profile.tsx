@@ -0,0 +1,345 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Href, router } from "expo-router";
+import React from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { PrimaryButton } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuth } from "@/context/auth-context";
+import { usePermissions } from "@/hooks/use-protected-route";
+import { normalizeRole, ROLE_LABELS } from "@/lib/permissions";
+
+/**
+ * TolimaGO - Profile Screen
+ * Datos del usuario y accesos a la configuración de la cuenta
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+interface SettingsLink {
+  icon: IoniconName;
+  label: string;
+  href: Href;
+}
+
+const ACCOUNT_LINKS: SettingsLink[] = [
+  { icon: "heart-outline", label: "Guardados", href: "/favourites" },
+  { icon: "create-outline", label: "Editar perfil", href: "/profile/edit" },
+  {
+    icon: "lock-closed-outline",
+    label: "Cambiar contraseña",
+    href: "/profile/password",
+  },
+  { icon: "mail-outline", label: "Cambiar email", href: "/profile/email" },
+  {
+    icon: "finger-print-outline",
+    label: "Seguridad",
+    href: "/profile/security",
+  },
+  {
+    icon: "notifications-outline",
+    label: "Notificaciones",
+    href: "/notifications/preferences",
+  },
+  {
+    icon: "shield-checkmark-outline",
+    label: "Privacidad y datos",
+    href: "/privacy",
+  },
+];
+
+// Solo para cuentas con permiso para administrar comercios
+const BUSINESS_LINK: SettingsLink = {
+  icon: "storefront-outline",
+  label: "Mi negocio",
+  href: "/business",
+};
+
+// Solo para administradores
+const ADMIN_LINK: SettingsLink = {
+  icon: "shield-half-outline",
+  label: "Moderación",
+  href: "/admin",
+};
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+export default function ProfileScreen() {
+  const { user, logout } = useAuth();
+  const { hasPermission, isAdmin } = usePermissions();
+
+  const handleLogout = () => {
+    Alert.alert(
+      "Cerrar Sesión",
+      "¿Estás seguro de que quieres cerrar sesión?",
+      [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Cerrar Sesión", style: "destructive", onPress: logout },
+      ]
+    );
+  };
+
+  if (!user) return null;
+
+  const links = [
+    ...(isAdmin() ? [ADMIN_LINK] : []),
+    ...(hasPermission("business:manage") ? [BUSINESS_LINK] : []),
+    ...ACCOUNT_LINKS,
+  ];
+
+  const details = [
+    { icon: "call-outline" as const, label: "Teléfono", value: user.phone },
+    { icon: "location-outline" as const, label: "Ciudad", value: user.city },
+    {
+      icon: "home-outline" as const,
+      label: "Residente del Tolima",
+      value: user.isResident ? "Sí" : "No",
+    },
+    {
+      icon: "shield-checkmark-outline" as const,
+      label: "Tipo de cuenta",
+      value: ROLE_LABELS[normalizeRole(user.role)],
+    },
+    {
+      icon: "time-outline" as const,
+      label: "Último ingreso",
+      value: user.lastLoginAt
+        ? new Date(user.lastLoginAt).toLocaleString("es-CO", {
+            day: "numeric",
+            month: "long",
+            year: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+          })
+        : undefined,
+    },
+  ];
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Perfil"
+        subtitle="Tu cuenta en TolimaGO"
+        showBackButton={false}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.identity}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>{getInitials(user.name)}</Text>
+          </View>
+          <Text style={styles.name}>{user.name}</Text>
+          <Text style={styles.email}>{user.email}</Text>
+
+          <TouchableOpacity
+            style={[
+              styles.verifiedBadge,
+              !user.isEmailVerified && styles.unverifiedBadge,
+            ]}
+            onPress={() => router.push("/auth/verify-email")}
+            disabled={user.isEmailVerified}
+            activeOpacity={0.8}
+          >
+            <Ionicons
+              name={user.isEmailVerified ? "checkmark-circle" : "alert-circle"}
+              size={16}
+              color={
+                user.isEmailVerified
+                  ? theme.colors.success.dark
+                  : theme.colors.warning.dark
+              }
+            />
+            <Text
+              style={[
+                styles.verifiedText,
+                !user.isEmailVerified && styles.unverifiedText,
+              ]}
+            >
+              {user.isEmailVerified ? "Email verificado" : "Verificar email"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          {details.map((detail) => (
+            <View key={detail.label} style={styles.detailRow}>
+              <Ionicons
+                name={detail.icon}
+                size={20}
+                color={theme.colors.primary.main}
+              />
+              <Text style={styles.detailLabel}>{detail.label}</Text>
+              <Text style={styles.detailValue} numberOfLines={1}>
+                {detail.value || "Sin registrar"}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          {links.map((link) => (
+            <TouchableOpacity
+              key={link.label}
+              style={styles.linkRow}
+              onPress={() => router.push(link.href)}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={link.icon}
+                size={20}
+                color={theme.colors.primary.main}
+              />
+              <Text style={styles.linkText}>{link.label}</Text>
+              <Ionicons
+                name="chevron-forward"
+                size={18}
+                color={theme.colors.text.secondary}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <PrimaryButton
+          title="Cerrar sesión"
+          onPress={handleLogout}
+          variant="danger"
+          size="large"
+          fullWidth={true}
+          testID="profile-logout-button"
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[4],
+  },
+
+  identity: {
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  avatar: {
+    width: 72,
+    height: 72,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary.light,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: theme.spacing[2],
+  },
+
+  avatarText: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.primary.main,
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  email: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+  },
+
+  verifiedBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+    marginTop: theme.spacing[2],
+    paddingHorizontal: theme.spacing[3],
+    paddingVertical: theme.spacing[1],
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.success.light,
+  },
+
+  unverifiedBadge: {
+    backgroundColor: theme.colors.warning.light,
+  },
+
+  verifiedText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.success.dark,
+  },
+
+  unverifiedText: {
+    color: theme.colors.warning.dark,
+  },
+
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    paddingHorizontal: theme.spacing[4],
+  },
+
+  detailRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[3],
+  },
+
+  detailLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  detailValue: {
+    flex: 1,
+    textAlign: "right",
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[4],
+  },
+
+  linkText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+});
@@ -0,0 +1,18 @@
+import { normalizeDeepLinkPath } from "@/lib/deep-links";
+
+/**
+ * Reescribe los enlaces entrantes (tolimago://…) antes de que expo-router los resuelva
+ */
+export function redirectSystemPath({
+  path,
+}: {
+  path: string;
+  initial: boolean;
+}): string {
+  try {
+    return normalizeDeepLinkPath(path);
+  } catch (error) {
+    console.error("Deep link normalization error:", error);
+    return "/";
+  }
+}
@@ -7,12 +7,17 @@ import {
 import { useFonts } from "expo-font";
 import { SplashScreen, Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import "react-native-reanimated";
 
+import { restorePersistedEnvironment } from "@/config/environment";
 import { colors } from "@/constants/design-tokens";
 import { AuthProvider } from "@/context/auth-context";
+import { CurrentMunicipalityProvider } from "@/context/municipality-context";
+import { NetworkProvider } from "@/context/network-context";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useNotificationObserver } from "@/hooks/use-notification-observer";
+import { usePushNotificationPrompt } from "@/hooks/use-notifications";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -23,14 +28,20 @@ export default function RootLayout() {
   const [loaded] = useFonts({
     // Add any custom fonts here if needed
   });
+  const [environmentReady, setEnvironmentReady] = useState(false);
 
+  // Restaurar el entorno de API antes de que el AuthProvider haga requests
   useEffect(() => {
-    if (loaded) {
+    restorePersistedEnvironment().finally(() => setEnvironmentReady(true));
+  }, []);
+
+  useEffect(() => {
+    if (loaded && environmentReady) {
       SplashScreen.hideAsync();
     }
-  }, [loaded]);
+  }, [loaded, environmentReady]);
 
-  if (!loaded) {
+  if (!loaded || !environmentReady) {
     return null;
   }
 
@@ -56,17 +67,24 @@ export default function RootLayout() {
   };
 
   return (
-    <AuthProvider>
-      <ThemeProvider
-        value={colorScheme === "dark" ? customDarkTheme : customTheme}
-      >
-        <RootNavigator />
-      </ThemeProvider>
-    </AuthProvider>
+    <NetworkProvider>
+      <AuthProvider>
+        <CurrentMunicipalityProvider>
+          <ThemeProvider
+            value={colorScheme === "dark" ? customDarkTheme : customTheme}
+          >
+            <RootNavigator />
+          </ThemeProvider>
+        </CurrentMunicipalityProvider>
+      </AuthProvider>
+    </NetworkProvider>
   );
 }
 
 function RootNavigator() {
+  useNotificationObserver();
+  usePushNotificationPrompt();
+
   return (
     <>
       <Stack
@@ -96,6 +114,90 @@ function RootNavigator() {
             gestureEnabled: false,
           }}
         />
+        <Stack.Screen
+          name="reports"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="tramites"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="news"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="places"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="tourism"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="trips"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="events"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="notifications"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="profile"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="privacy"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="business"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="admin"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="reviews"
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="favourites"
+          options={{
+            headerShown: false,
+          }}
+        />
         <Stack.Screen
           name="modal"
           options={{
@@ -104,6 +206,14 @@ function RootNavigator() {
             gestureEnabled: true,
           }}
         />
+        <Stack.Screen
+          name="developer"
+          options={{
+            presentation: "modal",
+            headerShown: false,
+            gestureEnabled: true,
+          }}
+        />
         <Stack.Screen
           name="splash"
           options={{
@@ -0,0 +1,322 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import { useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  AuditEntryRow,
+  DecisionInput,
+  DecisionModal,
+} from "@/components/admin";
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  MODERATION_ITEM_TYPE_INFO,
+  MODERATION_STATUS_INFO,
+  ModerationAction,
+  ModerationItemType,
+} from "@/constants/moderation";
+import {
+  useAuditLog,
+  useModerationDecision,
+  useModerationItem,
+} from "@/hooks/use-moderation";
+
+/**
+ * TolimaGO - Moderation Item Screen
+ * Detalle de un reporte o reseña con sus acciones y su historial
+ */
+
+export default function ModerationItemScreen() {
+  const { type, id } = useLocalSearchParams<{
+    type: ModerationItemType;
+    id: string;
+  }>();
+  const { item, isLoading, error, reload } = useModerationItem(type, id);
+  const audit = useAuditLog(id);
+  const decision = useModerationDecision();
+  const [action, setAction] = useState<ModerationAction | null>(null);
+
+  const openAction = (next: ModerationAction) => {
+    decision.clearError();
+    setAction(next);
+  };
+
+  const handleConfirm = async (input: DecisionInput) => {
+    if (!item || !action) return;
+
+    // Al fusionar desde el detalle, este elemento conserva sus duplicados
+    const applied = await decision.decide({
+      type: item.type,
+      action,
+      reasonCode: input.reasonCode,
+      note: input.note,
+      targetId: input.targetId,
+      itemIds: action === "merge" ? item.duplicateIds : [item.id],
+    });
+
+    if (!applied) return;
+
+    setAction(null);
+    reload();
+    audit.reload();
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Moderación" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!item) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Moderación" />
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se pudo cargar el contenido"}
+            variant="error"
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const statusInfo = MODERATION_STATUS_INFO[item.status];
+  const isPending = item.status === "pending";
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title={item.title}
+        subtitle={MODERATION_ITEM_TYPE_INFO[item.type].label}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <StatusBadge
+          label={statusInfo.label}
+          icon={statusInfo.icon}
+          color={statusInfo.color}
+          background={statusInfo.background}
+        />
+
+        <View style={styles.card}>
+          {item.rating !== undefined && (
+            <View style={styles.rating}>
+              {[1, 2, 3, 4, 5].map((star) => (
+                <Ionicons
+                  key={star}
+                  name={star <= (item.rating ?? 0) ? "star" : "star-outline"}
+                  size={16}
+                  color={theme.colors.warning.main}
+                />
+              ))}
+            </View>
+          )}
+          <Text style={styles.body}>{item.body}</Text>
+
+          {item.photos.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.photos}
+            >
+              {item.photos.map((uri) => (
+                <Image
+                  key={uri}
+                  source={{ uri }}
+                  style={styles.photo}
+                  contentFit="cover"
+                />
+              ))}
+            </ScrollView>
+          )}
+
+          <Text style={styles.meta}>
+            {item.author.name}
+            {item.municipality ? ` · ${item.municipality}` : ""} ·{" "}
+            {new Date(item.createdAt).toLocaleString("es-CO", {
+              day: "numeric",
+              month: "short",
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </Text>
+          {item.flagCount > 0 && (
+            <Text style={styles.meta}>
+              Marcado {item.flagCount} {item.flagCount === 1 ? "vez" : "veces"}{" "}
+              por otros usuarios
+            </Text>
+          )}
+          {item.duplicateIds.length > 0 && (
+            <Text style={styles.meta}>
+              {item.duplicateIds.length} posible
+              {item.duplicateIds.length === 1 ? "" : "s"} duplicado
+              {item.duplicateIds.length === 1 ? "" : "s"}
+            </Text>
+          )}
+        </View>
+
+        {isPending && (
+          <>
+            <Text style={styles.sectionTitle}>Decisión</Text>
+            <View style={styles.actions}>
+              <PrimaryButton
+                title="Aprobar"
+                onPress={() => openAction("approve")}
+                variant="primary"
+                size="medium"
+                containerStyle={styles.actionButton}
+                testID="approve-button"
+              />
+              <PrimaryButton
+                title="Rechazar"
+                onPress={() => openAction("reject")}
+                variant="danger"
+                size="medium"
+                containerStyle={styles.actionButton}
+                testID="reject-button"
+              />
+            </View>
+            {item.duplicateIds.length > 0 && (
+              <PrimaryButton
+                title="Fusionar duplicados"
+                onPress={() => openAction("merge")}
+                variant="outline"
+                size="medium"
+                fullWidth={true}
+                containerStyle={styles.mergeButton}
+                testID="merge-button"
+              />
+            )}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Historial</Text>
+        <View style={styles.card}>
+          {audit.isLoading ? (
+            <ActivityIndicator color={theme.colors.primary.main} />
+          ) : audit.error ? (
+            <FormError errors={audit.error} variant="warning" />
+          ) : audit.entries.length === 0 ? (
+            <Text style={styles.emptyText}>Sin decisiones registradas.</Text>
+          ) : (
+            audit.entries.map((entry) => (
+              <AuditEntryRow key={entry.id} entry={entry} />
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      <DecisionModal
+        visible={action !== null}
+        action={action}
+        itemCount={action === "merge" ? item.duplicateIds.length : 1}
+        mergeCandidates={[{ id: item.id, title: item.title }]}
+        isSubmitting={decision.isSubmitting}
+        error={decision.error}
+        onConfirm={handleConfirm}
+        onClose={() => setAction(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    padding: theme.spacing[4],
+    marginTop: theme.spacing[4],
+    gap: theme.spacing[2],
+  },
+
+  rating: {
+    flexDirection: "row",
+    gap: theme.spacing[1],
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight: 22,
+  },
+
+  photos: {
+    gap: theme.spacing[2],
+  },
+
+  photo: {
+    width: 120,
+    height: 90,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.background,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[6],
+  },
+
+  actions: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    marginTop: theme.spacing[2],
+  },
+
+  actionButton: {
+    flex: 1,
+  },
+
+  mergeButton: {
+    marginTop: theme.spacing[3],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,26 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function AdminLayout() {
+  // La consola de moderación es exclusiva del rol administrador
+  const { isAuthorized } = useProtectedRoute({
+    requiredRole: "admin",
+    requiredPermission: "admin:access",
+  });
+
+  // La redirección no basta: sin permiso no se monta ninguna pantalla
+  if (!isAuthorized) return null;
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="audit" />
+      <Stack.Screen name="[type]/[id]" />
+    </Stack>
+  );
+}
@@ -0,0 +1,116 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { AuditEntryRow } from "@/components/admin";
+import { FormError } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuditLog } from "@/hooks/use-moderation";
+
+/**
+ * TolimaGO - Audit Log Screen
+ * Historial de decisiones de moderación, de la más reciente a la más antigua
+ */
+
+export default function AuditLogScreen() {
+  const audit = useAuditLog();
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Auditoría" subtitle="Quién decidió qué y por qué" />
+
+      {audit.isLoading && audit.entries.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : (
+        <FlatList
+          data={audit.entries}
+          keyExtractor={(entry) => entry.id}
+          renderItem={({ item }) => <AuditEntryRow entry={item} />}
+          contentContainerStyle={styles.listContent}
+          onEndReached={audit.loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={audit.isLoading}
+              onRefresh={audit.reload}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListHeaderComponent={
+            audit.error ? (
+              <FormError errors={audit.error} variant="error" animated={true} />
+            ) : null
+          }
+          ListFooterComponent={
+            audit.isLoadingMore ? (
+              <ActivityIndicator color={theme.colors.primary.main} />
+            ) : null
+          }
+          ListEmptyComponent={
+            audit.error ? null : (
+              <View style={styles.emptyContainer}>
+                <Ionicons
+                  name="document-text-outline"
+                  size={48}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.emptyTitle}>Sin decisiones</Text>
+                <Text style={styles.emptyDescription}>
+                  Las decisiones de moderación aparecerán aquí.
+                </Text>
+              </View>
+            )
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    flexGrow: 1,
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+});
@@ -0,0 +1,361 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  DecisionInput,
+  DecisionModal,
+  ModerationItemCard,
+} from "@/components/admin";
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ChipFilter, ChipOption } from "@/components/ui/chip-filter";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  MAX_BULK_MODERATION,
+  MODERATION_ITEM_TYPE_INFO,
+  MODERATION_ITEM_TYPES,
+  ModerationAction,
+  ModerationItemType,
+} from "@/constants/moderation";
+import {
+  useModerationDecision,
+  useModerationQueue,
+} from "@/hooks/use-moderation";
+import { ModerationItem } from "@/services/moderation-service";
+
+/**
+ * TolimaGO - Moderation Queue Screen
+ * Reportes y reseñas pendientes. Mantener presionado un elemento activa la
+ * selección múltiple para decidir en lote
+ */
+
+const TYPE_OPTIONS: ChipOption<ModerationItemType>[] =
+  MODERATION_ITEM_TYPES.map((id) => ({
+    id,
+    label: MODERATION_ITEM_TYPE_INFO[id].label,
+    icon: MODERATION_ITEM_TYPE_INFO[id].icon,
+  }));
+
+export default function ModerationQueueScreen() {
+  const [type, setType] = useState<ModerationItemType | null>(null);
+  const queue = useModerationQueue(type);
+  const decision = useModerationDecision();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [action, setAction] = useState<ModerationAction | null>(null);
+
+  const selectedItems = useMemo(
+    () => queue.items.filter((item) => selectedIds.includes(item.id)),
+    [queue.items, selectedIds]
+  );
+
+  // Una decisión aplica a un solo tipo de contenido
+  const selectionType = selectedItems[0]?.type;
+
+  const exitSelection = () => {
+    setSelectionMode(false);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (item: ModerationItem) => {
+    setSelectedIds((current) =>
+      current.includes(item.id)
+        ? current.filter((id) => id !== item.id)
+        : current.length < MAX_BULK_MODERATION
+        ? [...current, item.id]
+        : current
+    );
+  };
+
+  const selectAll = () => {
+    const targetType = selectionType ?? queue.items[0]?.type;
+    setSelectedIds(
+      queue.items
+        .filter((item) => item.type === targetType)
+        .slice(0, MAX_BULK_MODERATION)
+        .map((item) => item.id)
+    );
+  };
+
+  const changeType = (next: ModerationItemType | null) => {
+    exitSelection();
+    setType(next);
+  };
+
+  const openAction = (next: ModerationAction) => {
+    decision.clearError();
+    setAction(next);
+  };
+
+  const handleConfirm = async (input: DecisionInput) => {
+    if (!action || !selectionType) return;
+
+    const applied = await decision.decide({
+      type: selectionType,
+      action,
+      reasonCode: input.reasonCode,
+      note: input.note,
+      targetId: input.targetId,
+      // Al fusionar, el elemento conservado no se marca como duplicado
+      itemIds: selectedIds.filter((id) => id !== input.targetId),
+    });
+
+    if (!applied) return;
+
+    queue.removeItems(applied);
+    setSelectedIds((current) => current.filter((id) => !applied.includes(id)));
+    if (applied.length === selectedIds.length - (input.targetId ? 1 : 0)) {
+      setAction(null);
+      exitSelection();
+    }
+  };
+
+  const renderItem = ({ item }: { item: ModerationItem }) => (
+    <ModerationItemCard
+      item={item}
+      selectionMode={selectionMode}
+      selected={selectedIds.includes(item.id)}
+      disabled={selectionMode && !!selectionType && item.type !== selectionType}
+      onPress={() =>
+        selectionMode
+          ? toggleSelected(item)
+          : router.push({
+              pathname: "/admin/[type]/[id]",
+              params: { type: item.type, id: item.id },
+            })
+      }
+      onLongPress={() => {
+        if (selectionMode) return;
+        setSelectionMode(true);
+        setSelectedIds([item.id]);
+      }}
+    />
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Moderación"
+        subtitle={
+          queue.isLoading
+            ? undefined
+            : `${queue.total} ${queue.total === 1 ? "pendiente" : "pendientes"}`
+        }
+        rightAction={
+          selectionMode ? (
+            <TouchableOpacity onPress={exitSelection} hitSlop={8}>
+              <Text style={styles.headerAction}>Cancelar</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={() => router.push("/admin/audit")}
+              hitSlop={8}
+              accessibilityLabel="Historial de auditoría"
+            >
+              <Ionicons
+                name="document-text-outline"
+                size={24}
+                color={theme.colors.primary.main}
+              />
+            </TouchableOpacity>
+          )
+        }
+      />
+
+      <ChipFilter options={TYPE_OPTIONS} value={type} onChange={changeType} />
+
+      {queue.isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : (
+        <FlatList
+          data={queue.items}
+          keyExtractor={(item) => `${item.type}-${item.id}`}
+          renderItem={renderItem}
+          extraData={selectedIds}
+          contentContainerStyle={styles.listContent}
+          onEndReached={queue.loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={queue.isRefreshing}
+              onRefresh={queue.refresh}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListHeaderComponent={
+            queue.error ? (
+              <FormError errors={queue.error} variant="error" animated={true} />
+            ) : null
+          }
+          ListFooterComponent={
+            queue.isLoadingMore ? (
+              <ActivityIndicator color={theme.colors.primary.main} />
+            ) : null
+          }
+          ListEmptyComponent={
+            queue.error ? null : (
+              <View style={styles.emptyContainer}>
+                <Ionicons
+                  name="checkmark-done-outline"
+                  size={48}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.emptyTitle}>Todo al día</Text>
+                <Text style={styles.emptyDescription}>
+                  No hay contenido pendiente de moderación.
+                </Text>
+              </View>
+            )
+          }
+        />
+      )}
+
+      {selectionMode && (
+        <View style={styles.bulkBar}>
+          <View style={styles.bulkHeader}>
+            <Text style={styles.bulkCount}>
+              {selectedIds.length}{" "}
+              {selectedIds.length === 1 ? "seleccionado" : "seleccionados"}
+            </Text>
+            <TouchableOpacity onPress={selectAll} hitSlop={8}>
+              <Text style={styles.headerAction}>Seleccionar todo</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.bulkActions}>
+            <PrimaryButton
+              title="Aprobar"
+              onPress={() => openAction("approve")}
+              disabled={selectedIds.length === 0}
+              variant="primary"
+              size="small"
+              containerStyle={styles.bulkButton}
+              testID="bulk-approve-button"
+            />
+            <PrimaryButton
+              title="Rechazar"
+              onPress={() => openAction("reject")}
+              disabled={selectedIds.length === 0}
+              variant="danger"
+              size="small"
+              containerStyle={styles.bulkButton}
+              testID="bulk-reject-button"
+            />
+            <PrimaryButton
+              title="Fusionar"
+              onPress={() => openAction("merge")}
+              disabled={selectedIds.length < 2}
+              variant="outline"
+              size="small"
+              containerStyle={styles.bulkButton}
+              testID="bulk-merge-button"
+            />
+          </View>
+        </View>
+      )}
+
+      <DecisionModal
+        visible={action !== null}
+        action={action}
+        itemCount={
+          action === "merge" ? selectedIds.length - 1 : selectedIds.length
+        }
+        mergeCandidates={selectedItems.map((item) => ({
+          id: item.id,
+          title: item.title,
+        }))}
+        isSubmitting={decision.isSubmitting}
+        error={decision.error}
+        onConfirm={handleConfirm}
+        onClose={() => setAction(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  headerAction: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    flexGrow: 1,
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+
+  bulkBar: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+
+  bulkHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+
+  bulkCount: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  bulkActions: {
+    flexDirection: "row",
+    gap: theme.spacing[2],
+  },
+
+  bulkButton: {
+    flex: 1,
+  },
+});
@@ -12,6 +12,9 @@ export default function AuthLayout() {
     >
       <Stack.Screen name="login" />
       <Stack.Screen name="register" />
+      <Stack.Screen name="forgot-password" />
+      <Stack.Screen name="reset" />
+      <Stack.Screen name="verify-email" />
     </Stack>
   );
 }
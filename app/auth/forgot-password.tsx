@@ -1,94 +1,324 @@
-import { Ionicons } from "@expo/vector-icons";
-import { useRouter } from "expo-router";
-import React from "react";
-import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router } from "expo-router";
+import { Mail, MailCheck } from "lucide-react-native";
+import React, { useCallback, useEffect, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import Animated, { FadeInDown, FadeInUp } from "react-native-reanimated";
 import { SafeAreaView } from "react-native-safe-area-context";
 
-import { colors, spacing, typography } from "@/constants/design-tokens";
+import {
+  AuthHeader,
+  FormError,
+  PrimaryButton,
+  TextInputField,
+} from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  ForgotPasswordFormData,
+  forgotPasswordSchema,
+} from "@/lib/validations";
+import { authService } from "@/services/auth-service";
+
+/**
+ * TolimaGO - Forgot Password Screen
+ * Solicitud de enlace de recuperación con confirmación y reenvío temporizado
+ */
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+type ForgotPasswordStep = "request" | "sent";
 
 export default function ForgotPasswordScreen() {
-  const router = useRouter();
+  const [step, setStep] = useState<ForgotPasswordStep>("request");
+  const [sentTo, setSentTo] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(0);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    mode: "onBlur",
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  // Cuenta regresiva para habilitar el reenvío
+  useEffect(() => {
+    if (cooldown <= 0) return;
+
+    const timer = setTimeout(() => setCooldown((value) => value - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const sendResetEmail = useCallback(async (email: string) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      await authService.requestPasswordReset(email);
+
+      setSentTo(email);
+      setStep("sent");
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (error: any) {
+      console.error("Password reset request error:", error);
+
+      let errorMessage = "No pudimos enviar el correo. Intenta nuevamente.";
+
+      if (error.code === "ERR_NETWORK") {
+        errorMessage = "Error de conexión. Verifica tu internet";
+      } else if (error.code === "TOO_MANY_REQUESTS") {
+        errorMessage =
+          "Has solicitado demasiados correos. Espera unos minutos e intenta de nuevo.";
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setSubmitError(errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  const onSubmit = useCallback(
+    (data: ForgotPasswordFormData) =>
+      sendResetEmail(data.email.trim().toLowerCase()),
+    [sendResetEmail]
+  );
+
+  const handleResend = () => {
+    if (cooldown > 0 || !sentTo) return;
+    sendResetEmail(sentTo);
+  };
+
+  const handleBackToLogin = () => {
+    router.replace("/auth/login");
+  };
 
   return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <TouchableOpacity onPress={() => router.back()}>
-          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
-        </TouchableOpacity>
-        <Text style={styles.headerTitle}>Recuperar Contraseña</Text>
-        <View />
-      </View>
-
-      <View style={styles.content}>
-        <Text style={styles.title}>¡Próximamente!</Text>
-        <Text style={styles.description}>
-          Esta funcionalidad estará disponible próximamente.
-        </Text>
-
-        <TouchableOpacity
-          style={styles.backButton}
-          onPress={() => router.back()}
+    <SafeAreaView style={globalStyles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 0 : 20}
+      >
+        <ScrollView
+          style={styles.scrollContainer}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
         >
-          <Text style={styles.backButtonText}>Volver al Login</Text>
-        </TouchableOpacity>
-      </View>
+          <Animated.View entering={FadeInUp.duration(600)}>
+            <AuthHeader
+              title="Recuperar contraseña"
+              subtitle={
+                step === "request"
+                  ? "Te enviaremos un enlace para crear una nueva contraseña"
+                  : undefined
+              }
+              showBackButton={true}
+              onBackPress={() => router.back()}
+              animated={true}
+            />
+          </Animated.View>
+
+          <Animated.View
+            style={styles.formContainer}
+            entering={FadeInDown.delay(300).duration(600)}
+          >
+            {submitError && (
+              <FormError errors={submitError} variant="error" animated={true} />
+            )}
+
+            {step === "request" ? (
+              <>
+                <Controller
+                  control={control}
+                  name="email"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInputField
+                      label="Email"
+                      value={value}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      error={errors.email?.message}
+                      leftIcon={
+                        <Mail size={20} color={theme.colors.text.secondary} />
+                      }
+                      keyboardType="email-address"
+                      autoCapitalize="none"
+                      autoComplete="email"
+                      autoCorrect={false}
+                      placeholder="tu@email.com"
+                      required
+                      testID="forgot-password-email-input"
+                    />
+                  )}
+                />
+
+                <PrimaryButton
+                  title="Enviar enlace"
+                  onPress={handleSubmit(onSubmit)}
+                  loading={isSubmitting}
+                  disabled={!isValid || isSubmitting}
+                  variant="primary"
+                  size="large"
+                  fullWidth={true}
+                  testID="forgot-password-submit-button"
+                />
+              </>
+            ) : (
+              <View style={styles.sentContainer}>
+                <View style={styles.sentIcon}>
+                  <MailCheck size={48} color={theme.colors.primary.main} />
+                </View>
+                <Text style={styles.sentTitle}>Revisa tu correo</Text>
+                <Text style={styles.sentDescription}>
+                  Si existe una cuenta asociada a{" "}
+                  <Text style={styles.sentEmail}>{sentTo}</Text>, recibirás un
+                  enlace para restablecer tu contraseña. Ábrelo desde este
+                  dispositivo para continuar en la app.
+                </Text>
+
+                <PrimaryButton
+                  title={
+                    cooldown > 0
+                      ? `Reenviar en ${cooldown}s`
+                      : "Reenviar correo"
+                  }
+                  onPress={handleResend}
+                  loading={isSubmitting}
+                  disabled={cooldown > 0 || isSubmitting}
+                  variant="outline"
+                  size="large"
+                  fullWidth={true}
+                  testID="forgot-password-resend-button"
+                />
+
+                <Text
+                  style={styles.changeEmailLink}
+                  onPress={() => {
+                    setSubmitError(null);
+                    setStep("request");
+                  }}
+                >
+                  Usar otro email
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.loginContainer}>
+              <Text style={styles.loginText}>¿Recordaste tu contraseña? </Text>
+              <Text style={styles.loginLink} onPress={handleBackToLogin}>
+                Iniciar sesión
+              </Text>
+            </View>
+          </Animated.View>
+        </ScrollView>
+      </KeyboardAvoidingView>
     </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
+  keyboardContainer: {
     flex: 1,
-    backgroundColor: colors.neutral.background,
   },
 
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    padding: spacing[6],
-    borderBottomWidth: 1,
-    borderBottomColor: colors.neutral.border,
+  scrollContainer: {
+    flex: 1,
   },
 
-  headerTitle: {
-    fontSize: typography.fontSize.lg,
-    fontWeight: typography.fontWeight.semiBold,
-    color: colors.text.primary,
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: theme.spacing[6],
+    paddingVertical: theme.spacing[4],
   },
 
-  content: {
+  formContainer: {
     flex: 1,
-    padding: spacing[6],
     justifyContent: "center",
+    paddingTop: theme.spacing[4],
+  },
+
+  sentContainer: {
     alignItems: "center",
   },
 
-  title: {
-    fontSize: typography.fontSize["2xl"],
-    fontWeight: typography.fontWeight.bold,
-    color: colors.text.primary,
-    marginBottom: spacing[4],
-    textAlign: "center",
+  sentIcon: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary.light,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: theme.spacing[4],
+  },
+
+  sentTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[3],
   },
 
-  description: {
-    fontSize: typography.fontSize.base,
-    color: colors.text.secondary,
+  sentDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
     textAlign: "center",
-    marginBottom: spacing[8],
+    lineHeight:
+      theme.typography.lineHeight.normal * theme.typography.fontSize.base,
+    marginBottom: theme.spacing[6],
+  },
+
+  sentEmail: {
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  changeEmailLink: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+    textDecorationLine: "underline",
+    marginTop: theme.spacing[4],
+  },
+
+  loginContainer: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: theme.spacing[8],
   },
 
-  backButton: {
-    backgroundColor: colors.primary.main,
-    paddingHorizontal: spacing[6],
-    paddingVertical: spacing[4],
-    borderRadius: spacing[3],
+  loginText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
   },
 
-  backButtonText: {
-    color: colors.neutral.white,
-    fontSize: typography.fontSize.base,
-    fontWeight: typography.fontWeight.semiBold,
+  loginLink: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+    textDecorationLine: "underline",
   },
 });
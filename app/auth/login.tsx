@@ -4,6 +4,7 @@ import { Lock, Mail } from "lucide-react-native";
 import React, { useCallback, useState } from "react";
 import { Controller, useForm } from "react-hook-form";
 import {
+  Alert,
   KeyboardAvoidingView,
   Platform,
   ScrollView,
@@ -20,21 +21,42 @@ import {
   PrimaryButton,
   TextInputField,
 } from "@/components/auth";
+import {
+  getApiConfig,
+  isEnvironmentSwitchEnabled,
+} from "@/config/environment";
 import { theme } from "@/constants/design-tokens";
 import { globalStyles } from "@/constants/global-styles";
 import { useAuth } from "@/context/auth-context";
 import { LoginFormData, loginSchema } from "@/lib/validations";
+import { SessionExpiredReason } from "@/services/auth-events";
+import { biometricLock } from "@/services/biometric-auth";
 
 /**
  * TolimaGO - Login Screen
  * Pantalla de inicio de sesión profesional con validaciones y animaciones
  */
 
+const SESSION_EXPIRED_MESSAGES: Record<SessionExpiredReason, string> = {
+  refresh_failed: "Tu sesión expiró. Inicia sesión nuevamente para continuar.",
+  no_refresh_token:
+    "Tu sesión expiró. Inicia sesión nuevamente para continuar.",
+  inactivity: "Cerramos tu sesión por inactividad. Inicia sesión nuevamente.",
+  biometric_failed:
+    "No pudimos verificar tu identidad. Inicia sesión con tu contraseña.",
+};
+
 export default function LoginScreen() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
 
-  const { login, error: authError, clearError } = useAuth();
+  const {
+    login,
+    error: authError,
+    clearError,
+    sessionExpiredReason,
+    enableBiometricLock,
+  } = useAuth();
 
   const {
     control,
@@ -50,6 +72,29 @@ export default function LoginScreen() {
     },
   });
 
+  // Ofrecer una sola vez el desbloqueo biométrico tras el login
+  const offerBiometricLock = useCallback(async () => {
+    const [settings, availability] = await Promise.all([
+      biometricLock.getSettings(),
+      biometricLock.getAvailability(),
+    ]);
+
+    if (!availability.available || settings.enabled || settings.prompted) {
+      return;
+    }
+
+    await biometricLock.updateSettings({ prompted: true });
+
+    Alert.alert(
+      "Desbloqueo rápido",
+      "¿Quieres usar tu huella, rostro o el código del dispositivo para abrir TolimaGO?",
+      [
+        { text: "Ahora no", style: "cancel" },
+        { text: "Activar", onPress: () => enableBiometricLock() },
+      ]
+    );
+  }, [enableBiometricLock]);
+
   const onSubmit = useCallback(
     async (data: LoginFormData) => {
       try {
@@ -63,15 +108,18 @@ export default function LoginScreen() {
         });
 
         router.replace("/(tabs)");
+        offerBiometricLock();
       } catch (error: any) {
         console.error("Login error:", error);
         console.error("Login error details:", JSON.stringify(error, null, 2));
 
         let errorMessage = "Error al iniciar sesión. Intenta nuevamente.";
 
-        if (error.code === "ERR_NETWORK") {
+        if (error.code === "ACCOUNT_LOCKED") {
+          errorMessage = error.message;
+        } else if (error.code === "ERR_NETWORK") {
           errorMessage =
-            "No se puede conectar al servidor. Verifica que el backend esté funcionando en http://localhost:3000";
+            `No se puede conectar al servidor. Verifica que el backend esté funcionando en ${getApiConfig().baseURL}`;
         } else if (error.message?.includes("credentials")) {
           errorMessage = "Email o contraseña incorrectos";
         } else if (error.message?.includes("network")) {
@@ -87,11 +135,11 @@ export default function LoginScreen() {
         setIsSubmitting(false);
       }
     },
-    [login, clearError]
+    [login, clearError, offerBiometricLock]
   );
 
   const handleForgotPassword = () => {
-    alert("Funcionalidad próximamente disponible");
+    router.push("/auth/forgot-password");
   };
 
   const handleGoToRegister = () => {
@@ -126,6 +174,11 @@ export default function LoginScreen() {
               subtitle="Descubre y conecta con el Tolima"
               showBackButton={false}
               animated={true}
+              onLogoLongPress={
+                isEnvironmentSwitchEnabled()
+                  ? () => router.push("/developer")
+                  : undefined
+              }
             />
           </Animated.View>
 
@@ -141,6 +194,14 @@ export default function LoginScreen() {
               />
             )}
 
+            {sessionExpiredReason && !submitError && !authError && (
+              <FormError
+                errors={SESSION_EXPIRED_MESSAGES[sessionExpiredReason]}
+                variant="warning"
+                animated={true}
+              />
+            )}
+
             <Controller
               control={control}
               name="email"
@@ -1,6 +1,6 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { router } from "expo-router";
-import { Lock, Mail, User } from "lucide-react-native";
+import { Hash, Lock, Mail, User } from "lucide-react-native";
 import React, { useState } from "react";
 import { Controller, useForm } from "react-hook-form";
 import {
@@ -22,11 +22,15 @@ import {
   TextInputField,
   Toggle,
 } from "@/components/auth";
+import { BusinessCategoryPicker } from "@/components/business";
 import { theme } from "@/constants/design-tokens";
 import { globalStyles } from "@/constants/global-styles";
 import { LocationData } from "@/constants/locations";
 import { useAuth } from "@/context/auth-context";
-import { formatColombianPhone, registerSchema } from "@/lib/validations";
+import { useCurrentMunicipality } from "@/context/municipality-context";
+import { formatPhoneInput, registerSchema } from "@/lib/validations";
+import { formatNit } from "@/services/business-service";
+import { buildRegisterConsents } from "@/services/privacy-service";
 
 /**
  * TolimaGO - Register Screen
@@ -38,6 +42,7 @@ export default function RegisterScreen() {
   const [submitError, setSubmitError] = useState<string | null>(null);
 
   const { register, error: authError, clearError } = useAuth();
+  const { detectedMunicipality } = useCurrentMunicipality();
 
   const {
     control,
@@ -63,11 +68,14 @@ export default function RegisterScreen() {
         city: "",
         isTolima: false,
       } as LocationData,
+      isBusiness: false,
+      nit: "",
     },
   });
 
   const acceptTerms = watch("acceptTerms");
   const isResident = watch("isResident");
+  const isBusiness = watch("isBusiness");
 
   const onSubmit = async (data: any) => {
     try {
@@ -82,12 +90,18 @@ export default function RegisterScreen() {
         phone: data.phone?.trim() || undefined,
         city: data.location?.city?.trim() || undefined,
         isResident: data.isResident,
-        role: "user" as const,
+        role: data.isBusiness ? ("business" as const) : ("user" as const),
+        business: data.isBusiness
+          ? { nit: formatNit(data.nit), category: data.businessCategory }
+          : undefined,
+        // Queda en el registro de consentimientos (Habeas Data)
+        consents: buildRegisterConsents(),
       };
 
       await register(registerData);
 
-      router.replace("/auth/login");
+      // Cuenta creada: pedir verificación del email antes de continuar
+      router.replace("/auth/verify-email");
     } catch (error: any) {
       console.error("Register error:", error);
 
@@ -116,34 +130,6 @@ export default function RegisterScreen() {
     router.back();
   };
 
-  const handlePhoneChange = (text: string) => {
-    // Si el usuario trata de borrar todo, mantener el prefijo +57
-    if (text.length < 4) {
-      return "+57 ";
-    }
-
-    // Si no empieza con +57, agregarlo automáticamente
-    if (!text.startsWith("+57")) {
-      // Si empieza con 57, agregar el +
-      if (text.startsWith("57")) {
-        text = "+" + text;
-      } else if (
-        text.startsWith("3") ||
-        text.startsWith("6") ||
-        text.startsWith("1")
-      ) {
-        // Si empieza con números colombianos típicos, agregar +57
-        text = "+57 " + text;
-      } else {
-        // Para cualquier otro caso, forzar el prefijo
-        text = "+57 " + text.replace(/^\+?57?\s?/, "");
-      }
-    }
-
-    const formatted = formatColombianPhone(text);
-    return formatted;
-  };
-
   React.useEffect(() => {
     clearError();
     setSubmitError(null);
@@ -286,7 +272,7 @@ export default function RegisterScreen() {
                 <TextInputField
                   label="Teléfono"
                   value={value || "+57 "}
-                  onChangeText={(text) => onChange(handlePhoneChange(text))}
+                  onChangeText={(text) => onChange(formatPhoneInput(text))}
                   onBlur={onBlur}
                   error={errors.phone?.message}
                   leftIcon={
@@ -337,10 +323,11 @@ export default function RegisterScreen() {
                     // Si cambia de residente, actualizar la ubicación
                     if (newValue) {
                       // Si marca como residente, reset location para Tolima
+                      // con el municipio detectado por ubicación, si lo hay
                       setValue("location", {
                         country: "CO",
                         state: "Tolima",
-                        city: "",
+                        city: detectedMunicipality ?? "",
                         isTolima: true,
                       });
                     } else {
@@ -360,6 +347,60 @@ export default function RegisterScreen() {
               )}
             />
 
+            <Controller
+              control={control}
+              name="isBusiness"
+              render={({ field: { onChange, value } }) => (
+                <Toggle
+                  value={value ?? false}
+                  onValueChange={onChange}
+                  label="Registrar mi negocio"
+                  description="Hoteles, restaurantes y operadores turísticos administran su ficha en TolimaGO"
+                  testID="register-business-toggle"
+                />
+              )}
+            />
+
+            {isBusiness && (
+              <View style={styles.businessContainer}>
+                <Controller
+                  control={control}
+                  name="nit"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInputField
+                      label="NIT"
+                      value={value ?? ""}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      error={errors.nit?.message}
+                      leftIcon={
+                        <Hash size={20} color={theme.colors.text.secondary} />
+                      }
+                      keyboardType="numbers-and-punctuation"
+                      placeholder="900123456-8"
+                      helperText="Incluye el dígito de verificación"
+                      required
+                      testID="register-nit-input"
+                    />
+                  )}
+                />
+
+                <Text style={styles.businessLabel}>Tipo de negocio</Text>
+                <Controller
+                  control={control}
+                  name="businessCategory"
+                  render={({ field: { onChange, value } }) => (
+                    <BusinessCategoryPicker
+                      value={value}
+                      onChange={onChange}
+                      error={errors.businessCategory?.message}
+                      testID="register-business-category"
+                    />
+                  )}
+                />
+              </View>
+            )}
+
             <Controller
               control={control}
               name="acceptTerms"
@@ -427,6 +468,18 @@ const styles = StyleSheet.create({
     paddingTop: theme.spacing[4],
   },
 
+  businessContainer: {
+    marginBottom: theme.spacing[2],
+  },
+
+  businessLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+
   termsContainer: {
     marginVertical: theme.spacing[2],
   },
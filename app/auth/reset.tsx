@@ -0,0 +1,338 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router, useLocalSearchParams } from "expo-router";
+import { CheckCircle, Clock, Lock, XCircle } from "lucide-react-native";
+import React, { useCallback, useEffect, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import Animated, { FadeInDown, FadeInUp } from "react-native-reanimated";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  AuthHeader,
+  FormError,
+  PasswordStrengthMeter,
+  PrimaryButton,
+  TextInputField,
+} from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { ResetPasswordFormData, resetPasswordSchema } from "@/lib/validations";
+import { authService } from "@/services/auth-service";
+
+/**
+ * TolimaGO - Reset Password Screen
+ * Se abre desde el enlace tolimago://auth/reset?token=… enviado por correo
+ */
+
+type ResetScreenStatus = "checking" | "ready" | "expired" | "invalid" | "done";
+
+const STATUS_CONTENT = {
+  expired: {
+    title: "El enlace expiró",
+    description:
+      "Por seguridad, los enlaces de recuperación son válidos por tiempo limitado. Solicita uno nuevo para continuar.",
+  },
+  invalid: {
+    title: "Enlace inválido",
+    description:
+      "Este enlace no es válido o ya fue utilizado. Solicita un nuevo enlace de recuperación.",
+  },
+  done: {
+    title: "¡Contraseña actualizada!",
+    description:
+      "Tu contraseña se cambió correctamente. Ya puedes iniciar sesión con tu nueva contraseña.",
+  },
+} as const;
+
+export default function ResetPasswordScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const [status, setStatus] = useState<ResetScreenStatus>("checking");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+    watch,
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    mode: "onBlur",
+    defaultValues: {
+      token: token ?? "",
+      newPassword: "",
+      confirmNewPassword: "",
+    },
+  });
+
+  const newPassword = watch("newPassword");
+
+  // Validar el token al abrir el enlace
+  useEffect(() => {
+    if (!token) {
+      setStatus("invalid");
+      return;
+    }
+
+    let cancelled = false;
+
+    authService.checkResetToken(token).then((tokenStatus) => {
+      if (cancelled) return;
+      setStatus(tokenStatus === "valid" ? "ready" : tokenStatus);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const onSubmit = useCallback(async (data: ResetPasswordFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      await authService.confirmPasswordReset({
+        token: data.token,
+        newPassword: data.newPassword,
+      });
+
+      setStatus("done");
+    } catch (error: any) {
+      console.error("Password reset confirmation error:", error);
+
+      const tokenStatus = authService.getTokenErrorStatus(error);
+      if (tokenStatus === "expired" || tokenStatus === "invalid") {
+        setStatus(tokenStatus);
+        return;
+      }
+
+      setSubmitError(
+        error.code === "ERR_NETWORK"
+          ? "Error de conexión. Verifica tu internet"
+          : error.message || "No pudimos actualizar tu contraseña."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  const renderStatus = () => {
+    if (status === "checking") {
+      return (
+        <View style={styles.statusContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+          <Text style={styles.statusDescription}>Verificando enlace...</Text>
+        </View>
+      );
+    }
+
+    if (status === "ready") return null;
+
+    const content = STATUS_CONTENT[status];
+    const Icon =
+      status === "done" ? CheckCircle : status === "expired" ? Clock : XCircle;
+    const iconColor =
+      status === "done"
+        ? theme.colors.success.main
+        : status === "expired"
+        ? theme.colors.warning.main
+        : theme.colors.error.main;
+
+    return (
+      <View style={styles.statusContainer}>
+        <Icon size={64} color={iconColor} />
+        <Text style={styles.statusTitle}>{content.title}</Text>
+        <Text style={styles.statusDescription}>{content.description}</Text>
+
+        {status === "done" ? (
+          <PrimaryButton
+            title="Iniciar sesión"
+            onPress={() => router.replace("/auth/login")}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="reset-password-login-button"
+          />
+        ) : (
+          <PrimaryButton
+            title="Solicitar nuevo enlace"
+            onPress={() => router.replace("/auth/forgot-password")}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="reset-password-request-new-button"
+          />
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 0 : 20}
+      >
+        <ScrollView
+          style={styles.scrollContainer}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <Animated.View entering={FadeInUp.duration(600)}>
+            <AuthHeader
+              title="Nueva contraseña"
+              subtitle={
+                status === "ready"
+                  ? "Crea una contraseña segura que no uses en otros sitios"
+                  : undefined
+              }
+              showBackButton={true}
+              onBackPress={() => router.replace("/auth/login")}
+              animated={true}
+            />
+          </Animated.View>
+
+          <Animated.View
+            style={styles.formContainer}
+            entering={FadeInDown.delay(300).duration(600)}
+          >
+            {renderStatus()}
+
+            {status === "ready" && (
+              <>
+                {submitError && (
+                  <FormError
+                    errors={submitError}
+                    variant="error"
+                    animated={true}
+                  />
+                )}
+
+                <Controller
+                  control={control}
+                  name="newPassword"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInputField
+                      label="Nueva contraseña"
+                      value={value}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      error={errors.newPassword?.message}
+                      leftIcon={
+                        <Lock size={20} color={theme.colors.text.secondary} />
+                      }
+                      secureTextEntry={true}
+                      showPasswordToggle={true}
+                      placeholder="Mínimo 6 caracteres"
+                      required
+                      testID="reset-password-new-input"
+                    />
+                  )}
+                />
+
+                <PasswordStrengthMeter
+                  password={newPassword}
+                  testID="reset-password-strength"
+                />
+
+                <Controller
+                  control={control}
+                  name="confirmNewPassword"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInputField
+                      label="Confirmar contraseña"
+                      value={value}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      error={errors.confirmNewPassword?.message}
+                      leftIcon={
+                        <Lock size={20} color={theme.colors.text.secondary} />
+                      }
+                      secureTextEntry={true}
+                      showPasswordToggle={true}
+                      placeholder="Repite tu nueva contraseña"
+                      required
+                      testID="reset-password-confirm-input"
+                    />
+                  )}
+                />
+
+                <PrimaryButton
+                  title="Guardar contraseña"
+                  onPress={handleSubmit(onSubmit)}
+                  loading={isSubmitting}
+                  disabled={!isValid || isSubmitting}
+                  variant="primary"
+                  size="large"
+                  fullWidth={true}
+                  containerStyle={styles.submitButton}
+                  testID="reset-password-submit-button"
+                />
+              </>
+            )}
+          </Animated.View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  scrollContainer: {
+    flex: 1,
+  },
+
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: theme.spacing[6],
+    paddingVertical: theme.spacing[4],
+  },
+
+  formContainer: {
+    flex: 1,
+    justifyContent: "center",
+    paddingTop: theme.spacing[4],
+  },
+
+  statusContainer: {
+    alignItems: "center",
+    paddingVertical: theme.spacing[6],
+  },
+
+  statusTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[3],
+    textAlign: "center",
+  },
+
+  statusDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+    marginBottom: theme.spacing[6],
+  },
+
+  submitButton: {
+    marginTop: theme.spacing[4],
+  },
+});
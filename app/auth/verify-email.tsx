@@ -0,0 +1,344 @@
+import { router, useLocalSearchParams } from "expo-router";
+import { CheckCircle, Clock, MailWarning, XCircle } from "lucide-react-native";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import Animated, { FadeInDown, FadeInUp } from "react-native-reanimated";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { AuthHeader, FormError, PrimaryButton } from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuth } from "@/context/auth-context";
+import { authService } from "@/services/auth-service";
+
+/**
+ * TolimaGO - Verify Email Screen
+ * Interstitial "verifica tu email" y destino del enlace tolimago://auth/verify-email?token=…
+ */
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+type VerifyScreenStatus =
+  | "pending"
+  | "verifying"
+  | "verified"
+  | "expired"
+  | "invalid";
+
+const STATUS_CONTENT = {
+  verified: {
+    title: "¡Email verificado!",
+    description:
+      "Tu cuenta está verificada. Ya puedes enviar reportes y solicitar trámites.",
+  },
+  expired: {
+    title: "El enlace expiró",
+    description:
+      "Solicita un nuevo correo de verificación desde la app para continuar.",
+  },
+  invalid: {
+    title: "Enlace inválido",
+    description:
+      "Este enlace no es válido o ya fue utilizado. Solicita un nuevo correo de verificación.",
+  },
+} as const;
+
+export default function VerifyEmailScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const {
+    user,
+    isAuthenticated,
+    verifyEmail,
+    resendVerification,
+    refreshUser,
+  } = useAuth();
+
+  const [status, setStatus] = useState<VerifyScreenStatus>(
+    token ? "verifying" : "pending"
+  );
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{
+    text: string;
+    variant: "error" | "info";
+  } | null>(null);
+  const [cooldown, setCooldown] = useState(0);
+
+  // Verificación automática al abrir el enlace del correo
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+
+    verifyEmail(token)
+      .then(() => {
+        if (!cancelled) setStatus("verified");
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        const tokenStatus = authService.getTokenErrorStatus(error);
+        setStatus(tokenStatus === "expired" ? "expired" : "invalid");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, verifyEmail]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+
+    const timer = setTimeout(() => setCooldown((value) => value - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleResend = useCallback(async () => {
+    if (cooldown > 0) return;
+
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      await resendVerification();
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      setMessage({
+        text: "Te enviamos un nuevo correo de verificación.",
+        variant: "info",
+      });
+    } catch (error: any) {
+      setMessage({
+        text: error.message || "No pudimos reenviar el correo.",
+        variant: "error",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  }, [cooldown, resendVerification]);
+
+  const handleAlreadyVerified = useCallback(async () => {
+    setIsWorking(true);
+    setMessage(null);
+
+    const updatedUser = await refreshUser();
+    setIsWorking(false);
+
+    if (updatedUser?.isEmailVerified) {
+      setStatus("verified");
+    } else {
+      setMessage({
+        text: "Aún no hemos recibido la confirmación. Revisa tu bandeja de entrada o spam.",
+        variant: "error",
+      });
+    }
+  }, [refreshUser]);
+
+  const handleContinue = () => {
+    router.replace(isAuthenticated ? "/(tabs)" : "/auth/login");
+  };
+
+  const renderResult = () => {
+    if (status === "verifying") {
+      return (
+        <View style={styles.statusContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+          <Text style={styles.description}>Verificando tu email...</Text>
+        </View>
+      );
+    }
+
+    if (status === "pending") return null;
+
+    const content = STATUS_CONTENT[status];
+    const Icon =
+      status === "verified"
+        ? CheckCircle
+        : status === "expired"
+        ? Clock
+        : XCircle;
+    const iconColor =
+      status === "verified"
+        ? theme.colors.success.main
+        : status === "expired"
+        ? theme.colors.warning.main
+        : theme.colors.error.main;
+
+    return (
+      <View style={styles.statusContainer}>
+        <Icon size={64} color={iconColor} />
+        <Text style={styles.title}>{content.title}</Text>
+        <Text style={styles.description}>{content.description}</Text>
+
+        {status !== "verified" && isAuthenticated && (
+          <PrimaryButton
+            title={
+              cooldown > 0 ? `Reenviar en ${cooldown}s` : "Reenviar correo"
+            }
+            onPress={handleResend}
+            loading={isWorking}
+            disabled={cooldown > 0 || isWorking}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            containerStyle={styles.button}
+            testID="verify-email-resend-button"
+          />
+        )}
+
+        <PrimaryButton
+          title={isAuthenticated ? "Continuar" : "Iniciar sesión"}
+          onPress={handleContinue}
+          variant={status === "verified" ? "primary" : "outline"}
+          size="large"
+          fullWidth={true}
+          testID="verify-email-continue-button"
+        />
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInUp.duration(600)}>
+          <AuthHeader
+            title="Verifica tu email"
+            showLogo={false}
+            showBackButton={false}
+            animated={true}
+          />
+        </Animated.View>
+
+        <Animated.View
+          style={styles.content}
+          entering={FadeInDown.delay(300).duration(600)}
+        >
+          {message && (
+            <FormError
+              errors={message.text}
+              variant={message.variant}
+              animated={true}
+            />
+          )}
+
+          {renderResult()}
+
+          {status === "pending" && (
+            <View style={styles.statusContainer}>
+              <View style={styles.iconCircle}>
+                <MailWarning size={48} color={theme.colors.primary.main} />
+              </View>
+              <Text style={styles.description}>
+                Enviamos un enlace de verificación a{" "}
+                <Text style={styles.email}>{user?.email ?? "tu correo"}</Text>.
+                Puedes explorar la app mientras tanto, pero necesitas verificar
+                tu cuenta para enviar reportes o solicitar trámites.
+              </Text>
+
+              <PrimaryButton
+                title="Ya verifiqué mi email"
+                onPress={handleAlreadyVerified}
+                loading={isWorking}
+                disabled={isWorking}
+                variant="primary"
+                size="large"
+                fullWidth={true}
+                containerStyle={styles.button}
+                testID="verify-email-check-button"
+              />
+
+              <PrimaryButton
+                title={
+                  cooldown > 0 ? `Reenviar en ${cooldown}s` : "Reenviar correo"
+                }
+                onPress={handleResend}
+                disabled={cooldown > 0 || isWorking}
+                variant="outline"
+                size="large"
+                fullWidth={true}
+                containerStyle={styles.button}
+                testID="verify-email-resend-button"
+              />
+
+              <Text style={styles.skipLink} onPress={handleContinue}>
+                Verificar más tarde
+              </Text>
+            </View>
+          )}
+        </Animated.View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: theme.spacing[6],
+    paddingVertical: theme.spacing[4],
+  },
+
+  content: {
+    flex: 1,
+    justifyContent: "center",
+  },
+
+  statusContainer: {
+    alignItems: "center",
+    paddingVertical: theme.spacing[4],
+  },
+
+  iconCircle: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary.light,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: theme.spacing[4],
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+    textAlign: "center",
+  },
+
+  description: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    lineHeight:
+      theme.typography.lineHeight.normal * theme.typography.fontSize.base,
+    marginTop: theme.spacing[3],
+    marginBottom: theme.spacing[6],
+  },
+
+  email: {
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  button: {
+    marginBottom: theme.spacing[3],
+  },
+
+  skipLink: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+    textDecorationLine: "underline",
+    marginTop: theme.spacing[2],
+  },
+});
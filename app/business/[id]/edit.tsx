@@ -0,0 +1,76 @@
+import { router, useLocalSearchParams } from "expo-router";
+import React from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { ListingForm } from "@/components/business";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useListing } from "@/hooks/use-business";
+import { ListingFormData } from "@/lib/validations";
+import { businessService } from "@/services/business-service";
+
+/**
+ * TolimaGO - Edit Listing Screen
+ * Datos generales y de contacto de la ficha
+ */
+
+export default function EditListingScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { listing, isLoading, error } = useListing(id);
+
+  const handleSubmit = async (data: ListingFormData) => {
+    await businessService.updateListing(id, data);
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Datos y contacto" subtitle={listing?.name} />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : !listing ? (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se pudo cargar la ficha"}
+            variant="error"
+          />
+        </View>
+      ) : (
+        <ListingForm
+          defaultValues={{
+            name: listing.name,
+            category: listing.category,
+            municipality: listing.municipality,
+            address: listing.address,
+            description: listing.description,
+            phone: listing.phone ?? "",
+            whatsapp: listing.whatsapp ?? "",
+            email: listing.email ?? "",
+            website: listing.website ?? "",
+          }}
+          submitTitle="Guardar cambios"
+          onSubmit={handleSubmit}
+          errorFallback="No se pudo guardar la ficha"
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+});
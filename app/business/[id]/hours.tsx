@@ -0,0 +1,240 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  FormError,
+  PrimaryButton,
+  TextInputField,
+  Toggle,
+} from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { WEEKDAY_IDS, WEEKDAY_LABELS } from "@/constants/business";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useListing } from "@/hooks/use-business";
+import { ListingHoursFormData, listingHoursSchema } from "@/lib/validations";
+import { BusinessListing, businessService } from "@/services/business-service";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Listing Hours Screen
+ * Horario de atención por día de la semana
+ */
+
+const DEFAULT_OPENS = "08:00";
+const DEFAULT_CLOSES = "18:00";
+
+/**
+ * Inserta los dos puntos mientras se escribe la hora (HH:MM)
+ */
+const formatTimeInput = (text: string) => {
+  const digits = text.replace(/\D/g, "").slice(0, 4);
+  return digits.length > 2
+    ? `${digits.slice(0, 2)}:${digits.slice(2)}`
+    : digits;
+};
+
+function HoursForm({ listing }: { listing: BusinessListing }) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors, isValid, isDirty },
+  } = useForm<ListingHoursFormData>({
+    resolver: zodResolver(listingHoursSchema),
+    mode: "onChange",
+    defaultValues: {
+      // Siempre los siete días en orden, aunque la ficha no los tenga todos
+      hours: WEEKDAY_IDS.map(
+        (day) =>
+          listing.hours.find((entry) => entry.day === day) ?? {
+            day,
+            isOpen: false,
+            opens: DEFAULT_OPENS,
+            closes: DEFAULT_CLOSES,
+          }
+      ),
+    },
+  });
+
+  const hours = watch("hours");
+
+  const onSubmit = async (data: ListingHoursFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+      await businessService.updateHours(listing.id, data);
+      router.back();
+    } catch (err: any) {
+      console.error("🏪 [Business] Hours update error:", err);
+      setSubmitError(getApiErrorMessage(err, "No se pudo guardar el horario"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardContainer}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {submitError && (
+          <FormError errors={submitError} variant="error" animated={true} />
+        )}
+
+        {WEEKDAY_IDS.map((day, index) => (
+          <View key={day} style={styles.day}>
+            <Controller
+              control={control}
+              name={`hours.${index}.isOpen`}
+              render={({ field: { onChange, value } }) => (
+                <Toggle
+                  value={value}
+                  onValueChange={onChange}
+                  label={WEEKDAY_LABELS[day]}
+                  description={value ? "Abierto" : "Cerrado"}
+                  testID={`hours-${day}-toggle`}
+                />
+              )}
+            />
+
+            {hours[index]?.isOpen && (
+              <View style={styles.times}>
+                <Controller
+                  control={control}
+                  name={`hours.${index}.opens`}
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInputField
+                      label="Abre"
+                      value={value}
+                      onChangeText={(text) => onChange(formatTimeInput(text))}
+                      onBlur={onBlur}
+                      error={errors.hours?.[index]?.opens?.message}
+                      keyboardType="number-pad"
+                      placeholder="08:00"
+                      maxLength={5}
+                      containerStyle={styles.timeField}
+                    />
+                  )}
+                />
+                <Controller
+                  control={control}
+                  name={`hours.${index}.closes`}
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <TextInputField
+                      label="Cierra"
+                      value={value}
+                      onChangeText={(text) => onChange(formatTimeInput(text))}
+                      onBlur={onBlur}
+                      error={errors.hours?.[index]?.closes?.message}
+                      keyboardType="number-pad"
+                      placeholder="18:00"
+                      maxLength={5}
+                      containerStyle={styles.timeField}
+                    />
+                  )}
+                />
+              </View>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <PrimaryButton
+          title="Guardar horario"
+          onPress={handleSubmit(onSubmit)}
+          loading={isSubmitting}
+          disabled={!isValid || !isDirty || isSubmitting}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="hours-submit-button"
+        />
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+export default function ListingHoursScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { listing, isLoading, error } = useListing(id);
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Horarios" subtitle={listing?.name} />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : listing ? (
+        <HoursForm listing={listing} />
+      ) : (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se pudo cargar la ficha"}
+            variant="error"
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  day: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.divider,
+    paddingVertical: theme.spacing[2],
+  },
+
+  times: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+  },
+
+  timeField: {
+    flex: 1,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
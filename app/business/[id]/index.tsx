@@ -0,0 +1,303 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Href, router, useLocalSearchParams } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { ListingStatusBadge, VisitsChart } from "@/components/business";
+import { RatingSummaryCard } from "@/components/reviews";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { BUSINESS_CATEGORIES, LISTING_STATS_DAYS } from "@/constants/business";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useListing, useListingStats } from "@/hooks/use-business";
+import { useRatingSummary } from "@/hooks/use-reviews";
+
+/**
+ * TolimaGO - Listing Dashboard Screen
+ * Estadísticas y calificación de la ficha, y accesos a la edición de cada
+ * sección
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export default function ListingDashboardScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { listing, isLoading, error } = useListing(id);
+  const stats = useListingStats(id);
+  const ratings = useRatingSummary("business", id);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Mi negocio" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!listing) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Mi negocio" />
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se pudo cargar la ficha"}
+            variant="error"
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const category = BUSINESS_CATEGORIES[listing.category];
+  const openDays = listing.hours.filter((entry) => entry.isOpen).length;
+
+  const sections: {
+    icon: IoniconName;
+    label: string;
+    summary: string;
+    href: Href;
+  }[] = [
+    {
+      icon: "create-outline",
+      label: "Datos y contacto",
+      summary: listing.phone || listing.email || "Sin datos de contacto",
+      href: `/business/${listing.id}/edit` as Href,
+    },
+    {
+      icon: "time-outline",
+      label: "Horarios",
+      summary:
+        openDays > 0
+          ? `Abierto ${openDays} ${openDays === 1 ? "día" : "días"} a la semana`
+          : "Sin horario publicado",
+      href: `/business/${listing.id}/hours` as Href,
+    },
+    {
+      icon: "pricetags-outline",
+      label: "Precios",
+      summary:
+        listing.prices.length > 0
+          ? `${listing.prices.length} ${
+              listing.prices.length === 1
+                ? "precio publicado"
+                : "precios publicados"
+            }`
+          : "Sin precios publicados",
+      href: `/business/${listing.id}/prices` as Href,
+    },
+    {
+      icon: "images-outline",
+      label: "Fotos",
+      summary:
+        listing.photos.length > 0
+          ? `${listing.photos.length} ${
+              listing.photos.length === 1 ? "foto" : "fotos"
+            }`
+          : "Sin fotos",
+      href: `/business/${listing.id}/photos` as Href,
+    },
+  ];
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title={listing.name}
+        subtitle={`${category.label} · ${listing.municipality}`}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <ListingStatusBadge status={listing.status} />
+        {listing.status === "pending" && (
+          <Text style={styles.statusNote}>
+            Tu ficha será visible para los visitantes cuando la alcaldía la
+            apruebe.
+          </Text>
+        )}
+
+        <Text style={styles.sectionTitle}>
+          Últimos {LISTING_STATS_DAYS} días
+        </Text>
+        <View style={styles.card}>
+          {stats.isLoading ? (
+            <ActivityIndicator color={theme.colors.primary.main} />
+          ) : stats.error || !stats.stats ? (
+            <FormError
+              errors={stats.error ?? "No se pudieron cargar las estadísticas"}
+              variant="warning"
+            />
+          ) : (
+            <>
+              <View style={styles.totals}>
+                <View style={styles.total}>
+                  <Text style={styles.totalValue}>
+                    {stats.stats.totalVisits.toLocaleString("es-CO")}
+                  </Text>
+                  <Text style={styles.totalLabel}>Visitas a la ficha</Text>
+                </View>
+                <View style={styles.total}>
+                  <Text style={styles.totalValue}>
+                    {stats.stats.totalFavourites.toLocaleString("es-CO")}
+                  </Text>
+                  <Text style={styles.totalLabel}>Guardado en favoritos</Text>
+                </View>
+              </View>
+              <VisitsChart daily={stats.stats.daily} />
+            </>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Reseñas</Text>
+        {ratings.summary && ratings.summary.count > 0 ? (
+          <TouchableOpacity
+            onPress={() =>
+              router.push({
+                pathname: "/reviews/[type]/[id]",
+                params: {
+                  type: "business",
+                  id: listing.id,
+                  name: listing.name,
+                },
+              })
+            }
+            activeOpacity={0.7}
+          >
+            <RatingSummaryCard summary={ratings.summary} />
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.statusNote}>
+            {ratings.error ?? "Tu negocio aún no tiene reseñas."}
+          </Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Tu ficha</Text>
+        <View style={styles.card}>
+          {sections.map((section) => (
+            <TouchableOpacity
+              key={section.label}
+              style={styles.linkRow}
+              onPress={() => router.push(section.href)}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={section.icon}
+                size={20}
+                color={theme.colors.primary.main}
+              />
+              <View style={styles.linkText}>
+                <Text style={styles.linkLabel}>{section.label}</Text>
+                <Text style={styles.linkSummary} numberOfLines={1}>
+                  {section.summary}
+                </Text>
+              </View>
+              <Ionicons
+                name="chevron-forward"
+                size={18}
+                color={theme.colors.text.secondary}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  statusNote: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[2],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[6],
+    marginBottom: theme.spacing[2],
+  },
+
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    padding: theme.spacing[4],
+  },
+
+  totals: {
+    flexDirection: "row",
+    gap: theme.spacing[4],
+    marginBottom: theme.spacing[4],
+  },
+
+  total: {
+    flex: 1,
+  },
+
+  totalValue: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.primary.main,
+  },
+
+  totalLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[3],
+  },
+
+  linkText: {
+    flex: 1,
+  },
+
+  linkLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  linkSummary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,257 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import { useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { PhotoPicker } from "@/components/reports";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { MAX_LISTING_PHOTOS } from "@/constants/business";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useListing } from "@/hooks/use-business";
+import { ReportPhoto } from "@/lib/validations";
+import { businessService, ListingPhoto } from "@/services/business-service";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Listing Photos Screen
+ * Galería de la ficha: subir fotos nuevas y quitar las publicadas
+ */
+
+export default function ListingPhotosScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { listing, isLoading, error, setListing } = useListing(id);
+  const [pending, setPending] = useState<ReportPhoto[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const upload = async () => {
+    try {
+      setIsUploading(true);
+      setActionError(null);
+      setListing(await businessService.uploadPhotos(id, pending));
+      setPending([]);
+    } catch (err: any) {
+      console.error("🏪 [Business] Photo upload error:", err);
+      setActionError(getApiErrorMessage(err, "No se pudieron subir las fotos"));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const removePhoto = async (photo: ListingPhoto) => {
+    try {
+      setRemovingId(photo.id);
+      setActionError(null);
+      setListing(await businessService.deletePhoto(id, photo.id));
+    } catch (err: any) {
+      console.error("🏪 [Business] Photo delete error:", err);
+      setActionError(getApiErrorMessage(err, "No se pudo eliminar la foto"));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const confirmRemove = (photo: ListingPhoto) => {
+    Alert.alert("Eliminar foto", "La foto dejará de verse en tu ficha.", [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Eliminar",
+        style: "destructive",
+        onPress: () => removePhoto(photo),
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Fotos" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!listing) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Fotos" />
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se pudo cargar la ficha"}
+            variant="error"
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const available = MAX_LISTING_PHOTOS - listing.photos.length;
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Fotos"
+        subtitle={`${listing.photos.length} de ${MAX_LISTING_PHOTOS}`}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {actionError && (
+          <FormError errors={actionError} variant="error" animated={true} />
+        )}
+
+        <Text style={styles.sectionTitle}>Publicadas</Text>
+        {listing.photos.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Las fichas con fotos reciben más visitas. Sube fotos de tus
+            instalaciones, platos o recorridos.
+          </Text>
+        ) : (
+          <View style={styles.grid}>
+            {listing.photos.map((photo) => (
+              <View key={photo.id} style={styles.thumbnail}>
+                <Image source={{ uri: photo.url }} style={styles.image} />
+                {removingId === photo.id ? (
+                  <View style={styles.removing}>
+                    <ActivityIndicator color={theme.colors.neutral.white} />
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => confirmRemove(photo)}
+                    hitSlop={8}
+                    accessibilityLabel="Eliminar foto"
+                  >
+                    <Ionicons
+                      name="close"
+                      size={14}
+                      color={theme.colors.neutral.white}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {available > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Agregar fotos</Text>
+            <PhotoPicker
+              photos={pending}
+              onChange={setPending}
+              maxPhotos={available}
+              testID="listing-photo-picker"
+            />
+          </>
+        )}
+      </ScrollView>
+
+      {pending.length > 0 && (
+        <View style={styles.footer}>
+          <PrimaryButton
+            title={`Subir ${pending.length} ${
+              pending.length === 1 ? "foto" : "fotos"
+            }`}
+            onPress={upload}
+            loading={isUploading}
+            disabled={isUploading}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="listing-photos-upload-button"
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+  },
+
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing[3],
+  },
+
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.borderRadius.md,
+    overflow: "hidden",
+  },
+
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+
+  removeButton: {
+    position: "absolute",
+    top: theme.spacing[1],
+    right: theme.spacing[1],
+    width: 24,
+    height: 24,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  removing: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
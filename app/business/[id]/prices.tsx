@@ -0,0 +1,242 @@
+import { Ionicons } from "@expo/vector-icons";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton, TextInputField } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { MAX_LISTING_PRICES } from "@/constants/business";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useListing } from "@/hooks/use-business";
+import { ListingPricesFormData, listingPricesSchema } from "@/lib/validations";
+import { BusinessListing, businessService } from "@/services/business-service";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Listing Prices Screen
+ * Lista de precios de referencia (habitaciones, platos, tours)
+ */
+
+function PricesForm({ listing }: { listing: BusinessListing }) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid, isDirty },
+  } = useForm<ListingPricesFormData>({
+    resolver: zodResolver(listingPricesSchema),
+    mode: "onChange",
+    defaultValues: { prices: listing.prices },
+  });
+
+  // keyName evita que useFieldArray pise el id de cada precio
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "prices",
+    keyName: "fieldKey",
+  });
+
+  const onSubmit = async (data: ListingPricesFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+      await businessService.updatePrices(listing.id, data);
+      router.back();
+    } catch (err: any) {
+      console.error("🏪 [Business] Prices update error:", err);
+      setSubmitError(
+        getApiErrorMessage(err, "No se pudieron guardar los precios")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardContainer}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {submitError && (
+          <FormError errors={submitError} variant="error" animated={true} />
+        )}
+
+        {fields.length === 0 && (
+          <Text style={styles.emptyText}>
+            Publica precios de referencia para que los visitantes planeen su
+            visita.
+          </Text>
+        )}
+
+        {fields.map((field, index) => (
+          <View key={field.fieldKey} style={styles.priceRow}>
+            <View style={styles.priceFields}>
+              <Controller
+                control={control}
+                name={`prices.${index}.label`}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInputField
+                    label="Producto o servicio"
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    error={errors.prices?.[index]?.label?.message}
+                    placeholder="Ej: Habitación doble"
+                    maxLength={60}
+                  />
+                )}
+              />
+              <Controller
+                control={control}
+                name={`prices.${index}.amount`}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInputField
+                    label="Precio (COP)"
+                    value={value ? value.toLocaleString("es-CO") : ""}
+                    onChangeText={(text) =>
+                      onChange(Number(text.replace(/\D/g, "")))
+                    }
+                    onBlur={onBlur}
+                    error={errors.prices?.[index]?.amount?.message}
+                    keyboardType="number-pad"
+                    placeholder="120.000"
+                  />
+                )}
+              />
+            </View>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => remove(index)}
+              hitSlop={8}
+              accessibilityLabel="Quitar precio"
+            >
+              <Ionicons
+                name="trash-outline"
+                size={20}
+                color={theme.colors.error.main}
+              />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        {fields.length < MAX_LISTING_PRICES && (
+          <PrimaryButton
+            title="Agregar precio"
+            onPress={() => append({ label: "", amount: 0 })}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+            testID="prices-add-button"
+          />
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <PrimaryButton
+          title="Guardar precios"
+          onPress={handleSubmit(onSubmit)}
+          loading={isSubmitting}
+          disabled={!isValid || !isDirty || isSubmitting}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="prices-submit-button"
+        />
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+export default function ListingPricesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { listing, isLoading, error } = useListing(id);
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Precios" subtitle={listing?.name} />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : listing ? (
+        <PricesForm listing={listing} />
+      ) : (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se pudo cargar la ficha"}
+            variant="error"
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing[4],
+  },
+
+  priceRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[2],
+    marginBottom: theme.spacing[4],
+    paddingBottom: theme.spacing[2],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.divider,
+  },
+
+  priceFields: {
+    flex: 1,
+  },
+
+  removeButton: {
+    paddingTop: theme.spacing[8],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
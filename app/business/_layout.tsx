@@ -0,0 +1,30 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function BusinessLayout() {
+  // Solo cuentas de comercio administran fichas
+  const { isAuthorized } = useProtectedRoute({
+    requiredPermission: "business:manage",
+  });
+
+  // La redirección no basta: sin permiso no se monta ninguna pantalla
+  if (!isAuthorized) return null;
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="new" />
+      <Stack.Screen name="claim" />
+      <Stack.Screen name="[id]/index" />
+      <Stack.Screen name="[id]/edit" />
+      <Stack.Screen name="[id]/hours" />
+      <Stack.Screen name="[id]/prices" />
+      <Stack.Screen name="[id]/photos" />
+    </Stack>
+  );
+}
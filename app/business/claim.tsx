@@ -0,0 +1,182 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { Search } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, TextInputField } from "@/components/auth";
+import { ListingCard } from "@/components/business";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useClaimableListings } from "@/hooks/use-business";
+import { BusinessListing, businessService } from "@/services/business-service";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Claim Listing Screen
+ * Busca un negocio que ya aparece en el directorio y solicita administrarlo
+ */
+
+export default function ClaimListingScreen() {
+  const [query, setQuery] = useState("");
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [claimError, setClaimError] = useState<string | null>(null);
+  const { results, isSearching, error, canSearch } =
+    useClaimableListings(query);
+
+  const claim = async (listing: BusinessListing) => {
+    try {
+      setClaimingId(listing.id);
+      setClaimError(null);
+      await businessService.claimListing(listing.id);
+      router.replace({
+        pathname: "/business/[id]",
+        params: { id: listing.id },
+      });
+    } catch (err: any) {
+      console.error("🏪 [Business] Claim failed:", err);
+      setClaimError(getApiErrorMessage(err, "No se pudo reclamar la ficha"));
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const confirmClaim = (listing: BusinessListing) => {
+    Alert.alert(
+      "Reclamar negocio",
+      `Validaremos que el NIT de tu cuenta corresponda a "${listing.name}" antes de darte acceso.`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Reclamar", onPress: () => claim(listing) },
+      ]
+    );
+  };
+
+  const renderEmpty = () => {
+    if (isSearching || error) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons
+          name="search-outline"
+          size={48}
+          color={theme.colors.text.secondary}
+        />
+        <Text style={styles.emptyDescription}>
+          {canSearch
+            ? "No encontramos negocios sin administrador con ese nombre. Puedes crear su ficha desde tu panel."
+            : "Escribe al menos 3 letras del nombre de tu negocio."}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Reclamar negocio"
+        subtitle="Administra una ficha que ya existe"
+      />
+
+      <View style={styles.searchContainer}>
+        <TextInputField
+          label="Nombre del negocio"
+          value={query}
+          onChangeText={setQuery}
+          leftIcon={<Search size={20} color={theme.colors.text.secondary} />}
+          placeholder="Ej: Restaurante El Fogón"
+          autoCorrect={false}
+          testID="claim-search-input"
+        />
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <View>
+            <ListingCard
+              listing={item}
+              showStatus={false}
+              onPress={() => confirmClaim(item)}
+            />
+            {claimingId === item.id && (
+              <View style={styles.claimingOverlay}>
+                <ActivityIndicator color={theme.colors.primary.main} />
+              </View>
+            )}
+          </View>
+        )}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <>
+            {(claimError || error) && (
+              <FormError
+                errors={claimError || error || ""}
+                variant="error"
+                animated={true}
+              />
+            )}
+            {isSearching && (
+              <ActivityIndicator
+                style={styles.searching}
+                color={theme.colors.primary.main}
+              />
+            )}
+          </>
+        }
+        ListEmptyComponent={renderEmpty}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  searchContainer: {
+    paddingHorizontal: theme.spacing[4],
+    paddingTop: theme.spacing[4],
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    flexGrow: 1,
+  },
+
+  searching: {
+    marginVertical: theme.spacing[4],
+  },
+
+  claimingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: "rgba(255, 255, 255, 0.7)",
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+});
@@ -0,0 +1,152 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ListingCard } from "@/components/business";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useMyListings } from "@/hooks/use-business";
+
+/**
+ * TolimaGO - Business Dashboard Screen
+ * Fichas que administra el comercio y accesos para crear o reclamar una
+ */
+
+export default function BusinessDashboardScreen() {
+  const { listings, isLoading, isRefreshing, error, refresh } = useMyListings();
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Mi negocio"
+        subtitle="Administra tus fichas en TolimaGO"
+      />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : (
+        <FlatList
+          data={listings}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <ListingCard
+              listing={item}
+              onPress={() =>
+                router.push({
+                  pathname: "/business/[id]",
+                  params: { id: item.id },
+                })
+              }
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListHeaderComponent={
+            error ? (
+              <FormError errors={error} variant="error" animated={true} />
+            ) : null
+          }
+          ListEmptyComponent={
+            error ? null : (
+              <View style={styles.emptyContainer}>
+                <Ionicons
+                  name="storefront-outline"
+                  size={48}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.emptyTitle}>Aún no tienes fichas</Text>
+                <Text style={styles.emptyDescription}>
+                  Si tu negocio ya aparece en TolimaGO, reclámalo. Si no, crea
+                  su ficha para que los visitantes te encuentren.
+                </Text>
+              </View>
+            )
+          }
+        />
+      )}
+
+      <View style={styles.footer}>
+        <PrimaryButton
+          title="Crear ficha"
+          onPress={() => router.push("/business/new")}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="business-new-button"
+        />
+        <PrimaryButton
+          title="Reclamar negocio existente"
+          onPress={() => router.push("/business/claim")}
+          variant="outline"
+          size="large"
+          fullWidth={true}
+          testID="business-claim-button"
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    flexGrow: 1,
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
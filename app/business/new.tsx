@@ -0,0 +1,36 @@
+import { router } from "expo-router";
+import React from "react";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { ListingForm } from "@/components/business";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { globalStyles } from "@/constants/global-styles";
+import { ListingFormData } from "@/lib/validations";
+import { businessService } from "@/services/business-service";
+
+/**
+ * TolimaGO - New Listing Screen
+ * Crea la ficha de un negocio que aún no aparece en TolimaGO
+ */
+
+export default function NewListingScreen() {
+  const handleSubmit = async (data: ListingFormData) => {
+    const listing = await businessService.createListing(data);
+    router.replace({ pathname: "/business/[id]", params: { id: listing.id } });
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Crear ficha"
+        subtitle="La revisaremos antes de publicarla"
+      />
+
+      <ListingForm
+        submitTitle="Crear ficha"
+        onSubmit={handleSubmit}
+        errorFallback="No se pudo crear la ficha"
+      />
+    </SafeAreaView>
+  );
+}
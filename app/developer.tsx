@@ -0,0 +1,188 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  ENVIRONMENT_NAMES,
+  EnvironmentName,
+  getActiveEnvironment,
+  getEnvironmentProfiles,
+  isEnvironmentSwitchEnabled,
+  setActiveEnvironment,
+} from "@/config/environment";
+import { colors, spacing, typography } from "@/constants/design-tokens";
+import { useAuth } from "@/context/auth-context";
+
+/**
+ * TolimaGO - Developer Screen
+ * Pantalla oculta para cambiar el entorno de la API en tiempo de ejecución
+ * (se abre con una pulsación larga sobre el logo del login)
+ */
+
+export default function DeveloperScreen() {
+  const router = useRouter();
+  const { isAuthenticated, logout } = useAuth();
+  const [activeEnvironment, setActive] = useState<EnvironmentName>(
+    getActiveEnvironment()
+  );
+  const profiles = getEnvironmentProfiles();
+  const switchEnabled = isEnvironmentSwitchEnabled();
+
+  const applyEnvironment = async (environment: EnvironmentName) => {
+    try {
+      // Los tokens de un entorno no son válidos en otro. El logout (y la baja
+      // del token push) va al servidor que emitió la sesión, antes de cambiar
+      if (isAuthenticated) {
+        await logout();
+      }
+
+      await setActiveEnvironment(environment);
+      setActive(environment);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "No se pudo cambiar el entorno");
+    }
+  };
+
+  const handleSelect = (environment: EnvironmentName) => {
+    if (environment === activeEnvironment) return;
+
+    Alert.alert(
+      "Cambiar entorno",
+      `La app usará ${profiles[environment].apiBaseUrl}.${
+        isAuthenticated ? " Se cerrará la sesión actual." : ""
+      }`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Cambiar", onPress: () => applyEnvironment(environment) },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Opciones de desarrollador</Text>
+        <View />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Entorno de la API</Text>
+        {!switchEnabled && (
+          <Text style={styles.disabledNotice}>
+            El cambio de entorno está deshabilitado en esta compilación.
+          </Text>
+        )}
+
+        {ENVIRONMENT_NAMES.map((environment) => {
+          const profile = profiles[environment];
+          const isActive = environment === activeEnvironment;
+
+          return (
+            <TouchableOpacity
+              key={environment}
+              style={[styles.option, isActive && styles.optionActive]}
+              onPress={() => handleSelect(environment)}
+              disabled={!switchEnabled}
+              activeOpacity={0.7}
+            >
+              <View style={styles.optionText}>
+                <Text style={styles.optionLabel}>{profile.label}</Text>
+                <Text style={styles.optionUrl}>{profile.apiBaseUrl}</Text>
+              </View>
+              {isActive && (
+                <Ionicons
+                  name="checkmark-circle"
+                  size={24}
+                  color={colors.primary.main}
+                />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral.background,
+  },
+
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: spacing[6],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral.border,
+  },
+
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.semiBold,
+    color: colors.text.primary,
+  },
+
+  content: {
+    padding: spacing[6],
+  },
+
+  sectionTitle: {
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semiBold,
+    color: colors.text.secondary,
+    marginBottom: spacing[4],
+  },
+
+  disabledNotice: {
+    fontSize: typography.fontSize.sm,
+    color: colors.warning.dark,
+    marginBottom: spacing[4],
+  },
+
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: spacing[4],
+    marginBottom: spacing[3],
+    borderRadius: spacing[3],
+    borderWidth: 1,
+    borderColor: colors.neutral.border,
+    backgroundColor: colors.neutral.white,
+  },
+
+  optionActive: {
+    borderColor: colors.primary.main,
+    backgroundColor: colors.primary.light,
+  },
+
+  optionText: {
+    flex: 1,
+  },
+
+  optionLabel: {
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semiBold,
+    color: colors.text.primary,
+  },
+
+  optionUrl: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginTop: spacing[1],
+  },
+});
@@ -0,0 +1,345 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import { useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { FavouriteButton } from "@/components/favourites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { EVENT_CATEGORIES, REMINDER_OPTIONS } from "@/constants/events";
+import { globalStyles } from "@/constants/global-styles";
+import { useEvent, useEventReminders } from "@/hooks/use-events";
+import {
+  formatEventSchedule,
+  getReminderDate,
+  toEventIcsEvent,
+} from "@/lib/event-calendar";
+import { shareIcsFile } from "@/lib/ics";
+
+/**
+ * TolimaGO - Event Detail Screen
+ * Detalle de un evento con recordatorio y exportación al calendario
+ */
+
+export default function EventDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { event, isLoading, error, reload } = useEvent(id);
+  const { getReminder, schedule, cancel } = useEventReminders();
+  const [isUpdatingReminder, setIsUpdatingReminder] = useState(false);
+
+  const reminder = event ? getReminder(event.id) : null;
+
+  const runReminderTask = async (task: () => Promise<void>) => {
+    setIsUpdatingReminder(true);
+    try {
+      await task();
+    } catch (err: any) {
+      Alert.alert(
+        "Recordatorio",
+        err?.message || "No se pudo programar el recordatorio"
+      );
+    } finally {
+      setIsUpdatingReminder(false);
+    }
+  };
+
+  const handleReminder = () => {
+    if (!event) return;
+
+    if (reminder) {
+      Alert.alert("Recordatorio", "¿Quitar el recordatorio de este evento?", [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Quitar",
+          style: "destructive",
+          onPress: () => runReminderTask(() => cancel(event.id)),
+        },
+      ]);
+      return;
+    }
+
+    // Solo las opciones que todavía no han pasado
+    const options = REMINDER_OPTIONS.filter(
+      (option) => getReminderDate(event, option.minutes).getTime() > Date.now()
+    );
+    if (options.length === 0) {
+      Alert.alert("Recordatorio", "El evento ya empezó o está por empezar.");
+      return;
+    }
+
+    Alert.alert("Recordarme", "¿Cuándo quieres que te avisemos?", [
+      ...options.map((option) => ({
+        text: option.label,
+        onPress: () => runReminderTask(() => schedule(event, option.minutes)),
+      })),
+      { text: "Cancelar", style: "cancel" as const },
+    ]);
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!event) return;
+
+    try {
+      await shareIcsFile(event.title, [toEventIcsEvent(event)]);
+    } catch (err: any) {
+      console.error("🎉 [Events] Calendar export error:", err);
+      Alert.alert(
+        "Calendario",
+        err?.message || "No se pudo exportar el evento"
+      );
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !event) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró el evento"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={reload}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    const category = EVENT_CATEGORIES[event.category];
+    const facts = [
+      { icon: "calendar-outline" as const, text: formatEventSchedule(event) },
+      {
+        icon: "location-outline" as const,
+        text: [event.venue, event.municipality].filter(Boolean).join(", "),
+      },
+      ...(event.fee
+        ? [{ icon: "cash-outline" as const, text: event.fee }]
+        : []),
+      ...(event.organizer
+        ? [{ icon: "people-outline" as const, text: event.organizer }]
+        : []),
+    ];
+
+    return (
+      <>
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {event.imageUrl ? (
+            <Image
+              source={{ uri: event.imageUrl }}
+              style={styles.cover}
+              contentFit="cover"
+              transition={200}
+            />
+          ) : (
+            <View
+              style={[
+                styles.cover,
+                styles.placeholder,
+                { backgroundColor: `${category.color}1A` },
+              ]}
+            >
+              <Ionicons name={category.icon} size={56} color={category.color} />
+            </View>
+          )}
+
+          <View style={styles.content}>
+            <View style={styles.categoryRow}>
+              <Ionicons name={category.icon} size={18} color={category.color} />
+              <Text style={[styles.categoryText, { color: category.color }]}>
+                {category.label}
+              </Text>
+            </View>
+            <Text style={styles.title}>{event.title}</Text>
+
+            <View style={styles.facts}>
+              {facts.map((fact) => (
+                <View key={fact.icon} style={styles.fact}>
+                  <Ionicons
+                    name={fact.icon}
+                    size={18}
+                    color={theme.colors.primary.main}
+                  />
+                  <Text style={styles.factText}>{fact.text}</Text>
+                </View>
+              ))}
+            </View>
+
+            {reminder && (
+              <FormError
+                errors={`Te avisaremos el ${new Date(
+                  reminder.remindAt
+                ).toLocaleString("es-CO", {
+                  weekday: "long",
+                  day: "numeric",
+                  month: "long",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}`}
+                variant="info"
+              />
+            )}
+
+            <Text style={styles.body}>{event.description}</Text>
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <View style={styles.footerButton}>
+            <PrimaryButton
+              title="Al calendario"
+              onPress={handleAddToCalendar}
+              variant="outline"
+              size="large"
+              fullWidth={true}
+              testID="event-calendar-button"
+            />
+          </View>
+          <View style={styles.footerButton}>
+            <PrimaryButton
+              title={reminder ? "Quitar aviso" : "Recordarme"}
+              onPress={handleReminder}
+              variant={reminder ? "secondary" : "primary"}
+              size="large"
+              fullWidth={true}
+              loading={isUpdatingReminder}
+              testID="event-reminder-button"
+            />
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Eventos"
+        subtitle={event?.municipality}
+        rightAction={
+          <FavouriteButton
+            item={
+              event
+                ? {
+                    type: "event",
+                    itemId: event.id,
+                    title: event.title,
+                    subtitle: `${new Date(event.startsAt).toLocaleDateString(
+                      "es-CO",
+                      { day: "numeric", month: "short" }
+                    )} · ${event.municipality}`,
+                    imageUrl: event.imageUrl,
+                  }
+                : null
+            }
+            testID="event-favourite-button"
+          />
+        }
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  cover: {
+    width: "100%",
+    height: 200,
+  },
+
+  placeholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[3],
+  },
+
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  categoryText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  facts: {
+    gap: theme.spacing[2],
+  },
+
+  fact: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  factText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  footer: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+
+  footerButton: {
+    flex: 1,
+  },
+});
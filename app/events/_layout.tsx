@@ -0,0 +1,18 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function EventsLayout() {
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="[id]" />
+    </Stack>
+  );
+}
@@ -0,0 +1,278 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  RefreshControl,
+  SectionList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { EventCard, MonthCalendar, MonthSwitcher } from "@/components/events";
+import { ChipFilter } from "@/components/ui/chip-filter";
+import { MunicipalityFilter } from "@/components/ui/municipality-filter";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import {
+  EVENT_CATEGORIES,
+  EVENT_CATEGORY_IDS,
+  EventCategory,
+} from "@/constants/events";
+import { globalStyles } from "@/constants/global-styles";
+import { useCurrentMunicipality } from "@/context/municipality-context";
+import { useEventReminders, useEvents } from "@/hooks/use-events";
+import {
+  currentMonth,
+  formatEventDay,
+  getEventEndKey,
+  getEventStartKey,
+  getMonthRange,
+  isEventOnDate,
+} from "@/lib/event-calendar";
+import { addDaysToDate } from "@/lib/trip-planning";
+import { AgendaEvent } from "@/services/event-service";
+
+/**
+ * TolimaGO - Events Screen
+ * Agenda de eventos y festivales del Tolima en vista de mes o de lista
+ */
+
+type ViewMode = "month" | "agenda";
+
+const CATEGORY_OPTIONS = EVENT_CATEGORY_IDS.map((id) => EVENT_CATEGORIES[id]);
+
+export default function EventsScreen() {
+  const { municipality: currentMunicipality } = useCurrentMunicipality();
+  // Las fiestas de otros municipios también interesan: se arranca con todo
+  const [municipality, setMunicipality] = useState<string | null>(null);
+  const [category, setCategory] = useState<EventCategory | null>(null);
+  const [month, setMonth] = useState(currentMonth);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("month");
+  const { events, fromCache, isLoading, isRefreshing, error, refresh } =
+    useEvents(month, municipality, category);
+  const { getReminder } = useEventReminders();
+
+  const { from, to } = getMonthRange(month);
+
+  const markedDates = useMemo(() => {
+    const dates = new Set<string>();
+    events.forEach((event) => {
+      const start = getEventStartKey(event);
+      const end = getEventEndKey(event);
+      for (
+        let date = start < from ? from : start;
+        date <= end && date <= to;
+        date = addDaysToDate(date, 1)
+      ) {
+        dates.add(date);
+      }
+    });
+    return dates;
+  }, [events, from, to]);
+
+  const sections = useMemo(() => {
+    if (viewMode === "month" && selectedDate) {
+      const data = events.filter((event) => isEventOnDate(event, selectedDate));
+      return data.length > 0
+        ? [{ title: formatEventDay(selectedDate), data }]
+        : [];
+    }
+
+    // Por día de inicio; los que empezaron el mes anterior van al día 1
+    const byDay = new Map<string, AgendaEvent[]>();
+    events.forEach((event) => {
+      const start = getEventStartKey(event);
+      const key = start < from ? from : start;
+      byDay.set(key, [...(byDay.get(key) ?? []), event]);
+    });
+
+    return Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, data]) => ({ title: formatEventDay(date), data }));
+  }, [events, selectedDate, viewMode, from]);
+
+  const changeMonth = (value: string) => {
+    setMonth(value);
+    setSelectedDate(null);
+  };
+
+  const header = (
+    <View style={styles.filters}>
+      <MonthSwitcher month={month} onChangeMonth={changeMonth} />
+      {viewMode === "month" && (
+        <MonthCalendar
+          month={month}
+          markedDates={markedDates}
+          selectedDate={selectedDate}
+          onSelectDate={setSelectedDate}
+        />
+      )}
+
+      <ChipFilter
+        options={CATEGORY_OPTIONS}
+        value={category}
+        onChange={setCategory}
+      />
+      <MunicipalityFilter
+        value={municipality}
+        onChange={setMunicipality}
+        fallbackMunicipality={currentMunicipality}
+      />
+
+      {fromCache && (
+        <View style={styles.notice}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.noticeText}>
+            Sin conexión. Mostrando la agenda guardada en el dispositivo
+          </Text>
+        </View>
+      )}
+
+      {error && <FormError errors={error} variant="error" animated={true} />}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Eventos"
+        subtitle="Festivales, ferias y fiestas del Tolima"
+        rightAction={
+          <TouchableOpacity
+            style={styles.modeButton}
+            onPress={() =>
+              setViewMode((mode) => (mode === "month" ? "agenda" : "month"))
+            }
+            hitSlop={8}
+            accessibilityLabel={
+              viewMode === "month" ? "Ver como lista" : "Ver calendario"
+            }
+          >
+            <Ionicons
+              name={viewMode === "month" ? "list-outline" : "calendar-outline"}
+              size={20}
+              color={theme.colors.primary.main}
+            />
+            <Text style={styles.modeText}>
+              {viewMode === "month" ? "Agenda" : "Mes"}
+            </Text>
+          </TouchableOpacity>
+        }
+      />
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <EventCard
+            event={item}
+            hasReminder={getReminder(item.id) !== null}
+            onPress={() =>
+              router.push({ pathname: "/events/[id]", params: { id: item.id } })
+            }
+          />
+        )}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={header}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : error ? null : (
+            <Text style={styles.emptyText}>
+              {selectedDate && viewMode === "month"
+                ? "No hay eventos este día"
+                : "No hay eventos este mes con estos filtros"}
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  modeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  modeText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  filters: {
+    gap: theme.spacing[3],
+    marginBottom: theme.spacing[2],
+  },
+
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  noticeText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[2],
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
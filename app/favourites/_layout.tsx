@@ -0,0 +1,18 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function FavouritesLayout() {
+  // Los guardados son por usuario
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+    </Stack>
+  );
+}
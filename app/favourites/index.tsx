@@ -0,0 +1,163 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import {
+  RefreshControl,
+  SectionList,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { FavouriteRow } from "@/components/favourites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { FAVOURITE_TYPE_INFO } from "@/constants/favourites";
+import { globalStyles } from "@/constants/global-styles";
+import { useFavourites } from "@/hooks/use-favourites";
+import { Favourite } from "@/services/favourite-service";
+
+/**
+ * TolimaGO - Favourites Screen
+ * Lugares, eventos, noticias y trámites guardados, agrupados por tipo.
+ * Disponible sin conexión con la última copia del dispositivo
+ */
+
+const openFavourite = (favourite: Favourite) => {
+  const { pathname } = FAVOURITE_TYPE_INFO[favourite.type];
+
+  router.push({
+    pathname,
+    params:
+      favourite.type === "tramite" && favourite.municipality
+        ? { id: favourite.itemId, municipality: favourite.municipality }
+        : { id: favourite.itemId },
+  });
+};
+
+export default function FavouritesScreen() {
+  const { favourites, groups, isSyncing, error, refresh } = useFavourites();
+
+  const sections = groups.map((group) => ({
+    type: group.type,
+    data: group.favourites,
+  }));
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Guardados"
+        subtitle={
+          favourites.length > 0
+            ? `${favourites.length} ${
+                favourites.length === 1 ? "elemento" : "elementos"
+              }`
+            : undefined
+        }
+      />
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => `${item.type}-${item.itemId}`}
+        renderItem={({ item }) => (
+          <FavouriteRow favourite={item} onPress={() => openFavourite(item)} />
+        )}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Ionicons
+              name={FAVOURITE_TYPE_INFO[section.type].icon}
+              size={16}
+              color={theme.colors.text.secondary}
+            />
+            <Text style={styles.sectionTitle}>
+              {FAVOURITE_TYPE_INFO[section.type].label} ({section.data.length})
+            </Text>
+          </View>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        refreshControl={
+          <RefreshControl
+            refreshing={isSyncing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+        ListHeaderComponent={
+          error ? (
+            <FormError errors={error} variant="warning" animated={true} />
+          ) : null
+        }
+        ListEmptyComponent={
+          isSyncing ? null : (
+            <View style={styles.emptyContainer}>
+              <Ionicons
+                name="heart-outline"
+                size={48}
+                color={theme.colors.text.secondary}
+              />
+              <Text style={styles.emptyTitle}>Nada guardado aún</Text>
+              <Text style={styles.emptyDescription}>
+                Toca el corazón en un lugar, evento, noticia o trámite para
+                encontrarlo aquí, incluso sin conexión.
+              </Text>
+            </View>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+    flexGrow: 1,
+  },
+
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+  },
+
+  separator: {
+    height: theme.spacing[2],
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+});
@@ -0,0 +1,154 @@
+import { Image } from "expo-image";
+import { useLocalSearchParams } from "expo-router";
+import React, { useEffect } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ArticleContent, formatNewsDate } from "@/components/news";
+import { FavouriteButton } from "@/components/favourites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useNewsArticle, useReadArticles } from "@/hooks/use-news";
+
+/**
+ * TolimaGO - News Article Screen
+ * Artículo completo; al abrirlo queda marcado como leído
+ */
+
+export default function NewsArticleScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { article, isLoading, error, reload } = useNewsArticle(id);
+  const { markAsRead } = useReadArticles();
+
+  useEffect(() => {
+    if (article) markAsRead(article.id);
+  }, [article, markAsRead]);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !article) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró la noticia"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={reload}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {article.coverImageUrl && (
+          <Image
+            source={{ uri: article.coverImageUrl }}
+            style={styles.cover}
+            contentFit="cover"
+            transition={200}
+          />
+        )}
+
+        <Text style={styles.meta}>
+          {article.municipality ?? "Tolima"} ·{" "}
+          {formatNewsDate(article.publishedAt)}
+          {article.author ? ` · ${article.author}` : ""}
+        </Text>
+        <Text style={styles.title}>{article.title}</Text>
+        <Text style={styles.summary}>{article.summary}</Text>
+
+        <ArticleContent blocks={article.content} />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Noticia"
+        rightAction={
+          <FavouriteButton
+            item={
+              article
+                ? {
+                    type: "news",
+                    itemId: article.id,
+                    title: article.title,
+                    subtitle: formatNewsDate(article.publishedAt),
+                    imageUrl: article.coverImageUrl,
+                  }
+                : null
+            }
+            testID="news-favourite-button"
+          />
+        }
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  content: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  cover: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.divider,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.lg,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing[2],
+  },
+});
@@ -0,0 +1,19 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function NewsLayout() {
+  // El estado de lectura se guarda por usuario
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="[id]" />
+    </Stack>
+  );
+}
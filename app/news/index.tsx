@@ -0,0 +1,168 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { NewsCard } from "@/components/news";
+import { MunicipalityFilter } from "@/components/ui/municipality-filter";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useMunicipalityFilter } from "@/context/municipality-context";
+import { useNewsFeed, useReadArticles } from "@/hooks/use-news";
+
+/**
+ * TolimaGO - News Feed Screen
+ * Noticias por municipio con paginación infinita y lectura offline
+ */
+
+export default function NewsFeedScreen() {
+  const { municipality, setMunicipality, currentMunicipality } =
+    useMunicipalityFilter();
+  const {
+    articles,
+    fromCache,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore,
+  } = useNewsFeed(municipality);
+  const { isRead } = useReadArticles();
+
+  const header = (
+    <View style={styles.filters}>
+      <MunicipalityFilter
+        value={municipality}
+        onChange={setMunicipality}
+        fallbackMunicipality={currentMunicipality}
+      />
+
+      {fromCache && (
+        <View style={styles.offlineBanner}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.offlineText}>
+            Sin conexión. Mostrando las noticias guardadas en tu dispositivo
+          </Text>
+        </View>
+      )}
+
+      {error && <FormError errors={error} variant="error" animated={true} />}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Noticias"
+        subtitle="Lo que está pasando en tu municipio"
+      />
+
+      <FlatList
+        data={articles}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <NewsCard
+            article={item}
+            isRead={isRead(item.id)}
+            onPress={() =>
+              router.push({ pathname: "/news/[id]", params: { id: item.id } })
+            }
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={header}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator
+              color={theme.colors.primary.main}
+              style={styles.footerLoader}
+            />
+          ) : null
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : error ? null : (
+            <Text style={styles.emptyText}>
+              {municipality
+                ? `Aún no hay noticias para ${municipality}`
+                : "Aún no hay noticias publicadas"}
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  filters: {
+    gap: theme.spacing[2],
+    marginBottom: theme.spacing[2],
+  },
+
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  offlineText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  footerLoader: {
+    marginVertical: theme.spacing[4],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
@@ -0,0 +1,17 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function NotificationsLayout() {
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="preferences" />
+    </Stack>
+  );
+}
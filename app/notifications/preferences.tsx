@@ -0,0 +1,117 @@
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton, Toggle } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_IDS,
+} from "@/constants/notifications";
+import {
+  useNotificationPreferences,
+  usePushPermission,
+} from "@/hooks/use-notifications";
+
+/**
+ * TolimaGO - Notification Preferences Screen
+ * Activa o desactiva cada categoría de notificación y ofrece activar las
+ * notificaciones push si el dispositivo aún no las permite
+ */
+
+export default function NotificationPreferencesScreen() {
+  const { preferences, isLoading, isSaving, error, setPreference } =
+    useNotificationPreferences();
+  const { permission, enable } = usePushPermission();
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Preferencias"
+        subtitle="Elige qué notificaciones quieres recibir"
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {(permission === "undetermined" || permission === "blocked") && (
+          <View style={styles.pushCard}>
+            <Text style={styles.pushText}>
+              Las notificaciones push están desactivadas en este dispositivo.
+            </Text>
+            <PrimaryButton
+              title="Activar notificaciones"
+              onPress={enable}
+              variant="outline"
+              size="small"
+            />
+          </View>
+        )}
+
+        {isLoading ? (
+          <ActivityIndicator
+            size="large"
+            color={theme.colors.primary.main}
+            style={styles.loader}
+          />
+        ) : (
+          NOTIFICATION_CATEGORY_IDS.map((id) => (
+            <Toggle
+              key={id}
+              value={preferences[id]}
+              onValueChange={(enabled) => setPreference(id, enabled)}
+              label={NOTIFICATION_CATEGORIES[id].label}
+              description={NOTIFICATION_CATEGORIES[id].description}
+              disabled={isSaving}
+            />
+          ))
+        )}
+
+        {error && <FormError errors={error} variant="error" animated={true} />}
+
+        <Text style={styles.note}>
+          Los recordatorios que ya programaste siguen activos; desactivar la
+          categoría solo evita que se muestren y que programes otros nuevos.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[4],
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  pushCard: {
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  pushText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  note: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+});
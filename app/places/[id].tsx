@@ -0,0 +1,276 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { FavouriteButton } from "@/components/favourites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { PLACE_CATEGORIES } from "@/constants/places";
+import { buildDirectionsUrl, buildWebDirectionsUrl } from "@/lib/geo";
+import { usePlace } from "@/hooks/use-places";
+import { Place } from "@/services/places-service";
+
+/**
+ * TolimaGO - Place Detail Screen
+ * Datos de contacto de un servicio con llamada e indicaciones
+ */
+
+const callPlace = async (phone: string) => {
+  try {
+    await Linking.openURL(`tel:${phone.replace(/\s/g, "")}`);
+  } catch (error) {
+    console.error("📍 [Places] Failed to open dialer:", error);
+    Alert.alert("No se pudo llamar", `Marca manualmente al ${phone}`);
+  }
+};
+
+const openDirections = async (place: Place) => {
+  try {
+    await Linking.openURL(buildDirectionsUrl(place, place.name, Platform.OS));
+  } catch {
+    // Sin app de mapas nativa: indicaciones en el navegador
+    await Linking.openURL(buildWebDirectionsUrl(place));
+  }
+};
+
+export default function PlaceDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { place, isLoading, error, reload } = usePlace(id);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !place) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró el servicio"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={reload}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    const category = PLACE_CATEGORIES[place.category];
+    const facts = [
+      {
+        icon: "location-outline" as const,
+        label: "Dirección",
+        value: `${place.address}, ${place.municipality}`,
+      },
+      {
+        icon: "call-outline" as const,
+        label: "Teléfono",
+        value: place.phone,
+      },
+      {
+        icon: "time-outline" as const,
+        label: "Horario",
+        value: place.openingHours,
+      },
+    ].filter((fact) => !!fact.value);
+
+    return (
+      <>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.categoryRow}>
+            <Ionicons name={category.icon} size={18} color={category.color} />
+            <Text style={[styles.categoryText, { color: category.color }]}>
+              {category.label}
+            </Text>
+          </View>
+          <Text style={styles.title}>{place.name}</Text>
+          {place.description && (
+            <Text style={styles.body}>{place.description}</Text>
+          )}
+
+          <View style={styles.facts}>
+            {facts.map((fact) => (
+              <View key={fact.label} style={styles.fact}>
+                <Ionicons
+                  name={fact.icon}
+                  size={20}
+                  color={theme.colors.primary.main}
+                />
+                <View style={styles.factText}>
+                  <Text style={styles.factLabel}>{fact.label}</Text>
+                  <Text style={styles.factValue}>{fact.value}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {place.phone && (
+            <View style={styles.footerButton}>
+              <PrimaryButton
+                title="Llamar"
+                onPress={() => callPlace(place.phone!)}
+                variant="outline"
+                size="large"
+                fullWidth={true}
+                testID="place-call-button"
+              />
+            </View>
+          )}
+          <View style={styles.footerButton}>
+            <PrimaryButton
+              title="Cómo llegar"
+              onPress={() => openDirections(place)}
+              variant="primary"
+              size="large"
+              fullWidth={true}
+              testID="place-directions-button"
+            />
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Servicio"
+        subtitle={place?.municipality}
+        rightAction={
+          <FavouriteButton
+            item={
+              place
+                ? {
+                    type: "place",
+                    itemId: place.id,
+                    title: place.name,
+                    subtitle: `${PLACE_CATEGORIES[place.category].label} · ${
+                      place.municipality
+                    }`,
+                  }
+                : null
+            }
+            testID="place-favourite-button"
+          />
+        }
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  categoryText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  facts: {
+    marginTop: theme.spacing[4],
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  fact: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.divider,
+  },
+
+  factText: {
+    flex: 1,
+  },
+
+  factLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  factValue: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginTop: 2,
+  },
+
+  footer: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+
+  footerButton: {
+    flex: 1,
+  },
+});
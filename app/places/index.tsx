@@ -0,0 +1,232 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { PlaceCard, PlacesMap } from "@/components/places";
+import { ChipFilter } from "@/components/ui/chip-filter";
+import { MunicipalityFilter } from "@/components/ui/municipality-filter";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  PLACE_CATEGORIES,
+  PLACE_CATEGORY_IDS,
+  PlaceCategory,
+} from "@/constants/places";
+import { useMunicipalityFilter } from "@/context/municipality-context";
+import { useDeviceLocation } from "@/hooks/use-device-location";
+import { usePlaces } from "@/hooks/use-places";
+
+/**
+ * TolimaGO - Places Directory Screen
+ * Servicios cercanos en lista (ordenada por distancia) o en mapa
+ */
+
+type ViewMode = "list" | "map";
+
+const CATEGORY_OPTIONS = PLACE_CATEGORY_IDS.map((id) => PLACE_CATEGORIES[id]);
+
+export default function PlacesDirectoryScreen() {
+  const { municipality, setMunicipality, currentMunicipality } =
+    useMunicipalityFilter();
+  const [category, setCategory] = useState<PlaceCategory | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const location = useDeviceLocation();
+  const { places, fromFixture, isLoading, isRefreshing, error, refresh } =
+    usePlaces(municipality, category, location.coords);
+
+  const openPlace = (id: string) =>
+    router.push({ pathname: "/places/[id]", params: { id } });
+
+  const header = (
+    <View style={styles.filters}>
+      <MunicipalityFilter
+        value={municipality}
+        onChange={setMunicipality}
+        fallbackMunicipality={currentMunicipality}
+      />
+      <ChipFilter
+        options={CATEGORY_OPTIONS}
+        value={category}
+        onChange={setCategory}
+      />
+
+      {location.status === "denied" && (
+        <TouchableOpacity style={styles.notice} onPress={location.request}>
+          <Ionicons
+            name="navigate-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.noticeText}>
+            Permite el acceso a tu ubicación para ordenar por cercanía
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {fromFixture && (
+        <View style={styles.notice}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.noticeText}>
+            Servicio no disponible. Mostrando un directorio básico guardado en
+            la app
+          </Text>
+        </View>
+      )}
+
+      {error && <FormError errors={error} variant="error" animated={true} />}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Servicios"
+        subtitle="Encuentra servicios cercanos"
+        rightAction={
+          <TouchableOpacity
+            style={styles.modeButton}
+            onPress={() =>
+              setViewMode((mode) => (mode === "list" ? "map" : "list"))
+            }
+            hitSlop={8}
+            accessibilityLabel={
+              viewMode === "list" ? "Ver en mapa" : "Ver en lista"
+            }
+          >
+            <Ionicons
+              name={viewMode === "list" ? "map-outline" : "list-outline"}
+              size={20}
+              color={theme.colors.primary.main}
+            />
+            <Text style={styles.modeText}>
+              {viewMode === "list" ? "Mapa" : "Lista"}
+            </Text>
+          </TouchableOpacity>
+        }
+      />
+
+      {viewMode === "map" ? (
+        <View style={styles.mapContainer}>
+          <View style={styles.mapFilters}>{header}</View>
+          <PlacesMap
+            places={places}
+            userLocation={location.coords}
+            onPlacePress={(place) => openPlace(place.id)}
+          />
+        </View>
+      ) : (
+        <FlatList
+          data={places}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <PlaceCard
+              place={item}
+              distanceKm={item.distanceKm}
+              onPress={() => openPlace(item.id)}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={header}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListEmptyComponent={
+            isLoading ? (
+              <ActivityIndicator
+                size="large"
+                color={theme.colors.primary.main}
+                style={styles.loader}
+              />
+            ) : error ? null : (
+              <Text style={styles.emptyText}>
+                No encontramos servicios con estos filtros
+              </Text>
+            )
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  modeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  modeText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  filters: {
+    gap: theme.spacing[2],
+    marginBottom: theme.spacing[2],
+  },
+
+  mapContainer: {
+    flex: 1,
+  },
+
+  mapFilters: {
+    paddingHorizontal: theme.spacing[4],
+    paddingTop: theme.spacing[4],
+  },
+
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  noticeText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
@@ -0,0 +1,226 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Lock } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  FormError,
+  PrimaryButton,
+  TextInputField,
+  Toggle,
+} from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { ACCOUNT_DELETION_GRACE_DAYS } from "@/constants/privacy";
+import { useAuth } from "@/context/auth-context";
+import { DeleteAccountFormData, deleteAccountSchema } from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Delete Account Screen
+ * Solicitud de eliminación con periodo de gracia y confirmación de
+ * contraseña
+ */
+
+const CONSEQUENCES = [
+  "Cerraremos tu sesión y borraremos de este dispositivo tus borradores, viajes y recordatorios.",
+  `Tienes ${ACCOUNT_DELETION_GRACE_DAYS} días para arrepentirte: inicia sesión y cancela la solicitud desde Perfil › Privacidad y datos.`,
+  "Pasado ese plazo se borran tu perfil, teléfono, ciudad y el historial de tus trámites.",
+  "Los reportes que enviaste se conservan sin datos que te identifiquen.",
+];
+
+export default function DeleteAccountScreen() {
+  const { deleteAccount } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<DeleteAccountFormData>({
+    resolver: zodResolver(deleteAccountSchema),
+    mode: "onChange",
+    defaultValues: {
+      password: "",
+      understood: false,
+    },
+  });
+
+  const submit = async ({ password }: DeleteAccountFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      const deletion = await deleteAccount(password);
+      Alert.alert(
+        "Solicitud recibida",
+        `Tu cuenta se eliminará el ${new Date(
+          deletion.scheduledFor
+        ).toLocaleDateString("es-CO", {
+          day: "numeric",
+          month: "long",
+          year: "numeric",
+        })}.`
+      );
+    } catch (err: any) {
+      console.error("🛡️ [Privacy] Account deletion error:", err);
+      setSubmitError(
+        getApiErrorMessage(err, "No se pudo solicitar la eliminación")
+      );
+      setIsSubmitting(false);
+    }
+  };
+
+  const onSubmit = (data: DeleteAccountFormData) => {
+    Alert.alert(
+      "Eliminar cuenta",
+      "¿Seguro que quieres eliminar tu cuenta de TolimaGO?",
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Eliminar",
+          style: "destructive",
+          onPress: () => submit(data),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Eliminar cuenta" />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.consequences}>
+            {CONSEQUENCES.map((text) => (
+              <View key={text} style={styles.consequence}>
+                <Text style={styles.bullet}>•</Text>
+                <Text style={styles.consequenceText}>{text}</Text>
+              </View>
+            ))}
+          </View>
+
+          <FormError
+            errors="Antes de continuar puedes descargar una copia de tus datos desde Privacidad y datos."
+            variant="info"
+          />
+
+          {submitError && (
+            <FormError errors={submitError} variant="error" animated={true} />
+          )}
+
+          <Controller
+            control={control}
+            name="password"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Contraseña"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.password?.message}
+                leftIcon={
+                  <Lock size={20} color={theme.colors.text.secondary} />
+                }
+                secureTextEntry={true}
+                showPasswordToggle={true}
+                placeholder="Confirma que eres tú"
+                required
+                testID="delete-account-password-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="understood"
+            render={({ field: { onChange, value } }) => (
+              <Toggle
+                value={value}
+                onValueChange={onChange}
+                label="Entiendo que mi cuenta se eliminará"
+                description={`Podré cancelarlo durante ${ACCOUNT_DELETION_GRACE_DAYS} días`}
+                testID="delete-account-understood-toggle"
+              />
+            )}
+          />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Eliminar mi cuenta"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={!isValid || isSubmitting}
+            variant="danger"
+            size="large"
+            fullWidth={true}
+            testID="delete-account-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[4],
+  },
+
+  consequences: {
+    gap: theme.spacing[2],
+  },
+
+  consequence: {
+    flexDirection: "row",
+    gap: theme.spacing[2],
+  },
+
+  bullet: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.error.main,
+  },
+
+  consequenceText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.normal * theme.typography.fontSize.base,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
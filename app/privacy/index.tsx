@@ -0,0 +1,302 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { CONSENT_DOCUMENTS } from "@/constants/privacy";
+import {
+  useAccountDeletion,
+  useConsents,
+  useDataExport,
+} from "@/hooks/use-privacy";
+import { DataExport } from "@/services/privacy-service";
+
+/**
+ * TolimaGO - Privacy Screen
+ * Derechos sobre los datos personales: copia de los datos, autorizaciones
+ * otorgadas y eliminación de la cuenta
+ */
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("es-CO", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+const EXPORT_STATUS_TEXT: Record<
+  DataExport["status"],
+  (item: DataExport) => string
+> = {
+  pending: (item) =>
+    `Solicitada el ${formatDate(
+      item.requestedAt
+    )}. Estamos preparando tu archivo; puede tardar hasta 48 horas.`,
+  ready: (item) =>
+    item.expiresAt
+      ? `Tu archivo está listo. Puedes descargarlo hasta el ${formatDate(
+          item.expiresAt
+        )}.`
+      : "Tu archivo está listo para descargar.",
+  expired: () =>
+    "El enlace de tu última exportación venció. Solicita una nueva.",
+  failed: () =>
+    "No pudimos preparar tu última exportación. Solicita una nueva.",
+};
+
+export default function PrivacyScreen() {
+  const dataExport = useDataExport();
+  const consents = useConsents();
+  const deletion = useAccountDeletion();
+
+  const current = dataExport.dataExport;
+  const canRequest =
+    !current || current.status === "expired" || current.status === "failed";
+
+  const renderExportAction = () => {
+    if (dataExport.isLoading) {
+      return <ActivityIndicator color={theme.colors.primary.main} />;
+    }
+
+    if (current?.status === "ready") {
+      return (
+        <PrimaryButton
+          title="Descargar mis datos (ZIP)"
+          onPress={dataExport.download}
+          loading={dataExport.isWorking}
+          variant="primary"
+          size="medium"
+          fullWidth={true}
+          testID="privacy-download-export-button"
+        />
+      );
+    }
+
+    if (current?.status === "pending") {
+      return (
+        <PrimaryButton
+          title="Consultar estado"
+          onPress={dataExport.reload}
+          variant="outline"
+          size="medium"
+          fullWidth={true}
+        />
+      );
+    }
+
+    return (
+      <PrimaryButton
+        title="Solicitar copia de mis datos"
+        onPress={dataExport.request}
+        loading={dataExport.isWorking}
+        disabled={!canRequest}
+        variant="primary"
+        size="medium"
+        fullWidth={true}
+        testID="privacy-request-export-button"
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Privacidad y datos"
+        subtitle="Tus derechos según la Ley 1581 de 2012"
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {deletion.deletion && (
+          <View style={styles.section}>
+            <FormError
+              errors={`Tu cuenta se eliminará el ${formatDate(
+                deletion.deletion.scheduledFor
+              )}. Hasta entonces puedes cancelar la solicitud.`}
+              variant="warning"
+            />
+            {deletion.error && (
+              <FormError
+                errors={deletion.error}
+                variant="error"
+                animated={true}
+              />
+            )}
+            <PrimaryButton
+              title="Cancelar eliminación"
+              onPress={deletion.cancel}
+              loading={deletion.isCancelling}
+              variant="secondary"
+              size="medium"
+              fullWidth={true}
+              testID="privacy-cancel-deletion-button"
+            />
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Tus datos</Text>
+        <View style={styles.section}>
+          <Text style={styles.body}>
+            Recibe un archivo ZIP con tu perfil, reportes, trámites y demás
+            información asociada a tu cuenta.
+          </Text>
+          {current && (
+            <Text style={styles.status}>
+              {EXPORT_STATUS_TEXT[current.status](current)}
+            </Text>
+          )}
+          {dataExport.error && (
+            <FormError
+              errors={dataExport.error}
+              variant="error"
+              animated={true}
+            />
+          )}
+          {renderExportAction()}
+          <PrimaryButton
+            title="Exportar datos de este dispositivo (JSON)"
+            onPress={dataExport.shareDeviceData}
+            disabled={dataExport.isWorking}
+            variant="ghost"
+            size="medium"
+            fullWidth={true}
+            testID="privacy-device-export-button"
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Autorizaciones</Text>
+        <View style={styles.section}>
+          {consents.isLoading ? (
+            <ActivityIndicator color={theme.colors.primary.main} />
+          ) : consents.error ? (
+            <FormError errors={consents.error} variant="error" />
+          ) : consents.consents.length === 0 ? (
+            <Text style={styles.body}>No hay autorizaciones registradas.</Text>
+          ) : (
+            consents.consents.map((consent) => (
+              <View key={consent.id} style={styles.consentRow}>
+                <Ionicons
+                  name={
+                    consent.revokedAt
+                      ? "close-circle-outline"
+                      : "checkmark-circle-outline"
+                  }
+                  size={20}
+                  color={
+                    consent.revokedAt
+                      ? theme.colors.text.secondary
+                      : theme.colors.success.main
+                  }
+                />
+                <View style={styles.consentText}>
+                  <Text style={styles.consentLabel}>
+                    {CONSENT_DOCUMENTS[consent.document]?.label ??
+                      consent.document}
+                  </Text>
+                  <Text style={styles.consentMeta}>
+                    Versión {consent.version} · aceptada el{" "}
+                    {formatDate(consent.acceptedAt)}
+                    {consent.revokedAt
+                      ? ` · revocada el ${formatDate(consent.revokedAt)}`
+                      : ""}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {!deletion.deletion && (
+          <>
+            <Text style={styles.sectionTitle}>Eliminar cuenta</Text>
+            <View style={styles.section}>
+              <Text style={styles.body}>
+                Borra tu cuenta y tus datos personales. Los reportes que
+                enviaste se conservan de forma anónima.
+              </Text>
+              <PrimaryButton
+                title="Eliminar mi cuenta"
+                onPress={() => router.push("/privacy/delete-account")}
+                variant="danger"
+                size="medium"
+                fullWidth={true}
+                testID="privacy-delete-account-button"
+              />
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+
+  section: {
+    gap: theme.spacing[3],
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.normal * theme.typography.fontSize.base,
+  },
+
+  status: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  consentRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[3],
+  },
+
+  consentText: {
+    flex: 1,
+    gap: theme.spacing[1],
+  },
+
+  consentLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  consentMeta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+});
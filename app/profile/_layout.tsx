@@ -0,0 +1,20 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function ProfileLayout() {
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="edit" />
+      <Stack.Screen name="password" />
+      <Stack.Screen name="email" />
+      <Stack.Screen name="security" />
+    </Stack>
+  );
+}
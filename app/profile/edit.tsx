@@ -0,0 +1,245 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router } from "expo-router";
+import { User } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  FormError,
+  LocationSelector,
+  PrimaryButton,
+  TextInputField,
+  Toggle,
+} from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { getLocationFromCity } from "@/constants/locations";
+import { useAuth } from "@/context/auth-context";
+import {
+  formatPhoneInput,
+  ProfileFormData,
+  profileSchema,
+} from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Edit Profile Screen
+ * Nombre, teléfono y ubicación del usuario
+ */
+
+export default function EditProfileScreen() {
+  const { user, updateProfile } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid, isDirty },
+    watch,
+    setValue,
+  } = useForm({
+    resolver: zodResolver(profileSchema),
+    mode: "onChange",
+    defaultValues: {
+      name: user?.name ?? "",
+      phone: user?.phone ?? "",
+      isResident: user?.isResident ?? false,
+      location: getLocationFromCity(user?.city, user?.isResident ?? false),
+    },
+  });
+
+  const isResident = watch("isResident");
+
+  const onSubmit = async (data: ProfileFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      await updateProfile({
+        name: data.name.trim(),
+        phone: data.phone?.trim() || undefined,
+        city: data.location.city?.trim() || undefined,
+        isResident: data.isResident,
+      });
+      router.back();
+    } catch (err: any) {
+      console.error("👤 [User] Profile update error:", err);
+      setSubmitError(
+        getApiErrorMessage(err, "No se pudo actualizar tu perfil")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Editar perfil" />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {submitError && (
+            <FormError errors={submitError} variant="error" animated={true} />
+          )}
+
+          <Controller
+            control={control}
+            name="name"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Nombre Completo"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.name?.message}
+                leftIcon={
+                  <User size={20} color={theme.colors.text.secondary} />
+                }
+                placeholder="Tu nombre completo"
+                autoCapitalize="words"
+                autoComplete="name"
+                required
+                testID="profile-name-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="phone"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Teléfono"
+                value={value || "+57 "}
+                onChangeText={(text) => {
+                  const formatted = formatPhoneInput(text);
+                  // Solo el prefijo equivale a no registrar teléfono
+                  onChange(formatted === "+57 " ? "" : formatted);
+                }}
+                onBlur={onBlur}
+                error={errors.phone?.message}
+                leftIcon={
+                  <View style={styles.phoneIconContainer}>
+                    <Text style={styles.flagEmoji}>🇨🇴</Text>
+                  </View>
+                }
+                keyboardType="phone-pad"
+                placeholder="+57 300 123 4567"
+                helperText="Formato colombiano - +57 seguido del número"
+                testID="profile-phone-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="location"
+            render={({ field: { onChange, value } }) => (
+              <LocationSelector
+                value={{ ...value, isTolima: value.isTolima ?? false }}
+                onChange={(location) => {
+                  onChange(location);
+                  if (location.isTolima !== isResident) {
+                    setValue("isResident", location.isTolima);
+                  }
+                }}
+                isTolima={isResident}
+                error={
+                  errors.location?.city?.message ||
+                  errors.location?.country?.message
+                }
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="isResident"
+            render={({ field: { onChange, value } }) => (
+              <Toggle
+                value={value}
+                onValueChange={(newValue) => {
+                  onChange(newValue);
+                  // Cambiar de residencia reinicia la ubicación
+                  setValue(
+                    "location",
+                    newValue
+                      ? {
+                          country: "CO",
+                          state: "Tolima",
+                          city: "",
+                          isTolima: true,
+                        }
+                      : { country: "", state: "", city: "", isTolima: false },
+                    { shouldValidate: true }
+                  );
+                }}
+                label="Soy residente del Tolima"
+                description="Tu municipio se usa para noticias, trámites y eventos"
+                testID="profile-resident-toggle"
+              />
+            )}
+          />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Guardar cambios"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={!isValid || !isDirty || isSubmitting}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="profile-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  phoneIconContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  flagEmoji: {
+    fontSize: 16,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
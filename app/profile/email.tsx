@@ -0,0 +1,168 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router } from "expo-router";
+import { Lock, Mail } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton, TextInputField } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuth } from "@/context/auth-context";
+import { ChangeEmailFormData, changeEmailSchema } from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Change Email Screen
+ * Nuevo email confirmando la contraseña; requiere verificarlo de nuevo
+ */
+
+export default function ChangeEmailScreen() {
+  const { user, changeEmail } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<ChangeEmailFormData>({
+    resolver: zodResolver(changeEmailSchema),
+    mode: "onChange",
+    defaultValues: {
+      newEmail: "",
+      currentPassword: "",
+    },
+  });
+
+  const onSubmit = async (data: ChangeEmailFormData) => {
+    if (data.newEmail.trim().toLowerCase() === user?.email.toLowerCase()) {
+      setSubmitError("Ese ya es el email de tu cuenta");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      await changeEmail(data);
+      // La cuenta queda pendiente de verificar el nuevo correo
+      router.replace("/auth/verify-email");
+    } catch (err: any) {
+      console.error("👤 [User] Email change error:", err);
+      setSubmitError(getApiErrorMessage(err, "No se pudo cambiar tu email"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Cambiar email" subtitle={user?.email} />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <FormError
+            errors="Te enviaremos un enlace al nuevo email. Hasta que lo verifiques no podrás enviar reportes ni solicitar trámites."
+            variant="info"
+          />
+
+          {submitError && (
+            <FormError errors={submitError} variant="error" animated={true} />
+          )}
+
+          <Controller
+            control={control}
+            name="newEmail"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Nuevo email"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.newEmail?.message}
+                leftIcon={
+                  <Mail size={20} color={theme.colors.text.secondary} />
+                }
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+                autoCorrect={false}
+                placeholder="tu@email.com"
+                required
+                testID="profile-new-email-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="currentPassword"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Contraseña actual"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.currentPassword?.message}
+                leftIcon={
+                  <Lock size={20} color={theme.colors.text.secondary} />
+                }
+                secureTextEntry={true}
+                showPasswordToggle={true}
+                placeholder="Confirma que eres tú"
+                required
+                testID="profile-email-password-input"
+              />
+            )}
+          />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Cambiar email"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={!isValid || isSubmitting}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="profile-email-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,179 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router } from "expo-router";
+import { Lock } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  FormError,
+  PasswordStrengthMeter,
+  PrimaryButton,
+  TextInputField,
+} from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuth } from "@/context/auth-context";
+import {
+  ChangePasswordFormData,
+  changePasswordSchema,
+} from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Change Password Screen
+ * Nueva contraseña confirmando la actual
+ */
+
+export default function ChangePasswordScreen() {
+  const { changePassword } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+    watch,
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    mode: "onChange",
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmNewPassword: "",
+    },
+  });
+
+  const newPassword = watch("newPassword");
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      await changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      Alert.alert(
+        "Contraseña actualizada",
+        "Usa tu nueva contraseña la próxima vez que inicies sesión.",
+        [{ text: "Entendido", onPress: () => router.back() }]
+      );
+    } catch (err: any) {
+      console.error("👤 [User] Password change error:", err);
+      setSubmitError(
+        getApiErrorMessage(err, "No se pudo cambiar tu contraseña")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderPasswordField = (
+    name: keyof ChangePasswordFormData,
+    label: string,
+    placeholder: string
+  ) => (
+    <Controller
+      control={control}
+      name={name}
+      render={({ field: { onChange, onBlur, value } }) => (
+        <TextInputField
+          label={label}
+          value={value}
+          onChangeText={onChange}
+          onBlur={onBlur}
+          error={errors[name]?.message}
+          leftIcon={<Lock size={20} color={theme.colors.text.secondary} />}
+          secureTextEntry={true}
+          showPasswordToggle={true}
+          placeholder={placeholder}
+          required
+          testID={`profile-${name}-input`}
+        />
+      )}
+    />
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Cambiar contraseña" />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {submitError && (
+            <FormError errors={submitError} variant="error" animated={true} />
+          )}
+
+          {renderPasswordField(
+            "currentPassword",
+            "Contraseña actual",
+            "Tu contraseña actual"
+          )}
+          {renderPasswordField(
+            "newPassword",
+            "Nueva contraseña",
+            "Mínimo 6 caracteres"
+          )}
+          <PasswordStrengthMeter
+            password={newPassword}
+            testID="profile-password-strength"
+          />
+          {renderPasswordField(
+            "confirmNewPassword",
+            "Confirmar nueva contraseña",
+            "Repite la nueva contraseña"
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Cambiar contraseña"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={!isValid || isSubmitting}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="profile-password-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,169 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, Toggle } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useBiometricSettings } from "@/hooks/use-biometric-settings";
+import { BACKGROUND_TIMEOUT_OPTIONS } from "@/services/biometric-auth";
+
+/**
+ * TolimaGO - Security Settings Screen
+ * Bloqueo con biometría o código del dispositivo y tiempo en segundo plano
+ * antes de volver a pedirlo
+ */
+
+const formatTimeout = (minutes: number) =>
+  minutes === 1 ? "1 minuto" : `${minutes} minutos`;
+
+export default function SecuritySettingsScreen() {
+  const {
+    settings,
+    availability,
+    isLoading,
+    isSaving,
+    error,
+    setEnabled,
+    setBackgroundTimeout,
+  } = useBiometricSettings();
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Seguridad"
+        subtitle="Protege el acceso a tu cuenta en este dispositivo"
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {isLoading ? (
+          <ActivityIndicator
+            size="large"
+            color={theme.colors.primary.main}
+            style={styles.loader}
+          />
+        ) : (
+          <>
+            <Toggle
+              value={settings.enabled}
+              onValueChange={setEnabled}
+              label="Desbloqueo rápido"
+              description={
+                availability.available
+                  ? "Pide tu huella, rostro o el código del dispositivo al abrir TolimaGO"
+                  : "Configura la biometría o un código en tu dispositivo para usarlo"
+              }
+              disabled={
+                isSaving || (!availability.available && !settings.enabled)
+              }
+            />
+
+            {settings.enabled && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  Volver a pedir el desbloqueo tras
+                </Text>
+
+                <View style={styles.card}>
+                  {BACKGROUND_TIMEOUT_OPTIONS.map((minutes) => {
+                    const selected = settings.backgroundTimeout === minutes;
+
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        style={styles.optionRow}
+                        onPress={() => setBackgroundTimeout(minutes)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={styles.optionText}>
+                          {formatTimeout(minutes)} en segundo plano
+                        </Text>
+                        <Ionicons
+                          name={
+                            selected ? "radio-button-on" : "radio-button-off"
+                          }
+                          size={20}
+                          color={
+                            selected
+                              ? theme.colors.primary.main
+                              : theme.colors.text.secondary
+                          }
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+          </>
+        )}
+
+        {error && <FormError errors={error} variant="error" animated={true} />}
+
+        <Text style={styles.note}>
+          Si olvidas desbloquear con el dispositivo siempre puedes entrar con tu
+          contraseña.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[4],
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  section: {
+    gap: theme.spacing[2],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+  },
+
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    paddingHorizontal: theme.spacing[4],
+  },
+
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: theme.spacing[3],
+  },
+
+  optionText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  note: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,195 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import { useLocalSearchParams } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ReportStatusBadge, ReportStatusTracker } from "@/components/reports";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { REPORT_CATEGORIES } from "@/constants/reports";
+import { useReport } from "@/hooks/use-reports";
+
+/**
+ * TolimaGO - Report Detail Screen
+ * Detalle de un reporte con fotos, ubicación y línea de tiempo de estados
+ */
+
+export default function ReportDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { report, isLoading, error, reload } = useReport(id);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !report) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró el reporte"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={reload}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    const category = REPORT_CATEGORIES[report.category];
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.categoryRow}>
+          <Ionicons name={category.icon} size={18} color={category.color} />
+          <Text style={[styles.categoryLabel, { color: category.color }]}>
+            {category.label}
+          </Text>
+        </View>
+
+        <Text style={styles.title}>{report.title}</Text>
+        <ReportStatusBadge status={report.status} />
+
+        {report.photos.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.photos}
+          >
+            {report.photos.map((uri) => (
+              <Image key={uri} source={{ uri }} style={styles.photo} />
+            ))}
+          </ScrollView>
+        )}
+
+        <Text style={styles.sectionTitle}>Descripción</Text>
+        <Text style={styles.body}>{report.description}</Text>
+
+        <Text style={styles.sectionTitle}>Ubicación</Text>
+        <View style={styles.locationRow}>
+          <Ionicons
+            name="location-outline"
+            size={18}
+            color={theme.colors.text.secondary}
+          />
+          <Text style={styles.body}>
+            {report.address}, {report.municipality}
+          </Text>
+        </View>
+        {report.reference && (
+          <Text style={styles.reference}>Referencia: {report.reference}</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Seguimiento</Text>
+        <ReportStatusTracker report={report} />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Detalle del reporte"
+        subtitle={report ? `#${report.id}` : undefined}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  categoryLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  photos: {
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[3],
+  },
+
+  photo: {
+    width: 200,
+    height: 150,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.divider,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+  },
+
+  body: {
+    flexShrink: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  locationRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[2],
+  },
+
+  reference: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+});
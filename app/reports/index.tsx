@@ -0,0 +1,230 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { Can, FormError, PrimaryButton } from "@/components/auth";
+import { ReportStatusBadge } from "@/components/reports";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { REPORT_CATEGORIES } from "@/constants/reports";
+import { useMyReports } from "@/hooks/use-reports";
+import { Report, reportService } from "@/services/report-service";
+
+/**
+ * TolimaGO - My Reports Screen
+ * Reportes enviados por el usuario con su estado de atención
+ */
+
+export default function MyReportsScreen() {
+  const { reports, isLoading, isRefreshing, error, refresh } = useMyReports();
+  const [hasDraft, setHasDraft] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      reportService.getDraft().then((draft) => setHasDraft(Boolean(draft)));
+    }, [])
+  );
+
+  const renderReport = ({ item }: { item: Report }) => {
+    const category = REPORT_CATEGORIES[item.category];
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() =>
+          router.push({ pathname: "/reports/[id]", params: { id: item.id } })
+        }
+        activeOpacity={0.7}
+      >
+        <View
+          style={[styles.cardIcon, { backgroundColor: `${category.color}1A` }]}
+        >
+          <Ionicons name={category.icon} size={24} color={category.color} />
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={styles.cardMeta} numberOfLines={1}>
+            {category.label} · {item.municipality}
+          </Text>
+          <Text style={styles.cardMeta}>
+            {new Date(item.createdAt).toLocaleDateString("es-CO", {
+              day: "numeric",
+              month: "short",
+              year: "numeric",
+            })}
+          </Text>
+          <View style={styles.cardStatus}>
+            <ReportStatusBadge status={item.status} />
+          </View>
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={20}
+          color={theme.colors.text.secondary}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Mis reportes"
+        subtitle="Sigue el estado de tus incidencias"
+      />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : (
+        <FlatList
+          data={reports}
+          keyExtractor={(item) => item.id}
+          renderItem={renderReport}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListHeaderComponent={
+            error ? (
+              <FormError errors={error} variant="error" animated={true} />
+            ) : null
+          }
+          ListEmptyComponent={
+            error ? null : (
+              <View style={styles.emptyContainer}>
+                <Ionicons
+                  name="megaphone-outline"
+                  size={48}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.emptyTitle}>Aún no tienes reportes</Text>
+                <Text style={styles.emptyDescription}>
+                  Reporta huecos, fallas de alumbrado, basuras y más para que la
+                  alcaldía las atienda.
+                </Text>
+              </View>
+            )
+          }
+        />
+      )}
+
+      <Can permission="reports:create">
+        <View style={styles.footer}>
+          <PrimaryButton
+            title={hasDraft ? "Continuar borrador" : "Nuevo reporte"}
+            onPress={() => router.push("/reports/new")}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="new-report-button"
+          />
+        </View>
+      </Can>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    flexGrow: 1,
+  },
+
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  cardIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: theme.borderRadius.full,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: theme.spacing[3],
+  },
+
+  cardContent: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+
+  cardTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  cardMeta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+
+  cardStatus: {
+    marginTop: theme.spacing[2],
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
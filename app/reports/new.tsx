@@ -0,0 +1,588 @@
+import { Ionicons } from "@expo/vector-icons";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router } from "expo-router";
+import { MapPin, Type } from "lucide-react-native";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import Animated, { FadeIn } from "react-native-reanimated";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  Can,
+  FormError,
+  LocationSelector,
+  PrimaryButton,
+  TextInputField,
+} from "@/components/auth";
+import { CategoryPicker, PhotoPicker } from "@/components/reports";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { REPORT_CATEGORIES } from "@/constants/reports";
+import { useEmailVerificationGate } from "@/hooks/use-protected-route";
+import { ReportFormData, reportSchema } from "@/lib/validations";
+import { isNetworkError } from "@/services/http-client";
+import { reportService } from "@/services/report-service";
+
+/**
+ * TolimaGO - New Report Screen
+ * Formulario por pasos para reportar una incidencia. El avance se guarda
+ * como borrador y se restaura al volver, incluso tras reiniciar la app.
+ */
+
+const STEPS: { title: string; fields: (keyof ReportFormData)[] }[] = [
+  { title: "¿Qué quieres reportar?", fields: ["category"] },
+  { title: "Cuéntanos qué pasa", fields: ["title", "description"] },
+  { title: "Adjunta fotos", fields: ["photos"] },
+  { title: "¿Dónde está?", fields: ["municipality", "address", "reference"] },
+  { title: "Revisa y envía", fields: [] },
+];
+
+const LAST_STEP = STEPS.length - 1;
+
+// Espera antes de persistir cambios del formulario
+const DRAFT_SAVE_DELAY = 500;
+
+const DEFAULT_VALUES: Partial<ReportFormData> = {
+  title: "",
+  description: "",
+  photos: [],
+  municipality: "",
+  address: "",
+  reference: "",
+};
+
+export default function NewReportScreen() {
+  const [step, setStep] = useState(0);
+  const [isDraftLoaded, setIsDraftLoaded] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { requireVerifiedEmail } = useEmailVerificationGate();
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    trigger,
+    watch,
+    reset,
+    getValues,
+    formState: { errors },
+  } = useForm<ReportFormData>({
+    resolver: zodResolver(reportSchema),
+    mode: "onTouched",
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  // =================== BORRADOR ===================
+
+  // Restaurar el borrador guardado antes de empezar a persistir cambios
+  useEffect(() => {
+    reportService.getDraft().then((draft) => {
+      if (draft) {
+        reset({ ...DEFAULT_VALUES, ...draft.values });
+        setStep(Math.min(draft.step, LAST_STEP));
+      }
+      setIsDraftLoaded(true);
+    });
+  }, [reset]);
+
+  const scheduleDraftSave = useCallback(
+    (currentStep: number) => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+
+      saveTimer.current = setTimeout(() => {
+        reportService.saveDraft(getValues(), currentStep);
+      }, DRAFT_SAVE_DELAY);
+    },
+    [getValues]
+  );
+
+  useEffect(() => {
+    if (!isDraftLoaded) return;
+
+    scheduleDraftSave(step);
+    const subscription = watch(() => scheduleDraftSave(step));
+    return () => subscription.unsubscribe();
+  }, [isDraftLoaded, step, watch, scheduleDraftSave]);
+
+  useEffect(
+    () => () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+    },
+    []
+  );
+
+  const discardDraft = () => {
+    Alert.alert(
+      "Descartar borrador",
+      "Se borrará la información que has ingresado en este reporte.",
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Descartar",
+          style: "destructive",
+          onPress: async () => {
+            if (saveTimer.current) clearTimeout(saveTimer.current);
+            await reportService.clearDraft();
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  // =================== NAVEGACIÓN ENTRE PASOS ===================
+
+  const goNext = async () => {
+    const valid = await trigger(STEPS[step].fields);
+    if (valid) setStep((value) => Math.min(value + 1, LAST_STEP));
+  };
+
+  const goBack = () => {
+    if (step === 0) {
+      router.back();
+      return;
+    }
+    setStep((value) => value - 1);
+  };
+
+  // =================== ENVÍO ===================
+
+  const onSubmit = async (data: ReportFormData) => {
+    // Se puede llenar el formulario sin verificar, pero no enviarlo
+    if (!requireVerifiedEmail()) return;
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      const report = await reportService.createReport(data);
+
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      await reportService.clearDraft();
+
+      router.replace({ pathname: "/reports/[id]", params: { id: report.id } });
+    } catch (error: any) {
+      console.error("📝 [Reports] Submit error:", error);
+
+      let errorMessage = "No pudimos enviar tu reporte. Intenta nuevamente.";
+
+      if (isNetworkError(error)) {
+        errorMessage =
+          "Sin conexión. Tu reporte quedó guardado como borrador; envíalo cuando recuperes internet.";
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setSubmitError(errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // =================== PASOS ===================
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return (
+          <Controller
+            control={control}
+            name="category"
+            render={({ field: { onChange, value } }) => (
+              <CategoryPicker
+                value={value}
+                onChange={onChange}
+                error={errors.category?.message}
+                testID="report-category-picker"
+              />
+            )}
+          />
+        );
+
+      case 1:
+        return (
+          <>
+            <Controller
+              control={control}
+              name="title"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInputField
+                  label="Título"
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  error={errors.title?.message}
+                  leftIcon={
+                    <Type size={20} color={theme.colors.text.secondary} />
+                  }
+                  placeholder="Ej: Poste apagado frente al parque"
+                  maxLength={80}
+                  required
+                  testID="report-title-input"
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="description"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInputField
+                  label="Descripción"
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  error={errors.description?.message}
+                  placeholder="Describe el problema, desde cuándo ocurre y a quién afecta"
+                  multiline
+                  numberOfLines={5}
+                  maxLength={1000}
+                  showCharacterCount
+                  required
+                  testID="report-description-input"
+                />
+              )}
+            />
+          </>
+        );
+
+      case 2:
+        return (
+          <Controller
+            control={control}
+            name="photos"
+            render={({ field: { onChange, value } }) => (
+              <PhotoPicker
+                photos={value ?? []}
+                onChange={onChange}
+                error={errors.photos?.message}
+                testID="report-photo-picker"
+              />
+            )}
+          />
+        );
+
+      case 3:
+        return (
+          <>
+            <Controller
+              control={control}
+              name="municipality"
+              render={({ field: { onChange, value } }) => (
+                <LocationSelector
+                  value={{ city: value || undefined, isTolima: true }}
+                  onChange={(location) => onChange(location.city ?? "")}
+                  isTolima={true}
+                  label="Municipio"
+                  error={errors.municipality?.message}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="address"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInputField
+                  label="Dirección"
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  error={errors.address?.message}
+                  leftIcon={
+                    <MapPin size={20} color={theme.colors.text.secondary} />
+                  }
+                  placeholder="Ej: Calle 10 # 5-23, barrio Belén"
+                  maxLength={150}
+                  required
+                  testID="report-address-input"
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="reference"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <TextInputField
+                  label="Punto de referencia"
+                  value={value ?? ""}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  error={errors.reference?.message}
+                  placeholder="Ej: Frente a la iglesia"
+                  maxLength={150}
+                  testID="report-reference-input"
+                />
+              )}
+            />
+          </>
+        );
+
+      default:
+        return renderReview();
+    }
+  };
+
+  const renderReview = () => {
+    const values = getValues();
+    const category = values.category
+      ? REPORT_CATEGORIES[values.category]
+      : undefined;
+
+    const rows: { label: string; value: string; step: number }[] = [
+      { label: "Categoría", value: category?.label ?? "-", step: 0 },
+      { label: "Título", value: values.title, step: 1 },
+      { label: "Descripción", value: values.description, step: 1 },
+      {
+        label: "Fotos",
+        value:
+          values.photos.length === 0
+            ? "Sin fotos"
+            : `${values.photos.length} adjunta(s)`,
+        step: 2,
+      },
+      {
+        label: "Ubicación",
+        value: [values.address, values.municipality].join(", "),
+        step: 3,
+      },
+    ];
+
+    return (
+      <View style={styles.review}>
+        {rows.map((row) => (
+          <View key={row.label} style={styles.reviewRow}>
+            <View style={styles.reviewText}>
+              <Text style={styles.reviewLabel}>{row.label}</Text>
+              <Text style={styles.reviewValue}>{row.value}</Text>
+            </View>
+            <TouchableOpacity onPress={() => setStep(row.step)} hitSlop={8}>
+              <Text style={styles.editLink}>Editar</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const noPermission = (
+    <View style={styles.centered}>
+      <Text style={styles.noPermissionText}>
+        Tu cuenta no tiene permiso para enviar reportes.
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Nuevo reporte"
+        subtitle={`Paso ${step + 1} de ${STEPS.length}`}
+        rightAction={
+          <TouchableOpacity
+            onPress={discardDraft}
+            hitSlop={8}
+            accessibilityLabel="Descartar borrador"
+          >
+            <Ionicons
+              name="trash-outline"
+              size={22}
+              color={theme.colors.error.main}
+            />
+          </TouchableOpacity>
+        }
+      />
+
+      <Can permission="reports:create" fallback={noPermission}>
+        {!isDraftLoaded ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={theme.colors.primary.main} />
+          </View>
+        ) : (
+          <KeyboardAvoidingView
+            style={styles.keyboardContainer}
+            behavior={Platform.OS === "ios" ? "padding" : "height"}
+          >
+            <View style={styles.progress}>
+              {STEPS.map((item, index) => (
+                <View
+                  key={item.title}
+                  style={[
+                    styles.progressSegment,
+                    index <= step && styles.progressSegmentActive,
+                  ]}
+                />
+              ))}
+            </View>
+
+            <ScrollView
+              contentContainerStyle={styles.content}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <Animated.View key={step} entering={FadeIn.duration(250)}>
+                <Text style={styles.stepTitle}>{STEPS[step].title}</Text>
+
+                {submitError && step === LAST_STEP && (
+                  <FormError
+                    errors={submitError}
+                    variant="error"
+                    animated={true}
+                  />
+                )}
+
+                {renderStep()}
+              </Animated.View>
+            </ScrollView>
+
+            <View style={styles.footer}>
+              <PrimaryButton
+                title={step === 0 ? "Cancelar" : "Atrás"}
+                onPress={goBack}
+                disabled={isSubmitting}
+                variant="outline"
+                size="large"
+                containerStyle={styles.footerButton}
+              />
+              {step < LAST_STEP ? (
+                <PrimaryButton
+                  title="Siguiente"
+                  onPress={goNext}
+                  variant="primary"
+                  size="large"
+                  containerStyle={styles.footerButton}
+                  testID="report-next-button"
+                />
+              ) : (
+                <PrimaryButton
+                  title="Enviar reporte"
+                  onPress={handleSubmit(onSubmit)}
+                  loading={isSubmitting}
+                  disabled={isSubmitting}
+                  variant="primary"
+                  size="large"
+                  containerStyle={styles.footerButton}
+                  testID="report-submit-button"
+                />
+              )}
+            </View>
+          </KeyboardAvoidingView>
+        )}
+      </Can>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: theme.spacing[6],
+  },
+
+  noPermissionText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+  },
+
+  progress: {
+    flexDirection: "row",
+    gap: theme.spacing[1],
+    paddingHorizontal: theme.spacing[6],
+    paddingTop: theme.spacing[4],
+  },
+
+  progressSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.neutral.border,
+  },
+
+  progressSegmentActive: {
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  stepTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[4],
+  },
+
+  review: {
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  reviewRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: theme.spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.divider,
+  },
+
+  reviewText: {
+    flex: 1,
+    marginRight: theme.spacing[3],
+  },
+
+  reviewLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  reviewValue: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[1],
+  },
+
+  editLink: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  footer: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+
+  footerButton: {
+    flex: 1,
+  },
+});
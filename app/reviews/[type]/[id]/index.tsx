@@ -0,0 +1,247 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import {
+  RatingSummaryCard,
+  ReportReviewModal,
+  ReviewCard,
+} from "@/components/reviews";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  REVIEW_SORT_LABELS,
+  REVIEW_SORTS,
+  ReviewSort,
+  ReviewTargetType,
+} from "@/constants/reviews";
+import { useEmailVerificationGate } from "@/hooks/use-protected-route";
+import {
+  useRatingSummary,
+  useReviewReport,
+  useReviews,
+} from "@/hooks/use-reviews";
+import { ReviewReportFormData } from "@/lib/validations";
+import { Review } from "@/services/review-service";
+
+/**
+ * TolimaGO - Reviews Screen
+ * Todas las reseñas de un atractivo o comercio, por fecha o utilidad
+ */
+
+export default function ReviewsScreen() {
+  const { type, id, name } = useLocalSearchParams<{
+    type: ReviewTargetType;
+    id: string;
+    name?: string;
+  }>();
+  const [sort, setSort] = useState<ReviewSort>("recent");
+  const { summary } = useRatingSummary(type, id);
+  const reviews = useReviews(type, id, sort);
+  const reporting = useReviewReport();
+  const { requireVerifiedEmail } = useEmailVerificationGate();
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const refresh = async () => {
+    setIsRefreshing(true);
+    await reviews.reload();
+    setIsRefreshing(false);
+  };
+
+  const openWrite = () => {
+    if (!requireVerifiedEmail()) return;
+    router.push({
+      pathname: "/reviews/[type]/[id]/write",
+      params: { type, id, name },
+    });
+  };
+
+  const handleHelpful = async (review: Review) => {
+    try {
+      await reviews.toggleHelpful(review);
+    } catch (err: any) {
+      Alert.alert("Reseñas", err.message);
+    }
+  };
+
+  const handleReport = async (data: ReviewReportFormData) => {
+    if (!reportingId) return;
+
+    if (await reporting.report(reportingId, data)) {
+      setReportingId(null);
+      Alert.alert("Gracias", "Un moderador revisará la reseña.");
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.listHeader}>
+      {summary && <RatingSummaryCard summary={summary} />}
+      <View style={styles.sortRow}>
+        {REVIEW_SORTS.map((option) => {
+          const selected = sort === option;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.sortChip, selected && styles.sortChipSelected]}
+              onPress={() => setSort(option)}
+              accessibilityState={{ selected }}
+            >
+              <Text
+                style={[styles.sortText, selected && styles.sortTextSelected]}
+              >
+                {REVIEW_SORT_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {reviews.error && (
+        <FormError errors={reviews.error} variant="error" animated={true} />
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Reseñas"
+        subtitle={name}
+        rightAction={
+          <TouchableOpacity
+            onPress={openWrite}
+            hitSlop={8}
+            accessibilityLabel="Escribir una reseña"
+          >
+            <Ionicons
+              name="create-outline"
+              size={24}
+              color={theme.colors.primary.main}
+            />
+          </TouchableOpacity>
+        }
+      />
+
+      {reviews.isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : (
+        <FlatList
+          data={reviews.reviews}
+          keyExtractor={(review) => review.id}
+          renderItem={({ item }) => (
+            <ReviewCard
+              review={item}
+              onToggleHelpful={() => handleHelpful(item)}
+              onReport={() => {
+                reporting.clearError();
+                setReportingId(item.id);
+              }}
+              onEdit={openWrite}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={renderHeader()}
+          onEndReached={reviews.loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListFooterComponent={
+            reviews.isLoadingMore ? (
+              <ActivityIndicator color={theme.colors.primary.main} />
+            ) : null
+          }
+          ListEmptyComponent={
+            reviews.error ? null : (
+              <Text style={styles.emptyText}>
+                Aún no hay reseñas. ¡Sé el primero en contar tu experiencia!
+              </Text>
+            )
+          }
+        />
+      )}
+
+      <ReportReviewModal
+        visible={reportingId !== null}
+        isSubmitting={reporting.isSubmitting}
+        error={reporting.error}
+        onSubmit={handleReport}
+        onClose={() => setReportingId(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  listHeader: {
+    gap: theme.spacing[3],
+  },
+
+  sortRow: {
+    flexDirection: "row",
+    gap: theme.spacing[2],
+  },
+
+  sortChip: {
+    paddingVertical: theme.spacing[2],
+    paddingHorizontal: theme.spacing[4],
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  sortChipSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  sortText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  sortTextSelected: {
+    color: theme.colors.neutral.white,
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[6],
+  },
+});
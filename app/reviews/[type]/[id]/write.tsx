@@ -0,0 +1,366 @@
+import { Ionicons } from "@expo/vector-icons";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Image } from "expo-image";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton, TextInputField } from "@/components/auth";
+import { PhotoPicker } from "@/components/reports";
+import { StarRating } from "@/components/reviews";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import {
+  MAX_REVIEW_PHOTOS,
+  RATING_LABELS,
+  RatingValue,
+  REVIEW_MAX_LENGTH,
+  ReviewTargetType,
+} from "@/constants/reviews";
+import { useEmailVerificationGate } from "@/hooks/use-protected-route";
+import { useMyReview } from "@/hooks/use-reviews";
+import { ReviewFormData, reviewSchema } from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+import { ReviewPhoto, reviewService } from "@/services/review-service";
+
+/**
+ * TolimaGO - Write Review Screen
+ * Publica o edita la reseña del usuario; hay una por lugar
+ */
+
+export default function WriteReviewScreen() {
+  const { type, id, name } = useLocalSearchParams<{
+    type: ReviewTargetType;
+    id: string;
+    name?: string;
+  }>();
+  const { review, isLoading, error } = useMyReview(type, id);
+  const { requireVerifiedEmail } = useEmailVerificationGate();
+  const [keptPhotos, setKeptPhotos] = useState<ReviewPhoto[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: { rating: 0, body: "", photos: [] },
+  });
+
+  // Al editar, el formulario parte de la reseña publicada
+  useEffect(() => {
+    if (!review) return;
+    reset({ rating: review.rating, body: review.body, photos: [] });
+    setKeptPhotos(review.photos);
+  }, [review, reset]);
+
+  const onSubmit = async (data: ReviewFormData) => {
+    if (!requireVerifiedEmail()) return;
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      if (review) {
+        await reviewService.updateReview(
+          review.id,
+          data,
+          keptPhotos.map((photo) => photo.id)
+        );
+      } else {
+        await reviewService.createReview({ type, id }, data);
+      }
+
+      router.back();
+    } catch (err: any) {
+      console.error("⭐ [Reviews] Save error:", err);
+      setSubmitError(getApiErrorMessage(err, "No se pudo guardar la reseña"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteReview = async () => {
+    if (!review) return;
+
+    try {
+      setIsDeleting(true);
+      setSubmitError(null);
+      await reviewService.deleteReview(review.id);
+      router.back();
+    } catch (err: any) {
+      console.error("⭐ [Reviews] Delete error:", err);
+      setSubmitError(getApiErrorMessage(err, "No se pudo eliminar la reseña"));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      "Eliminar reseña",
+      "Tu reseña y sus fotos dejarán de verse. Podrás escribir una nueva.",
+      [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Eliminar", style: "destructive", onPress: deleteReview },
+      ]
+    );
+  };
+
+  const title = review ? "Editar reseña" : "Escribir reseña";
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title={title} subtitle={name} />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title={title} subtitle={name} />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {(submitError || error) && (
+            <FormError
+              errors={submitError ?? error ?? ""}
+              variant="error"
+              animated={true}
+            />
+          )}
+
+          <Text style={styles.sectionTitle}>Calificación</Text>
+          <Controller
+            control={control}
+            name="rating"
+            render={({ field: { onChange, value } }) => (
+              <View style={styles.rating}>
+                <StarRating
+                  value={value}
+                  size={36}
+                  onChange={onChange}
+                  testID="review-rating-input"
+                />
+                <Text style={styles.ratingLabel}>
+                  {value > 0
+                    ? RATING_LABELS[value as RatingValue]
+                    : "Toca una estrella"}
+                </Text>
+              </View>
+            )}
+          />
+          {errors.rating?.message && (
+            <Text style={styles.fieldError}>{errors.rating.message}</Text>
+          )}
+
+          <Text style={styles.sectionTitle}>Tu experiencia</Text>
+          <Controller
+            control={control}
+            name="body"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Reseña"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                placeholder="¿Qué te gustó? ¿Qué podría mejorar?"
+                multiline
+                numberOfLines={6}
+                maxLength={REVIEW_MAX_LENGTH}
+                helperText={`${value.length}/${REVIEW_MAX_LENGTH}`}
+                error={errors.body?.message}
+                testID="review-body-input"
+              />
+            )}
+          />
+
+          <Text style={styles.sectionTitle}>Fotos</Text>
+          {keptPhotos.length > 0 && (
+            <View style={styles.grid}>
+              {keptPhotos.map((photo) => (
+                <View key={photo.id} style={styles.thumbnail}>
+                  <Image source={{ uri: photo.url }} style={styles.image} />
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() =>
+                      setKeptPhotos((current) =>
+                        current.filter((item) => item.id !== photo.id)
+                      )
+                    }
+                    hitSlop={8}
+                    accessibilityLabel="Quitar foto"
+                  >
+                    <Ionicons
+                      name="close"
+                      size={14}
+                      color={theme.colors.neutral.white}
+                    />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+          {keptPhotos.length < MAX_REVIEW_PHOTOS && (
+            <Controller
+              control={control}
+              name="photos"
+              render={({ field: { onChange, value } }) => (
+                <PhotoPicker
+                  photos={value}
+                  onChange={onChange}
+                  maxPhotos={MAX_REVIEW_PHOTOS - keptPhotos.length}
+                  error={errors.photos?.message}
+                  testID="review-photo-picker"
+                />
+              )}
+            />
+          )}
+
+          {review && (
+            <PrimaryButton
+              title="Eliminar reseña"
+              onPress={confirmDelete}
+              loading={isDeleting}
+              disabled={isDeleting || isSubmitting}
+              variant="ghost"
+              size="medium"
+              fullWidth={true}
+              containerStyle={styles.deleteButton}
+              testID="review-delete-button"
+            />
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title={review ? "Guardar cambios" : "Publicar reseña"}
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={isSubmitting || isDeleting}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="review-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+
+  rating: {
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  ratingLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+  },
+
+  fieldError: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.main,
+    textAlign: "center",
+    marginTop: theme.spacing[1],
+  },
+
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing[3],
+    marginBottom: theme.spacing[3],
+  },
+
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.borderRadius.md,
+    overflow: "hidden",
+  },
+
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+
+  removeButton: {
+    position: "absolute",
+    top: theme.spacing[1],
+    right: theme.spacing[1],
+    width: 24,
+    height: 24,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  deleteButton: {
+    marginTop: theme.spacing[6],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,19 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function ReviewsLayout() {
+  // Leer reseñas requiere sesión; publicarlas, además, email verificado
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="[type]/[id]/index" />
+      <Stack.Screen name="[type]/[id]/write" />
+    </Stack>
+  );
+}
@@ -0,0 +1,295 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ReviewsSection } from "@/components/reviews";
+import { AccessibilityInfo, ImageGallery } from "@/components/tourism";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { TOURISM_CATEGORIES } from "@/constants/tourism";
+import { useAttraction, useSavedAttractions } from "@/hooks/use-tourism";
+import { buildDirectionsUrl, buildWebDirectionsUrl } from "@/lib/geo";
+
+/**
+ * TolimaGO - Attraction Detail Screen
+ * Galería, horarios, accesibilidad y reseñas de un lugar turístico
+ */
+
+export default function AttractionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { attraction, isLoading, error, reload } = useAttraction(id);
+  const { isSaved, toggleSaved } = useSavedAttractions();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggleSaved = async () => {
+    if (!attraction) return;
+
+    setIsSaving(true);
+    try {
+      await toggleSaved(attraction);
+    } catch (err: any) {
+      Alert.alert("Mi viaje", err?.message || "No se pudo actualizar tu viaje");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !attraction) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró el lugar"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={reload}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    const category = TOURISM_CATEGORIES[attraction.category];
+    const saved = isSaved(attraction.id);
+    const { latitude, longitude } = attraction;
+    const destination =
+      latitude !== undefined && longitude !== undefined
+        ? { latitude, longitude }
+        : null;
+
+    const openDirections = async () => {
+      if (!destination) return;
+      try {
+        await Linking.openURL(
+          buildDirectionsUrl(destination, attraction.name, Platform.OS)
+        );
+      } catch {
+        await Linking.openURL(buildWebDirectionsUrl(destination));
+      }
+    };
+
+    return (
+      <>
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <ImageGallery images={attraction.images} category={category} />
+
+          <View style={styles.content}>
+            <View style={styles.categoryRow}>
+              <Ionicons name={category.icon} size={18} color={category.color} />
+              <Text style={[styles.categoryText, { color: category.color }]}>
+                {category.label} · {attraction.municipality}
+              </Text>
+            </View>
+            <Text style={styles.title}>{attraction.name}</Text>
+            <Text style={styles.body}>{attraction.description}</Text>
+
+            {(attraction.season || attraction.fee) && (
+              <View style={styles.facts}>
+                {attraction.season && (
+                  <View style={styles.fact}>
+                    <Ionicons
+                      name="calendar-outline"
+                      size={18}
+                      color={theme.colors.primary.main}
+                    />
+                    <Text style={styles.factText}>{attraction.season}</Text>
+                  </View>
+                )}
+                {attraction.fee && (
+                  <View style={styles.fact}>
+                    <Ionicons
+                      name="cash-outline"
+                      size={18}
+                      color={theme.colors.primary.main}
+                    />
+                    <Text style={styles.factText}>{attraction.fee}</Text>
+                  </View>
+                )}
+              </View>
+            )}
+
+            <Text style={styles.sectionTitle}>Horario</Text>
+            {attraction.openingHours.length === 0 ? (
+              <Text style={styles.body}>Sin horario fijo</Text>
+            ) : (
+              attraction.openingHours.map((entry) => (
+                <View key={entry.days} style={styles.hoursRow}>
+                  <Text style={styles.hoursDays}>{entry.days}</Text>
+                  <Text style={styles.hoursValue}>{entry.hours}</Text>
+                </View>
+              ))
+            )}
+
+            <Text style={styles.sectionTitle}>Accesibilidad</Text>
+            <AccessibilityInfo accessibility={attraction.accessibility} />
+
+            <Text style={styles.sectionTitle}>Reseñas</Text>
+            <ReviewsSection
+              targetType="attraction"
+              targetId={attraction.id}
+              targetName={attraction.name}
+            />
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {destination && (
+            <View style={styles.footerButton}>
+              <PrimaryButton
+                title="Cómo llegar"
+                onPress={openDirections}
+                variant="outline"
+                size="large"
+                fullWidth={true}
+              />
+            </View>
+          )}
+          <View style={styles.footerButton}>
+            <PrimaryButton
+              title={saved ? "Quitar de mi viaje" : "Guardar en mi viaje"}
+              onPress={handleToggleSaved}
+              variant={saved ? "secondary" : "primary"}
+              size="large"
+              fullWidth={true}
+              loading={isSaving}
+              testID="attraction-save-button"
+            />
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Explorar" subtitle={attraction?.municipality} />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  categoryText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  facts: {
+    gap: theme.spacing[2],
+    marginTop: theme.spacing[2],
+  },
+
+  fact: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  factText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+  },
+
+  hoursRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: theme.spacing[3],
+  },
+
+  hoursDays: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  hoursValue: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  footer: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+
+  footerButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,19 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function TourismLayout() {
+  // "Mi viaje" se guarda por usuario
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="[id]" />
+      <Stack.Screen name="saved" />
+    </Stack>
+  );
+}
@@ -0,0 +1,79 @@
+import { router } from "expo-router";
+import React from "react";
+import { ActivityIndicator, FlatList, StyleSheet, Text } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { AttractionCard } from "@/components/tourism";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useSavedAttractions } from "@/hooks/use-tourism";
+
+/**
+ * TolimaGO - Saved Attractions Screen
+ * "Mi viaje": lugares guardados desde el catálogo turístico
+ */
+
+export default function SavedAttractionsScreen() {
+  const { saved, isLoading } = useSavedAttractions();
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Lugares guardados"
+        subtitle="Para agregarlos a tus viajes"
+      />
+
+      <FlatList
+        data={saved}
+        keyExtractor={(item) => item.attraction.id}
+        renderItem={({ item }) => (
+          <AttractionCard
+            attraction={item.attraction}
+            isSaved={true}
+            onPress={() =>
+              router.push({
+                pathname: "/tourism/[id]",
+                params: { id: item.attraction.id },
+              })
+            }
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : (
+            <Text style={styles.emptyText}>
+              Aún no has guardado lugares. Usa &quot;Guardar en mi viaje&quot;
+              en cualquier lugar de Explorar.
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
@@ -0,0 +1,269 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { Can, FormError, PrimaryButton } from "@/components/auth";
+import { FavouriteButton } from "@/components/favourites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { formatTramiteFee } from "@/constants/tramites";
+import { useTramite } from "@/hooks/use-tramites";
+
+/**
+ * TolimaGO - Tramite Detail Screen
+ * Requisitos, costo, horario de atención y duración de un trámite
+ */
+
+export default function TramiteDetailScreen() {
+  const { id, municipality } = useLocalSearchParams<{
+    id: string;
+    municipality?: string;
+  }>();
+  const { tramite, isLoading, error, reload } = useTramite(id, municipality);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !tramite) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró el trámite"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={reload}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    const facts = [
+      {
+        icon: "cash-outline" as const,
+        label: "Costo",
+        value: formatTramiteFee(tramite.fee),
+      },
+      {
+        icon: "time-outline" as const,
+        label: "Duración estimada",
+        value: tramite.estimatedDuration,
+      },
+      {
+        icon: "calendar-outline" as const,
+        label: "Horario de atención",
+        value: tramite.officeHours,
+      },
+      {
+        icon: "business-outline" as const,
+        label: "Oficina",
+        value: [tramite.officeName, tramite.officeAddress]
+          .filter(Boolean)
+          .join(" · "),
+      },
+    ];
+
+    return (
+      <>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.title}>{tramite.name}</Text>
+          <Text style={styles.body}>{tramite.description}</Text>
+
+          <View style={styles.facts}>
+            {facts.map((fact) => (
+              <View key={fact.label} style={styles.fact}>
+                <Ionicons
+                  name={fact.icon}
+                  size={20}
+                  color={theme.colors.primary.main}
+                />
+                <View style={styles.factText}>
+                  <Text style={styles.factLabel}>{fact.label}</Text>
+                  <Text style={styles.factValue}>{fact.value}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Requisitos</Text>
+          {tramite.requirements.length === 0 ? (
+            <Text style={styles.body}>No requiere documentos previos.</Text>
+          ) : (
+            tramite.requirements.map((requirement) => (
+              <View key={requirement} style={styles.requirement}>
+                <Ionicons
+                  name="checkmark-circle-outline"
+                  size={18}
+                  color={theme.colors.success.main}
+                />
+                <Text style={styles.requirementText}>{requirement}</Text>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        <Can permission="tramites:create">
+          <View style={styles.footer}>
+            <PrimaryButton
+              title="Solicitar trámite"
+              onPress={() =>
+                router.push({
+                  pathname: "/tramites/request",
+                  params: {
+                    id: tramite.id,
+                    municipality: tramite.municipality,
+                  },
+                })
+              }
+              variant="primary"
+              size="large"
+              fullWidth={true}
+              testID="tramite-request-button"
+            />
+          </View>
+        </Can>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Detalle del trámite"
+        subtitle={tramite?.municipality ?? municipality}
+        rightAction={
+          <FavouriteButton
+            item={
+              tramite
+                ? {
+                    type: "tramite",
+                    itemId: tramite.id,
+                    title: tramite.name,
+                    subtitle: tramite.municipality,
+                    municipality: tramite.municipality,
+                  }
+                : null
+            }
+            testID="tramite-favourite-button"
+          />
+        }
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  facts: {
+    marginTop: theme.spacing[4],
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  fact: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.divider,
+  },
+
+  factText: {
+    flex: 1,
+  },
+
+  factLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  factValue: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginTop: 2,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+  },
+
+  requirement: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[2],
+  },
+
+  requirementText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
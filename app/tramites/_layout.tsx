@@ -0,0 +1,22 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function TramitesLayout() {
+  // El seguimiento de solicitudes requiere sesión
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="[id]" />
+      <Stack.Screen name="request" />
+      <Stack.Screen name="requests/index" />
+      <Stack.Screen name="requests/[id]" />
+    </Stack>
+  );
+}
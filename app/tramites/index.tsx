@@ -0,0 +1,230 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { Search } from "lucide-react-native";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, LocationSelector } from "@/components/auth";
+import { TramiteCard } from "@/components/tramites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useCurrentMunicipality } from "@/context/municipality-context";
+import { useTramiteCatalogue } from "@/hooks/use-tramites";
+
+/**
+ * TolimaGO - Tramites Catalogue Screen
+ * Trámites disponibles por municipio; consultable sin conexión
+ */
+
+export default function TramitesCatalogueScreen() {
+  const { municipality: currentMunicipality } = useCurrentMunicipality();
+  // Sigue al municipio actual hasta que el usuario elige otro
+  const [pickedMunicipality, setMunicipality] = useState<string | null>(null);
+  const municipality = pickedMunicipality ?? currentMunicipality;
+  const [search, setSearch] = useState("");
+  const { catalogue, tramites, isLoading, isRefreshing, error, refresh } =
+    useTramiteCatalogue(municipality);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return tramites;
+
+    return tramites.filter(
+      (tramite) =>
+        tramite.name.toLowerCase().includes(query) ||
+        tramite.description.toLowerCase().includes(query)
+    );
+  }, [tramites, search]);
+
+  const header = (
+    <View style={styles.filters}>
+      <LocationSelector
+        value={{ city: municipality, isTolima: true }}
+        onChange={(location) => location.city && setMunicipality(location.city)}
+        isTolima={true}
+        label="Municipio"
+      />
+
+      <View style={styles.searchContainer}>
+        <Search size={20} color={theme.colors.text.secondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Buscar trámite..."
+          value={search}
+          onChangeText={setSearch}
+          placeholderTextColor={theme.colors.text.secondary}
+        />
+      </View>
+
+      {catalogue?.fromCache && (
+        <View style={styles.offlineBanner}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.offlineText}>
+            Sin conexión. Información guardada el{" "}
+            {new Date(catalogue.fetchedAt).toLocaleDateString("es-CO", {
+              day: "numeric",
+              month: "short",
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </Text>
+        </View>
+      )}
+
+      {error && <FormError errors={error} variant="error" animated={true} />}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Trámites"
+        subtitle="Requisitos, costos y horarios de tu alcaldía"
+        rightAction={
+          <TouchableOpacity
+            style={styles.myRequestsButton}
+            onPress={() => router.push("/tramites/requests")}
+            hitSlop={8}
+            accessibilityLabel="Mis solicitudes"
+          >
+            <Ionicons
+              name="folder-open-outline"
+              size={20}
+              color={theme.colors.primary.main}
+            />
+            <Text style={styles.myRequestsText}>Mis solicitudes</Text>
+          </TouchableOpacity>
+        }
+      />
+
+      <FlatList
+        data={filtered}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <TramiteCard
+            tramite={item}
+            onPress={() =>
+              router.push({
+                pathname: "/tramites/[id]",
+                params: { id: item.id, municipality },
+              })
+            }
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={header}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : error ? null : (
+            <Text style={styles.emptyText}>
+              {search
+                ? "Ningún trámite coincide con tu búsqueda"
+                : `Aún no hay trámites publicados para ${municipality}`}
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  myRequestsButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  myRequestsText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  filters: {
+    gap: theme.spacing[2],
+    marginBottom: theme.spacing[2],
+  },
+
+  searchContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[2],
+    gap: theme.spacing[2],
+  },
+
+  searchInput: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    paddingVertical: theme.spacing[1],
+  },
+
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  offlineText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
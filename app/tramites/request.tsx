@@ -0,0 +1,323 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router, useLocalSearchParams } from "expo-router";
+import { Phone } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  Can,
+  FormError,
+  PrimaryButton,
+  TextInputField,
+  Toggle,
+} from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { formatTramiteFee } from "@/constants/tramites";
+import { useAuth } from "@/context/auth-context";
+import { useEmailVerificationGate } from "@/hooks/use-protected-route";
+import { useTramite } from "@/hooks/use-tramites";
+import {
+  formatColombianPhone,
+  TramiteRequestFormData,
+  tramiteRequestSchema,
+} from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+import { tramiteService } from "@/services/tramite-service";
+
+/**
+ * TolimaGO - Tramite Request Screen
+ * Radicación de una solicitud; sin conexión queda en la bandeja de salida
+ */
+
+export default function TramiteRequestScreen() {
+  const { id, municipality } = useLocalSearchParams<{
+    id: string;
+    municipality?: string;
+  }>();
+  const { user } = useAuth();
+  const { tramite, isLoading, error } = useTramite(id, municipality);
+  const { requireVerifiedEmail } = useEmailVerificationGate();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<TramiteRequestFormData>({
+    resolver: zodResolver(tramiteRequestSchema),
+    mode: "onChange",
+    defaultValues: {
+      contactPhone: user?.phone ?? "",
+      notes: "",
+      acceptRequirements: false,
+    },
+  });
+
+  const onSubmit = async (data: TramiteRequestFormData) => {
+    if (!tramite || !requireVerifiedEmail()) return;
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      const result = await tramiteService.submitRequest(
+        {
+          tramiteId: tramite.id,
+          municipality: tramite.municipality,
+          contactPhone: formatColombianPhone(data.contactPhone),
+          notes: data.notes || undefined,
+        },
+        tramite.name
+      );
+
+      if (result.status === "queued") {
+        Alert.alert(
+          "Solicitud guardada",
+          "No hay conexión. Radicaremos tu solicitud automáticamente cuando vuelvas a estar en línea.",
+          [{ text: "Entendido", onPress: () => router.replace("/(tabs)") }]
+        );
+        return;
+      }
+
+      router.replace({
+        pathname: "/tramites/requests/[id]",
+        params: { id: result.request.id },
+      });
+    } catch (err: any) {
+      console.error("🏛️ [Tramites] Submit error:", err);
+      setSubmitError(
+        getApiErrorMessage(err, "No pudimos radicar tu solicitud")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderForm = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (error || !tramite) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró el trámite"}
+            variant="error"
+            animated={true}
+          />
+        </View>
+      );
+    }
+
+    return (
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.title}>{tramite.name}</Text>
+          <Text style={styles.subtitle}>
+            {tramite.municipality} · {formatTramiteFee(tramite.fee)} ·{" "}
+            {tramite.estimatedDuration}
+          </Text>
+
+          {submitError && (
+            <FormError errors={submitError} variant="error" animated={true} />
+          )}
+
+          <Controller
+            control={control}
+            name="contactPhone"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Teléfono de contacto"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.contactPhone?.message}
+                leftIcon={
+                  <Phone size={20} color={theme.colors.text.secondary} />
+                }
+                keyboardType="phone-pad"
+                placeholder="+57 300 1234567"
+                helperText="La oficina te contactará a este número si lo necesita"
+                required
+                testID="tramite-phone-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="notes"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Observaciones"
+                value={value ?? ""}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.notes?.message}
+                placeholder="Información adicional para la oficina"
+                multiline
+                numberOfLines={4}
+                maxLength={500}
+                showCharacterCount
+                testID="tramite-notes-input"
+              />
+            )}
+          />
+
+          {tramite.requirements.length > 0 && (
+            <View style={styles.requirements}>
+              <Text style={styles.requirementsTitle}>Requisitos</Text>
+              {tramite.requirements.map((requirement) => (
+                <Text key={requirement} style={styles.requirementText}>
+                  • {requirement}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <Controller
+            control={control}
+            name="acceptRequirements"
+            render={({ field: { onChange, value } }) => (
+              <Toggle
+                value={value}
+                onValueChange={onChange}
+                label="Cuento con los requisitos"
+                description="La oficina puede pedirte documentos adicionales durante el proceso"
+                testID="tramite-accept-toggle"
+              />
+            )}
+          />
+          {errors.acceptRequirements?.message && (
+            <Text style={styles.errorText}>
+              {errors.acceptRequirements.message}
+            </Text>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Radicar solicitud"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={!isValid || isSubmitting}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="tramite-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Solicitar trámite" />
+      <Can
+        permission="tramites:create"
+        fallback={
+          <View style={styles.centered}>
+            <Text style={styles.subtitle}>
+              Tu cuenta no tiene permiso para radicar trámites.
+            </Text>
+          </View>
+        }
+      >
+        {renderForm()}
+      </Can>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: theme.spacing[6],
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  subtitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+    marginBottom: theme.spacing[4],
+  },
+
+  requirements: {
+    padding: theme.spacing[4],
+    marginVertical: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary.light,
+    gap: theme.spacing[1],
+  },
+
+  requirementsTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.dark,
+  },
+
+  requirementText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+
+  errorText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.main,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,131 @@
+import { useLocalSearchParams } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { RequestedDocuments, RequestTimeline } from "@/components/tramites";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { TRAMITE_STATUS_INFO } from "@/constants/tramites";
+import { useTramiteRequest } from "@/hooks/use-tramites";
+
+/**
+ * TolimaGO - Tramite Request Detail Screen
+ * Línea de tiempo de la solicitud y documentos pedidos por la oficina
+ */
+
+export default function TramiteRequestDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { request, isLoading, isRefreshing, error, refresh } =
+    useTramiteRequest(id);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (!request) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors={error ?? "No se encontró la solicitud"}
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Reintentar"
+            onPress={refresh}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary.main}
+          />
+        }
+      >
+        {error && <FormError errors={error} variant="error" animated={true} />}
+
+        <Text style={styles.title}>{request.tramiteName}</Text>
+        <Text style={styles.meta}>{request.municipality}</Text>
+        <StatusBadge {...TRAMITE_STATUS_INFO[request.status]} />
+
+        <Text style={styles.sectionTitle}>Documentos solicitados</Text>
+        <RequestedDocuments documents={request.requestedDocuments} />
+
+        <Text style={styles.sectionTitle}>Seguimiento</Text>
+        <RequestTimeline timeline={request.timeline} />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Seguimiento"
+        subtitle={request ? `Radicado #${request.id}` : undefined}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+  },
+});
@@ -0,0 +1,205 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { TRAMITE_STATUS_INFO } from "@/constants/tramites";
+import { useMyTramiteRequests } from "@/hooks/use-tramites";
+import { TramiteRequest } from "@/services/tramite-service";
+
+/**
+ * TolimaGO - My Tramite Requests Screen
+ * Solicitudes radicadas por el usuario con su estado actual
+ */
+
+export default function MyTramiteRequestsScreen() {
+  const { requests, isLoading, isRefreshing, error, refresh } =
+    useMyTramiteRequests();
+
+  const renderRequest = ({ item }: { item: TramiteRequest }) => {
+    const pendingDocuments = item.requestedDocuments.filter(
+      (document) => document.status === "pending"
+    ).length;
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() =>
+          router.push({
+            pathname: "/tramites/requests/[id]",
+            params: { id: item.id },
+          })
+        }
+        activeOpacity={0.7}
+      >
+        <View style={styles.cardContent}>
+          <Text style={styles.cardTitle}>{item.tramiteName}</Text>
+          <Text style={styles.cardMeta}>
+            {item.municipality} · Radicado{" "}
+            {new Date(item.createdAt).toLocaleDateString("es-CO", {
+              day: "numeric",
+              month: "short",
+              year: "numeric",
+            })}
+          </Text>
+          <View style={styles.cardStatus}>
+            <StatusBadge {...TRAMITE_STATUS_INFO[item.status]} />
+          </View>
+          {pendingDocuments > 0 && (
+            <Text style={styles.pendingDocuments}>
+              {pendingDocuments === 1
+                ? "1 documento pendiente por entregar"
+                : `${pendingDocuments} documentos pendientes por entregar`}
+            </Text>
+          )}
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={20}
+          color={theme.colors.text.secondary}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Mis solicitudes"
+        subtitle="Seguimiento de tus trámites"
+      />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      ) : (
+        <FlatList
+          data={requests}
+          keyExtractor={(item) => item.id}
+          renderItem={renderRequest}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              tintColor={theme.colors.primary.main}
+            />
+          }
+          ListHeaderComponent={
+            error ? (
+              <FormError errors={error} variant="error" animated={true} />
+            ) : null
+          }
+          ListEmptyComponent={
+            error ? null : (
+              <View style={styles.emptyContainer}>
+                <Ionicons
+                  name="folder-open-outline"
+                  size={48}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.emptyTitle}>Sin solicitudes</Text>
+                <Text style={styles.emptyDescription}>
+                  Cuando radiques un trámite podrás seguir su avance aquí.
+                </Text>
+              </View>
+            )
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+    flexGrow: 1,
+  },
+
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  cardContent: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+
+  cardTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  cardMeta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+
+  cardStatus: {
+    marginTop: theme.spacing[2],
+  },
+
+  pendingDocuments: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.warning.dark,
+    marginTop: theme.spacing[2],
+  },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  emptyTitle: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+  },
+
+  emptyDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[2],
+  },
+});
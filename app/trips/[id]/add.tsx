@@ -0,0 +1,303 @@
+import { router, useLocalSearchParams } from "expo-router";
+import { Search } from "lucide-react-native";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError } from "@/components/auth";
+import { PlaceCard } from "@/components/places";
+import { AttractionCard } from "@/components/tourism";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { MAX_STOPS_PER_DAY, TripStopKind } from "@/constants/trips";
+import { usePlaces } from "@/hooks/use-places";
+import { useAttractions, useSavedAttractions } from "@/hooks/use-tourism";
+import { useTrip } from "@/hooks/use-trips";
+import { formatTripDate } from "@/lib/trip-planning";
+import type { Place } from "@/services/places-service";
+import type { Attraction } from "@/services/tourism-service";
+import { tripService } from "@/services/trip-service";
+
+/**
+ * TolimaGO - Add Trip Stop Screen
+ * Elige un lugar turístico o un servicio para un día del itinerario
+ */
+
+const SEGMENTS: { id: TripStopKind; label: string }[] = [
+  { id: "attraction", label: "Turismo" },
+  { id: "place", label: "Servicios" },
+];
+
+type StopCandidate =
+  | { kind: "attraction"; item: Attraction }
+  | { kind: "place"; item: Place };
+
+const matches = (query: string, ...values: string[]) =>
+  values.some((value) => value.toLowerCase().includes(query));
+
+export default function AddTripStopScreen() {
+  const { id, day } = useLocalSearchParams<{ id: string; day: string }>();
+  const dayIndex = Number(day) || 0;
+  const { trip, update } = useTrip(id);
+  const [segment, setSegment] = useState<TripStopKind>("attraction");
+  const [search, setSearch] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const tourism = useAttractions(null, null);
+  const services = usePlaces(null, null, null);
+  const { saved, isSaved } = useSavedAttractions();
+
+  const tripDay = trip?.days[dayIndex];
+
+  const candidates = useMemo<StopCandidate[]>(() => {
+    const query = search.trim().toLowerCase();
+
+    if (segment === "place") {
+      return services.places
+        .filter(
+          (place) => !query || matches(query, place.name, place.municipality)
+        )
+        .map((place) => ({ kind: "place", item: place }));
+    }
+
+    // Primero los lugares guardados en "Mi viaje"
+    const savedAttractions = saved.map((entry) => entry.attraction);
+    const savedIds = new Set(savedAttractions.map((item) => item.id));
+    return [
+      ...savedAttractions,
+      ...tourism.attractions.filter((item) => !savedIds.has(item.id)),
+    ]
+      .filter(
+        (attraction) =>
+          !query || matches(query, attraction.name, attraction.municipality)
+      )
+      .map((attraction) => ({ kind: "attraction", item: attraction }));
+  }, [segment, search, saved, tourism.attractions, services.places]);
+
+  const active = segment === "place" ? services : tourism;
+
+  const handleAdd = async ({ kind, item }: StopCandidate) => {
+    if (!tripDay) return;
+
+    if (
+      tripDay.stops.some((stop) => stop.kind === kind && stop.refId === item.id)
+    ) {
+      Alert.alert("Mi viaje", `${item.name} ya está en este día.`);
+      return;
+    }
+    if (tripDay.stops.length >= MAX_STOPS_PER_DAY) {
+      Alert.alert(
+        "Mi viaje",
+        `Cada día admite hasta ${MAX_STOPS_PER_DAY} paradas.`
+      );
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await update((current) => ({
+        ...current,
+        days: current.days.map((entry, index) =>
+          index === dayIndex
+            ? {
+                ...entry,
+                stops: [
+                  ...entry.stops,
+                  {
+                    id: tripService.createStopId(),
+                    kind,
+                    refId: item.id,
+                    name: item.name,
+                    municipality: item.municipality,
+                    latitude: item.latitude,
+                    longitude: item.longitude,
+                  },
+                ],
+              }
+            : entry
+        ),
+      }));
+      router.back();
+    } catch (err: any) {
+      Alert.alert("Mi viaje", err?.message || "No se pudo agregar la parada");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.filters}>
+      <View style={styles.segments}>
+        {SEGMENTS.map((option) => {
+          const selected = option.id === segment;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.segment, selected && styles.segmentSelected]}
+              onPress={() => setSegment(option.id)}
+              accessibilityState={{ selected }}
+            >
+              <Text
+                style={[
+                  styles.segmentText,
+                  selected && styles.segmentTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Search size={20} color={theme.colors.text.secondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Buscar por nombre o municipio..."
+          value={search}
+          onChangeText={setSearch}
+          placeholderTextColor={theme.colors.text.secondary}
+          returnKeyType="search"
+        />
+      </View>
+
+      {active.error && (
+        <FormError errors={active.error} variant="error" animated={true} />
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Agregar parada"
+        subtitle={
+          tripDay
+            ? `Día ${dayIndex + 1} · ${formatTripDate(tripDay.date)}`
+            : undefined
+        }
+      />
+
+      <FlatList
+        data={candidates}
+        keyExtractor={({ kind, item }) => `${kind}-${item.id}`}
+        renderItem={({ item: candidate }) =>
+          candidate.kind === "attraction" ? (
+            <AttractionCard
+              attraction={candidate.item}
+              isSaved={isSaved(candidate.item.id)}
+              onPress={() => !isAdding && handleAdd(candidate)}
+            />
+          ) : (
+            <PlaceCard
+              place={candidate.item}
+              onPress={() => !isAdding && handleAdd(candidate)}
+            />
+          )
+        }
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          active.isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : (
+            <Text style={styles.emptyText}>
+              No encontramos resultados para tu búsqueda
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  filters: {
+    gap: theme.spacing[3],
+    marginBottom: theme.spacing[2],
+  },
+
+  segments: {
+    flexDirection: "row",
+    padding: theme.spacing[1],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  segment: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: theme.spacing[2],
+    borderRadius: theme.borderRadius.sm,
+  },
+
+  segmentSelected: {
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  segmentText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  segmentTextSelected: {
+    color: theme.colors.text.inverse,
+  },
+
+  searchContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[2],
+    gap: theme.spacing[2],
+  },
+
+  searchInput: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    paddingVertical: theme.spacing[1],
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+});
@@ -0,0 +1,363 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { DaySection } from "@/components/trips";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { MAX_TRIP_DAYS } from "@/constants/trips";
+import { useTrip } from "@/hooks/use-trips";
+import { formatDistance } from "@/lib/geo";
+import {
+  buildTripShareLink,
+  buildTripText,
+  shareTripCalendar,
+} from "@/lib/trip-export";
+import {
+  addDaysToDate,
+  estimateTravel,
+  formatTravelDuration,
+} from "@/lib/trip-planning";
+import { TripDay } from "@/services/trip-service";
+
+/**
+ * TolimaGO - Trip Detail Screen
+ * Itinerario día a día: paradas, recorrido estimado, notas y exportación
+ */
+
+export default function TripDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { trip, isLoading, update, remove } = useTrip(id);
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (trip) setNotes(trip.notes);
+  }, [trip]);
+
+  const save = async (change: Parameters<typeof update>[0]) => {
+    try {
+      setError(null);
+      await update(change);
+    } catch (err: any) {
+      setError(err?.message || "No se pudo actualizar tu viaje");
+    }
+  };
+
+  const updateDay = (index: number, change: Partial<TripDay>) =>
+    save((current) => ({
+      ...current,
+      days: current.days.map((day, dayIndex) =>
+        dayIndex === index ? { ...day, ...change } : day
+      ),
+    }));
+
+  const addDay = () =>
+    save((current) => ({
+      ...current,
+      days: [
+        ...current.days,
+        {
+          date: addDaysToDate(current.startDate, current.days.length),
+          stops: [],
+          notes: "",
+        },
+      ],
+    }));
+
+  const removeLastDay = () => {
+    if (!trip || trip.days.length <= 1) return;
+    const lastDay = trip.days[trip.days.length - 1];
+
+    const apply = () =>
+      save((current) => ({ ...current, days: current.days.slice(0, -1) }));
+
+    if (lastDay.stops.length === 0 && !lastDay.notes) {
+      apply();
+      return;
+    }
+
+    Alert.alert(
+      "Quitar último día",
+      `Se eliminarán las paradas y notas del día ${trip.days.length}.`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Quitar", style: "destructive", onPress: apply },
+      ]
+    );
+  };
+
+  const handleShare = () => {
+    if (!trip) return;
+
+    const shareCalendar = async () => {
+      try {
+        await shareTripCalendar(trip);
+      } catch (err: any) {
+        console.error("🧳 [Trip] Calendar export error:", err);
+        Alert.alert(
+          "Calendario",
+          err?.message || "No se pudo exportar el calendario"
+        );
+      }
+    };
+
+    Alert.alert("Compartir itinerario", "¿Cómo quieres compartirlo?", [
+      {
+        text: "Enlace",
+        onPress: () =>
+          Share.share({
+            title: trip.name,
+            message: `${trip.name}\n${buildTripShareLink(trip)}`,
+          }),
+      },
+      {
+        text: "Texto",
+        onPress: () =>
+          Share.share({ title: trip.name, message: buildTripText(trip) }),
+      },
+      { text: "Calendario (.ics)", onPress: shareCalendar },
+      { text: "Cancelar", style: "cancel" },
+    ]);
+  };
+
+  const handleDelete = () => {
+    if (!trip) return;
+
+    Alert.alert("Eliminar viaje", `¿Eliminar "${trip.name}"?`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Eliminar",
+        style: "destructive",
+        onPress: async () => {
+          await remove();
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary.main} />
+        </View>
+      );
+    }
+
+    if (!trip) {
+      return (
+        <View style={styles.content}>
+          <FormError
+            errors="No se encontró el viaje"
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Volver a mis viajes"
+            onPress={() => router.replace("/trips")}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      );
+    }
+
+    const travel = estimateTravel(trip.days.flatMap((day) => day.stops));
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {error && <FormError errors={error} variant="error" animated={true} />}
+
+        {travel.totalKm >= 1 && (
+          <View style={styles.summary}>
+            <Ionicons
+              name="car-outline"
+              size={18}
+              color={theme.colors.primary.main}
+            />
+            <Text style={styles.summaryText}>
+              Todo el viaje: {formatDistance(travel.totalKm)} ·{" "}
+              {formatTravelDuration(travel.totalMinutes)} en carretera
+            </Text>
+          </View>
+        )}
+
+        <TextInput
+          style={styles.notes}
+          value={notes}
+          onChangeText={setNotes}
+          onEndEditing={() =>
+            notes !== trip.notes &&
+            save((current) => ({ ...current, notes: notes.trim() }))
+          }
+          placeholder="Notas del viaje (transporte, hospedaje, presupuesto...)"
+          placeholderTextColor={theme.colors.text.secondary}
+          multiline
+          maxLength={1000}
+        />
+
+        {trip.days.map((day, index) => (
+          <DaySection
+            key={day.date}
+            day={day}
+            index={index}
+            onAddStop={() =>
+              router.push({
+                pathname: "/trips/[id]/add",
+                params: { id: trip.id, day: String(index) },
+              })
+            }
+            onChangeStops={(stops) => updateDay(index, { stops })}
+            onChangeNotes={(dayNotes) =>
+              updateDay(index, { notes: dayNotes.trim() })
+            }
+            testID={`trip-day-${index}`}
+          />
+        ))}
+
+        <View style={styles.dayActions}>
+          {trip.days.length < MAX_TRIP_DAYS && (
+            <TouchableOpacity style={styles.dayAction} onPress={addDay}>
+              <Ionicons
+                name="add"
+                size={18}
+                color={theme.colors.primary.main}
+              />
+              <Text style={styles.dayActionText}>Agregar día</Text>
+            </TouchableOpacity>
+          )}
+          {trip.days.length > 1 && (
+            <TouchableOpacity style={styles.dayAction} onPress={removeLastDay}>
+              <Ionicons
+                name="remove"
+                size={18}
+                color={theme.colors.primary.main}
+              />
+              <Text style={styles.dayActionText}>Quitar último día</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <PrimaryButton
+          title="Eliminar viaje"
+          onPress={handleDelete}
+          variant="danger"
+          size="medium"
+          fullWidth={true}
+          testID="trip-delete-button"
+        />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title={trip?.name ?? "Mi viaje"}
+        subtitle={
+          trip
+            ? `${trip.days.length} ${trip.days.length === 1 ? "día" : "días"}`
+            : undefined
+        }
+        rightAction={
+          trip && (
+            <TouchableOpacity
+              onPress={handleShare}
+              hitSlop={8}
+              accessibilityLabel="Compartir itinerario"
+            >
+              <Ionicons
+                name="share-outline"
+                size={24}
+                color={theme.colors.primary.main}
+              />
+            </TouchableOpacity>
+          )
+        }
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  content: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[4],
+  },
+
+  summary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  summaryText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  notes: {
+    minHeight: 72,
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    textAlignVertical: "top",
+  },
+
+  dayActions: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: theme.spacing[6],
+  },
+
+  dayAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  dayActionText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+});
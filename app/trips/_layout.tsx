@@ -0,0 +1,22 @@
+import { Stack } from "expo-router";
+
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+export default function TripsLayout() {
+  // Los itinerarios se guardan por usuario
+  useProtectedRoute();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="new" />
+      <Stack.Screen name="import" />
+      <Stack.Screen name="[id]/index" />
+      <Stack.Screen name="[id]/add" />
+    </Stack>
+  );
+}
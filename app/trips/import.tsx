@@ -0,0 +1,182 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useMemo, useState } from "react";
+import { ScrollView, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuth } from "@/context/auth-context";
+import { parseSharedTrip } from "@/lib/trip-export";
+import { addDaysToDate, formatTripDate } from "@/lib/trip-planning";
+import { tripService } from "@/services/trip-service";
+
+/**
+ * TolimaGO - Import Trip Screen
+ * Vista previa de un itinerario recibido por enlace antes de guardarlo
+ */
+
+export default function ImportTripScreen() {
+  const { data } = useLocalSearchParams<{ data?: string }>();
+  const { user } = useAuth();
+  const shared = useMemo(() => parseSharedTrip(data), [data]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    if (!user || !shared) return;
+
+    try {
+      setIsImporting(true);
+      setError(null);
+      const trip = await tripService.importTrip(user.id, shared);
+      router.replace({ pathname: "/trips/[id]", params: { id: trip.id } });
+    } catch (err: any) {
+      console.error("🧳 [Trip] Import error:", err);
+      setError(err?.message || "No se pudo guardar el viaje");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!shared) {
+    return (
+      <SafeAreaView style={globalStyles.container}>
+        <ScreenHeader title="Importar viaje" />
+        <View style={styles.content}>
+          <FormError
+            errors="El enlace del itinerario está incompleto o dañado"
+            variant="error"
+            animated={true}
+          />
+          <PrimaryButton
+            title="Ir a mis viajes"
+            onPress={() => router.replace("/trips")}
+            variant="outline"
+            size="medium"
+            fullWidth={true}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Importar viaje"
+        subtitle="Te compartieron un itinerario"
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {error && <FormError errors={error} variant="error" animated={true} />}
+
+        <Text style={styles.title}>{shared.name}</Text>
+        {!!shared.notes && <Text style={styles.body}>{shared.notes}</Text>}
+
+        {shared.days.map((day, index) => (
+          <View key={index} style={styles.day}>
+            <Text style={styles.dayTitle}>
+              Día {index + 1} ·{" "}
+              {formatTripDate(addDaysToDate(shared.startDate, index))}
+            </Text>
+            {day.stops.length === 0 ? (
+              <Text style={styles.stopText}>Día libre</Text>
+            ) : (
+              day.stops.map((stop, stopIndex) => (
+                <View key={stopIndex} style={styles.stop}>
+                  <Ionicons
+                    name={
+                      stop.kind === "attraction"
+                        ? "camera-outline"
+                        : "business-outline"
+                    }
+                    size={16}
+                    color={theme.colors.primary.main}
+                  />
+                  <Text style={styles.stopText}>
+                    {stop.name} · {stop.municipality}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <PrimaryButton
+          title="Guardar en mis viajes"
+          onPress={handleImport}
+          loading={isImporting}
+          disabled={isImporting}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="trip-import-button"
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[3],
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  day: {
+    gap: theme.spacing[2],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  dayTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  stop: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  stopText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,170 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton, Toggle } from "@/components/auth";
+import { TripCard } from "@/components/trips";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { useAuth } from "@/context/auth-context";
+import { useTrips, useTripSync } from "@/hooks/use-trips";
+
+/**
+ * TolimaGO - Trips Screen
+ * Itinerarios del usuario, lugares guardados y sincronización con la cuenta
+ */
+
+export default function TripsScreen() {
+  const { user } = useAuth();
+  const { trips, isLoading, reload } = useTrips();
+  const sync = useTripSync();
+
+  const handleSyncChange = async (value: boolean) => {
+    await sync.setEnabled(value);
+    reload();
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.savedLink}
+        onPress={() => router.push("/tourism/saved")}
+        activeOpacity={0.7}
+      >
+        <Ionicons
+          name="bookmark-outline"
+          size={20}
+          color={theme.colors.primary.main}
+        />
+        <Text style={styles.savedText}>Lugares guardados</Text>
+        <Ionicons
+          name="chevron-forward"
+          size={18}
+          color={theme.colors.text.secondary}
+        />
+      </TouchableOpacity>
+
+      <Toggle
+        value={sync.enabled}
+        onValueChange={handleSyncChange}
+        label="Sincronizar con mi cuenta"
+        description="Consulta tus viajes desde cualquier dispositivo"
+        disabled={sync.isSyncing}
+      />
+      {sync.error && (
+        <FormError errors={sync.error} variant="warning" animated={true} />
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader
+        title="Mis viajes"
+        subtitle={
+          user?.isResident === false
+            ? "Planea tu visita al Tolima"
+            : "Itinerarios por el Tolima"
+        }
+      />
+
+      <FlatList
+        data={trips}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <TripCard
+            trip={item}
+            onPress={() =>
+              router.push({ pathname: "/trips/[id]", params: { id: item.id } })
+            }
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator
+              size="large"
+              color={theme.colors.primary.main}
+              style={styles.loader}
+            />
+          ) : (
+            <Text style={styles.emptyText}>
+              Aún no tienes viajes. Crea uno y agrega los lugares que quieres
+              visitar cada día.
+            </Text>
+          )
+        }
+      />
+
+      <View style={styles.footer}>
+        <PrimaryButton
+          title="Nuevo viaje"
+          onPress={() => router.push("/trips/new")}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="trips-new-button"
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+    gap: theme.spacing[3],
+  },
+
+  header: {
+    gap: theme.spacing[3],
+    marginBottom: theme.spacing[2],
+  },
+
+  savedLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  savedText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+
+  loader: {
+    marginTop: theme.spacing[8],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[8],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,255 @@
+import { Ionicons } from "@expo/vector-icons";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { router } from "expo-router";
+import { Calendar } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { FormError, PrimaryButton, TextInputField } from "@/components/auth";
+import { ScreenHeader } from "@/components/ui/screen-header";
+import { theme } from "@/constants/design-tokens";
+import { globalStyles } from "@/constants/global-styles";
+import { MAX_TRIP_DAYS } from "@/constants/trips";
+import { useAuth } from "@/context/auth-context";
+import { todayISODate } from "@/lib/trip-planning";
+import { TripFormData, tripSchema } from "@/lib/validations";
+import { tripService } from "@/services/trip-service";
+
+/**
+ * TolimaGO - New Trip Screen
+ * Nombre, fecha de inicio y duración de un itinerario nuevo
+ */
+
+export default function NewTripScreen() {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<TripFormData>({
+    resolver: zodResolver(tripSchema),
+    mode: "onChange",
+    defaultValues: {
+      name: "",
+      startDate: todayISODate(),
+      dayCount: 2,
+      notes: "",
+    },
+  });
+
+  const onSubmit = async (data: TripFormData) => {
+    if (!user) return;
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+      const trip = await tripService.createTrip(user.id, data);
+      router.replace({ pathname: "/trips/[id]", params: { id: trip.id } });
+    } catch (err: any) {
+      console.error("🧳 [Trip] Create error:", err);
+      setSubmitError(err?.message || "No se pudo crear el viaje");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={globalStyles.container}>
+      <ScreenHeader title="Nuevo viaje" />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {submitError && (
+            <FormError errors={submitError} variant="error" animated={true} />
+          )}
+
+          <Controller
+            control={control}
+            name="name"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Nombre del viaje"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.name?.message}
+                placeholder="Fin de semana en Honda"
+                maxLength={60}
+                required
+                testID="trip-name-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="startDate"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Fecha de inicio"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.startDate?.message}
+                leftIcon={
+                  <Calendar size={20} color={theme.colors.text.secondary} />
+                }
+                placeholder="AAAA-MM-DD"
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                required
+                testID="trip-start-date-input"
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="dayCount"
+            render={({ field: { onChange, value } }) => (
+              <View style={styles.stepper}>
+                <Text style={styles.stepperLabel}>Duración</Text>
+                <View style={styles.stepperControls}>
+                  <TouchableOpacity
+                    onPress={() => onChange(Math.max(1, value - 1))}
+                    disabled={value <= 1}
+                    hitSlop={8}
+                    accessibilityLabel="Quitar un día"
+                  >
+                    <Ionicons
+                      name="remove-circle-outline"
+                      size={28}
+                      color={
+                        value <= 1
+                          ? theme.colors.neutral.border
+                          : theme.colors.primary.main
+                      }
+                    />
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>
+                    {value} {value === 1 ? "día" : "días"}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => onChange(Math.min(MAX_TRIP_DAYS, value + 1))}
+                    disabled={value >= MAX_TRIP_DAYS}
+                    hitSlop={8}
+                    accessibilityLabel="Agregar un día"
+                  >
+                    <Ionicons
+                      name="add-circle-outline"
+                      size={28}
+                      color={
+                        value >= MAX_TRIP_DAYS
+                          ? theme.colors.neutral.border
+                          : theme.colors.primary.main
+                      }
+                    />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="notes"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Notas"
+                value={value ?? ""}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                error={errors.notes?.message}
+                placeholder="Transporte, hospedaje, presupuesto..."
+                multiline
+                numberOfLines={4}
+                maxLength={1000}
+                showCharacterCount
+                testID="trip-notes-input"
+              />
+            )}
+          />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Crear viaje"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={!isValid || isSubmitting}
+            variant="primary"
+            size="large"
+            fullWidth={true}
+            testID="trip-submit-button"
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: theme.spacing[4],
+  },
+
+  stepperLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  stepperControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+  },
+
+  stepperValue: {
+    minWidth: 64,
+    textAlign: "center",
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
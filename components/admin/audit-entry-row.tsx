@@ -0,0 +1,99 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import {
+  MODERATION_ACTION_INFO,
+  MODERATION_ITEM_TYPE_INFO,
+  MODERATION_REASON_LABELS,
+} from "@/constants/moderation";
+import { AuditEntry } from "@/services/moderation-service";
+
+/**
+ * TolimaGO - AuditEntryRow Component
+ * Una decisión del historial: quién, qué hizo, sobre qué y por qué
+ */
+
+export interface AuditEntryRowProps {
+  entry: AuditEntry;
+  testID?: string;
+}
+
+export function AuditEntryRow({ entry, testID }: AuditEntryRowProps) {
+  const action = MODERATION_ACTION_INFO[entry.action];
+  const count = entry.itemIds.length;
+
+  return (
+    <View style={styles.row} testID={testID}>
+      <Ionicons name={action.icon} size={20} color={action.color} />
+
+      <View style={styles.content}>
+        <Text style={styles.summary}>
+          <Text style={styles.actor}>{entry.actor.name}</Text>{" "}
+          {action.pastLabel} {count} {count === 1 ? "elemento" : "elementos"} de{" "}
+          {MODERATION_ITEM_TYPE_INFO[entry.itemType].label.toLowerCase()}
+        </Text>
+        <Text style={styles.reason}>
+          {MODERATION_REASON_LABELS[entry.reasonCode]}
+          {entry.targetId ? ` · conservado: ${entry.targetId}` : ""}
+        </Text>
+        {entry.note && <Text style={styles.note}>“{entry.note}”</Text>}
+        <Text style={styles.date}>
+          {new Date(entry.createdAt).toLocaleString("es-CO", {
+            day: "numeric",
+            month: "short",
+            year: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.divider,
+  },
+
+  content: {
+    flex: 1,
+    gap: 2,
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  actor: {
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  reason: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  note: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontStyle: "italic",
+    color: theme.colors.text.primary,
+  },
+
+  date: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.tertiary,
+  },
+});
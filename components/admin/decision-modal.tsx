@@ -0,0 +1,307 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { FormError, PrimaryButton, TextInputField } from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import {
+  MODERATION_ACTION_INFO,
+  MODERATION_REASON_LABELS,
+  ModerationAction,
+  ModerationReasonCode,
+  REASONS_BY_ACTION,
+} from "@/constants/moderation";
+
+/**
+ * TolimaGO - DecisionModal Component
+ * Confirma una decisión de moderación con su código de motivo, una nota
+ * opcional y, al fusionar, el elemento que se conserva
+ */
+
+export interface MergeCandidate {
+  id: string;
+  title: string;
+}
+
+export interface DecisionInput {
+  reasonCode: ModerationReasonCode;
+  note?: string;
+  targetId?: string;
+}
+
+export interface DecisionModalProps {
+  visible: boolean;
+  action: ModerationAction | null;
+  itemCount: number;
+  // Elementos entre los que se elige el que se conserva al fusionar
+  mergeCandidates?: MergeCandidate[];
+  isSubmitting: boolean;
+  error?: string | null;
+  onConfirm: (input: DecisionInput) => void;
+  onClose: () => void;
+}
+
+export function DecisionModal({
+  visible,
+  action,
+  itemCount,
+  mergeCandidates = [],
+  isSubmitting,
+  error,
+  onConfirm,
+  onClose,
+}: DecisionModalProps) {
+  const [reasonCode, setReasonCode] = useState<ModerationReasonCode | null>(
+    null
+  );
+  const [note, setNote] = useState("");
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  // Cada apertura empieza con el primer motivo de la acción
+  useEffect(() => {
+    if (!visible || !action) return;
+    setReasonCode(REASONS_BY_ACTION[action][0]);
+    setNote("");
+    setTargetId(null);
+  }, [visible, action]);
+
+  if (!action) return null;
+
+  const info = MODERATION_ACTION_INFO[action];
+  const isMerge = action === "merge";
+  const canConfirm = Boolean(reasonCode) && (!isMerge || Boolean(targetId));
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity
+            style={styles.modalButton}
+            onPress={onClose}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.modalButtonText}>Cancelar</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{info.label}</Text>
+          <View style={styles.modalButton} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.summary}>
+            {itemCount === 1
+              ? "Se aplicará a 1 elemento."
+              : `Se aplicará a ${itemCount} elementos.`}
+          </Text>
+
+          {error && <FormError errors={error} variant="error" animated />}
+
+          {isMerge && (
+            <>
+              <Text style={styles.sectionTitle}>Conservar</Text>
+              {mergeCandidates.map((candidate) => {
+                const selected = targetId === candidate.id;
+                return (
+                  <TouchableOpacity
+                    key={candidate.id}
+                    style={[styles.option, selected && styles.optionSelected]}
+                    onPress={() => setTargetId(candidate.id)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                  >
+                    <Ionicons
+                      name={selected ? "radio-button-on" : "radio-button-off"}
+                      size={20}
+                      color={
+                        selected
+                          ? theme.colors.primary.main
+                          : theme.colors.text.secondary
+                      }
+                    />
+                    <Text style={styles.optionLabel} numberOfLines={2}>
+                      {candidate.title}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <Text style={styles.helperText}>
+                Los demás se marcarán como duplicados de este.
+              </Text>
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>Motivo</Text>
+          {REASONS_BY_ACTION[action].map((code) => {
+            const selected = reasonCode === code;
+            return (
+              <TouchableOpacity
+                key={code}
+                style={[styles.option, selected && styles.optionSelected]}
+                onPress={() => setReasonCode(code)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected }}
+              >
+                <Ionicons
+                  name={selected ? "radio-button-on" : "radio-button-off"}
+                  size={20}
+                  color={
+                    selected
+                      ? theme.colors.primary.main
+                      : theme.colors.text.secondary
+                  }
+                />
+                <Text style={styles.optionLabel}>
+                  {MODERATION_REASON_LABELS[code]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TextInputField
+            label="Nota interna"
+            value={note}
+            onChangeText={setNote}
+            placeholder="Opcional; queda en la auditoría"
+            multiline
+            numberOfLines={3}
+            maxLength={300}
+            containerStyle={styles.noteField}
+            testID="decision-note-input"
+          />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title={info.label}
+            onPress={() =>
+              reasonCode &&
+              onConfirm({
+                reasonCode,
+                note: note || undefined,
+                targetId: targetId ?? undefined,
+              })
+            }
+            loading={isSubmitting}
+            disabled={!canConfirm || isSubmitting}
+            variant={action === "reject" ? "danger" : "primary"}
+            size="large"
+            fullWidth={true}
+            testID="decision-confirm-button"
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.background,
+  },
+
+  modalButton: {
+    paddingVertical: theme.spacing[2],
+    minWidth: 80,
+  },
+
+  modalButtonText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.primary.main,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+
+  modalTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    textAlign: "center",
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+  },
+
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[3],
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+  },
+
+  optionSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  optionLabel: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  helperText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  noteField: {
+    marginTop: theme.spacing[4],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
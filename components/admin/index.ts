@@ -0,0 +1,17 @@
+/**
+ * TolimaGO - Admin Components Index
+ * Exporta los componentes de la consola de moderación
+ */
+
+export { AuditEntryRow } from "./audit-entry-row";
+export type { AuditEntryRowProps } from "./audit-entry-row";
+
+export { DecisionModal } from "./decision-modal";
+export type {
+  DecisionInput,
+  DecisionModalProps,
+  MergeCandidate,
+} from "./decision-modal";
+
+export { ModerationItemCard } from "./moderation-item-card";
+export type { ModerationItemCardProps } from "./moderation-item-card";
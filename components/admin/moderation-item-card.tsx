@@ -0,0 +1,211 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { MODERATION_ITEM_TYPE_INFO } from "@/constants/moderation";
+import { ModerationItem } from "@/services/moderation-service";
+
+/**
+ * TolimaGO - ModerationItemCard Component
+ * Elemento de la cola de moderación; en modo selección muestra una casilla
+ */
+
+export interface ModerationItemCardProps {
+  item: ModerationItem;
+  onPress: () => void;
+  onLongPress?: () => void;
+  selectionMode?: boolean;
+  selected?: boolean;
+  disabled?: boolean;
+  testID?: string;
+}
+
+export function ModerationItemCard({
+  item,
+  onPress,
+  onLongPress,
+  selectionMode = false,
+  selected = false,
+  disabled = false,
+  testID,
+}: ModerationItemCardProps) {
+  const typeInfo = MODERATION_ITEM_TYPE_INFO[item.type];
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.card,
+        selected && styles.cardSelected,
+        disabled && styles.cardDisabled,
+      ]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      disabled={disabled}
+      activeOpacity={0.7}
+      accessibilityState={selectionMode ? { checked: selected } : undefined}
+      testID={testID}
+    >
+      {selectionMode ? (
+        <Ionicons
+          name={selected ? "checkbox" : "square-outline"}
+          size={24}
+          color={
+            selected ? theme.colors.primary.main : theme.colors.text.secondary
+          }
+        />
+      ) : (
+        <View style={styles.icon}>
+          <Ionicons
+            name={typeInfo.icon}
+            size={20}
+            color={theme.colors.primary.main}
+          />
+        </View>
+      )}
+
+      <View style={styles.content}>
+        <Text style={styles.title} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={styles.body} numberOfLines={2}>
+          {item.body}
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {item.author.name}
+          {item.municipality ? ` · ${item.municipality}` : ""} ·{" "}
+          {new Date(item.createdAt).toLocaleDateString("es-CO", {
+            day: "numeric",
+            month: "short",
+          })}
+        </Text>
+
+        {(item.flagCount > 0 || item.duplicateIds.length > 0) && (
+          <View style={styles.tags}>
+            {item.flagCount > 0 && (
+              <View style={[styles.tag, styles.flagTag]}>
+                <Ionicons
+                  name="flag-outline"
+                  size={12}
+                  color={theme.colors.error.dark}
+                />
+                <Text style={[styles.tagText, styles.flagText]}>
+                  {item.flagCount}{" "}
+                  {item.flagCount === 1 ? "denuncia" : "denuncias"}
+                </Text>
+              </View>
+            )}
+            {item.duplicateIds.length > 0 && (
+              <View style={[styles.tag, styles.duplicateTag]}>
+                <Ionicons
+                  name="copy-outline"
+                  size={12}
+                  color={theme.colors.info.dark}
+                />
+                <Text style={[styles.tagText, styles.duplicateText]}>
+                  {item.duplicateIds.length} posible
+                  {item.duplicateIds.length === 1 ? "" : "s"} duplicado
+                  {item.duplicateIds.length === 1 ? "" : "s"}
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  cardSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  cardDisabled: {
+    opacity: 0.5,
+  },
+
+  icon: {
+    width: 36,
+    height: 36,
+    borderRadius: theme.borderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginTop: 2,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  tags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing[2],
+    marginTop: theme.spacing[2],
+  },
+
+  tag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+    paddingHorizontal: theme.spacing[2],
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+  },
+
+  flagTag: {
+    backgroundColor: theme.colors.error.light,
+  },
+
+  duplicateTag: {
+    backgroundColor: theme.colors.info.light,
+  },
+
+  tagText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+
+  flagText: {
+    color: theme.colors.error.dark,
+  },
+
+  duplicateText: {
+    color: theme.colors.info.dark,
+  },
+});
@@ -4,6 +4,7 @@ import React from "react";
 import {
   Image,
   ImageSourcePropType,
+  Pressable,
   StyleSheet,
   Text,
   TextStyle,
@@ -25,6 +26,7 @@ export interface AuthHeaderProps {
   logo?: ImageSourcePropType;
   logoComponent?: React.ReactNode;
   showLogo?: boolean;
+  onLogoLongPress?: () => void;
 
   showBackButton?: boolean;
   onBackPress?: () => void;
@@ -44,6 +46,7 @@ export const AuthHeader: React.FC<AuthHeaderProps> = ({
   logo,
   logoComponent,
   showLogo = true,
+  onLogoLongPress,
   showBackButton = false,
   onBackPress,
   containerStyle,
@@ -68,13 +71,18 @@ export const AuthHeader: React.FC<AuthHeaderProps> = ({
     }
 
     return (
-      <View style={[styles.logoContainer, styles.defaultLogoContainer]}>
+      <Pressable
+        style={[styles.logoContainer, styles.defaultLogoContainer]}
+        onLongPress={onLogoLongPress}
+        disabled={!onLogoLongPress}
+        delayLongPress={1500}
+      >
         <Image
           source={require("@/assets/images/tolimago.png")}
           style={styles.logoImage}
           resizeMode="contain"
         />
-      </View>
+      </Pressable>
     );
   };
 
@@ -0,0 +1,162 @@
+import { Fingerprint, ScanFace } from "lucide-react-native";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import Animated, { FadeIn } from "react-native-reanimated";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { theme } from "@/constants/design-tokens";
+import {
+  BiometricKind,
+  biometricLock,
+  UnlockResult,
+} from "@/services/biometric-auth";
+import { FormError } from "./form-error";
+import { PrimaryButton } from "./primary-button";
+
+/**
+ * TolimaGO - BiometricLockScreen Component
+ * Cubre la app mientras la sesión está bloqueada y pide desbloqueo
+ */
+
+export interface BiometricLockScreenProps {
+  onUnlock: () => Promise<UnlockResult>;
+  onUsePassword: () => void;
+  testID?: string;
+}
+
+const KIND_LABELS: Record<BiometricKind, string> = {
+  fingerprint: "tu huella",
+  facial: "tu rostro",
+  iris: "tu iris",
+  passcode: "el código del dispositivo",
+};
+
+export function BiometricLockScreen({
+  onUnlock,
+  onUsePassword,
+  testID,
+}: BiometricLockScreenProps) {
+  const [kind, setKind] = useState<BiometricKind>("fingerprint");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleUnlock = useCallback(async () => {
+    setIsUnlocking(true);
+    setMessage(null);
+
+    const result = await onUnlock();
+    setIsUnlocking(false);
+
+    if (result.status === "failed") {
+      setMessage(
+        result.remainingAttempts === 1
+          ? "No pudimos verificarte. Te queda 1 intento."
+          : `No pudimos verificarte. Te quedan ${result.remainingAttempts} intentos.`
+      );
+    }
+  }, [onUnlock]);
+
+  // Pedir el desbloqueo apenas aparece la pantalla, una sola vez
+  const prompted = useRef(false);
+
+  useEffect(() => {
+    if (prompted.current) return;
+    prompted.current = true;
+
+    biometricLock.getAvailability().then(({ kinds }) => {
+      if (kinds.length > 0) setKind(kinds[0]);
+    });
+    handleUnlock();
+  }, [handleUnlock]);
+
+  const Icon = kind === "facial" ? ScanFace : Fingerprint;
+
+  return (
+    <Animated.View
+      style={styles.overlay}
+      entering={FadeIn.duration(200)}
+      testID={testID}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.iconCircle}>
+          <Icon size={48} color={theme.colors.primary.main} />
+        </View>
+
+        <Text style={styles.title}>TolimaGO está bloqueado</Text>
+        <Text style={styles.description}>
+          Usa {KIND_LABELS[kind]} para continuar donde lo dejaste.
+        </Text>
+
+        {message && (
+          <FormError errors={message} variant="warning" animated={true} />
+        )}
+
+        <PrimaryButton
+          title="Desbloquear"
+          onPress={handleUnlock}
+          loading={isUnlocking}
+          disabled={isUnlocking}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="biometric-unlock-button"
+        />
+
+        <Text style={styles.passwordLink} onPress={onUsePassword}>
+          Usar contraseña
+        </Text>
+      </SafeAreaView>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: theme.colors.neutral.background,
+    zIndex: 1000,
+  },
+
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: theme.spacing[6],
+  },
+
+  iconCircle: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary.light,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: theme.spacing[4],
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["2xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    textAlign: "center",
+  },
+
+  description: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+    marginTop: theme.spacing[3],
+    marginBottom: theme.spacing[6],
+  },
+
+  passwordLink: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+    textDecorationLine: "underline",
+    marginTop: theme.spacing[4],
+  },
+});
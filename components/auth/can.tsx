@@ -0,0 +1,26 @@
+import React from "react";
+
+import { useAuth } from "@/context/auth-context";
+import { hasPermissions, Permission } from "@/lib/permissions";
+
+/**
+ * TolimaGO - Can Component
+ * Renderiza su contenido solo si el usuario tiene el permiso indicado
+ */
+
+export interface CanProps {
+  permission: Permission | Permission[];
+  // Contenido alternativo cuando no hay permiso
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export function Can({ permission, fallback = null, children }: CanProps) {
+  const { user } = useAuth();
+
+  if (!hasPermissions(user, permission)) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
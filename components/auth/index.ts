@@ -20,3 +20,11 @@ export type { FormErrorProps } from "./form-error";
 
 export { LocationSelector } from "./location-selector";
 
+export { PasswordStrengthMeter } from "./password-strength-meter";
+export type { PasswordStrengthMeterProps } from "./password-strength-meter";
+
+export { BiometricLockScreen } from "./biometric-lock-screen";
+export type { BiometricLockScreenProps } from "./biometric-lock-screen";
+
+export { Can } from "./can";
+export type { CanProps } from "./can";
@@ -6,9 +6,16 @@ import {
     LocationData,
     tolimaMunicipalities,
 } from "@/constants/locations";
-import { ChevronDown, MapPin, Search } from "lucide-react-native";
+import { useCurrentMunicipality } from "@/context/municipality-context";
+import {
+    ChevronDown,
+    MapPin,
+    Navigation,
+    Search,
+} from "lucide-react-native";
 import React, { useState } from "react";
 import {
+    ActivityIndicator,
     FlatList,
     Modal,
     StyleSheet,
@@ -21,13 +28,16 @@ import Animated, { FadeIn, FadeOut } from "react-native-reanimated";
 
 /**
  * TolimaGO - Location Selector Component
- * Selector inteligente de ubicación basado en residencia del Tolima
+ * Selector inteligente de ubicación basado en residencia del Tolima, con
+ * detección del municipio por la ubicación del dispositivo
  */
 
 interface LocationSelectorProps {
   value: LocationData;
   onChange: (location: LocationData) => void;
   isTolima: boolean;
+  // Reemplaza la etiqueta por defecto ("Tu Municipio" / "Tu Ubicación")
+  label?: string;
   error?: string;
   disabled?: boolean;
 }
@@ -36,6 +46,7 @@ export function LocationSelector({
   value,
   onChange,
   isTolima,
+  label,
   error,
   disabled = false,
 }: LocationSelectorProps) {
@@ -44,6 +55,8 @@ export function LocationSelector({
   const [currentStep, setCurrentStep] = useState<
     "country" | "state" | "city" | "municipality"
   >("country");
+  const [detectError, setDetectError] = useState<string | null>(null);
+  const { detect, status: detectStatus } = useCurrentMunicipality();
 
   const getDisplayText = () => {
     if (isTolima) {
@@ -185,6 +198,20 @@ export function LocationSelector({
     setModalVisible(false);
     setSearchText("");
     setCurrentStep("country");
+    setDetectError(null);
+  };
+
+  // Municipio más cercano sin recorrer la lista de 47
+  const detectLocation = async () => {
+    setDetectError(null);
+    const municipality = await detect();
+
+    if (municipality) {
+      handleSelection(municipality);
+      setDetectError(null);
+    } else {
+      setDetectError("No pudimos ubicarte en un municipio del Tolima");
+    }
   };
 
   const goBack = () => {
@@ -221,11 +248,13 @@ export function LocationSelector({
   };
 
   const data = getCurrentData();
+  const showUseLocation = isTolima || currentStep === "municipality";
+  const isDetecting = detectStatus === "loading";
 
   return (
     <View style={styles.container}>
       <Text style={styles.label}>
-        {isTolima ? "Tu Municipio" : "Tu Ubicación"}
+        {label ?? (isTolima ? "Tu Municipio" : "Tu Ubicación")}
       </Text>
 
       <TouchableOpacity
@@ -298,6 +327,34 @@ export function LocationSelector({
             />
           </View>
 
+          {showUseLocation && (
+            <View style={styles.useLocationContainer}>
+              <TouchableOpacity
+                style={styles.useLocationButton}
+                onPress={detectLocation}
+                disabled={isDetecting}
+                activeOpacity={0.7}
+              >
+                {isDetecting ? (
+                  <ActivityIndicator
+                    size="small"
+                    color={theme.colors.primary.main}
+                  />
+                ) : (
+                  <Navigation size={20} color={theme.colors.primary.main} />
+                )}
+                <Text style={styles.useLocationText}>
+                  {isDetecting
+                    ? "Buscando tu municipio..."
+                    : "Usar mi ubicación"}
+                </Text>
+              </TouchableOpacity>
+              {detectError && (
+                <Text style={styles.errorText}>{detectError}</Text>
+              )}
+            </View>
+          )}
+
           <FlatList
             data={data}
             keyExtractor={(item) => item.id}
@@ -454,6 +511,25 @@ const styles = StyleSheet.create({
     paddingVertical: theme.spacing[1],
   },
 
+  useLocationContainer: {
+    marginHorizontal: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+
+  useLocationButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    paddingVertical: theme.spacing[3],
+  },
+
+  useLocationText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
   list: {
     flex: 1,
   },
@@ -0,0 +1,142 @@
+import { theme } from "@/constants/design-tokens";
+import { validatePasswordStrength } from "@/lib/validations";
+import { Check, X } from "lucide-react-native";
+import React from "react";
+import { StyleSheet, Text, View, ViewStyle } from "react-native";
+
+/**
+ * TolimaGO - PasswordStrengthMeter Component
+ * Indicador visual de fortaleza de contraseña basado en validatePasswordStrength
+ */
+
+export interface PasswordStrengthMeterProps {
+  password: string;
+  showChecklist?: boolean;
+  containerStyle?: ViewStyle;
+  testID?: string;
+}
+
+const STRENGTH_CONFIG = {
+  weak: { label: "Débil", color: theme.colors.error.main },
+  medium: { label: "Media", color: theme.colors.warning.main },
+  strong: { label: "Fuerte", color: theme.colors.success.main },
+} as const;
+
+const CHECK_LABELS = {
+  length: "Al menos 8 caracteres",
+  lowercase: "Una letra minúscula",
+  uppercase: "Una letra mayúscula",
+  number: "Un número",
+  special: "Un carácter especial",
+} as const;
+
+const TOTAL_SEGMENTS = 5;
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+  showChecklist = true,
+  containerStyle,
+  testID,
+}) => {
+  if (!password) return null;
+
+  const { score, checks, strength } = validatePasswordStrength(password);
+  const config = STRENGTH_CONFIG[strength as keyof typeof STRENGTH_CONFIG];
+
+  return (
+    <View style={[styles.container, containerStyle]} testID={testID}>
+      <View style={styles.barRow}>
+        {Array.from({ length: TOTAL_SEGMENTS }).map((_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.segment,
+              index < score && { backgroundColor: config.color },
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text style={[styles.label, { color: config.color }]}>
+        Seguridad: {config.label}
+      </Text>
+
+      {showChecklist && (
+        <View style={styles.checklist}>
+          {(Object.keys(CHECK_LABELS) as (keyof typeof CHECK_LABELS)[]).map(
+            (key) => {
+              const passed = checks[key];
+              const Icon = passed ? Check : X;
+
+              return (
+                <View key={key} style={styles.checkItem}>
+                  <Icon
+                    size={14}
+                    color={
+                      passed
+                        ? theme.colors.success.main
+                        : theme.colors.text.tertiary
+                    }
+                  />
+                  <Text
+                    style={[styles.checkText, passed && styles.checkTextPassed]}
+                  >
+                    {CHECK_LABELS[key]}
+                  </Text>
+                </View>
+              );
+            }
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+// =================== ESTILOS ===================
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -theme.spacing[2],
+    marginBottom: theme.spacing[4],
+  },
+
+  barRow: {
+    flexDirection: "row",
+    gap: theme.spacing[1],
+  },
+
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.neutral.border,
+  },
+
+  label: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    marginTop: theme.spacing[1],
+  },
+
+  checklist: {
+    marginTop: theme.spacing[2],
+    gap: theme.spacing[1],
+  },
+
+  checkItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  checkText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.tertiary,
+  },
+
+  checkTextPassed: {
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,127 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import {
+  BUSINESS_CATEGORIES,
+  BUSINESS_CATEGORY_IDS,
+  BusinessCategory,
+} from "@/constants/business";
+import { theme } from "@/constants/design-tokens";
+
+/**
+ * TolimaGO - BusinessCategoryPicker Component
+ * Lista seleccionable de tipos de negocio
+ */
+
+export interface BusinessCategoryPickerProps {
+  value?: BusinessCategory;
+  onChange: (category: BusinessCategory) => void;
+  error?: string;
+  testID?: string;
+}
+
+export function BusinessCategoryPicker({
+  value,
+  onChange,
+  error,
+  testID,
+}: BusinessCategoryPickerProps) {
+  return (
+    <View style={styles.container} testID={testID}>
+      {BUSINESS_CATEGORY_IDS.map((id) => {
+        const category = BUSINESS_CATEGORIES[id];
+        const selected = value === id;
+
+        return (
+          <TouchableOpacity
+            key={id}
+            style={[styles.option, selected && styles.optionSelected]}
+            onPress={() => onChange(id)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ selected }}
+          >
+            <View
+              style={[styles.icon, { backgroundColor: `${category.color}1A` }]}
+            >
+              <Ionicons name={category.icon} size={24} color={category.color} />
+            </View>
+            <View style={styles.optionText}>
+              <Text style={styles.optionLabel}>{category.label}</Text>
+              <Text style={styles.optionDescription}>
+                {category.description}
+              </Text>
+            </View>
+            <Ionicons
+              name={selected ? "radio-button-on" : "radio-button-off"}
+              size={22}
+              color={
+                selected
+                  ? theme.colors.primary.main
+                  : theme.colors.text.secondary
+              }
+            />
+          </TouchableOpacity>
+        );
+      })}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[3],
+  },
+
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: theme.spacing[4],
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  optionSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: theme.borderRadius.full,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: theme.spacing[3],
+  },
+
+  optionText: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+
+  optionLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  optionDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  errorText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.main,
+  },
+});
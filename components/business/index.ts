@@ -0,0 +1,19 @@
+/**
+ * TolimaGO - Business Components Index
+ * Exporta los componentes del panel de comercios
+ */
+
+export { BusinessCategoryPicker } from "./business-category-picker";
+export type { BusinessCategoryPickerProps } from "./business-category-picker";
+
+export { ListingCard } from "./listing-card";
+export type { ListingCardProps } from "./listing-card";
+
+export { ListingForm } from "./listing-form";
+export type { ListingFormProps } from "./listing-form";
+
+export { ListingStatusBadge } from "./listing-status-badge";
+export type { ListingStatusBadgeProps } from "./listing-status-badge";
+
+export { VisitsChart } from "./visits-chart";
+export type { VisitsChartProps } from "./visits-chart";
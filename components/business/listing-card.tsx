@@ -0,0 +1,109 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { BUSINESS_CATEGORIES } from "@/constants/business";
+import { theme } from "@/constants/design-tokens";
+import { BusinessListing } from "@/services/business-service";
+import { ListingStatusBadge } from "./listing-status-badge";
+
+/**
+ * TolimaGO - ListingCard Component
+ * Resumen de la ficha de un negocio: categoría, municipio y estado
+ */
+
+export interface ListingCardProps {
+  listing: BusinessListing;
+  onPress: () => void;
+  // En la búsqueda para reclamar no aplica el estado de revisión
+  showStatus?: boolean;
+  testID?: string;
+}
+
+export function ListingCard({
+  listing,
+  onPress,
+  showStatus = true,
+  testID,
+}: ListingCardProps) {
+  const category = BUSINESS_CATEGORIES[listing.category];
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.7}
+      testID={testID}
+    >
+      <View style={[styles.icon, { backgroundColor: `${category.color}1A` }]}>
+        <Ionicons name={category.icon} size={22} color={category.color} />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.name} numberOfLines={1}>
+          {listing.name}
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {category.label} · {listing.municipality}
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {listing.address}
+        </Text>
+        {showStatus && (
+          <View style={styles.status}>
+            <ListingStatusBadge status={listing.status} />
+          </View>
+        )}
+      </View>
+
+      <Ionicons
+        name="chevron-forward"
+        size={20}
+        color={theme.colors.text.secondary}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: theme.borderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+
+  status: {
+    marginTop: theme.spacing[2],
+  },
+});
@@ -0,0 +1,317 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Globe, Mail, MapPin, Phone, Store } from "lucide-react-native";
+import React, { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import {
+  FormError,
+  LocationSelector,
+  PrimaryButton,
+  TextInputField,
+} from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import {
+  formatPhoneInput,
+  ListingFormData,
+  listingSchema,
+} from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+import { BusinessCategoryPicker } from "./business-category-picker";
+
+/**
+ * TolimaGO - ListingForm Component
+ * Datos generales y de contacto de una ficha; se usa al crearla y al editarla
+ */
+
+export interface ListingFormProps {
+  defaultValues?: Partial<ListingFormData>;
+  submitTitle: string;
+  onSubmit: (data: ListingFormData) => Promise<void>;
+  errorFallback: string;
+  testID?: string;
+}
+
+const EMPTY_VALUES: Partial<ListingFormData> = {
+  name: "",
+  municipality: "",
+  address: "",
+  description: "",
+  phone: "",
+  whatsapp: "",
+  email: "",
+  website: "",
+};
+
+// Solo el prefijo equivale a no registrar el número
+const toPhoneValue = (text: string) => {
+  const formatted = formatPhoneInput(text);
+  return formatted === "+57 " ? "" : formatted;
+};
+
+export function ListingForm({
+  defaultValues,
+  submitTitle,
+  onSubmit,
+  errorFallback,
+  testID,
+}: ListingFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid, isDirty },
+  } = useForm<ListingFormData>({
+    resolver: zodResolver(listingSchema),
+    mode: "onChange",
+    defaultValues: { ...EMPTY_VALUES, ...defaultValues },
+  });
+
+  const submit = async (data: ListingFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+      await onSubmit(data);
+    } catch (err: any) {
+      console.error("🏪 [Business] Listing form error:", err);
+      setSubmitError(getApiErrorMessage(err, errorFallback));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardContainer}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      testID={testID}
+    >
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {submitError && (
+          <FormError errors={submitError} variant="error" animated={true} />
+        )}
+
+        <Text style={styles.sectionTitle}>Tu negocio</Text>
+        <Controller
+          control={control}
+          name="name"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="Nombre del negocio"
+              value={value}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.name?.message}
+              leftIcon={<Store size={20} color={theme.colors.text.secondary} />}
+              placeholder="Ej: Hotel Los Ocobos"
+              maxLength={80}
+              required
+              testID="listing-name-input"
+            />
+          )}
+        />
+
+        <Controller
+          control={control}
+          name="category"
+          render={({ field: { onChange, value } }) => (
+            <BusinessCategoryPicker
+              value={value}
+              onChange={onChange}
+              error={errors.category?.message}
+              testID="listing-category-picker"
+            />
+          )}
+        />
+
+        <Controller
+          control={control}
+          name="description"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="Descripción"
+              value={value}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.description?.message}
+              placeholder="Cuéntales a los visitantes qué ofreces"
+              multiline
+              numberOfLines={5}
+              maxLength={1000}
+              showCharacterCount
+              required
+              containerStyle={styles.fieldSpacing}
+              testID="listing-description-input"
+            />
+          )}
+        />
+
+        <Text style={styles.sectionTitle}>Ubicación</Text>
+        <Controller
+          control={control}
+          name="municipality"
+          render={({ field: { onChange, value } }) => (
+            <LocationSelector
+              value={{ city: value || undefined, isTolima: true }}
+              onChange={(location) => onChange(location.city ?? "")}
+              isTolima={true}
+              label="Municipio"
+              error={errors.municipality?.message}
+            />
+          )}
+        />
+        <Controller
+          control={control}
+          name="address"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="Dirección"
+              value={value}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.address?.message}
+              leftIcon={
+                <MapPin size={20} color={theme.colors.text.secondary} />
+              }
+              placeholder="Ej: Carrera 3 # 12-45"
+              maxLength={150}
+              required
+              testID="listing-address-input"
+            />
+          )}
+        />
+
+        <Text style={styles.sectionTitle}>Contacto</Text>
+        <Controller
+          control={control}
+          name="phone"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="Teléfono"
+              value={value || "+57 "}
+              onChangeText={(text) => onChange(toPhoneValue(text))}
+              onBlur={onBlur}
+              error={errors.phone?.message}
+              leftIcon={<Phone size={20} color={theme.colors.text.secondary} />}
+              keyboardType="phone-pad"
+              placeholder="+57 300 123 4567"
+              testID="listing-phone-input"
+            />
+          )}
+        />
+        <Controller
+          control={control}
+          name="whatsapp"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="WhatsApp"
+              value={value || "+57 "}
+              onChangeText={(text) => onChange(toPhoneValue(text))}
+              onBlur={onBlur}
+              error={errors.whatsapp?.message}
+              leftIcon={<Phone size={20} color={theme.colors.text.secondary} />}
+              keyboardType="phone-pad"
+              placeholder="+57 300 123 4567"
+              testID="listing-whatsapp-input"
+            />
+          )}
+        />
+        <Controller
+          control={control}
+          name="email"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="Email"
+              value={value ?? ""}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.email?.message}
+              leftIcon={<Mail size={20} color={theme.colors.text.secondary} />}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="reservas@tunegocio.com"
+              testID="listing-email-input"
+            />
+          )}
+        />
+        <Controller
+          control={control}
+          name="website"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <TextInputField
+              label="Sitio web o red social"
+              value={value ?? ""}
+              onChangeText={onChange}
+              onBlur={onBlur}
+              error={errors.website?.message}
+              leftIcon={<Globe size={20} color={theme.colors.text.secondary} />}
+              keyboardType="url"
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="https://"
+              testID="listing-website-input"
+            />
+          )}
+        />
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <PrimaryButton
+          title={submitTitle}
+          onPress={handleSubmit(submit)}
+          loading={isSubmitting}
+          disabled={!isValid || !isDirty || isSubmitting}
+          variant="primary"
+          size="large"
+          fullWidth={true}
+          testID="listing-submit-button"
+        />
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardContainer: {
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+
+  fieldSpacing: {
+    marginTop: theme.spacing[4],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
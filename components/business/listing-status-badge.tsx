@@ -0,0 +1,31 @@
+import React from "react";
+
+import { StatusBadge } from "@/components/ui/status-badge";
+import { LISTING_STATUS_INFO, ListingStatus } from "@/constants/business";
+
+/**
+ * TolimaGO - ListingStatusBadge Component
+ * Etiqueta compacta con el estado de revisión de una ficha
+ */
+
+export interface ListingStatusBadgeProps {
+  status: ListingStatus;
+  testID?: string;
+}
+
+export function ListingStatusBadge({
+  status,
+  testID,
+}: ListingStatusBadgeProps) {
+  const { label, icon, color, background } = LISTING_STATUS_INFO[status];
+
+  return (
+    <StatusBadge
+      label={label}
+      icon={icon}
+      color={color}
+      background={background}
+      testID={testID}
+    />
+  );
+}
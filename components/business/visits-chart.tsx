@@ -0,0 +1,108 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { ListingDailyStat } from "@/services/business-service";
+
+/**
+ * TolimaGO - VisitsChart Component
+ * Barras de visitas diarias a una ficha, sin dependencias de gráficos
+ */
+
+export interface VisitsChartProps {
+  daily: ListingDailyStat[];
+  testID?: string;
+}
+
+const CHART_HEIGHT = 120;
+
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("es-CO", {
+    day: "numeric",
+    month: "short",
+  });
+};
+
+export function VisitsChart({ daily, testID }: VisitsChartProps) {
+  const max = Math.max(1, ...daily.map((stat) => stat.visits));
+
+  if (daily.length === 0) {
+    return (
+      <Text style={styles.emptyText} testID={testID}>
+        Aún no hay visitas registradas
+      </Text>
+    );
+  }
+
+  return (
+    <View testID={testID}>
+      <View style={styles.bars}>
+        {daily.map((stat) => (
+          <View
+            key={stat.date}
+            style={styles.barSlot}
+            accessible
+            accessibilityLabel={`${formatDay(stat.date)}: ${
+              stat.visits
+            } visitas`}
+          >
+            <View
+              style={[
+                styles.bar,
+                { height: (stat.visits / max) * CHART_HEIGHT },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.axis}>
+        <Text style={styles.axisLabel}>{formatDay(daily[0].date)}</Text>
+        <Text style={styles.axisLabel}>
+          {formatDay(daily[daily.length - 1].date)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bars: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: theme.spacing[1],
+    height: CHART_HEIGHT,
+  },
+
+  barSlot: {
+    flex: 1,
+    height: CHART_HEIGHT,
+    justifyContent: "flex-end",
+  },
+
+  bar: {
+    minHeight: 2,
+    borderTopLeftRadius: theme.borderRadius.sm,
+    borderTopRightRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  axis: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: theme.spacing[2],
+  },
+
+  axisLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,139 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { EVENT_CATEGORIES } from "@/constants/events";
+import { formatEventSchedule, getEventStartKey } from "@/lib/event-calendar";
+import { AgendaEvent } from "@/services/event-service";
+
+/**
+ * TolimaGO - EventCard Component
+ * Evento de la agenda con fecha, categoría y recordatorio activo
+ */
+
+export interface EventCardProps {
+  event: AgendaEvent;
+  hasReminder?: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function EventCard({
+  event,
+  hasReminder = false,
+  onPress,
+  testID,
+}: EventCardProps) {
+  const category = EVENT_CATEGORIES[event.category];
+  const [year, month, day] = getEventStartKey(event).split("-").map(Number);
+  const monthLabel = new Date(year, month - 1, day)
+    .toLocaleDateString("es-CO", { month: "short" })
+    .replace(".", "");
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.7}
+      testID={testID}
+    >
+      <View
+        style={[styles.dateBadge, { backgroundColor: `${category.color}1A` }]}
+      >
+        <Text style={[styles.day, { color: category.color }]}>{day}</Text>
+        <Text style={[styles.month, { color: category.color }]}>
+          {monthLabel}
+        </Text>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.categoryRow}>
+          <Ionicons name={category.icon} size={14} color={category.color} />
+          <Text style={[styles.category, { color: category.color }]}>
+            {category.label} · {event.municipality}
+          </Text>
+        </View>
+        <Text style={styles.title} numberOfLines={2}>
+          {event.title}
+        </Text>
+        <Text style={styles.schedule} numberOfLines={1}>
+          {formatEventSchedule(event)}
+        </Text>
+      </View>
+
+      {hasReminder && (
+        <Ionicons
+          name="notifications"
+          size={18}
+          color={theme.colors.primary.main}
+          accessibilityLabel="Recordatorio activo"
+        />
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  dateBadge: {
+    width: 52,
+    paddingVertical: theme.spacing[2],
+    borderRadius: theme.borderRadius.md,
+    alignItems: "center",
+  },
+
+  day: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold,
+  },
+
+  month: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    textTransform: "uppercase",
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  category: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[1],
+  },
+
+  schedule: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+});
@@ -0,0 +1,10 @@
+/**
+ * TolimaGO - Event Components Index
+ * Exporta los componentes de la agenda de eventos
+ */
+
+export { EventCard } from "./event-card";
+export type { EventCardProps } from "./event-card";
+
+export { MonthCalendar, MonthSwitcher } from "./month-calendar";
+export type { MonthCalendarProps, MonthSwitcherProps } from "./month-calendar";
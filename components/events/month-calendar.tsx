@@ -0,0 +1,192 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useMemo } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import {
+  WEEKDAY_LABELS,
+  buildMonthGrid,
+  formatMonthLabel,
+  shiftMonth,
+  toDateKey,
+} from "@/lib/event-calendar";
+
+/**
+ * TolimaGO - MonthCalendar Component
+ * Selector de mes y cuadrícula de días con marca en los días con eventos
+ */
+
+export interface MonthSwitcherProps {
+  // YYYY-MM
+  month: string;
+  onChangeMonth: (month: string) => void;
+}
+
+export function MonthSwitcher({ month, onChangeMonth }: MonthSwitcherProps) {
+  return (
+    <View style={styles.switcher}>
+      <TouchableOpacity
+        onPress={() => onChangeMonth(shiftMonth(month, -1))}
+        hitSlop={8}
+        accessibilityLabel="Mes anterior"
+      >
+        <Ionicons
+          name="chevron-back"
+          size={22}
+          color={theme.colors.text.primary}
+        />
+      </TouchableOpacity>
+      <Text style={styles.monthLabel}>{formatMonthLabel(month)}</Text>
+      <TouchableOpacity
+        onPress={() => onChangeMonth(shiftMonth(month, 1))}
+        hitSlop={8}
+        accessibilityLabel="Mes siguiente"
+      >
+        <Ionicons
+          name="chevron-forward"
+          size={22}
+          color={theme.colors.text.primary}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export interface MonthCalendarProps {
+  month: string;
+  // Días (YYYY-MM-DD) que tienen al menos un evento
+  markedDates: Set<string>;
+  selectedDate: string | null;
+  onSelectDate: (date: string | null) => void;
+  testID?: string;
+}
+
+export function MonthCalendar({
+  month,
+  markedDates,
+  selectedDate,
+  onSelectDate,
+  testID,
+}: MonthCalendarProps) {
+  const weeks = useMemo(() => buildMonthGrid(month), [month]);
+  const today = toDateKey(new Date());
+
+  return (
+    <View style={styles.calendar} testID={testID}>
+      <View style={styles.week}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <Text key={index} style={styles.weekday}>
+            {label}
+          </Text>
+        ))}
+      </View>
+
+      {weeks.map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.week}>
+          {week.map((date, dayIndex) => {
+            if (!date) return <View key={dayIndex} style={styles.cell} />;
+
+            const selected = date === selectedDate;
+            return (
+              <TouchableOpacity
+                key={date}
+                style={[
+                  styles.cell,
+                  date === today && styles.today,
+                  selected && styles.selected,
+                ]}
+                // Tocar el día seleccionado vuelve a mostrar todo el mes
+                onPress={() => onSelectDate(selected ? null : date)}
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.dayText, selected && styles.selectedText]}>
+                  {Number(date.slice(8))}
+                </Text>
+                {markedDates.has(date) && (
+                  <View style={[styles.dot, selected && styles.selectedDot]} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  switcher: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+
+  monthLabel: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  calendar: {
+    gap: theme.spacing[1],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  week: {
+    flexDirection: "row",
+  },
+
+  weekday: {
+    flex: 1,
+    textAlign: "center",
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+  },
+
+  cell: {
+    flex: 1,
+    height: 40,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: theme.borderRadius.md,
+  },
+
+  today: {
+    borderWidth: 1,
+    borderColor: theme.colors.primary.main,
+  },
+
+  selected: {
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  dayText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+
+  selectedText: {
+    color: theme.colors.text.inverse,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  dot: {
+    width: 5,
+    height: 5,
+    marginTop: 2,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  selectedDot: {
+    backgroundColor: theme.colors.text.inverse,
+  },
+});
@@ -0,0 +1,49 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect } from "react";
+import { Alert, TouchableOpacity } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { useFavouriteToggle } from "@/hooks/use-favourites";
+import { FavouriteInput } from "@/services/favourite-service";
+
+/**
+ * TolimaGO - FavouriteButton Component
+ * Corazón para guardar o quitar un elemento, pensado para el encabezado
+ */
+
+export interface FavouriteButtonProps {
+  // null mientras el detalle carga
+  item: FavouriteInput | null;
+  size?: number;
+  testID?: string;
+}
+
+export function FavouriteButton({
+  item,
+  size = 24,
+  testID,
+}: FavouriteButtonProps) {
+  const { isSaved, toggle, isLoading, error } = useFavouriteToggle(item);
+
+  useEffect(() => {
+    if (error) Alert.alert("Guardados", error);
+  }, [error]);
+
+  return (
+    <TouchableOpacity
+      onPress={toggle}
+      disabled={!item || isLoading}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={isSaved ? "Quitar de guardados" : "Guardar"}
+      accessibilityState={{ selected: isSaved }}
+      testID={testID}
+    >
+      <Ionicons
+        name={isSaved ? "heart" : "heart-outline"}
+        size={size}
+        color={isSaved ? theme.colors.error.main : theme.colors.primary.main}
+      />
+    </TouchableOpacity>
+  );
+}
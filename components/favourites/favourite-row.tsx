@@ -0,0 +1,111 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { FAVOURITE_TYPE_INFO } from "@/constants/favourites";
+import { Favourite } from "@/services/favourite-service";
+
+import { FavouriteButton } from "./favourite-button";
+
+/**
+ * TolimaGO - FavouriteRow Component
+ * Elemento guardado con acceso a su detalle y opción de quitarlo
+ */
+
+export interface FavouriteRowProps {
+  favourite: Favourite;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function FavouriteRow({
+  favourite,
+  onPress,
+  testID,
+}: FavouriteRowProps) {
+  const info = FAVOURITE_TYPE_INFO[favourite.type];
+
+  return (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={onPress}
+      activeOpacity={0.7}
+      testID={testID}
+    >
+      {favourite.imageUrl ? (
+        <Image
+          source={{ uri: favourite.imageUrl }}
+          style={styles.thumbnail}
+          contentFit="cover"
+        />
+      ) : (
+        <View style={[styles.thumbnail, styles.iconThumbnail]}>
+          <Ionicons
+            name={info.icon}
+            size={22}
+            color={theme.colors.primary.main}
+          />
+        </View>
+      )}
+
+      <View style={styles.text}>
+        <Text style={styles.title} numberOfLines={2}>
+          {favourite.title}
+        </Text>
+        {favourite.subtitle && (
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {favourite.subtitle}
+          </Text>
+        )}
+      </View>
+
+      <FavouriteButton item={favourite} size={22} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.background,
+  },
+
+  iconThumbnail: {
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  text: {
+    flex: 1,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  subtitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,10 @@
+/**
+ * TolimaGO - Favourites Components Index
+ * Exporta los componentes de guardados
+ */
+
+export { FavouriteButton } from "./favourite-button";
+export type { FavouriteButtonProps } from "./favourite-button";
+
+export { FavouriteRow } from "./favourite-row";
+export type { FavouriteRowProps } from "./favourite-row";
@@ -0,0 +1,163 @@
+import { Image } from "expo-image";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { NewsBlock } from "@/services/news-service";
+
+/**
+ * TolimaGO - ArticleContent Component
+ * Renderiza los bloques de texto enriquecido e imágenes de una noticia
+ */
+
+export interface ArticleContentProps {
+  blocks: NewsBlock[];
+  testID?: string;
+}
+
+function renderBlock(block: NewsBlock, index: number) {
+  switch (block.type) {
+    case "heading":
+      return (
+        <Text key={index} style={styles.heading}>
+          {block.text}
+        </Text>
+      );
+
+    case "paragraph":
+      return (
+        <Text key={index} style={styles.paragraph}>
+          {block.text}
+        </Text>
+      );
+
+    case "quote":
+      return (
+        <View key={index} style={styles.quote}>
+          <Text style={styles.quoteText}>“{block.text}”</Text>
+          {block.author && (
+            <Text style={styles.quoteAuthor}>— {block.author}</Text>
+          )}
+        </View>
+      );
+
+    case "list":
+      return (
+        <View key={index} style={styles.list}>
+          {block.items.map((item, itemIndex) => (
+            <View key={itemIndex} style={styles.listItem}>
+              <Text style={styles.bullet}>•</Text>
+              <Text style={styles.listText}>{item}</Text>
+            </View>
+          ))}
+        </View>
+      );
+
+    case "image":
+      return (
+        <View key={index} style={styles.figure}>
+          <Image
+            source={{ uri: block.url }}
+            style={styles.image}
+            contentFit="cover"
+            transition={200}
+          />
+          {block.caption && <Text style={styles.caption}>{block.caption}</Text>}
+        </View>
+      );
+
+    default:
+      // Tipos de bloque nuevos del servidor se ignoran en versiones viejas
+      return null;
+  }
+}
+
+export function ArticleContent({ blocks, testID }: ArticleContentProps) {
+  return (
+    <View style={styles.container} testID={testID}>
+      {blocks.map(renderBlock)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[4],
+  },
+
+  heading: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  paragraph: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.primary.main,
+    paddingLeft: theme.spacing[4],
+  },
+
+  quoteText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.lg,
+    fontStyle: "italic",
+    color: theme.colors.text.primary,
+  },
+
+  quoteAuthor: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  list: {
+    gap: theme.spacing[2],
+  },
+
+  listItem: {
+    flexDirection: "row",
+    gap: theme.spacing[2],
+  },
+
+  bullet: {
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.primary.main,
+  },
+
+  listText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  figure: {
+    gap: theme.spacing[2],
+  },
+
+  image: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.divider,
+  },
+
+  caption: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    textAlign: "center",
+  },
+});
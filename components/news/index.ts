@@ -0,0 +1,10 @@
+/**
+ * TolimaGO - News Components Index
+ * Exporta los componentes del feed de noticias
+ */
+
+export { ArticleContent } from "./article-content";
+export type { ArticleContentProps } from "./article-content";
+
+export { formatNewsDate, NewsCard } from "./news-card";
+export type { NewsCardProps } from "./news-card";
@@ -0,0 +1,126 @@
+import { Image } from "expo-image";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { NewsArticle } from "@/services/news-service";
+
+/**
+ * TolimaGO - NewsCard Component
+ * Resumen de una noticia con imagen de portada e indicador de no leída
+ */
+
+export interface NewsCardProps {
+  article: NewsArticle;
+  isRead: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+export const formatNewsDate = (value: string) =>
+  new Date(value).toLocaleDateString("es-CO", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+export function NewsCard({ article, isRead, onPress, testID }: NewsCardProps) {
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.8}
+      testID={testID}
+    >
+      {article.coverImageUrl && (
+        <Image
+          source={{ uri: article.coverImageUrl }}
+          style={styles.cover}
+          contentFit="cover"
+          transition={200}
+        />
+      )}
+
+      <View style={styles.body}>
+        <View style={styles.metaRow}>
+          {!isRead && <View style={styles.unreadDot} />}
+          <Text style={styles.meta}>
+            {article.municipality ?? "Tolima"} ·{" "}
+            {formatNewsDate(article.publishedAt)}
+          </Text>
+        </View>
+
+        <Text
+          style={[styles.title, isRead && styles.readTitle]}
+          numberOfLines={2}
+        >
+          {article.title}
+        </Text>
+        <Text style={styles.summary} numberOfLines={3}>
+          {article.summary}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    overflow: "hidden",
+  },
+
+  cover: {
+    width: "100%",
+    height: 160,
+    backgroundColor: theme.colors.neutral.divider,
+  },
+
+  body: {
+    padding: theme.spacing[4],
+  },
+
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.secondary.main,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[2],
+  },
+
+  readTitle: {
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+    lineHeight:
+      theme.typography.lineHeight.normal * theme.typography.fontSize.sm,
+  },
+});
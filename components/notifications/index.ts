@@ -0,0 +1,7 @@
+/**
+ * TolimaGO - Notification Components Index
+ * Exporta los componentes de la bandeja de notificaciones
+ */
+
+export { NotificationItem } from "./notification-item";
+export type { NotificationItemProps } from "./notification-item";
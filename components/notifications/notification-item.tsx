@@ -0,0 +1,148 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { NOTIFICATION_CATEGORIES } from "@/constants/notifications";
+import { AppNotification } from "@/services/notification-service";
+
+/**
+ * TolimaGO - NotificationItem Component
+ * Fila de la bandeja con el icono de la categoría e indicador de no leída
+ */
+
+export interface NotificationItemProps {
+  notification: AppNotification;
+  onPress: () => void;
+  testID?: string;
+}
+
+const formatNotificationDate = (value: string) =>
+  new Date(value).toLocaleString("es-CO", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export function NotificationItem({
+  notification,
+  onPress,
+  testID,
+}: NotificationItemProps) {
+  const category = NOTIFICATION_CATEGORIES[notification.category];
+  const isUnread = !notification.readAt;
+
+  return (
+    <TouchableOpacity
+      style={[styles.item, isUnread && styles.unreadItem]}
+      onPress={onPress}
+      activeOpacity={0.8}
+      testID={testID}
+    >
+      <View
+        style={[
+          styles.iconBadge,
+          {
+            backgroundColor: `${
+              category?.color ?? theme.colors.primary.main
+            }1A`,
+          },
+        ]}
+      >
+        <Ionicons
+          name={category?.icon ?? "notifications-outline"}
+          size={20}
+          color={category?.color ?? theme.colors.primary.main}
+        />
+      </View>
+
+      <View style={styles.body}>
+        <View style={styles.titleRow}>
+          <Text
+            style={[styles.title, !isUnread && styles.readTitle]}
+            numberOfLines={2}
+          >
+            {notification.title}
+          </Text>
+          {isUnread && <View style={styles.unreadDot} />}
+        </View>
+        <Text style={styles.text} numberOfLines={3}>
+          {notification.body}
+        </Text>
+        <Text style={styles.meta}>
+          {category ? `${category.label} · ` : ""}
+          {formatNotificationDate(notification.createdAt)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  unreadItem: {
+    borderColor: theme.colors.primary.main,
+  },
+
+  iconBadge: {
+    width: 40,
+    height: 40,
+    borderRadius: theme.borderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  body: {
+    flex: 1,
+    gap: theme.spacing[1],
+  },
+
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  title: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  readTitle: {
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.secondary.main,
+  },
+
+  text: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight:
+      theme.typography.lineHeight.normal * theme.typography.fontSize.sm,
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+});
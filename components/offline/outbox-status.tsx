@@ -0,0 +1,186 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+
+/**
+ * TolimaGO - OutboxStatus Component
+ * Muestra las solicitudes guardadas sin conexión y las que fallaron al reenviarse
+ */
+
+export interface OutboxStatusProps {
+  containerStyle?: ViewStyle;
+  testID?: string;
+}
+
+export function OutboxStatus({ containerStyle, testID }: OutboxStatusProps) {
+  const {
+    pendingCount,
+    failedItems,
+    failedCount,
+    isReplaying,
+    replay,
+    retryItem,
+    discardItem,
+  } = useOfflineQueue();
+  const [expanded, setExpanded] = useState(false);
+
+  if (pendingCount === 0 && failedCount === 0) return null;
+
+  return (
+    <View style={[styles.container, containerStyle]} testID={testID}>
+      <TouchableOpacity
+        style={styles.summary}
+        onPress={() => setExpanded((value) => !value)}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name={
+            failedCount > 0 ? "alert-circle-outline" : "cloud-upload-outline"
+          }
+          size={20}
+          color={
+            failedCount > 0 ? theme.colors.error.main : theme.colors.info.dark
+          }
+        />
+        <View style={styles.summaryText}>
+          {pendingCount > 0 && (
+            <Text style={styles.summaryTitle}>
+              {pendingCount === 1
+                ? "1 solicitud pendiente de envío"
+                : `${pendingCount} solicitudes pendientes de envío`}
+            </Text>
+          )}
+          {failedCount > 0 && (
+            <Text style={[styles.summaryTitle, styles.failedText]}>
+              {failedCount === 1
+                ? "1 solicitud no se pudo enviar"
+                : `${failedCount} solicitudes no se pudieron enviar`}
+            </Text>
+          )}
+          <Text style={styles.summarySubtitle}>
+            Se enviarán automáticamente al recuperar la conexión
+          </Text>
+        </View>
+        {isReplaying ? (
+          <ActivityIndicator size="small" color={theme.colors.info.dark} />
+        ) : (
+          <TouchableOpacity onPress={() => replay()} hitSlop={8}>
+            <Ionicons
+              name="refresh"
+              size={20}
+              color={theme.colors.text.secondary}
+            />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+
+      {expanded &&
+        failedItems.map((item) => (
+          <View key={item.id} style={styles.failedItem}>
+            <View style={styles.failedItemText}>
+              <Text style={styles.failedItemTitle}>
+                {item.label ?? `${item.method.toUpperCase()} ${item.url}`}
+              </Text>
+              {item.lastError && (
+                <Text style={styles.failedItemError}>{item.lastError}</Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={styles.itemAction}
+              onPress={() => retryItem(item.id)}
+            >
+              <Text style={styles.itemActionText}>Reintentar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.itemAction}
+              onPress={() => discardItem(item.id)}
+            >
+              <Text style={[styles.itemActionText, styles.failedText]}>
+                Descartar
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+    </View>
+  );
+}
+
+// =================== ESTILOS ===================
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.info.light,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing[4],
+  },
+
+  summary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+  },
+
+  summaryText: {
+    flex: 1,
+  },
+
+  summaryTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  summarySubtitle: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  failedText: {
+    color: theme.colors.error.dark,
+  },
+
+  failedItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: theme.spacing[3],
+    paddingTop: theme.spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+  },
+
+  failedItemText: {
+    flex: 1,
+  },
+
+  failedItemTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+
+  failedItemError: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.error.main,
+    marginTop: theme.spacing[1],
+  },
+
+  itemAction: {
+    paddingHorizontal: theme.spacing[2],
+    paddingVertical: theme.spacing[1],
+  },
+
+  itemActionText: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+});
@@ -0,0 +1,10 @@
+/**
+ * TolimaGO - Places Components Index
+ * Exporta los componentes del directorio de servicios
+ */
+
+export { PlaceCard } from "./place-card";
+export type { PlaceCardProps } from "./place-card";
+
+export { PlacesMap } from "./places-map";
+export type { PlacesMapProps } from "./places-map";
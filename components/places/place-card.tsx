@@ -0,0 +1,110 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { PLACE_CATEGORIES } from "@/constants/places";
+import { formatDistance } from "@/lib/geo";
+import { Place } from "@/services/places-service";
+
+/**
+ * TolimaGO - PlaceCard Component
+ * Servicio del directorio con categoría, dirección y distancia
+ */
+
+export interface PlaceCardProps {
+  place: Place;
+  distanceKm?: number | null;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function PlaceCard({
+  place,
+  distanceKm,
+  onPress,
+  testID,
+}: PlaceCardProps) {
+  const category = PLACE_CATEGORIES[place.category];
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.7}
+      testID={testID}
+    >
+      <View style={[styles.icon, { backgroundColor: `${category.color}1A` }]}>
+        <Ionicons name={category.icon} size={22} color={category.color} />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.name} numberOfLines={2}>
+          {place.name}
+        </Text>
+        <Text style={styles.address} numberOfLines={1}>
+          {place.address} · {place.municipality}
+        </Text>
+        <Text style={styles.category}>{category.label}</Text>
+      </View>
+
+      {distanceKm != null && (
+        <Text style={styles.distance}>{formatDistance(distanceKm)}</Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: theme.borderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  address: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  category: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  distance: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+});
@@ -0,0 +1,85 @@
+import React, { useMemo } from "react";
+import { StyleSheet } from "react-native";
+import MapView, { Marker, Region } from "react-native-maps";
+
+import { PLACE_CATEGORIES } from "@/constants/places";
+import { Coordinates } from "@/lib/geo";
+import { Place } from "@/services/places-service";
+
+/**
+ * TolimaGO - PlacesMap Component
+ * Mapa con un marcador por servicio, centrado en los resultados
+ */
+
+export interface PlacesMapProps {
+  places: Place[];
+  userLocation?: Coordinates | null;
+  onPlacePress: (place: Place) => void;
+  testID?: string;
+}
+
+// Ibagué, cuando no hay resultados que encuadrar
+const DEFAULT_REGION: Region = {
+  latitude: 4.4389,
+  longitude: -75.2322,
+  latitudeDelta: 0.08,
+  longitudeDelta: 0.08,
+};
+
+const MIN_DELTA = 0.02;
+
+/**
+ * Región que encuadra todos los puntos con un pequeño margen
+ */
+function regionFor(points: Coordinates[]): Region {
+  if (points.length === 0) return DEFAULT_REGION;
+
+  const latitudes = points.map((point) => point.latitude);
+  const longitudes = points.map((point) => point.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLon + maxLon) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.3, MIN_DELTA),
+    longitudeDelta: Math.max((maxLon - minLon) * 1.3, MIN_DELTA),
+  };
+}
+
+export function PlacesMap({
+  places,
+  userLocation,
+  onPlacePress,
+  testID,
+}: PlacesMapProps) {
+  const region = useMemo(() => regionFor(places), [places]);
+
+  return (
+    <MapView
+      style={styles.map}
+      region={region}
+      showsUserLocation={!!userLocation}
+      testID={testID}
+    >
+      {places.map((place) => (
+        <Marker
+          key={place.id}
+          coordinate={{ latitude: place.latitude, longitude: place.longitude }}
+          title={place.name}
+          description={place.address}
+          pinColor={PLACE_CATEGORIES[place.category].color}
+          onCalloutPress={() => onPlacePress(place)}
+        />
+      ))}
+    </MapView>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+});
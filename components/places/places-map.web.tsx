@@ -0,0 +1,77 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { FlatList, StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { distanceInKm } from "@/lib/geo";
+
+import { PlaceCard } from "./place-card";
+import type { PlacesMapProps } from "./places-map";
+
+/**
+ * TolimaGO - PlacesMap Component (web)
+ * react-native-maps no tiene versión web: se muestra la lista de servicios
+ */
+
+export function PlacesMap({
+  places,
+  userLocation,
+  onPlacePress,
+  testID,
+}: PlacesMapProps) {
+  return (
+    <FlatList
+      data={places}
+      keyExtractor={(place) => place.id}
+      renderItem={({ item }) => (
+        <PlaceCard
+          place={item}
+          distanceKm={userLocation ? distanceInKm(userLocation, item) : null}
+          onPress={() => onPlacePress(item)}
+        />
+      )}
+      ListHeaderComponent={
+        <View style={styles.notice}>
+          <Ionicons
+            name="map-outline"
+            size={18}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.noticeText}>
+            El mapa solo está disponible en la app móvil
+          </Text>
+        </View>
+      }
+      ItemSeparatorComponent={() => <View style={styles.separator} />}
+      contentContainerStyle={styles.listContent}
+      testID={testID}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    padding: theme.spacing[4],
+  },
+
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    marginBottom: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  noticeText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  separator: {
+    height: theme.spacing[3],
+  },
+});
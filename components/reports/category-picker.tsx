@@ -0,0 +1,127 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import {
+  REPORT_CATEGORIES,
+  REPORT_CATEGORY_IDS,
+  ReportCategory,
+} from "@/constants/reports";
+
+/**
+ * TolimaGO - CategoryPicker Component
+ * Lista seleccionable de categorías de incidencia
+ */
+
+export interface CategoryPickerProps {
+  value?: ReportCategory;
+  onChange: (category: ReportCategory) => void;
+  error?: string;
+  testID?: string;
+}
+
+export function CategoryPicker({
+  value,
+  onChange,
+  error,
+  testID,
+}: CategoryPickerProps) {
+  return (
+    <View style={styles.container} testID={testID}>
+      {REPORT_CATEGORY_IDS.map((id) => {
+        const category = REPORT_CATEGORIES[id];
+        const selected = value === id;
+
+        return (
+          <TouchableOpacity
+            key={id}
+            style={[styles.option, selected && styles.optionSelected]}
+            onPress={() => onChange(id)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ selected }}
+          >
+            <View
+              style={[styles.icon, { backgroundColor: `${category.color}1A` }]}
+            >
+              <Ionicons name={category.icon} size={24} color={category.color} />
+            </View>
+            <View style={styles.optionText}>
+              <Text style={styles.optionLabel}>{category.label}</Text>
+              <Text style={styles.optionDescription}>
+                {category.description}
+              </Text>
+            </View>
+            <Ionicons
+              name={selected ? "radio-button-on" : "radio-button-off"}
+              size={22}
+              color={
+                selected
+                  ? theme.colors.primary.main
+                  : theme.colors.text.secondary
+              }
+            />
+          </TouchableOpacity>
+        );
+      })}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[3],
+  },
+
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: theme.spacing[4],
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  optionSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: theme.borderRadius.full,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: theme.spacing[3],
+  },
+
+  optionText: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+
+  optionLabel: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  optionDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  errorText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.main,
+  },
+});
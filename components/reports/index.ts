@@ -0,0 +1,16 @@
+/**
+ * TolimaGO - Report Components Index
+ * Exporta los componentes del módulo de reportes ciudadanos
+ */
+
+export { CategoryPicker } from "./category-picker";
+export type { CategoryPickerProps } from "./category-picker";
+
+export { PhotoPicker } from "./photo-picker";
+export type { PhotoPickerProps } from "./photo-picker";
+
+export { ReportStatusBadge } from "./report-status-badge";
+export type { ReportStatusBadgeProps } from "./report-status-badge";
+
+export { ReportStatusTracker } from "./report-status-tracker";
+export type { ReportStatusTrackerProps } from "./report-status-tracker";
@@ -0,0 +1,228 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import * as ImagePicker from "expo-image-picker";
+import React from "react";
+import {
+  Alert,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { MAX_REPORT_PHOTOS } from "@/constants/reports";
+import { ReportPhoto } from "@/lib/validations";
+
+/**
+ * TolimaGO - PhotoPicker Component
+ * Adjunta fotos desde la cámara o la galería con vista previa
+ */
+
+export interface PhotoPickerProps {
+  photos: ReportPhoto[];
+  onChange: (photos: ReportPhoto[]) => void;
+  maxPhotos?: number;
+  error?: string;
+  testID?: string;
+}
+
+const PICKER_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ["images"],
+  quality: 0.6,
+  exif: false,
+};
+
+export function PhotoPicker({
+  photos,
+  onChange,
+  maxPhotos = MAX_REPORT_PHOTOS,
+  error,
+  testID,
+}: PhotoPickerProps) {
+  const remaining = maxPhotos - photos.length;
+
+  const addAssets = (assets: ImagePicker.ImagePickerAsset[]) => {
+    const added: ReportPhoto[] = assets.map((asset) => ({
+      uri: asset.uri,
+      fileName: asset.fileName ?? undefined,
+      mimeType: asset.mimeType ?? undefined,
+      width: asset.width,
+      height: asset.height,
+    }));
+
+    onChange([...photos, ...added].slice(0, maxPhotos));
+  };
+
+  const takePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        "Permiso requerido",
+        "Activa el acceso a la cámara en los ajustes para tomar fotos."
+      );
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync(PICKER_OPTIONS);
+    if (!result.canceled) addAssets(result.assets);
+  };
+
+  const pickFromLibrary = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      ...PICKER_OPTIONS,
+      allowsMultipleSelection: true,
+      selectionLimit: remaining,
+    });
+    if (!result.canceled) addAssets(result.assets);
+  };
+
+  const removePhoto = (uri: string) => {
+    onChange(photos.filter((photo) => photo.uri !== uri));
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.grid}>
+        {photos.map((photo) => (
+          <View key={photo.uri} style={styles.thumbnail}>
+            <Image source={{ uri: photo.uri }} style={styles.image} />
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removePhoto(photo.uri)}
+              hitSlop={8}
+              accessibilityLabel="Quitar foto"
+            >
+              <Ionicons
+                name="close"
+                size={14}
+                color={theme.colors.neutral.white}
+              />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      {remaining > 0 ? (
+        <View style={styles.actions}>
+          {Platform.OS !== "web" && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={takePhoto}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name="camera-outline"
+                size={22}
+                color={theme.colors.primary.main}
+              />
+              <Text style={styles.actionText}>Tomar foto</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={pickFromLibrary}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name="images-outline"
+              size={22}
+              color={theme.colors.primary.main}
+            />
+            <Text style={styles.actionText}>Galería</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <Text style={styles.helperText}>
+          Alcanzaste el máximo de {maxPhotos} fotos
+        </Text>
+      )}
+
+      <Text style={styles.helperText}>
+        {photos.length}/{maxPhotos} fotos · Opcional, pero ayuda a ubicar el
+        problema
+      </Text>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: theme.spacing[2],
+  },
+
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing[3],
+  },
+
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.borderRadius.md,
+    overflow: "hidden",
+    backgroundColor: theme.colors.neutral.divider,
+  },
+
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+
+  removeButton: {
+    position: "absolute",
+    top: theme.spacing[1],
+    right: theme.spacing[1],
+    width: 22,
+    height: 22,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.overlay.dark,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  actions: {
+    flexDirection: "row",
+    gap: theme.spacing[3],
+    marginTop: theme.spacing[4],
+  },
+
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: theme.spacing[2],
+    paddingVertical: theme.spacing[4],
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: theme.colors.primary.main,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  actionText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary.main,
+  },
+
+  helperText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[3],
+  },
+
+  errorText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.main,
+    marginTop: theme.spacing[1],
+  },
+});
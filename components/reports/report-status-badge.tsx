@@ -0,0 +1,28 @@
+import React from "react";
+
+import { StatusBadge } from "@/components/ui/status-badge";
+import { REPORT_STATUS_INFO, ReportStatus } from "@/constants/reports";
+
+/**
+ * TolimaGO - ReportStatusBadge Component
+ * Etiqueta compacta con el estado actual de un reporte
+ */
+
+export interface ReportStatusBadgeProps {
+  status: ReportStatus;
+  testID?: string;
+}
+
+export function ReportStatusBadge({ status, testID }: ReportStatusBadgeProps) {
+  const { label, icon, color, background } = REPORT_STATUS_INFO[status];
+
+  return (
+    <StatusBadge
+      label={label}
+      icon={icon}
+      color={color}
+      background={background}
+      testID={testID}
+    />
+  );
+}
@@ -0,0 +1,165 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { REPORT_STATUS_INFO, REPORT_STATUSES } from "@/constants/reports";
+import { Report } from "@/services/report-service";
+
+/**
+ * TolimaGO - ReportStatusTracker Component
+ * Línea de tiempo recibido → en proceso → resuelto con fechas y notas
+ */
+
+export interface ReportStatusTrackerProps {
+  report: Pick<Report, "status" | "history" | "createdAt">;
+  testID?: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("es-CO", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ReportStatusTracker({
+  report,
+  testID,
+}: ReportStatusTrackerProps) {
+  const currentIndex = REPORT_STATUSES.indexOf(report.status);
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {REPORT_STATUSES.map((status, index) => {
+        const info = REPORT_STATUS_INFO[status];
+        const reached = index <= currentIndex;
+        const isLast = index === REPORT_STATUSES.length - 1;
+
+        // El último cambio a este estado (puede repetirse si se reabrió)
+        const change = [...report.history]
+          .reverse()
+          .find((item) => item.status === status);
+        const changedAt =
+          change?.changedAt ??
+          (status === "received" ? report.createdAt : undefined);
+
+        return (
+          <View key={status} style={styles.step}>
+            <View style={styles.indicatorColumn}>
+              <View
+                style={[styles.dot, reached && { backgroundColor: info.color }]}
+              >
+                <Ionicons
+                  name={reached ? info.icon : "ellipse-outline"}
+                  size={16}
+                  color={
+                    reached
+                      ? theme.colors.neutral.white
+                      : theme.colors.text.secondary
+                  }
+                />
+              </View>
+              {!isLast && (
+                <View
+                  style={[
+                    styles.connector,
+                    index < currentIndex && styles.connectorReached,
+                  ]}
+                />
+              )}
+            </View>
+
+            <View style={styles.stepContent}>
+              <Text style={[styles.stepTitle, !reached && styles.pendingText]}>
+                {info.label}
+              </Text>
+              <Text style={styles.stepDescription}>{info.description}</Text>
+              {reached && changedAt && (
+                <Text style={styles.stepDate}>{formatDate(changedAt)}</Text>
+              )}
+              {reached && change?.note && (
+                <Text style={styles.stepNote}>“{change.note}”</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: theme.spacing[2],
+  },
+
+  step: {
+    flexDirection: "row",
+  },
+
+  indicatorColumn: {
+    alignItems: "center",
+    marginRight: theme.spacing[3],
+  },
+
+  dot: {
+    width: 32,
+    height: 32,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.neutral.divider,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  connector: {
+    flex: 1,
+    width: 2,
+    minHeight: theme.spacing[6],
+    backgroundColor: theme.colors.neutral.border,
+  },
+
+  connectorReached: {
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  stepContent: {
+    flex: 1,
+    paddingBottom: theme.spacing[5],
+  },
+
+  stepTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  pendingText: {
+    color: theme.colors.text.secondary,
+  },
+
+  stepDescription: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  stepDate: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  stepNote: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontStyle: "italic",
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[2],
+  },
+});
@@ -0,0 +1,19 @@
+/**
+ * TolimaGO - Reviews Components Index
+ * Exporta los componentes de reseñas y calificaciones
+ */
+
+export { RatingSummaryCard } from "./rating-summary-card";
+export type { RatingSummaryCardProps } from "./rating-summary-card";
+
+export { ReportReviewModal } from "./report-review-modal";
+export type { ReportReviewModalProps } from "./report-review-modal";
+
+export { ReviewCard } from "./review-card";
+export type { ReviewCardProps } from "./review-card";
+
+export { ReviewsSection } from "./reviews-section";
+export type { ReviewsSectionProps } from "./reviews-section";
+
+export { StarRating } from "./star-rating";
+export type { StarRatingProps } from "./star-rating";
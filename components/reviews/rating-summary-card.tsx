@@ -0,0 +1,115 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { RATING_VALUES } from "@/constants/reviews";
+import { RatingSummary } from "@/services/review-service";
+
+import { StarRating } from "./star-rating";
+
+/**
+ * TolimaGO - RatingSummaryCard Component
+ * Promedio, total de reseñas y distribución por estrellas
+ */
+
+export interface RatingSummaryCardProps {
+  summary: RatingSummary;
+  testID?: string;
+}
+
+export function RatingSummaryCard({ summary, testID }: RatingSummaryCardProps) {
+  // Las barras se dibujan de 5 a 1 estrella
+  const rows = [...RATING_VALUES].reverse();
+
+  return (
+    <View style={styles.card} testID={testID}>
+      <View style={styles.average}>
+        <Text style={styles.averageValue}>
+          {summary.count > 0 ? summary.average.toFixed(1) : "–"}
+        </Text>
+        <StarRating value={summary.average} size={14} />
+        <Text style={styles.count}>
+          {summary.count} {summary.count === 1 ? "reseña" : "reseñas"}
+        </Text>
+      </View>
+
+      <View style={styles.bars}>
+        {rows.map((star) => {
+          const amount = summary.distribution[star] ?? 0;
+          const ratio = summary.count > 0 ? amount / summary.count : 0;
+
+          return (
+            <View key={star} style={styles.barRow}>
+              <Text style={styles.barLabel}>{star}</Text>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { flex: ratio }]} />
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[4],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  average: {
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  averageValue: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize["3xl"],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  count: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  bars: {
+    flex: 1,
+    gap: theme.spacing[1],
+  },
+
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  barLabel: {
+    width: 12,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  barTrack: {
+    flex: 1,
+    flexDirection: "row",
+    height: 8,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.neutral.background,
+    overflow: "hidden",
+  },
+
+  barFill: {
+    backgroundColor: theme.colors.warning.main,
+  },
+});
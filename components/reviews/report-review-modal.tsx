@@ -0,0 +1,258 @@
+import { Ionicons } from "@expo/vector-icons";
+import { zodResolver } from "@hookform/resolvers/zod";
+import React, { useEffect } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { FormError, PrimaryButton, TextInputField } from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import { MODERATION_REASON_LABELS } from "@/constants/moderation";
+import { REVIEW_REPORT_REASONS } from "@/constants/reviews";
+import { ReviewReportFormData, reviewReportSchema } from "@/lib/validations";
+
+/**
+ * TolimaGO - ReportReviewModal Component
+ * Denuncia de una reseña abusiva con motivo y detalles opcionales
+ */
+
+export interface ReportReviewModalProps {
+  visible: boolean;
+  isSubmitting: boolean;
+  error?: string | null;
+  onSubmit: (data: ReviewReportFormData) => void;
+  onClose: () => void;
+}
+
+export function ReportReviewModal({
+  visible,
+  isSubmitting,
+  error,
+  onSubmit,
+  onClose,
+}: ReportReviewModalProps) {
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ReviewReportFormData>({
+    resolver: zodResolver(reviewReportSchema),
+    defaultValues: { details: "" },
+  });
+
+  // Cada denuncia empieza con el formulario vacío
+  useEffect(() => {
+    if (visible) reset({ details: "" });
+  }, [visible, reset]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity
+            style={styles.modalButton}
+            onPress={onClose}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.modalButtonText}>Cancelar</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Denunciar reseña</Text>
+          <View style={styles.modalButton} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.summary}>
+            Un moderador revisará la reseña. No le diremos al autor quién la
+            denunció.
+          </Text>
+
+          {error && <FormError errors={error} variant="error" animated />}
+
+          <Text style={styles.sectionTitle}>Motivo</Text>
+          <Controller
+            control={control}
+            name="reason"
+            render={({ field: { onChange, value } }) => (
+              <>
+                {REVIEW_REPORT_REASONS.map((reason) => {
+                  const selected = value === reason;
+                  return (
+                    <TouchableOpacity
+                      key={reason}
+                      style={[styles.option, selected && styles.optionSelected]}
+                      onPress={() => onChange(reason)}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Ionicons
+                        name={selected ? "radio-button-on" : "radio-button-off"}
+                        size={20}
+                        color={
+                          selected
+                            ? theme.colors.primary.main
+                            : theme.colors.text.secondary
+                        }
+                      />
+                      <Text style={styles.optionLabel}>
+                        {MODERATION_REASON_LABELS[reason]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </>
+            )}
+          />
+          {errors.reason?.message && (
+            <Text style={styles.fieldError}>{errors.reason.message}</Text>
+          )}
+
+          <Controller
+            control={control}
+            name="details"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInputField
+                label="Detalles"
+                value={value ?? ""}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                placeholder="Opcional"
+                multiline
+                numberOfLines={3}
+                maxLength={300}
+                error={errors.details?.message}
+                containerStyle={styles.detailsField}
+                testID="review-report-details-input"
+              />
+            )}
+          />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <PrimaryButton
+            title="Enviar denuncia"
+            onPress={handleSubmit(onSubmit)}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            variant="danger"
+            size="large"
+            fullWidth={true}
+            testID="review-report-submit-button"
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.background,
+  },
+
+  modalButton: {
+    paddingVertical: theme.spacing[2],
+    minWidth: 80,
+  },
+
+  modalButtonText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.primary.main,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+
+  modalTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+    textAlign: "center",
+    flex: 1,
+  },
+
+  content: {
+    padding: theme.spacing[6],
+    gap: theme.spacing[2],
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+  },
+
+  sectionTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.secondary,
+    textTransform: "uppercase",
+    marginTop: theme.spacing[4],
+  },
+
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[3],
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    borderRadius: theme.borderRadius.md,
+  },
+
+  optionSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  optionLabel: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  fieldError: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.main,
+  },
+
+  detailsField: {
+    marginTop: theme.spacing[4],
+  },
+
+  footer: {
+    padding: theme.spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.white,
+  },
+});
@@ -0,0 +1,219 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { Review } from "@/services/review-service";
+
+import { StarRating } from "./star-rating";
+
+/**
+ * TolimaGO - ReviewCard Component
+ * Reseña con fotos, voto de utilidad y denuncia (o edición si es propia)
+ */
+
+export interface ReviewCardProps {
+  review: Review;
+  onToggleHelpful: () => void;
+  onReport?: () => void;
+  onEdit?: () => void;
+  testID?: string;
+}
+
+export function ReviewCard({
+  review,
+  onToggleHelpful,
+  onReport,
+  onEdit,
+  testID,
+}: ReviewCardProps) {
+  return (
+    <View style={styles.card} testID={testID}>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.author} numberOfLines={1}>
+            {review.isOwn ? "Tu reseña" : review.author.name}
+          </Text>
+          <Text style={styles.date}>
+            {new Date(review.createdAt).toLocaleDateString("es-CO", {
+              day: "numeric",
+              month: "short",
+              year: "numeric",
+            })}
+            {review.updatedAt ? " · editada" : ""}
+          </Text>
+        </View>
+        <StarRating value={review.rating} size={14} />
+      </View>
+
+      <Text style={styles.body}>{review.body}</Text>
+
+      {review.photos.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.photos}
+        >
+          {review.photos.map((photo) => (
+            <Image
+              key={photo.id}
+              source={{ uri: photo.url }}
+              style={styles.photo}
+              contentFit="cover"
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.action, review.markedHelpful && styles.actionActive]}
+          onPress={onToggleHelpful}
+          disabled={review.isOwn}
+          accessibilityRole="button"
+          accessibilityState={{ selected: review.markedHelpful }}
+        >
+          <Ionicons
+            name={review.markedHelpful ? "thumbs-up" : "thumbs-up-outline"}
+            size={16}
+            color={
+              review.markedHelpful
+                ? theme.colors.primary.main
+                : theme.colors.text.secondary
+            }
+          />
+          <Text
+            style={[
+              styles.actionText,
+              review.markedHelpful && styles.actionTextActive,
+            ]}
+          >
+            Útil{review.helpfulCount > 0 ? ` (${review.helpfulCount})` : ""}
+          </Text>
+        </TouchableOpacity>
+
+        {review.isOwn
+          ? onEdit && (
+              <TouchableOpacity
+                style={styles.action}
+                onPress={onEdit}
+                accessibilityRole="button"
+              >
+                <Ionicons
+                  name="create-outline"
+                  size={16}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.actionText}>Editar</Text>
+              </TouchableOpacity>
+            )
+          : onReport && (
+              <TouchableOpacity
+                style={styles.action}
+                onPress={onReport}
+                accessibilityRole="button"
+              >
+                <Ionicons
+                  name="flag-outline"
+                  size={16}
+                  color={theme.colors.text.secondary}
+                />
+                <Text style={styles.actionText}>Denunciar</Text>
+              </TouchableOpacity>
+            )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: theme.spacing[2],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+  },
+
+  headerText: {
+    flex: 1,
+  },
+
+  author: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  date: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  body: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    lineHeight:
+      theme.typography.lineHeight.relaxed * theme.typography.fontSize.base,
+  },
+
+  photos: {
+    gap: theme.spacing[2],
+  },
+
+  photo: {
+    width: 96,
+    height: 72,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.neutral.background,
+  },
+
+  footer: {
+    flexDirection: "row",
+    gap: theme.spacing[2],
+  },
+
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+    paddingVertical: theme.spacing[1],
+    paddingHorizontal: theme.spacing[3],
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  actionActive: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  actionText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  actionTextActive: {
+    color: theme.colors.primary.main,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+});
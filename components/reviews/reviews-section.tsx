@@ -0,0 +1,163 @@
+import { router } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { FormError, PrimaryButton } from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+import { REVIEW_PREVIEW_COUNT, ReviewTargetType } from "@/constants/reviews";
+import { useEmailVerificationGate } from "@/hooks/use-protected-route";
+import {
+  useMyReview,
+  useRatingSummary,
+  useReviewReport,
+  useReviews,
+} from "@/hooks/use-reviews";
+import { ReviewReportFormData } from "@/lib/validations";
+import { Review } from "@/services/review-service";
+
+import { RatingSummaryCard } from "./rating-summary-card";
+import { ReportReviewModal } from "./report-review-modal";
+import { ReviewCard } from "./review-card";
+
+/**
+ * TolimaGO - ReviewsSection Component
+ * Calificación y últimas reseñas de un lugar, para las pantallas de detalle
+ */
+
+export interface ReviewsSectionProps {
+  targetType: ReviewTargetType;
+  targetId: string;
+  targetName: string;
+}
+
+export function ReviewsSection({
+  targetType,
+  targetId,
+  targetName,
+}: ReviewsSectionProps) {
+  const { summary, error: summaryError } = useRatingSummary(
+    targetType,
+    targetId
+  );
+  const { reviews, isLoading, error, toggleHelpful } = useReviews(
+    targetType,
+    targetId
+  );
+  const myReview = useMyReview(targetType, targetId);
+  const reporting = useReviewReport();
+  const { requireVerifiedEmail } = useEmailVerificationGate();
+  const [reportingId, setReportingId] = useState<string | null>(null);
+
+  const params = { type: targetType, id: targetId, name: targetName };
+
+  const openWrite = () => {
+    if (!requireVerifiedEmail()) return;
+    router.push({ pathname: "/reviews/[type]/[id]/write", params });
+  };
+
+  const handleHelpful = async (review: Review) => {
+    try {
+      await toggleHelpful(review);
+    } catch (err: any) {
+      Alert.alert("Reseñas", err.message);
+    }
+  };
+
+  const handleReport = async (data: ReviewReportFormData) => {
+    if (!reportingId) return;
+
+    if (await reporting.report(reportingId, data)) {
+      setReportingId(null);
+      Alert.alert("Gracias", "Un moderador revisará la reseña.");
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      {summary && <RatingSummaryCard summary={summary} />}
+      {summaryError && !summary && (
+        <FormError errors={summaryError} variant="warning" />
+      )}
+
+      {!myReview.isLoading && (
+        <PrimaryButton
+          title={myReview.review ? "Editar mi reseña" : "Escribir una reseña"}
+          onPress={openWrite}
+          variant={myReview.review ? "outline" : "primary"}
+          size="medium"
+          fullWidth={true}
+          testID="write-review-button"
+        />
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator color={theme.colors.primary.main} />
+      ) : error ? (
+        <FormError errors={error} variant="warning" />
+      ) : reviews.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Aún no hay reseñas. ¡Sé el primero en contar tu experiencia!
+        </Text>
+      ) : (
+        reviews.slice(0, REVIEW_PREVIEW_COUNT).map((review) => (
+          <ReviewCard
+            key={review.id}
+            review={review}
+            onToggleHelpful={() => handleHelpful(review)}
+            onReport={() => {
+              reporting.clearError();
+              setReportingId(review.id);
+            }}
+            onEdit={openWrite}
+          />
+        ))
+      )}
+
+      {(summary?.count ?? 0) > REVIEW_PREVIEW_COUNT && (
+        <TouchableOpacity
+          onPress={() =>
+            router.push({ pathname: "/reviews/[type]/[id]", params })
+          }
+          hitSlop={8}
+        >
+          <Text style={styles.link}>Ver las {summary?.count} reseñas</Text>
+        </TouchableOpacity>
+      )}
+
+      <ReportReviewModal
+        visible={reportingId !== null}
+        isSubmitting={reporting.isSubmitting}
+        error={reporting.error}
+        onSubmit={handleReport}
+        onClose={() => setReportingId(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: theme.spacing[3],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+  },
+
+  link: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,80 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { RATING_LABELS, RATING_VALUES, RatingValue } from "@/constants/reviews";
+
+/**
+ * TolimaGO - StarRating Component
+ * Muestra una calificación de 1 a 5; con onChange funciona como selector
+ */
+
+export interface StarRatingProps {
+  value: number;
+  size?: number;
+  onChange?: (value: RatingValue) => void;
+  testID?: string;
+}
+
+const starIcon = (star: number, value: number) => {
+  if (value >= star) return "star";
+  // Medias estrellas para promedios como 4.5
+  if (value >= star - 0.5) return "star-half";
+  return "star-outline";
+};
+
+export function StarRating({
+  value,
+  size = 16,
+  onChange,
+  testID,
+}: StarRatingProps) {
+  if (!onChange) {
+    return (
+      <View
+        style={styles.row}
+        accessibilityLabel={`${value.toFixed(1)} de 5 estrellas`}
+        testID={testID}
+      >
+        {RATING_VALUES.map((star) => (
+          <Ionicons
+            key={star}
+            name={starIcon(star, value)}
+            size={size}
+            color={theme.colors.warning.main}
+          />
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.row} accessibilityRole="adjustable" testID={testID}>
+      {RATING_VALUES.map((star) => (
+        <TouchableOpacity
+          key={star}
+          onPress={() => onChange(star)}
+          hitSlop={4}
+          accessibilityRole="button"
+          accessibilityLabel={`${star} - ${RATING_LABELS[star]}`}
+          accessibilityState={{ selected: value === star }}
+        >
+          <Ionicons
+            name={value >= star ? "star" : "star-outline"}
+            size={size}
+            color={theme.colors.warning.main}
+          />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+});
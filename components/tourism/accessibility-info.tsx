@@ -0,0 +1,92 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import {
+  ACCESSIBILITY_FEATURE_IDS,
+  ACCESSIBILITY_FEATURES,
+} from "@/constants/tourism";
+import { Attraction } from "@/services/tourism-service";
+
+/**
+ * TolimaGO - AccessibilityInfo Component
+ * Lista de facilidades de accesibilidad disponibles y no disponibles
+ */
+
+export interface AccessibilityInfoProps {
+  accessibility: Attraction["accessibility"];
+  testID?: string;
+}
+
+export function AccessibilityInfo({
+  accessibility,
+  testID,
+}: AccessibilityInfoProps) {
+  return (
+    <View style={styles.container} testID={testID}>
+      {ACCESSIBILITY_FEATURE_IDS.map((id) => {
+        const feature = ACCESSIBILITY_FEATURES[id];
+        const available = accessibility.features.includes(id);
+
+        return (
+          <View key={id} style={styles.row}>
+            <Ionicons
+              name={feature.icon}
+              size={18}
+              color={theme.colors.text.secondary}
+            />
+            <Text style={[styles.label, !available && styles.unavailable]}>
+              {feature.label}
+            </Text>
+            <Ionicons
+              name={available ? "checkmark-circle" : "close-circle-outline"}
+              size={18}
+              color={
+                available
+                  ? theme.colors.success.main
+                  : theme.colors.text.secondary
+              }
+              accessibilityLabel={available ? "Disponible" : "No disponible"}
+            />
+          </View>
+        );
+      })}
+
+      {accessibility.notes && (
+        <Text style={styles.notes}>{accessibility.notes}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[2],
+  },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+  },
+
+  label: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+  },
+
+  unavailable: {
+    color: theme.colors.text.secondary,
+  },
+
+  notes: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontStyle: "italic",
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+});
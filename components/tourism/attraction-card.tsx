@@ -0,0 +1,134 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { TOURISM_CATEGORIES } from "@/constants/tourism";
+import { Attraction } from "@/services/tourism-service";
+
+/**
+ * TolimaGO - AttractionCard Component
+ * Lugar del catálogo turístico con portada, categoría y municipio
+ */
+
+export interface AttractionCardProps {
+  attraction: Attraction;
+  isSaved?: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function AttractionCard({
+  attraction,
+  isSaved = false,
+  onPress,
+  testID,
+}: AttractionCardProps) {
+  const category = TOURISM_CATEGORIES[attraction.category];
+  const cover = attraction.images[0];
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.8}
+      testID={testID}
+    >
+      {cover ? (
+        <Image
+          source={{ uri: cover }}
+          style={styles.cover}
+          contentFit="cover"
+          transition={200}
+        />
+      ) : (
+        <View
+          style={[
+            styles.cover,
+            styles.placeholder,
+            { backgroundColor: `${category.color}1A` },
+          ]}
+        >
+          <Ionicons name={category.icon} size={40} color={category.color} />
+        </View>
+      )}
+
+      {isSaved && (
+        <View style={styles.savedBadge}>
+          <Ionicons
+            name="bookmark"
+            size={16}
+            color={theme.colors.text.inverse}
+          />
+        </View>
+      )}
+
+      <View style={styles.body}>
+        <Text style={[styles.category, { color: category.color }]}>
+          {category.label} · {attraction.municipality}
+        </Text>
+        <Text style={styles.name} numberOfLines={2}>
+          {attraction.name}
+        </Text>
+        <Text style={styles.summary} numberOfLines={2}>
+          {attraction.summary}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    overflow: "hidden",
+  },
+
+  cover: {
+    width: "100%",
+    height: 150,
+  },
+
+  placeholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  savedBadge: {
+    position: "absolute",
+    top: theme.spacing[3],
+    right: theme.spacing[3],
+    padding: theme.spacing[2],
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  body: {
+    padding: theme.spacing[4],
+  },
+
+  category: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[1],
+  },
+
+  summary: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+});
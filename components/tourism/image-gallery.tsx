@@ -0,0 +1,113 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React, { useState } from "react";
+import {
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ScrollView,
+  StyleSheet,
+  useWindowDimensions,
+  View,
+} from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { TourismCategoryInfo } from "@/constants/tourism";
+
+/**
+ * TolimaGO - ImageGallery Component
+ * Galería deslizable a lo ancho de la pantalla con indicador de página
+ */
+
+export interface ImageGalleryProps {
+  images: string[];
+  // Se usa como marcador cuando el lugar no tiene fotos
+  category: TourismCategoryInfo;
+  height?: number;
+  testID?: string;
+}
+
+export function ImageGallery({
+  images,
+  category,
+  height = 240,
+  testID,
+}: ImageGalleryProps) {
+  const { width } = useWindowDimensions();
+  const [page, setPage] = useState(0);
+
+  if (images.length === 0) {
+    return (
+      <View
+        style={[
+          styles.placeholder,
+          { height, backgroundColor: `${category.color}1A` },
+        ]}
+        testID={testID}
+      >
+        <Ionicons name={category.icon} size={56} color={category.color} />
+      </View>
+    );
+  }
+
+  const onScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) =>
+    setPage(Math.round(event.nativeEvent.contentOffset.x / width));
+
+  return (
+    <View testID={testID}>
+      <ScrollView
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={onScroll}
+      >
+        {images.map((uri) => (
+          <Image
+            key={uri}
+            source={{ uri }}
+            style={{ width, height }}
+            contentFit="cover"
+            transition={200}
+          />
+        ))}
+      </ScrollView>
+
+      {images.length > 1 && (
+        <View style={styles.dots}>
+          {images.map((uri, index) => (
+            <View
+              key={uri}
+              style={[styles.dot, index === page && styles.dotActive]}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    width: "100%",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  dots: {
+    position: "absolute",
+    bottom: theme.spacing[3],
+    alignSelf: "center",
+    flexDirection: "row",
+    gap: theme.spacing[1],
+  },
+
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: "rgba(255, 255, 255, 0.5)",
+  },
+
+  dotActive: {
+    backgroundColor: theme.colors.text.inverse,
+  },
+});
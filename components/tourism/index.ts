@@ -0,0 +1,13 @@
+/**
+ * TolimaGO - Tourism Components Index
+ * Exporta los componentes del catálogo turístico
+ */
+
+export { AccessibilityInfo } from "./accessibility-info";
+export type { AccessibilityInfoProps } from "./accessibility-info";
+
+export { AttractionCard } from "./attraction-card";
+export type { AttractionCardProps } from "./attraction-card";
+
+export { ImageGallery } from "./image-gallery";
+export type { ImageGalleryProps } from "./image-gallery";
@@ -0,0 +1,13 @@
+/**
+ * TolimaGO - Tramite Components Index
+ * Exporta los componentes del catálogo y seguimiento de trámites
+ */
+
+export { RequestTimeline } from "./request-timeline";
+export type { RequestTimelineProps } from "./request-timeline";
+
+export { RequestedDocuments } from "./requested-documents";
+export type { RequestedDocumentsProps } from "./requested-documents";
+
+export { TramiteCard } from "./tramite-card";
+export type { TramiteCardProps } from "./tramite-card";
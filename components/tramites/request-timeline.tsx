@@ -0,0 +1,121 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { TRAMITE_STATUS_INFO } from "@/constants/tramites";
+import { TramiteTimelineEntry } from "@/services/tramite-service";
+
+/**
+ * TolimaGO - RequestTimeline Component
+ * Historial de estados de una solicitud, del más antiguo al actual
+ */
+
+export interface RequestTimelineProps {
+  timeline: TramiteTimelineEntry[];
+  testID?: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("es-CO", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function RequestTimeline({ timeline, testID }: RequestTimelineProps) {
+  const entries = [...timeline].sort((a, b) => a.at.localeCompare(b.at));
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {entries.map((entry, index) => {
+        const info = TRAMITE_STATUS_INFO[entry.status];
+        const isCurrent = index === entries.length - 1;
+
+        return (
+          <View key={`${entry.status}-${entry.at}`} style={styles.entry}>
+            <View style={styles.indicatorColumn}>
+              <View
+                style={[
+                  styles.dot,
+                  { backgroundColor: isCurrent ? info.color : info.background },
+                ]}
+              >
+                <Ionicons
+                  name={info.icon}
+                  size={16}
+                  color={isCurrent ? theme.colors.neutral.white : info.color}
+                />
+              </View>
+              {!isCurrent && <View style={styles.connector} />}
+            </View>
+
+            <View style={styles.entryContent}>
+              <Text style={styles.entryTitle}>{info.label}</Text>
+              <Text style={styles.entryDate}>{formatDate(entry.at)}</Text>
+              {entry.note && <Text style={styles.entryNote}>{entry.note}</Text>}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: theme.spacing[2],
+  },
+
+  entry: {
+    flexDirection: "row",
+  },
+
+  indicatorColumn: {
+    alignItems: "center",
+    marginRight: theme.spacing[3],
+  },
+
+  dot: {
+    width: 32,
+    height: 32,
+    borderRadius: theme.borderRadius.full,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  connector: {
+    flex: 1,
+    width: 2,
+    minHeight: theme.spacing[6],
+    backgroundColor: theme.colors.neutral.border,
+  },
+
+  entryContent: {
+    flex: 1,
+    paddingBottom: theme.spacing[5],
+  },
+
+  entryTitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  entryDate: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  entryNote: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[2],
+  },
+});
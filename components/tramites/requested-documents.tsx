@@ -0,0 +1,143 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { StatusBadge } from "@/components/ui/status-badge";
+import { theme } from "@/constants/design-tokens";
+import { DOCUMENT_STATUS_INFO } from "@/constants/tramites";
+import { RequestedDocument } from "@/services/tramite-service";
+
+/**
+ * TolimaGO - RequestedDocuments Component
+ * Documentos que la oficina pidió para continuar con la solicitud
+ */
+
+export interface RequestedDocumentsProps {
+  documents: RequestedDocument[];
+  testID?: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("es-CO", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+export function RequestedDocuments({
+  documents,
+  testID,
+}: RequestedDocumentsProps) {
+  if (documents.length === 0) {
+    return (
+      <Text style={styles.emptyText} testID={testID}>
+        La oficina no ha solicitado documentos adicionales.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {documents.map((document) => {
+        const info = DOCUMENT_STATUS_INFO[document.status];
+
+        return (
+          <View key={document.id} style={styles.item}>
+            <Ionicons
+              name="document-attach-outline"
+              size={22}
+              color={theme.colors.primary.main}
+            />
+            <View style={styles.itemContent}>
+              <Text style={styles.name}>{document.name}</Text>
+              {document.description && (
+                <Text style={styles.description}>{document.description}</Text>
+              )}
+              {document.status === "pending" && document.dueDate && (
+                <Text style={styles.dueDate}>
+                  Entregar antes del {formatDate(document.dueDate)}
+                </Text>
+              )}
+              {document.status === "rejected" && document.rejectionReason && (
+                <Text style={styles.rejection}>{document.rejectionReason}</Text>
+              )}
+              <View style={styles.badge}>
+                <StatusBadge {...info} />
+              </View>
+            </View>
+          </View>
+        );
+      })}
+      <Text style={styles.hint}>
+        Entrega los documentos en la oficina indicada o por los canales que te
+        informe la alcaldía.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[3],
+  },
+
+  item: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  itemContent: {
+    flex: 1,
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  description: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  dueDate: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.warning.dark,
+    marginTop: theme.spacing[1],
+  },
+
+  rejection: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error.dark,
+    marginTop: theme.spacing[1],
+  },
+
+  badge: {
+    marginTop: theme.spacing[2],
+  },
+
+  emptyText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  hint: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,112 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { formatTramiteFee } from "@/constants/tramites";
+import { Tramite } from "@/services/tramite-service";
+
+/**
+ * TolimaGO - TramiteCard Component
+ * Resumen de un trámite del catálogo con costo y duración estimada
+ */
+
+export interface TramiteCardProps {
+  tramite: Tramite;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function TramiteCard({ tramite, onPress, testID }: TramiteCardProps) {
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.7}
+      testID={testID}
+    >
+      <View style={styles.content}>
+        <Text style={styles.name}>{tramite.name}</Text>
+        <Text style={styles.description} numberOfLines={2}>
+          {tramite.description}
+        </Text>
+
+        <View style={styles.metaRow}>
+          <View style={styles.meta}>
+            <Ionicons
+              name="cash-outline"
+              size={14}
+              color={theme.colors.text.secondary}
+            />
+            <Text style={styles.metaText}>{formatTramiteFee(tramite.fee)}</Text>
+          </View>
+          <View style={styles.meta}>
+            <Ionicons
+              name="time-outline"
+              size={14}
+              color={theme.colors.text.secondary}
+            />
+            <Text style={styles.metaText}>{tramite.estimatedDuration}</Text>
+          </View>
+        </View>
+      </View>
+
+      <Ionicons
+        name="chevron-forward"
+        size={20}
+        color={theme.colors.text.secondary}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  content: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  description: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  metaRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing[4],
+    marginTop: theme.spacing[2],
+  },
+
+  meta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+  },
+
+  metaText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,305 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { MAX_STOPS_PER_DAY } from "@/constants/trips";
+import { formatDistance } from "@/lib/geo";
+import {
+  estimateTravel,
+  formatTravelDuration,
+  formatTripDate,
+  suggestStopOrder,
+} from "@/lib/trip-planning";
+import { TripDay, TripStop } from "@/services/trip-service";
+
+/**
+ * TolimaGO - DaySection Component
+ * Paradas de un día del itinerario con recorrido estimado y notas
+ */
+
+export interface DaySectionProps {
+  day: TripDay;
+  index: number;
+  onAddStop: () => void;
+  onChangeStops: (stops: TripStop[]) => void;
+  onChangeNotes: (notes: string) => void;
+  testID?: string;
+}
+
+const STOP_ICONS = {
+  attraction: "camera-outline",
+  place: "business-outline",
+} as const;
+
+export function DaySection({
+  day,
+  index,
+  onAddStop,
+  onChangeStops,
+  onChangeNotes,
+  testID,
+}: DaySectionProps) {
+  const [notes, setNotes] = useState(day.notes);
+  const travel = useMemo(() => estimateTravel(day.stops), [day.stops]);
+  const suggested = useMemo(() => suggestStopOrder(day.stops), [day.stops]);
+  const canImproveOrder =
+    suggested.some((stop, position) => stop.id !== day.stops[position].id) &&
+    estimateTravel(suggested).totalKm < travel.totalKm - 1;
+
+  useEffect(() => {
+    setNotes(day.notes);
+  }, [day.notes]);
+
+  const moveStop = (from: number, to: number) => {
+    const stops = [...day.stops];
+    const [stop] = stops.splice(from, 1);
+    stops.splice(to, 0, stop);
+    onChangeStops(stops);
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Día {index + 1}</Text>
+        <Text style={styles.date}>{formatTripDate(day.date)}</Text>
+      </View>
+
+      {day.stops.length === 0 ? (
+        <Text style={styles.empty}>Día libre. Agrega lugares o servicios.</Text>
+      ) : (
+        day.stops.map((stop, position) => (
+          <View key={stop.id} style={styles.stop}>
+            <Ionicons
+              name={STOP_ICONS[stop.kind]}
+              size={18}
+              color={theme.colors.primary.main}
+            />
+            <View style={styles.stopText}>
+              <Text style={styles.stopName} numberOfLines={1}>
+                {stop.name}
+              </Text>
+              <Text style={styles.stopMunicipality}>{stop.municipality}</Text>
+            </View>
+
+            <TouchableOpacity
+              onPress={() => moveStop(position, position - 1)}
+              disabled={position === 0}
+              hitSlop={6}
+              accessibilityLabel="Subir parada"
+            >
+              <Ionicons
+                name="chevron-up"
+                size={20}
+                color={
+                  position === 0
+                    ? theme.colors.neutral.border
+                    : theme.colors.text.secondary
+                }
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => moveStop(position, position + 1)}
+              disabled={position === day.stops.length - 1}
+              hitSlop={6}
+              accessibilityLabel="Bajar parada"
+            >
+              <Ionicons
+                name="chevron-down"
+                size={20}
+                color={
+                  position === day.stops.length - 1
+                    ? theme.colors.neutral.border
+                    : theme.colors.text.secondary
+                }
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() =>
+                onChangeStops(day.stops.filter((item) => item.id !== stop.id))
+              }
+              hitSlop={6}
+              accessibilityLabel="Quitar parada"
+            >
+              <Ionicons
+                name="close"
+                size={20}
+                color={theme.colors.error.main}
+              />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {travel.legs.length > 0 && travel.totalKm >= 1 && (
+        <View style={styles.travel}>
+          <Ionicons
+            name="car-outline"
+            size={16}
+            color={theme.colors.text.secondary}
+          />
+          <Text style={styles.travelText}>
+            Recorrido estimado: {formatDistance(travel.totalKm)} ·{" "}
+            {formatTravelDuration(travel.totalMinutes)}
+          </Text>
+        </View>
+      )}
+
+      {canImproveOrder && (
+        <TouchableOpacity
+          style={styles.suggestion}
+          onPress={() => onChangeStops(suggested)}
+        >
+          <Ionicons
+            name="swap-vertical-outline"
+            size={16}
+            color={theme.colors.info.dark}
+          />
+          <Text style={styles.suggestionText}>
+            Ordenar paradas para recorrer menos distancia
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <TextInput
+        style={styles.notes}
+        value={notes}
+        onChangeText={setNotes}
+        onEndEditing={() => notes !== day.notes && onChangeNotes(notes)}
+        placeholder="Notas del día (reservas, horarios, recordatorios...)"
+        placeholderTextColor={theme.colors.text.secondary}
+        multiline
+        maxLength={1000}
+      />
+
+      {day.stops.length < MAX_STOPS_PER_DAY && (
+        <TouchableOpacity style={styles.addButton} onPress={onAddStop}>
+          <Ionicons
+            name="add-circle-outline"
+            size={20}
+            color={theme.colors.primary.main}
+          />
+          <Text style={styles.addText}>Agregar parada</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  header: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    justifyContent: "space-between",
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+
+  date: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  empty: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  stop: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  stopText: {
+    flex: 1,
+  },
+
+  stopName: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  stopMunicipality: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+
+  travel: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  travelText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  suggestion: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+    padding: theme.spacing[2],
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info.light,
+  },
+
+  suggestionText: {
+    flex: 1,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.info.dark,
+  },
+
+  notes: {
+    minHeight: 60,
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+    textAlignVertical: "top",
+  },
+
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[2],
+  },
+
+  addText: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.primary.main,
+  },
+});
@@ -0,0 +1,10 @@
+/**
+ * TolimaGO - Trip Components Index
+ * Exporta los componentes del planificador de viajes
+ */
+
+export { DaySection } from "./day-section";
+export type { DaySectionProps } from "./day-section";
+
+export { TripCard } from "./trip-card";
+export type { TripCardProps } from "./trip-card";
@@ -0,0 +1,114 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+import { formatTripDate } from "@/lib/trip-planning";
+import { Trip } from "@/services/trip-service";
+
+/**
+ * TolimaGO - TripCard Component
+ * Resumen de un itinerario: fechas, días y paradas
+ */
+
+export interface TripCardProps {
+  trip: Trip;
+  onPress: () => void;
+  testID?: string;
+}
+
+export function TripCard({ trip, onPress, testID }: TripCardProps) {
+  const stopCount = trip.days.reduce((sum, day) => sum + day.stops.length, 0);
+  const municipalities = new Set(
+    trip.days.flatMap((day) => day.stops.map((stop) => stop.municipality))
+  );
+  const lastDay = trip.days[trip.days.length - 1];
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      activeOpacity={0.7}
+      testID={testID}
+    >
+      <View style={styles.icon}>
+        <Ionicons
+          name="map-outline"
+          size={22}
+          color={theme.colors.primary.main}
+        />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.name} numberOfLines={1}>
+          {trip.name}
+        </Text>
+        <Text style={styles.dates}>
+          {formatTripDate(trip.startDate)}
+          {trip.days.length > 1 ? ` – ${formatTripDate(lastDay.date)}` : ""}
+        </Text>
+        <Text style={styles.meta}>
+          {trip.days.length} {trip.days.length === 1 ? "día" : "días"} ·{" "}
+          {stopCount} {stopCount === 1 ? "parada" : "paradas"}
+          {municipalities.size > 0
+            ? ` · ${Array.from(municipalities).slice(0, 3).join(", ")}`
+            : ""}
+        </Text>
+      </View>
+
+      <Ionicons
+        name="chevron-forward"
+        size={20}
+        color={theme.colors.text.secondary}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[3],
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.neutral.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+  },
+
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: theme.borderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.colors.primary.light,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  name: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  dates: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+
+  meta: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+});
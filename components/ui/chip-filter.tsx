@@ -0,0 +1,115 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+
+/**
+ * TolimaGO - ChipFilter Component
+ * Chips horizontales de selección única con opción "Todos" (valor null)
+ */
+
+export interface ChipOption<T extends string> {
+  id: T;
+  label: string;
+  icon?: React.ComponentProps<typeof Ionicons>["name"];
+}
+
+export interface ChipFilterProps<T extends string> {
+  options: readonly ChipOption<T>[];
+  value: T | null;
+  onChange: (value: T | null) => void;
+  allLabel?: string;
+  testID?: string;
+}
+
+export function ChipFilter<T extends string>({
+  options,
+  value,
+  onChange,
+  allLabel = "Todos",
+  testID,
+}: ChipFilterProps<T>) {
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    icon?: ChipOption<T>["icon"]
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+    >
+      {icon && (
+        <Ionicons
+          name={icon}
+          size={16}
+          color={
+            selected ? theme.colors.text.inverse : theme.colors.text.primary
+          }
+        />
+      )}
+      <Text style={[styles.label, selected && styles.labelSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+      testID={testID}
+    >
+      {renderChip("all", allLabel, value === null, () => onChange(null))}
+
+      {options.map((option) =>
+        renderChip(
+          option.id,
+          option.label,
+          value === option.id,
+          () => onChange(value === option.id ? null : option.id),
+          option.icon
+        )
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[2],
+  },
+
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing[1],
+    paddingVertical: theme.spacing[2],
+    paddingHorizontal: theme.spacing[3],
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.neutral.border,
+    backgroundColor: theme.colors.neutral.surface,
+  },
+
+  chipSelected: {
+    borderColor: theme.colors.primary.main,
+    backgroundColor: theme.colors.primary.main,
+  },
+
+  label: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+
+  labelSelected: {
+    color: theme.colors.text.inverse,
+  },
+});
@@ -0,0 +1,58 @@
+import React, { useRef } from "react";
+import { StyleSheet, View } from "react-native";
+
+import { LocationSelector, Toggle } from "@/components/auth";
+import { theme } from "@/constants/design-tokens";
+
+/**
+ * TolimaGO - MunicipalityFilter Component
+ * Selector de municipio con opción "Todo el Tolima" (valor null)
+ */
+
+export interface MunicipalityFilterProps {
+  value: string | null;
+  onChange: (municipality: string | null) => void;
+  // Municipio al desactivar "Todo el Tolima" si aún no se eligió ninguno
+  fallbackMunicipality: string;
+  testID?: string;
+}
+
+export function MunicipalityFilter({
+  value,
+  onChange,
+  fallbackMunicipality,
+  testID,
+}: MunicipalityFilterProps) {
+  // Recuerda el último municipio para restaurarlo al volver del filtro amplio
+  const lastMunicipality = useRef<string | null>(value);
+  if (value) lastMunicipality.current = value;
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Toggle
+        value={value === null}
+        onValueChange={(allTolima) =>
+          onChange(
+            allTolima ? null : lastMunicipality.current ?? fallbackMunicipality
+          )
+        }
+        label="Todo el Tolima"
+      />
+
+      {value !== null && (
+        <LocationSelector
+          value={{ city: value, isTolima: true }}
+          onChange={(location) => location.city && onChange(location.city)}
+          isTolima={true}
+          label="Municipio"
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing[2],
+  },
+});
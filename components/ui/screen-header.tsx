@@ -0,0 +1,111 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+
+/**
+ * TolimaGO - ScreenHeader Component
+ * Encabezado de pantallas internas con botón atrás y acción opcional
+ */
+
+export interface ScreenHeaderProps {
+  title: string;
+  subtitle?: string;
+  // Por defecto vuelve a la pantalla anterior
+  onBackPress?: () => void;
+  showBackButton?: boolean;
+  rightAction?: React.ReactNode;
+  testID?: string;
+}
+
+export function ScreenHeader({
+  title,
+  subtitle,
+  onBackPress,
+  showBackButton = true,
+  rightAction,
+  testID,
+}: ScreenHeaderProps) {
+  const handleBack = () => {
+    if (onBackPress) {
+      onBackPress();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/(tabs)");
+    }
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {showBackButton && (
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleBack}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Volver"
+        >
+          <Ionicons
+            name="chevron-back"
+            size={24}
+            color={theme.colors.text.primary}
+          />
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title} numberOfLines={1}>
+          {title}
+        </Text>
+        {subtitle && (
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {subtitle}
+          </Text>
+        )}
+      </View>
+
+      {rightAction && <View style={styles.rightAction}>{rightAction}</View>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[3],
+    backgroundColor: theme.colors.neutral.white,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.neutral.border,
+  },
+
+  backButton: {
+    marginRight: theme.spacing[2],
+  },
+
+  titleContainer: {
+    flex: 1,
+  },
+
+  title: {
+    fontFamily: theme.typography.fontFamily.heading,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semiBold,
+    color: theme.colors.text.primary,
+  },
+
+  subtitle: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+
+  rightAction: {
+    marginLeft: theme.spacing[2],
+  },
+});
@@ -0,0 +1,54 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { theme } from "@/constants/design-tokens";
+
+/**
+ * TolimaGO - StatusBadge Component
+ * Etiqueta compacta de estado con icono y colores propios
+ */
+
+export interface StatusBadgeProps {
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>["name"];
+  color: string;
+  background: string;
+  testID?: string;
+}
+
+export function StatusBadge({
+  label,
+  icon,
+  color,
+  background,
+  testID,
+}: StatusBadgeProps) {
+  return (
+    <View
+      style={[styles.badge, { backgroundColor: background }]}
+      testID={testID}
+    >
+      <Ionicons name={icon} size={14} color={color} />
+      <Text style={[styles.label, { color }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: theme.spacing[1],
+    paddingHorizontal: theme.spacing[2],
+    paddingVertical: theme.spacing[1],
+    borderRadius: theme.borderRadius.full,
+  },
+
+  label: {
+    fontFamily: theme.typography.fontFamily.primary,
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semiBold,
+  },
+});
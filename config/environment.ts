@@ -0,0 +1,194 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import Constants from "expo-constants";
+import { z } from "zod";
+
+/**
+ * TolimaGO - Environment Configuration
+ * Fuente única de configuración de la API por entorno (development/staging/production)
+ *
+ * Los perfiles se declaran en `app.json` → `expo.extra.environment` y se validan
+ * con Zod al iniciar la app. Cada build fija su perfil con EXPO_PUBLIC_APP_ENV
+ * (ver `eas.json`); solo los builds de desarrollo pueden cambiarlo en tiempo
+ * de ejecución desde la pantalla de desarrollador (`/developer`).
+ */
+
+// =================== ESQUEMAS ===================
+export const ENVIRONMENT_NAMES = [
+  "development",
+  "staging",
+  "production",
+] as const;
+
+export type EnvironmentName = (typeof ENVIRONMENT_NAMES)[number];
+
+const environmentProfileSchema = z.object({
+  label: z.string().min(1),
+  apiBaseUrl: z.url("apiBaseUrl debe ser una URL válida"),
+  timeout: z.number().int().positive().default(10000),
+  retryAttempts: z.number().int().min(0).default(3),
+  retryDelay: z.number().int().min(0).default(1000),
+});
+
+const environmentConfigSchema = z.object({
+  default: z.enum(ENVIRONMENT_NAMES),
+  allowRuntimeSwitch: z.boolean().default(false),
+  profiles: z.object({
+    development: environmentProfileSchema,
+    staging: environmentProfileSchema,
+    production: environmentProfileSchema,
+  }),
+});
+
+export type EnvironmentProfile = z.infer<typeof environmentProfileSchema>;
+export type EnvironmentConfig = z.infer<typeof environmentConfigSchema>;
+
+export interface ApiConfig {
+  environment: EnvironmentName;
+  baseURL: string;
+  timeout: number;
+  retryAttempts: number;
+  retryDelay: number;
+}
+
+type EnvironmentListener = (config: ApiConfig) => void;
+
+const STORAGE_KEY = "@tolimago/api_environment";
+
+// =================== CARGA Y VALIDACIÓN ===================
+
+/**
+ * Lee y valida la configuración de entornos desde expo-constants.
+ * Falla rápido al iniciar si `app.json` está mal configurado.
+ */
+function loadEnvironmentConfig(): EnvironmentConfig {
+  const extra = Constants.expoConfig?.extra ?? {};
+  const result = environmentConfigSchema.safeParse(extra.environment);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new Error(
+      `[Environment] Invalid app.json extra.environment: ${issues}`
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Determina el entorno del build: EXPO_PUBLIC_APP_ENV (perfil de EAS) tiene
+ * prioridad; sin él, `expo start` usa desarrollo y el resto el de app.json
+ */
+function resolveBuildEnvironment(config: EnvironmentConfig): EnvironmentName {
+  const fromEnv = z
+    .enum(ENVIRONMENT_NAMES)
+    .safeParse(process.env.EXPO_PUBLIC_APP_ENV);
+
+  if (fromEnv.success) return fromEnv.data;
+  return __DEV__ ? "development" : config.default;
+}
+
+const environmentConfig = loadEnvironmentConfig();
+const buildEnvironment = resolveBuildEnvironment(environmentConfig);
+let activeEnvironment: EnvironmentName = buildEnvironment;
+const listeners = new Set<EnvironmentListener>();
+
+function toApiConfig(environment: EnvironmentName): ApiConfig {
+  const profile = environmentConfig.profiles[environment];
+
+  return {
+    environment,
+    baseURL: profile.apiBaseUrl,
+    timeout: profile.timeout,
+    retryAttempts: profile.retryAttempts,
+    retryDelay: profile.retryDelay,
+  };
+}
+
+// =================== API PÚBLICA ===================
+
+/**
+ * Configuración de API del entorno activo
+ */
+export function getApiConfig(): ApiConfig {
+  return toApiConfig(activeEnvironment);
+}
+
+/**
+ * Nombre del entorno activo
+ */
+export function getActiveEnvironment(): EnvironmentName {
+  return activeEnvironment;
+}
+
+/**
+ * Perfiles disponibles (para la pantalla de desarrollador)
+ */
+export function getEnvironmentProfiles(): Record<
+  EnvironmentName,
+  EnvironmentProfile
+> {
+  return environmentConfig.profiles;
+}
+
+/**
+ * Indica si se permite cambiar de entorno en tiempo de ejecución; nunca en
+ * builds de staging o producción
+ */
+export function isEnvironmentSwitchEnabled(): boolean {
+  return (
+    environmentConfig.allowRuntimeSwitch && buildEnvironment === "development"
+  );
+}
+
+/**
+ * Cambia el entorno activo y notifica a los suscriptores (HttpClient)
+ */
+export async function setActiveEnvironment(
+  environment: EnvironmentName
+): Promise<void> {
+  if (!isEnvironmentSwitchEnabled()) {
+    throw new Error("Runtime environment switching is disabled");
+  }
+
+  activeEnvironment = environment;
+  await AsyncStorage.setItem(STORAGE_KEY, environment);
+
+  const config = getApiConfig();
+  listeners.forEach((listener) => listener(config));
+
+  console.log(`🌎 [Environment] Switched to ${environment}: ${config.baseURL}`);
+}
+
+/**
+ * Restaura el entorno elegido previamente en la pantalla de desarrollador
+ */
+export async function restorePersistedEnvironment(): Promise<EnvironmentName> {
+  if (!isEnvironmentSwitchEnabled()) return activeEnvironment;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = z.enum(ENVIRONMENT_NAMES).safeParse(stored);
+
+    if (parsed.success && parsed.data !== activeEnvironment) {
+      activeEnvironment = parsed.data;
+      const config = getApiConfig();
+      listeners.forEach((listener) => listener(config));
+    }
+  } catch (error) {
+    console.error("Error restoring environment:", error);
+  }
+
+  return activeEnvironment;
+}
+
+/**
+ * Suscribe un listener a cambios de entorno
+ */
+export function onEnvironmentChange(listener: EnvironmentListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
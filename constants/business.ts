@@ -0,0 +1,119 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Comercios
+ * Categorías de negocio, días de atención y estados de las fichas
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// =================== CATEGORÍAS ===================
+export const BUSINESS_CATEGORY_IDS = [
+  "hotel",
+  "restaurant",
+  "tour_operator",
+] as const;
+
+export type BusinessCategory = (typeof BUSINESS_CATEGORY_IDS)[number];
+
+export interface BusinessCategoryInfo {
+  id: BusinessCategory;
+  label: string;
+  description: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const BUSINESS_CATEGORIES: Record<
+  BusinessCategory,
+  BusinessCategoryInfo
+> = {
+  hotel: {
+    id: "hotel",
+    label: "Hotel u hospedaje",
+    description: "Hoteles, hostales, glampings y fincas turísticas",
+    icon: "bed-outline",
+    color: colors.info.main,
+  },
+  restaurant: {
+    id: "restaurant",
+    label: "Restaurante",
+    description: "Restaurantes, cafés y comida típica",
+    icon: "restaurant-outline",
+    color: colors.secondary.main,
+  },
+  tour_operator: {
+    id: "tour_operator",
+    label: "Operador turístico",
+    description: "Tours, guías y actividades de aventura",
+    icon: "compass-outline",
+    color: colors.success.main,
+  },
+};
+
+// =================== HORARIOS ===================
+export const WEEKDAY_IDS = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+] as const;
+
+export type Weekday = (typeof WEEKDAY_IDS)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: "Lunes",
+  tuesday: "Martes",
+  wednesday: "Miércoles",
+  thursday: "Jueves",
+  friday: "Viernes",
+  saturday: "Sábado",
+  sunday: "Domingo",
+};
+
+// =================== FICHAS ===================
+// Las fichas nuevas o reclamadas pasan por revisión antes de publicarse
+export const LISTING_STATUSES = ["pending", "published", "rejected"] as const;
+
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+export interface ListingStatusInfo {
+  label: string;
+  icon: IoniconName;
+  color: string;
+  background: string;
+}
+
+export const LISTING_STATUS_INFO: Record<ListingStatus, ListingStatusInfo> = {
+  pending: {
+    label: "En revisión",
+    icon: "time-outline",
+    color: colors.warning.dark,
+    background: colors.warning.light,
+  },
+  published: {
+    label: "Publicada",
+    icon: "checkmark-circle-outline",
+    color: colors.success.dark,
+    background: colors.success.light,
+  },
+  rejected: {
+    label: "Rechazada",
+    icon: "close-circle-outline",
+    color: colors.error.dark,
+    background: colors.error.light,
+  },
+};
+
+export const MAX_LISTING_PHOTOS = 8;
+
+export const MAX_LISTING_PRICES = 20;
+
+// Días de historial que muestra el panel de estadísticas
+export const LISTING_STATS_DAYS = 14;
@@ -0,0 +1,78 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Eventos
+ * Categorías de la agenda de eventos y opciones de recordatorio
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// =================== CATEGORÍAS ===================
+export const EVENT_CATEGORY_IDS = [
+  "festival",
+  "fair",
+  "culture",
+  "religious",
+  "sports",
+] as const;
+
+export type EventCategory = (typeof EVENT_CATEGORY_IDS)[number];
+
+export interface EventCategoryInfo {
+  id: EventCategory;
+  label: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const EVENT_CATEGORIES: Record<EventCategory, EventCategoryInfo> = {
+  festival: {
+    id: "festival",
+    label: "Festivales",
+    icon: "musical-notes-outline",
+    color: colors.primary.main,
+  },
+  fair: {
+    id: "fair",
+    label: "Ferias",
+    icon: "storefront-outline",
+    color: colors.secondary.main,
+  },
+  culture: {
+    id: "culture",
+    label: "Cultura",
+    icon: "color-palette-outline",
+    color: colors.info.main,
+  },
+  religious: {
+    id: "religious",
+    label: "Religiosos",
+    icon: "flower-outline",
+    color: colors.warning.main,
+  },
+  sports: {
+    id: "sports",
+    label: "Deportes",
+    icon: "football-outline",
+    color: colors.success.main,
+  },
+};
+
+// =================== RECORDATORIOS ===================
+export interface ReminderOption {
+  // Minutos antes del inicio del evento
+  minutes: number;
+  label: string;
+}
+
+export const REMINDER_OPTIONS: readonly ReminderOption[] = [
+  { minutes: 60, label: "1 hora antes" },
+  { minutes: 24 * 60, label: "1 día antes" },
+  { minutes: 3 * 24 * 60, label: "3 días antes" },
+];
+
+// Hora de referencia para recordar eventos de día completo
+export const ALL_DAY_REMINDER_HOUR = 9;
@@ -0,0 +1,44 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+/**
+ * TolimaGO - Datos de Guardados
+ * Tipos de contenido que el usuario puede guardar y a dónde lleva cada uno
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export const FAVOURITE_TYPES = ["place", "event", "news", "tramite"] as const;
+
+export type FavouriteType = (typeof FAVOURITE_TYPES)[number];
+
+export interface FavouriteTypeInfo {
+  // Título del grupo en la pantalla de guardados
+  label: string;
+  icon: IoniconName;
+  // Ruta de detalle; el id se pasa como parámetro
+  pathname: "/places/[id]" | "/events/[id]" | "/news/[id]" | "/tramites/[id]";
+}
+
+export const FAVOURITE_TYPE_INFO: Record<FavouriteType, FavouriteTypeInfo> = {
+  place: {
+    label: "Lugares",
+    icon: "location-outline",
+    pathname: "/places/[id]",
+  },
+  event: {
+    label: "Eventos",
+    icon: "calendar-outline",
+    pathname: "/events/[id]",
+  },
+  news: {
+    label: "Noticias",
+    icon: "newspaper-outline",
+    pathname: "/news/[id]",
+  },
+  tramite: {
+    label: "Trámites",
+    icon: "document-text-outline",
+    pathname: "/tramites/[id]",
+  },
+};
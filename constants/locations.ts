@@ -54,6 +54,69 @@ export const tolimaMunicipalities = [
   "Valle de San Juan",
 ].sort();
 
+// Capital, usada cuando el usuario no vive en un municipio del Tolima
+export const DEFAULT_MUNICIPALITY = "Ibagué";
+
+/**
+ * Municipio del usuario si pertenece al Tolima, o la capital
+ */
+export const getUserMunicipality = (city?: string): string =>
+  city && tolimaMunicipalities.includes(city) ? city : DEFAULT_MUNICIPALITY;
+
+// Cabecera municipal aproximada (lat, lon) de cada municipio del Tolima
+export const tolimaMunicipalityCoordinates: Record<
+  string,
+  { latitude: number; longitude: number }
+> = {
+  Alpujarra: { latitude: 3.3919, longitude: -74.9325 },
+  Alvarado: { latitude: 4.5672, longitude: -74.9536 },
+  Ambalema: { latitude: 4.7836, longitude: -74.7636 },
+  Anzoátegui: { latitude: 4.6325, longitude: -75.0953 },
+  "Armero-Guayabal": { latitude: 5.0306, longitude: -74.8903 },
+  Ataco: { latitude: 3.5906, longitude: -75.3822 },
+  Cajamarca: { latitude: 4.4417, longitude: -75.4267 },
+  "Carmen de Apicalá": { latitude: 4.1469, longitude: -74.7183 },
+  Casabianca: { latitude: 5.0789, longitude: -75.1208 },
+  Chaparral: { latitude: 3.7236, longitude: -75.4839 },
+  Coello: { latitude: 4.2872, longitude: -74.8981 },
+  Coyaima: { latitude: 3.7986, longitude: -75.1944 },
+  Cunday: { latitude: 4.0606, longitude: -74.6931 },
+  Dolores: { latitude: 3.5392, longitude: -74.8967 },
+  Espinal: { latitude: 4.1492, longitude: -74.8843 },
+  Falan: { latitude: 5.1239, longitude: -74.9522 },
+  Flandes: { latitude: 4.2886, longitude: -74.8125 },
+  Fresno: { latitude: 5.1536, longitude: -75.0364 },
+  Girardot: { latitude: 4.3032, longitude: -74.8033 },
+  Guamo: { latitude: 4.0297, longitude: -74.97 },
+  Herveo: { latitude: 5.0797, longitude: -75.1756 },
+  Honda: { latitude: 5.2089, longitude: -74.7358 },
+  Ibagué: { latitude: 4.4389, longitude: -75.2322 },
+  Icononzo: { latitude: 4.1769, longitude: -74.5325 },
+  Lérida: { latitude: 4.8606, longitude: -74.9097 },
+  Líbano: { latitude: 4.9214, longitude: -75.0622 },
+  Mariquita: { latitude: 5.1989, longitude: -74.8928 },
+  Melgar: { latitude: 4.2047, longitude: -74.6406 },
+  Murillo: { latitude: 4.8739, longitude: -75.1717 },
+  Natagaima: { latitude: 3.6228, longitude: -75.0939 },
+  Ortega: { latitude: 3.9369, longitude: -75.2214 },
+  Palocabildo: { latitude: 5.1158, longitude: -75.0225 },
+  Piedras: { latitude: 4.5442, longitude: -74.8783 },
+  Planadas: { latitude: 3.1969, longitude: -75.6444 },
+  Prado: { latitude: 3.7508, longitude: -74.9283 },
+  Purificación: { latitude: 3.8586, longitude: -74.9314 },
+  Rioblanco: { latitude: 3.5297, longitude: -75.6444 },
+  Roncesvalles: { latitude: 4.0108, longitude: -75.6058 },
+  Rovira: { latitude: 4.2386, longitude: -75.2406 },
+  Saldaña: { latitude: 3.9286, longitude: -75.0169 },
+  "San Luis": { latitude: 4.1331, longitude: -75.095 },
+  "Santa Isabel": { latitude: 4.7136, longitude: -75.0978 },
+  Suárez: { latitude: 4.0483, longitude: -74.8314 },
+  "Valle de San Juan": { latitude: 4.1975, longitude: -75.1164 },
+  Venadillo: { latitude: 4.7181, longitude: -74.9289 },
+  Villahermosa: { latitude: 5.03, longitude: -75.1175 },
+  Villarrica: { latitude: 3.9361, longitude: -74.6008 },
+};
+
 // Países más comunes
 export const countries = [
   { code: "CO", name: "Colombia", flag: "🇨🇴" },
@@ -280,3 +343,26 @@ export type LocationData = {
   city?: string;
   isTolima: boolean;
 };
+
+/**
+ * Reconstruye la ubicación del selector a partir de la ciudad guardada en
+ * el perfil (el servidor solo guarda la ciudad)
+ */
+export const getLocationFromCity = (
+  city: string | undefined,
+  isResident: boolean
+): LocationData => {
+  if (isResident || (city && tolimaMunicipalities.includes(city))) {
+    return { country: "CO", state: "Tolima", city: city ?? "", isTolima: true };
+  }
+
+  const country = Object.keys(citiesByCountry).find(
+    (code) => !!city && citiesByCountry[code].includes(city)
+  );
+  return {
+    country: country ?? "",
+    state: "",
+    city: city ?? "",
+    isTolima: false,
+  };
+};
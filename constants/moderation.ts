@@ -0,0 +1,146 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Moderación
+ * Tipos de contenido moderable, acciones, códigos de motivo y estados
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// =================== CONTENIDO ===================
+export const MODERATION_ITEM_TYPES = ["report", "review"] as const;
+
+export type ModerationItemType = (typeof MODERATION_ITEM_TYPES)[number];
+
+export const MODERATION_ITEM_TYPE_INFO: Record<
+  ModerationItemType,
+  { label: string; icon: IoniconName }
+> = {
+  report: { label: "Reportes", icon: "megaphone-outline" },
+  review: { label: "Reseñas", icon: "star-outline" },
+};
+
+// =================== ACCIONES ===================
+export const MODERATION_ACTIONS = ["approve", "reject", "merge"] as const;
+
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export interface ModerationActionInfo {
+  label: string;
+  // Verbo para el historial de auditoría
+  pastLabel: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const MODERATION_ACTION_INFO: Record<
+  ModerationAction,
+  ModerationActionInfo
+> = {
+  approve: {
+    label: "Aprobar",
+    pastLabel: "aprobó",
+    icon: "checkmark-circle-outline",
+    color: colors.success.dark,
+  },
+  reject: {
+    label: "Rechazar",
+    pastLabel: "rechazó",
+    icon: "close-circle-outline",
+    color: colors.error.dark,
+  },
+  merge: {
+    label: "Fusionar duplicados",
+    pastLabel: "fusionó",
+    icon: "git-merge-outline",
+    color: colors.info.dark,
+  },
+};
+
+// =================== MOTIVOS ===================
+// Los códigos se envían al servidor y quedan en la auditoría
+export const MODERATION_REASON_CODES = [
+  "verified",
+  "meets_guidelines",
+  "spam",
+  "offensive",
+  "off_topic",
+  "false_information",
+  "personal_data",
+  "duplicate",
+] as const;
+
+export type ModerationReasonCode = (typeof MODERATION_REASON_CODES)[number];
+
+export const MODERATION_REASON_LABELS: Record<ModerationReasonCode, string> = {
+  verified: "Información verificada",
+  meets_guidelines: "Cumple las normas de la comunidad",
+  spam: "Spam o publicidad",
+  offensive: "Lenguaje ofensivo",
+  off_topic: "No corresponde a la categoría",
+  false_information: "Información falsa",
+  personal_data: "Expone datos personales",
+  duplicate: "Contenido duplicado",
+};
+
+// Motivos válidos para cada acción
+export const REASONS_BY_ACTION: Record<
+  ModerationAction,
+  readonly ModerationReasonCode[]
+> = {
+  approve: ["verified", "meets_guidelines"],
+  reject: [
+    "spam",
+    "offensive",
+    "off_topic",
+    "false_information",
+    "personal_data",
+  ],
+  merge: ["duplicate"],
+};
+
+// =================== ESTADOS ===================
+export const MODERATION_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "merged",
+] as const;
+
+export type ModerationStatus = (typeof MODERATION_STATUSES)[number];
+
+export const MODERATION_STATUS_INFO: Record<
+  ModerationStatus,
+  { label: string; icon: IoniconName; color: string; background: string }
+> = {
+  pending: {
+    label: "Pendiente",
+    icon: "time-outline",
+    color: colors.warning.dark,
+    background: colors.warning.light,
+  },
+  approved: {
+    label: "Aprobado",
+    icon: "checkmark-circle-outline",
+    color: colors.success.dark,
+    background: colors.success.light,
+  },
+  rejected: {
+    label: "Rechazado",
+    icon: "close-circle-outline",
+    color: colors.error.dark,
+    background: colors.error.light,
+  },
+  merged: {
+    label: "Fusionado",
+    icon: "git-merge-outline",
+    color: colors.info.dark,
+    background: colors.info.light,
+  },
+};
+
+// Máximo de elementos por decisión en lote
+export const MAX_BULK_MODERATION = 50;
@@ -0,0 +1,62 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Notificaciones
+ * Categorías de notificación que el usuario puede activar o desactivar
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export const NOTIFICATION_CATEGORY_IDS = [
+  "report_status",
+  "municipal_news",
+  "event_reminders",
+] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORY_IDS)[number];
+
+export interface NotificationCategoryInfo {
+  id: NotificationCategory;
+  label: string;
+  description: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const NOTIFICATION_CATEGORIES: Record<
+  NotificationCategory,
+  NotificationCategoryInfo
+> = {
+  report_status: {
+    id: "report_status",
+    label: "Estado de mis reportes",
+    description: "Cuando un reporte cambie de estado o reciba respuesta",
+    icon: "warning-outline",
+    color: colors.secondary.main,
+  },
+  municipal_news: {
+    id: "municipal_news",
+    label: "Noticias de mi municipio",
+    description: "Anuncios y noticias publicadas para tu municipio",
+    icon: "newspaper-outline",
+    color: colors.info.main,
+  },
+  event_reminders: {
+    id: "event_reminders",
+    label: "Recordatorios de eventos",
+    description: "Avisos de los eventos que marcaste con “Recordarme”",
+    icon: "calendar-outline",
+    color: colors.primary.main,
+  },
+};
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  report_status: true,
+  municipal_news: true,
+  event_reminders: true,
+};
@@ -0,0 +1,62 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos del Directorio de Servicios
+ * Categorías de puntos de interés ciudadanos
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// =================== CATEGORÍAS ===================
+export const PLACE_CATEGORY_IDS = [
+  "hospital",
+  "police",
+  "notary",
+  "tourist_info",
+  "pharmacy",
+] as const;
+
+export type PlaceCategory = (typeof PLACE_CATEGORY_IDS)[number];
+
+export interface PlaceCategoryInfo {
+  id: PlaceCategory;
+  label: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const PLACE_CATEGORIES: Record<PlaceCategory, PlaceCategoryInfo> = {
+  hospital: {
+    id: "hospital",
+    label: "Hospitales",
+    icon: "medkit-outline",
+    color: colors.error.main,
+  },
+  police: {
+    id: "police",
+    label: "Policía",
+    icon: "shield-checkmark-outline",
+    color: colors.info.main,
+  },
+  notary: {
+    id: "notary",
+    label: "Notarías",
+    icon: "document-text-outline",
+    color: colors.primary.main,
+  },
+  tourist_info: {
+    id: "tourist_info",
+    label: "Información turística",
+    icon: "map-outline",
+    color: colors.secondary.main,
+  },
+  pharmacy: {
+    id: "pharmacy",
+    label: "Droguerías",
+    icon: "bandage-outline",
+    color: colors.success.main,
+  },
+};
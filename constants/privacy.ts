@@ -0,0 +1,26 @@
+/**
+ * TolimaGO - Datos de Privacidad
+ * Documentos que el usuario acepta y plazos del tratamiento de datos
+ * personales (Ley 1581 de 2012)
+ */
+
+export const CONSENT_DOCUMENT_IDS = ["terms", "data_processing"] as const;
+
+export type ConsentDocument = (typeof CONSENT_DOCUMENT_IDS)[number];
+
+export const CONSENT_DOCUMENTS: Record<
+  ConsentDocument,
+  { label: string; version: string }
+> = {
+  terms: {
+    label: "Términos y condiciones",
+    version: "2025-01",
+  },
+  data_processing: {
+    label: "Política de tratamiento de datos personales",
+    version: "2025-01",
+  },
+};
+
+// Días en los que el usuario puede arrepentirse de eliminar su cuenta
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
@@ -0,0 +1,109 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Reportes
+ * Categorías de incidencias ciudadanas y estados de seguimiento
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// =================== CATEGORÍAS ===================
+export const REPORT_CATEGORY_IDS = [
+  "potholes",
+  "lighting",
+  "garbage",
+  "water",
+  "security",
+] as const;
+
+export type ReportCategory = (typeof REPORT_CATEGORY_IDS)[number];
+
+export interface ReportCategoryInfo {
+  id: ReportCategory;
+  label: string;
+  description: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const REPORT_CATEGORIES: Record<ReportCategory, ReportCategoryInfo> = {
+  potholes: {
+    id: "potholes",
+    label: "Huecos en la vía",
+    description: "Baches, hundimientos o vías deterioradas",
+    icon: "car-outline",
+    color: colors.secondary.main,
+  },
+  lighting: {
+    id: "lighting",
+    label: "Alumbrado público",
+    description: "Postes apagados, intermitentes o dañados",
+    icon: "bulb-outline",
+    color: colors.warning.main,
+  },
+  garbage: {
+    id: "garbage",
+    label: "Basuras",
+    description: "Acumulación de residuos o escombros",
+    icon: "trash-outline",
+    color: colors.success.main,
+  },
+  water: {
+    id: "water",
+    label: "Agua y alcantarillado",
+    description: "Fugas, inundaciones o alcantarillas destapadas",
+    icon: "water-outline",
+    color: colors.info.main,
+  },
+  security: {
+    id: "security",
+    label: "Seguridad",
+    description: "Zonas inseguras o situaciones de riesgo",
+    icon: "shield-outline",
+    color: colors.error.main,
+  },
+};
+
+// =================== ESTADOS ===================
+// Orden del ciclo de vida: recibido → en proceso → resuelto
+export const REPORT_STATUSES = ["received", "in_progress", "resolved"] as const;
+
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export interface ReportStatusInfo {
+  label: string;
+  description: string;
+  icon: IoniconName;
+  color: string;
+  background: string;
+}
+
+export const REPORT_STATUS_INFO: Record<ReportStatus, ReportStatusInfo> = {
+  received: {
+    label: "Recibido",
+    description: "La alcaldía recibió tu reporte",
+    icon: "mail-open-outline",
+    color: colors.info.dark,
+    background: colors.info.light,
+  },
+  in_progress: {
+    label: "En proceso",
+    description: "Un equipo está atendiendo la incidencia",
+    icon: "construct-outline",
+    color: colors.warning.dark,
+    background: colors.warning.light,
+  },
+  resolved: {
+    label: "Resuelto",
+    description: "La incidencia fue solucionada",
+    icon: "checkmark-circle-outline",
+    color: colors.success.dark,
+    background: colors.success.light,
+  },
+};
+
+// Máximo de fotos por reporte
+export const MAX_REPORT_PHOTOS = 3;
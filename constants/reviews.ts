@@ -0,0 +1,56 @@
+import { ModerationReasonCode } from "./moderation";
+
+/**
+ * TolimaGO - Datos de Reseñas
+ * Elementos calificables, límites de las reseñas y motivos de denuncia
+ */
+
+// =================== ELEMENTOS CALIFICABLES ===================
+export const REVIEW_TARGET_TYPES = ["attraction", "business"] as const;
+
+export type ReviewTargetType = (typeof REVIEW_TARGET_TYPES)[number];
+
+// =================== CALIFICACIÓN ===================
+export const RATING_VALUES = [1, 2, 3, 4, 5] as const;
+
+export type RatingValue = (typeof RATING_VALUES)[number];
+
+export const RATING_LABELS: Record<RatingValue, string> = {
+  1: "Muy malo",
+  2: "Malo",
+  3: "Regular",
+  4: "Bueno",
+  5: "Excelente",
+};
+
+// =================== ORDEN ===================
+export const REVIEW_SORTS = ["recent", "helpful"] as const;
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  recent: "Recientes",
+  helpful: "Más útiles",
+};
+
+// =================== DENUNCIAS ===================
+// Las denuncias llegan a la cola de moderación con el mismo código
+export const REVIEW_REPORT_REASONS = [
+  "spam",
+  "offensive",
+  "false_information",
+  "personal_data",
+  "off_topic",
+] as const satisfies readonly ModerationReasonCode[];
+
+export type ReviewReportReason = (typeof REVIEW_REPORT_REASONS)[number];
+
+// =================== LÍMITES ===================
+export const MAX_REVIEW_PHOTOS = 4;
+
+export const REVIEW_MIN_LENGTH = 20;
+
+export const REVIEW_MAX_LENGTH = 1000;
+
+// Reseñas visibles en la ficha antes de "Ver todas"
+export const REVIEW_PREVIEW_COUNT = 3;
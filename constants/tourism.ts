@@ -0,0 +1,95 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Turismo
+ * Categorías del catálogo turístico e información de accesibilidad
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// =================== CATEGORÍAS ===================
+export const TOURISM_CATEGORY_IDS = [
+  "attractions",
+  "natural_parks",
+  "hot_springs",
+  "gastronomy",
+  "festivals",
+] as const;
+
+export type TourismCategory = (typeof TOURISM_CATEGORY_IDS)[number];
+
+export interface TourismCategoryInfo {
+  id: TourismCategory;
+  label: string;
+  icon: IoniconName;
+  color: string;
+}
+
+export const TOURISM_CATEGORIES: Record<TourismCategory, TourismCategoryInfo> =
+  {
+    attractions: {
+      id: "attractions",
+      label: "Atractivos",
+      icon: "camera-outline",
+      color: colors.primary.main,
+    },
+    natural_parks: {
+      id: "natural_parks",
+      label: "Parques naturales",
+      icon: "leaf-outline",
+      color: colors.success.main,
+    },
+    hot_springs: {
+      id: "hot_springs",
+      label: "Termales",
+      icon: "water-outline",
+      color: colors.info.main,
+    },
+    gastronomy: {
+      id: "gastronomy",
+      label: "Gastronomía",
+      icon: "restaurant-outline",
+      color: colors.secondary.main,
+    },
+    festivals: {
+      id: "festivals",
+      label: "Festivales",
+      icon: "musical-notes-outline",
+      color: colors.warning.main,
+    },
+  };
+
+// =================== ACCESIBILIDAD ===================
+export const ACCESSIBILITY_FEATURE_IDS = [
+  "wheelchair",
+  "accessibleRestroom",
+  "accessibleParking",
+  "guideDogs",
+] as const;
+
+export type AccessibilityFeature = (typeof ACCESSIBILITY_FEATURE_IDS)[number];
+
+export const ACCESSIBILITY_FEATURES: Record<
+  AccessibilityFeature,
+  { label: string; icon: IoniconName }
+> = {
+  wheelchair: {
+    label: "Acceso en silla de ruedas",
+    icon: "accessibility-outline",
+  },
+  accessibleRestroom: {
+    label: "Baños accesibles",
+    icon: "male-female-outline",
+  },
+  accessibleParking: {
+    label: "Parqueadero accesible",
+    icon: "car-outline",
+  },
+  guideDogs: {
+    label: "Se admiten perros guía",
+    icon: "paw-outline",
+  },
+};
@@ -0,0 +1,117 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+import { colors } from "./design-tokens";
+
+/**
+ * TolimaGO - Datos de Trámites
+ * Estados de las solicitudes y de los documentos pedidos por la oficina
+ */
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export interface StatusInfo {
+  label: string;
+  icon: IoniconName;
+  color: string;
+  background: string;
+}
+
+// =================== ESTADOS DE SOLICITUD ===================
+export const TRAMITE_REQUEST_STATUSES = [
+  "submitted",
+  "in_review",
+  "documents_requested",
+  "approved",
+  "rejected",
+  "completed",
+] as const;
+
+export type TramiteRequestStatus = (typeof TRAMITE_REQUEST_STATUSES)[number];
+
+export const TRAMITE_STATUS_INFO: Record<TramiteRequestStatus, StatusInfo> = {
+  submitted: {
+    label: "Radicado",
+    icon: "document-text-outline",
+    color: colors.info.dark,
+    background: colors.info.light,
+  },
+  in_review: {
+    label: "En revisión",
+    icon: "search-outline",
+    color: colors.warning.dark,
+    background: colors.warning.light,
+  },
+  documents_requested: {
+    label: "Documentos solicitados",
+    icon: "attach-outline",
+    color: colors.secondary.dark,
+    background: colors.secondary.light,
+  },
+  approved: {
+    label: "Aprobado",
+    icon: "checkmark-circle-outline",
+    color: colors.success.dark,
+    background: colors.success.light,
+  },
+  rejected: {
+    label: "Rechazado",
+    icon: "close-circle-outline",
+    color: colors.error.dark,
+    background: colors.error.light,
+  },
+  completed: {
+    label: "Finalizado",
+    icon: "ribbon-outline",
+    color: colors.primary.main,
+    background: colors.primary.light,
+  },
+};
+
+// =================== DOCUMENTOS SOLICITADOS ===================
+export type RequestedDocumentStatus =
+  | "pending"
+  | "received"
+  | "accepted"
+  | "rejected";
+
+export const DOCUMENT_STATUS_INFO: Record<RequestedDocumentStatus, StatusInfo> =
+  {
+    pending: {
+      label: "Pendiente",
+      icon: "time-outline",
+      color: colors.warning.dark,
+      background: colors.warning.light,
+    },
+    received: {
+      label: "Recibido",
+      icon: "cloud-done-outline",
+      color: colors.info.dark,
+      background: colors.info.light,
+    },
+    accepted: {
+      label: "Aceptado",
+      icon: "checkmark-outline",
+      color: colors.success.dark,
+      background: colors.success.light,
+    },
+    rejected: {
+      label: "Rechazado",
+      icon: "close-outline",
+      color: colors.error.dark,
+      background: colors.error.light,
+    },
+  };
+
+/**
+ * Formatea una tarifa en pesos colombianos; 0 es un trámite gratuito
+ */
+export function formatTramiteFee(amount: number): string {
+  if (amount <= 0) return "Gratuito";
+
+  return new Intl.NumberFormat("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
@@ -0,0 +1,13 @@
+/**
+ * TolimaGO - Datos de Viajes
+ * Límites del planificador de itinerarios
+ */
+
+export const MAX_TRIP_DAYS = 14;
+
+export const MAX_STOPS_PER_DAY = 12;
+
+// Tipos de parada: lugar turístico o servicio del directorio
+export const TRIP_STOP_KINDS = ["attraction", "place"] as const;
+
+export type TripStopKind = (typeof TRIP_STOP_KINDS)[number];
@@ -1,10 +1,27 @@
 import {
+  AuthPolicy,
   authService,
   AuthState,
+  DEFAULT_AUTH_POLICY,
   LoginCredentials,
+  LoginLockout,
   RegisterData,
 } from "@/services/auth-service";
-import { UserData } from "@/services/secure-storage";
+import { BiometricLockScreen } from "@/components/auth/biometric-lock-screen";
+import {
+  AUTH_EVENTS,
+  authEvents,
+  SessionExpiredReason,
+} from "@/services/auth-events";
+import { biometricLock, UnlockResult } from "@/services/biometric-auth";
+import { AccountDeletion, privacyService } from "@/services/privacy-service";
+import { secureTokenStorage, UserData } from "@/services/secure-storage";
+import {
+  ChangeEmailData,
+  ChangePasswordData,
+  ProfileUpdate,
+  userService,
+} from "@/services/user-service";
 import { router } from "expo-router";
 import React, {
   createContext,
@@ -12,7 +29,9 @@ import React, {
   useContext,
   useEffect,
   useReducer,
+  useRef,
 } from "react";
+import { AppState, StyleSheet, View } from "react-native";
 
 /**
  * TolimaGO - Authentication Context
@@ -34,6 +53,15 @@ export interface AuthContextState {
 
   // Estado de inicialización
   isInitialized: boolean;
+
+  // Bloqueo por intentos fallidos de login
+  loginLockout: LoginLockout;
+
+  // Motivo del último cierre de sesión automático (para el aviso en login)
+  sessionExpiredReason: SessionExpiredReason | null;
+
+  // Sesión guardada pero bloqueada hasta el desbloqueo biométrico
+  isSessionLocked: boolean;
 }
 
 export interface AuthContextActions {
@@ -44,10 +72,27 @@ export interface AuthContextActions {
 
   // Gestión de sesión
   refreshSession: () => Promise<void>;
+  refreshUser: () => Promise<UserData | null>;
   clearError: () => void;
 
+  // Verificación de email
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+
+  // Perfil y cuenta
+  updateProfile: (data: ProfileUpdate) => Promise<UserData>;
+  changePassword: (data: ChangePasswordData) => Promise<void>;
+  changeEmail: (data: ChangeEmailData) => Promise<UserData>;
+  deleteAccount: (password: string) => Promise<AccountDeletion>;
+
+  // Bloqueo biométrico
+  unlock: () => Promise<UnlockResult>;
+  enableBiometricLock: () => Promise<boolean>;
+  disableBiometricLock: () => Promise<void>;
+
   // Utilidades
   checkAuthStatus: () => Promise<void>;
+  updateActivity: () => void;
 }
 
 export type AuthContextValue = AuthContextState & AuthContextActions;
@@ -60,7 +105,11 @@ type AuthAction =
   | { type: "SET_UNAUTHENTICATED" }
   | { type: "SET_INITIALIZED"; payload: boolean }
   | { type: "CLEAR_ERROR" }
-  | { type: "UPDATE_USER"; payload: UserData };
+  | { type: "UPDATE_USER"; payload: UserData }
+  | { type: "SET_EMAIL_VERIFIED"; payload: boolean }
+  | { type: "SET_LOCKOUT"; payload: LoginLockout }
+  | { type: "SET_SESSION_EXPIRED"; payload: SessionExpiredReason }
+  | { type: "SET_SESSION_LOCKED"; payload: boolean };
 
 // =================== STATE INICIAL ===================
 const initialState: AuthContextState = {
@@ -70,8 +119,22 @@ const initialState: AuthContextState = {
   user: null,
   error: null,
   isInitialized: false,
+  loginLockout: {
+    attempts: 0,
+    remainingAttempts: DEFAULT_AUTH_POLICY.maxLoginAttempts,
+    lockedUntil: null,
+  },
+  sessionExpiredReason: null,
+  isSessionLocked: false,
 };
 
+// Frecuencia máxima con la que se persiste la última actividad
+const ACTIVITY_PERSIST_INTERVAL = 30 * 1000;
+
+// Reintentos de un refresh que falló sin ser rechazado (red, timeout, 5xx)
+const REFRESH_RETRY_BASE_DELAY = 15 * 1000;
+const REFRESH_RETRY_MAX_DELAY = 5 * 60 * 1000;
+
 // =================== REDUCER ===================
 function authReducer(
   state: AuthContextState,
@@ -102,6 +165,7 @@ function authReducer(
         isLoading: false,
         state: AuthState.AUTHENTICATED,
         isInitialized: true,
+        sessionExpiredReason: null,
       };
 
     case "SET_UNAUTHENTICATED":
@@ -113,6 +177,27 @@ function authReducer(
         isLoading: false,
         state: AuthState.UNAUTHENTICATED,
         isInitialized: true,
+        sessionExpiredReason: null,
+        isSessionLocked: false,
+      };
+
+    case "SET_SESSION_EXPIRED":
+      return {
+        ...state,
+        isAuthenticated: false,
+        user: null,
+        error: null,
+        isLoading: false,
+        state: AuthState.UNAUTHENTICATED,
+        isInitialized: true,
+        sessionExpiredReason: action.payload,
+        isSessionLocked: false,
+      };
+
+    case "SET_SESSION_LOCKED":
+      return {
+        ...state,
+        isSessionLocked: action.payload,
       };
 
     case "SET_INITIALIZED":
@@ -137,6 +222,20 @@ function authReducer(
         user: action.payload,
       };
 
+    case "SET_EMAIL_VERIFIED":
+      return {
+        ...state,
+        user: state.user
+          ? { ...state.user, isEmailVerified: action.payload }
+          : state.user,
+      };
+
+    case "SET_LOCKOUT":
+      return {
+        ...state,
+        loginLockout: action.payload,
+      };
+
     default:
       return state;
   }
@@ -148,16 +247,65 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 // =================== PROVIDER ===================
 interface AuthProviderProps {
   children: React.ReactNode;
+  // Sobrescribe bloqueo, inactividad y umbral de refresh
+  policy?: Partial<AuthPolicy>;
 }
 
-export function AuthProvider({ children }: AuthProviderProps) {
+export function AuthProvider({ children, policy }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
+  const isAuthenticatedRef = useRef(state.isAuthenticated);
+  isAuthenticatedRef.current = state.isAuthenticated;
+
+  const lastActivityRef = useRef(Date.now());
+  const lastPersistedActivityRef = useRef(0);
+
+  // Debe declararse antes del bootstrap para aplicarse primero
+  useEffect(() => {
+    if (policy) {
+      authService.configure(policy);
+    }
+  }, [policy]);
+
   // =================== BOOTSTRAP DE AUTENTICACIÓN ===================
   const initializeAuth = useCallback(async () => {
     try {
       dispatch({ type: "SET_LOADING", payload: true });
 
+      await authService.removeLegacySession();
+      dispatch({
+        type: "SET_LOCKOUT",
+        payload: await authService.getLoginLockout(),
+      });
+
+      // Una sesión inactiva demasiado tiempo no se restaura
+      const lastActivity = await authService.getLastActivity();
+      if (authService.isSessionInactive(lastActivity)) {
+        console.log("⏰ [Auth] Stored session expired due to inactivity");
+        await authService.expireLocalSession("inactivity");
+        dispatch({ type: "SET_SESSION_EXPIRED", payload: "inactivity" });
+        return;
+      }
+
+      // Con bloqueo biométrico la sesión se abre bloqueada y se valida
+      // con el servidor después del desbloqueo
+      if (
+        (await secureTokenStorage.hasStoredTokens()) &&
+        (await biometricLock.isEnabled())
+      ) {
+        const storedUser = await authService.getStoredUserData();
+
+        if (storedUser) {
+          biometricLock.lock();
+          dispatch({ type: "SET_SESSION_LOCKED", payload: true });
+          dispatch({
+            type: "SET_AUTHENTICATED",
+            payload: { user: storedUser },
+          });
+          return;
+        }
+      }
+
       // Verificar si hay una sesión válida almacenada
       const isValidSession = await authService.verifySession();
 
@@ -165,6 +313,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
         // Obtener datos de usuario actualizados
         const user = await authService.getCurrentUser();
         dispatch({ type: "SET_AUTHENTICATED", payload: { user } });
+        authEvents.emit(AUTH_EVENTS.SESSION_READY, {
+          user,
+          origin: "restored",
+        });
       } else {
         // No hay sesión válida
         dispatch({ type: "SET_UNAUTHENTICATED" });
@@ -196,25 +348,31 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const errorMessage = error.message || "Error al iniciar sesión";
       dispatch({ type: "SET_ERROR", payload: errorMessage });
       throw error; // Re-lanzar para que el componente pueda manejar el error
+    } finally {
+      dispatch({
+        type: "SET_LOCKOUT",
+        payload: await authService.getLoginLockout(),
+      });
     }
   }, []);
 
-  const register = async (data: any) => {
-    const res = await fetch("http://192.168.1.8:3000/api/v1/auth/register", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
-    });
-
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-
-    const result = await res.json();
-
-    if (!result.success) throw new Error(result.message);
+  const register = useCallback(async (data: RegisterData) => {
+    try {
+      dispatch({ type: "SET_LOADING", payload: true });
+      dispatch({ type: "CLEAR_ERROR" });
 
-    // aquí puedes guardar tokens en AsyncStorage / SecureStore
-    return result.data;
-  };
+      // El servicio guarda tokens y usuario; la cuenta queda pendiente de verificación
+      const authResponse = await authService.register(data);
+      dispatch({
+        type: "SET_AUTHENTICATED",
+        payload: { user: authResponse.user },
+      });
+    } catch (error: any) {
+      const errorMessage = error.message || "Error al crear la cuenta";
+      dispatch({ type: "SET_ERROR", payload: errorMessage });
+      throw error;
+    }
+  }, []);
 
   const logout = useCallback(async () => {
     try {
@@ -260,47 +418,278 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }, [state.isAuthenticated]);
 
+  const refreshUser = useCallback(async () => {
+    try {
+      const user = await authService.getCurrentUser();
+      dispatch({ type: "UPDATE_USER", payload: user });
+      return user;
+    } catch (error) {
+      console.error("User refresh error:", error);
+      return null;
+    }
+  }, []);
+
   const clearError = useCallback(() => {
     dispatch({ type: "CLEAR_ERROR" });
   }, []);
 
-  // =================== AUTO-REFRESH DE TOKENS ===================
-  useEffect(() => {
-    if (!state.isAuthenticated) return;
+  const updateActivity = useCallback(() => {
+    const now = Date.now();
+    lastActivityRef.current = now;
 
-    const checkTokenRefresh = async () => {
+    if (now - lastPersistedActivityRef.current >= ACTIVITY_PERSIST_INTERVAL) {
+      lastPersistedActivityRef.current = now;
+      authService.recordActivity(new Date(now));
+    }
+  }, []);
+
+  // =================== VERIFICACIÓN DE EMAIL ===================
+  // Lee la sesión al terminar la petición: el enlace del correo puede abrir
+  // la app antes de que el bootstrap restaure la sesión
+  const verifyEmail = useCallback(async (token: string) => {
+    const updatedUser = await authService.verifyEmail(token);
+
+    if (isAuthenticatedRef.current) {
+      if (updatedUser) {
+        dispatch({ type: "UPDATE_USER", payload: updatedUser });
+      } else {
+        dispatch({ type: "SET_EMAIL_VERIFIED", payload: true });
+      }
+    }
+  }, []);
+
+  const resendVerification = useCallback(async () => {
+    await authService.resendVerification();
+  }, []);
+
+  // =================== PERFIL Y CUENTA ===================
+  const updateProfile = useCallback(async (data: ProfileUpdate) => {
+    const user = await userService.updateProfile(data);
+    dispatch({ type: "UPDATE_USER", payload: user });
+    return user;
+  }, []);
+
+  const changePassword = useCallback(
+    (data: ChangePasswordData) => userService.changePassword(data),
+    []
+  );
+
+  // El nuevo email queda sin verificar hasta abrir el enlace del correo
+  const changeEmail = useCallback(async (data: ChangeEmailData) => {
+    const user = await userService.changeEmail(data);
+    dispatch({ type: "UPDATE_USER", payload: user });
+    return user;
+  }, []);
+
+  // Programa la eliminación y borra del dispositivo todo rastro de la cuenta
+  const deleteAccount = useCallback(async (password: string) => {
+    const deletion = await privacyService.requestAccountDeletion(password);
+
+    await authService.logout("account_deleted").catch((error) => {
+      console.warn("Logout after account deletion failed:", error);
+    });
+    await privacyService.wipeLocalData();
+
+    dispatch({ type: "SET_UNAUTHENTICATED" });
+    router.replace("/auth/login");
+    return deletion;
+  }, []);
+
+  // =================== BLOQUEO BIOMÉTRICO ===================
+  const unlock = useCallback(async (): Promise<UnlockResult> => {
+    const result = await biometricLock.unlock();
+
+    if (result.status === "unlocked") {
+      dispatch({ type: "SET_SESSION_LOCKED", payload: false });
+
+      // El refresh token ya está disponible: validar la sesión guardada.
+      // Un refresh rechazado publica SESSION_EXPIRED; sin conexión se
+      // conserva el usuario guardado.
       try {
-        const shouldRefresh = await authService.shouldRefreshToken();
-        if (shouldRefresh) {
-          await refreshSession();
+        if (await secureTokenStorage.isTokenExpired()) {
+          await authService.refreshTokens();
         }
+
+        const user = await authService.getCurrentUser();
+        dispatch({ type: "UPDATE_USER", payload: user });
+        authEvents.emit(AUTH_EVENTS.SESSION_READY, {
+          user,
+          origin: "restored",
+        });
       } catch (error) {
-        console.error("Token refresh check error:", error);
+        console.warn("Session validation after unlock failed:", error);
       }
+    } else if (result.status === "fallback") {
+      await authService.expireSession("biometric_failed");
+    }
+
+    return result;
+  }, []);
+
+  const enableBiometricLock = useCallback(() => biometricLock.enable(), []);
+
+  const disableBiometricLock = useCallback(() => biometricLock.disable(), []);
+
+  // Volver a bloquear tras pasar demasiado tiempo en background
+  useEffect(() => {
+    if (!state.isAuthenticated || state.isSessionLocked) return;
+
+    let backgroundedAt: number | null = null;
+
+    const subscription = AppState.addEventListener(
+      "change",
+      async (nextState) => {
+        if (nextState === "background") {
+          backgroundedAt = Date.now();
+          return;
+        }
+
+        if (nextState !== "active" || backgroundedAt === null) return;
+
+        const since = backgroundedAt;
+        backgroundedAt = null;
+
+        if (await biometricLock.shouldLockAfterBackground(since)) {
+          console.log("🔐 [Auth] Locking session after background period");
+          biometricLock.lock();
+          dispatch({ type: "SET_SESSION_LOCKED", payload: true });
+        }
+      }
+    );
+
+    return () => subscription.remove();
+  }, [state.isAuthenticated, state.isSessionLocked]);
+
+  // =================== SCHEDULER DE REFRESH DE TOKENS ===================
+  useEffect(() => {
+    if (!state.isAuthenticated || state.isSessionLocked) return;
+
+    let cancelled = false;
+    let refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+    let retryAttempt = 0;
+
+    const clearScheduledRefresh = () => {
+      if (refreshTimeout) {
+        clearTimeout(refreshTimeout);
+        refreshTimeout = null;
+      }
+    };
+
+    // Programa el refresh cuando el token entra en la ventana refreshThreshold
+    const scheduleRefresh = async () => {
+      const delay = await authService.getRefreshDelay();
+      if (cancelled || delay === null) return;
+
+      retryAttempt = 0;
+      clearScheduledRefresh();
+      console.log(
+        `🔄 [Auth] Token refresh scheduled in ${Math.round(
+          delay / 60000
+        )} minutes`
+      );
+      refreshTimeout = setTimeout(refreshTokens, delay);
     };
 
-    // Verificar cada 5 minutos si el token necesita refresh
-    const interval = setInterval(checkTokenRefresh, 5 * 60 * 1000);
+    const refreshTokens = async () => {
+      try {
+        // El evento TOKEN_REFRESHED vuelve a programar el siguiente refresh
+        await authService.refreshTokens();
+      } catch (error: any) {
+        if (cancelled) return;
+
+        // Un refresh rechazado publica SESSION_EXPIRED desde HttpClient
+        if (error?.status === 401 || error?.status === 403) {
+          console.error("Proactive token refresh error:", error);
+          return;
+        }
 
-    return () => clearInterval(interval);
-  }, [state.isAuthenticated, refreshSession]);
+        // Sin conexión, timeout o error del servidor: reintentar con backoff
+        // antes de que el token expire a mitad de sesión
+        const delay = Math.min(
+          REFRESH_RETRY_BASE_DELAY * 2 ** retryAttempt,
+          REFRESH_RETRY_MAX_DELAY
+        );
+        retryAttempt += 1;
+        console.log(
+          `🔄 [Auth] Refresh failed (${
+            error?.code ?? error?.status ?? "unknown"
+          }), retrying in ${Math.round(delay / 1000)}s`
+        );
+        clearScheduledRefresh();
+        refreshTimeout = setTimeout(refreshTokens, delay);
+      }
+    };
+
+    // Re-armar tras cualquier refresh, incluido el del interceptor de 401
+    const unsubscribeRefreshed = authEvents.on(
+      AUTH_EVENTS.TOKEN_REFRESHED,
+      () => {
+        scheduleRefresh();
+      }
+    );
 
-  // =================== LISTENER DE ESTADO DE LA APP ===================
+    // Los timers no corren en background: recalcular al volver al foreground
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") {
+        scheduleRefresh();
+      }
+    });
+
+    scheduleRefresh();
+
+    return () => {
+      cancelled = true;
+      clearScheduledRefresh();
+      unsubscribeRefreshed();
+      subscription.remove();
+    };
+  }, [state.isAuthenticated, state.isSessionLocked]);
+
+  // =================== TIMEOUT POR INACTIVIDAD ===================
   useEffect(() => {
     if (!state.isAuthenticated) return;
+    if (authService.getPolicy().sessionTimeout <= 0) return;
+
+    // Iniciar sesión cuenta como actividad
+    updateActivity();
 
-    // En React Native se podría usar AppState para verificar cuando la app vuelve al foreground
-    // Por ahora dejamos esta funcionalidad para implementar más tarde si es necesario
+    const checkInactivity = () => {
+      const lastActivity = new Date(lastActivityRef.current);
 
-    // const handleAppStateChange = (nextAppState: string) => {
-    //   if (nextAppState === 'active' && state.isAuthenticated) {
-    //     checkAuthStatus();
-    //   }
-    // };
-    //
-    // AppState.addEventListener('change', handleAppStateChange);
-    // return () => AppState.removeEventListener('change', handleAppStateChange);
-  }, [state.isAuthenticated, checkAuthStatus]);
+      if (authService.isSessionInactive(lastActivity)) {
+        console.log("⏰ [Auth] Session timeout due to inactivity");
+        authService.expireSession("inactivity");
+      }
+    };
+
+    const interval = setInterval(checkInactivity, 60 * 1000);
+
+    // Los timers se pausan en background: revisar al volver
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") {
+        checkInactivity();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [state.isAuthenticated, updateActivity]);
+
+  // =================== SESIÓN EXPIRADA ===================
+  useEffect(
+    () =>
+      authEvents.on(AUTH_EVENTS.SESSION_EXPIRED, ({ reason }) => {
+        // Un 401 navegando sin sesión no requiere acción
+        if (!isAuthenticatedRef.current) return;
+
+        console.log(`⏰ [Auth] Session expired (${reason})`);
+        dispatch({ type: "SET_SESSION_EXPIRED", payload: reason });
+        router.replace("/auth/login");
+      }),
+    []
+  );
 
   // =================== VALOR DEL CONTEXT ===================
   const contextValue: AuthContextValue = {
@@ -312,12 +701,38 @@ export function AuthProvider({ children }: AuthProviderProps) {
     register,
     logout,
     refreshSession,
+    refreshUser,
     clearError,
     checkAuthStatus,
+    updateActivity,
+    verifyEmail,
+    resendVerification,
+    updateProfile,
+    changePassword,
+    changeEmail,
+    deleteAccount,
+    unlock,
+    enableBiometricLock,
+    disableBiometricLock,
   };
 
   return (
-    <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>
+    <AuthContext.Provider value={contextValue}>
+      {/* Cualquier toque cuenta como actividad, sin capturar el gesto */}
+      <View
+        style={styles.activityBoundary}
+        onStartShouldSetResponderCapture={() => {
+          updateActivity();
+          return false;
+        }}
+      >
+        {children}
+
+        {state.isSessionLocked && (
+          <BiometricLockScreen onUnlock={unlock} onUsePassword={logout} />
+        )}
+      </View>
+    </AuthContext.Provider>
   );
 }
 
@@ -355,3 +770,9 @@ export function useUser(): UserData | null {
 
 // Export del provider
 export default AuthProvider;
+
+const styles = StyleSheet.create({
+  activityBoundary: {
+    flex: 1,
+  },
+});
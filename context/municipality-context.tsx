@@ -0,0 +1,169 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+import { getUserMunicipality } from "@/constants/locations";
+import {
+  DeviceLocationStatus,
+  requestLocationPermission,
+} from "@/hooks/use-device-location";
+import { locationService } from "@/services/location-service";
+
+import { useAuth } from "./auth-context";
+
+/**
+ * TolimaGO - Current Municipality Context
+ * Municipio en el que está el usuario para noticias, servicios y eventos:
+ * el detectado por ubicación, si no el de su perfil, si no la capital
+ */
+
+// =================== TIPOS ===================
+export type MunicipalitySource = "location" | "profile" | "default";
+
+export interface CurrentMunicipalityContextValue {
+  municipality: string;
+  source: MunicipalitySource;
+  // Último municipio detectado; null si nunca se detectó o está fuera del Tolima
+  detectedMunicipality: string | null;
+  status: DeviceLocationStatus;
+  // Detecta el municipio a petición del usuario (con la explicación previa)
+  detect: () => Promise<string | null>;
+}
+
+// =================== CONTEXT ===================
+const CurrentMunicipalityContext =
+  createContext<CurrentMunicipalityContextValue | null>(null);
+
+// =================== PROVIDER ===================
+export function CurrentMunicipalityProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { user } = useAuth();
+  const [detectedMunicipality, setDetectedMunicipality] = useState<
+    string | null
+  >(null);
+  const [status, setStatus] = useState<DeviceLocationStatus>("idle");
+
+  const runDetection = useCallback(async () => {
+    setStatus("loading");
+
+    try {
+      const detected = await locationService.detectMunicipality();
+      setDetectedMunicipality(detected?.municipality ?? null);
+      setStatus("granted");
+      return detected?.municipality ?? null;
+    } catch (error) {
+      console.error("📍 [Location] Municipality detection failed:", error);
+      setStatus("unavailable");
+      return null;
+    }
+  }, []);
+
+  // Al abrir la app: última detección guardada y, si ya hay permiso,
+  // una nueva sin mostrar ningún diálogo
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const lastDetected = await locationService.getLastDetected();
+      if (cancelled) return;
+      if (lastDetected) setDetectedMunicipality(lastDetected.municipality);
+
+      const permission = await locationService.getPermission();
+      if (!cancelled && permission === "granted") runDetection();
+    })().catch((error) =>
+      console.error("📍 [Location] Failed to restore municipality:", error)
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runDetection]);
+
+  const detect = useCallback(async () => {
+    try {
+      const granted = await requestLocationPermission(true);
+      if (!granted) {
+        setStatus("denied");
+        return null;
+      }
+    } catch (error) {
+      console.error("📍 [Location] Permission request failed:", error);
+      setStatus("unavailable");
+      return null;
+    }
+
+    return runDetection();
+  }, [runDetection]);
+
+  const value = useMemo<CurrentMunicipalityContextValue>(() => {
+    if (detectedMunicipality) {
+      return {
+        municipality: detectedMunicipality,
+        source: "location",
+        detectedMunicipality,
+        status,
+        detect,
+      };
+    }
+
+    // Fuera del Tolima o sin ciudad en el perfil queda la capital
+    const profileMunicipality = getUserMunicipality(user?.city);
+
+    return {
+      municipality: profileMunicipality,
+      source: profileMunicipality === user?.city ? "profile" : "default",
+      detectedMunicipality,
+      status,
+      detect,
+    };
+  }, [user?.city, detectedMunicipality, status, detect]);
+
+  return (
+    <CurrentMunicipalityContext.Provider value={value}>
+      {children}
+    </CurrentMunicipalityContext.Provider>
+  );
+}
+
+// =================== HOOK ===================
+export function useCurrentMunicipality(): CurrentMunicipalityContextValue {
+  const context = useContext(CurrentMunicipalityContext);
+
+  if (!context) {
+    throw new Error(
+      "useCurrentMunicipality must be used within a CurrentMunicipalityProvider"
+    );
+  }
+
+  return context;
+}
+
+/**
+ * Filtro de municipio para las pantallas de contenido: sigue al municipio
+ * actual (que puede llegar después de montar) hasta que el usuario elige
+ * uno a mano, incluido "Todo el Tolima" (null)
+ */
+export function useMunicipalityFilter() {
+  const { municipality: currentMunicipality } = useCurrentMunicipality();
+  // undefined: el usuario aún no ha elegido
+  const [picked, setPicked] = useState<string | null | undefined>(undefined);
+
+  const setMunicipality = useCallback(
+    (municipality: string | null) => setPicked(municipality),
+    []
+  );
+
+  return {
+    municipality: picked === undefined ? currentMunicipality : picked,
+    setMunicipality,
+    currentMunicipality,
+  };
+}
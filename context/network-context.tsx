@@ -0,0 +1,354 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import { onEnvironmentChange } from "@/config/environment";
+import {
+  ConnectivityProvider,
+  ConnectivitySnapshot,
+  createConnectivityProvider,
+} from "@/services/connectivity";
+
+/**
+ * TolimaGO - Network Context
+ * Monitoreo único de conectividad para toda la app: un solo listener de
+ * NetInfo, un solo intervalo de verificación y una sola cadena de reconexión
+ */
+
+// =================== TIPOS ===================
+export interface NetworkState {
+  isConnected: boolean;
+  isInternetReachable: boolean | null;
+  connectionType: string | null;
+  isWifi: boolean;
+  isCellular: boolean;
+  isOnline: boolean;
+  hasStrongSignal: boolean;
+  lastConnectedAt: Date | null;
+  lastDisconnectedAt: Date | null;
+  reconnectAttempts: number;
+  isReconnecting: boolean;
+}
+
+export interface NetworkActions {
+  checkConnectivity: () => Promise<boolean>;
+  forceReconnect: () => Promise<void>;
+  resetReconnectAttempts: () => void;
+}
+
+export type NetworkEvent =
+  | { type: "CONNECTION_RESTORED" }
+  | { type: "CONNECTION_LOST" }
+  | { type: "RECONNECT_FAILED"; attempts: number };
+
+export type NetworkEventListener = (event: NetworkEvent) => void;
+
+export type NetworkContextValue = NetworkState &
+  NetworkActions & {
+    subscribe: (listener: NetworkEventListener) => () => void;
+  };
+
+// =================== STATE INICIAL ===================
+const initialState: NetworkState = {
+  isConnected: false,
+  isInternetReachable: null,
+  connectionType: null,
+  isWifi: false,
+  isCellular: false,
+  isOnline: false,
+  hasStrongSignal: false,
+  lastConnectedAt: null,
+  lastDisconnectedAt: null,
+  reconnectAttempts: 0,
+  isReconnecting: false,
+};
+
+// =================== CONTEXT ===================
+const NetworkContext = createContext<NetworkContextValue | null>(null);
+
+// =================== PROVIDER ===================
+interface NetworkProviderProps {
+  children: React.ReactNode;
+  // Permite inyectar un FakeConnectivityProvider
+  provider?: ConnectivityProvider;
+  enableAutoReconnect?: boolean;
+  maxReconnectAttempts?: number;
+  reconnectInterval?: number;
+  // Frecuencia del probe a /health mientras hay conexión
+  healthCheckInterval?: number;
+  // Latencia máxima (ms) para considerar la señal fuerte
+  strongSignalThreshold?: number;
+}
+
+export function NetworkProvider({
+  children,
+  provider,
+  enableAutoReconnect = true,
+  maxReconnectAttempts = 5,
+  reconnectInterval = 3000,
+  healthCheckInterval = 30000,
+  strongSignalThreshold = 1000,
+}: NetworkProviderProps) {
+  const connectivity = useMemo(
+    () => provider ?? createConnectivityProvider(),
+    [provider]
+  );
+
+  const [networkState, setNetworkState] = useState<NetworkState>(initialState);
+
+  const listeners = useRef(new Set<NetworkEventListener>());
+  const previousOnline = useRef<boolean | null>(null);
+  const isConnectedRef = useRef(false);
+  const reconnectAttemptsRef = useRef(0);
+  const isReconnectingRef = useRef(false);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  );
+
+  const emit = useCallback((event: NetworkEvent) => {
+    listeners.current.forEach((listener) => listener(event));
+  }, []);
+
+  const clearReconnectTimeout = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Función para resetear los intentos de reconexión
+  const resetReconnectAttempts = useCallback(() => {
+    clearReconnectTimeout();
+    reconnectAttemptsRef.current = 0;
+    isReconnectingRef.current = false;
+
+    setNetworkState((prev) => ({
+      ...prev,
+      reconnectAttempts: 0,
+      isReconnecting: false,
+    }));
+  }, [clearReconnectTimeout]);
+
+  // Evalúa un snapshot del dispositivo contra el probe de /health
+  const evaluate = useCallback(
+    async (snapshot: ConnectivitySnapshot): Promise<boolean> => {
+      const isConnected = Boolean(snapshot.isConnected);
+      isConnectedRef.current = isConnected;
+
+      let probe = { reachable: false, latencyMs: null as number | null };
+      if (isConnected && snapshot.isInternetReachable !== false) {
+        probe = await connectivity.probe();
+      }
+
+      const isOnline = isConnected && probe.reachable;
+      const hasStrongSignal =
+        isOnline &&
+        probe.latencyMs !== null &&
+        probe.latencyMs < strongSignalThreshold;
+      const now = new Date();
+
+      setNetworkState((prev) => ({
+        ...prev,
+        isConnected,
+        isInternetReachable: snapshot.isInternetReachable,
+        connectionType: snapshot.type,
+        isWifi: snapshot.type === "wifi",
+        isCellular: snapshot.type === "cellular",
+        isOnline,
+        hasStrongSignal,
+        lastConnectedAt:
+          isOnline && !prev.isOnline ? now : prev.lastConnectedAt,
+        lastDisconnectedAt:
+          !isOnline && prev.isOnline ? now : prev.lastDisconnectedAt,
+      }));
+
+      const wasOnline = previousOnline.current;
+      previousOnline.current = isOnline;
+
+      // La primera evaluación fija el estado base sin emitir eventos
+      if (wasOnline !== null && wasOnline !== isOnline) {
+        console.log(
+          `🌐 [Network] Connection ${isOnline ? "restored" : "lost"}`
+        );
+        emit({ type: isOnline ? "CONNECTION_RESTORED" : "CONNECTION_LOST" });
+      }
+
+      return isOnline;
+    },
+    [connectivity, strongSignalThreshold, emit]
+  );
+
+  // Función para verificar conectividad completa
+  const checkConnectivity = useCallback(async (): Promise<boolean> => {
+    try {
+      return await evaluate(await connectivity.fetch());
+    } catch (error) {
+      console.error("🌐 [Network] Connectivity check failed:", error);
+      return false;
+    }
+  }, [connectivity, evaluate]);
+
+  // Función para intentar reconectarse
+  const forceReconnect = useCallback(async (): Promise<void> => {
+    if (isReconnectingRef.current) {
+      console.log("🌐 [Network] Reconnect already in progress");
+      return;
+    }
+
+    clearReconnectTimeout();
+    isReconnectingRef.current = true;
+    reconnectAttemptsRef.current += 1;
+    const attempt = reconnectAttemptsRef.current;
+
+    setNetworkState((prev) => ({
+      ...prev,
+      isReconnecting: true,
+      reconnectAttempts: attempt,
+    }));
+
+    console.log(
+      `🌐 [Network] Attempting reconnect (attempt ${attempt}/${maxReconnectAttempts})`
+    );
+
+    const isOnline = await checkConnectivity();
+
+    if (isOnline) {
+      console.log("🌐 [Network] Reconnect successful!");
+      resetReconnectAttempts();
+      return;
+    }
+
+    isReconnectingRef.current = false;
+    setNetworkState((prev) => ({ ...prev, isReconnecting: false }));
+
+    if (attempt < maxReconnectAttempts && enableAutoReconnect) {
+      console.log(
+        `🌐 [Network] Scheduling next reconnect in ${reconnectInterval}ms`
+      );
+      reconnectTimeoutRef.current = setTimeout(
+        () => forceReconnect(),
+        reconnectInterval
+      );
+    } else {
+      console.log("🌐 [Network] Max reconnect attempts reached");
+      emit({ type: "RECONNECT_FAILED", attempts: attempt });
+    }
+  }, [
+    maxReconnectAttempts,
+    enableAutoReconnect,
+    reconnectInterval,
+    checkConnectivity,
+    resetReconnectAttempts,
+    clearReconnectTimeout,
+    emit,
+  ]);
+
+  const subscribe = useCallback((listener: NetworkEventListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  // Reconexión automática cuando el dispositivo tiene red pero la API no responde
+  useEffect(() => {
+    if (!enableAutoReconnect) return;
+
+    return subscribe((event) => {
+      if (event.type === "CONNECTION_RESTORED") {
+        resetReconnectAttempts();
+      } else if (event.type === "CONNECTION_LOST" && isConnectedRef.current) {
+        reconnectTimeoutRef.current = setTimeout(
+          () => forceReconnect(),
+          reconnectInterval
+        );
+      }
+    });
+  }, [
+    enableAutoReconnect,
+    reconnectInterval,
+    subscribe,
+    forceReconnect,
+    resetReconnectAttempts,
+  ]);
+
+  // Listener del dispositivo y verificación periódica de /health
+  useEffect(() => {
+    console.log("🌐 [Network] Setting up network monitoring");
+
+    const unsubscribe = connectivity.subscribe((snapshot) => {
+      evaluate(snapshot).catch((error) => {
+        console.error("🌐 [Network] Failed to evaluate network state:", error);
+      });
+    });
+
+    checkConnectivity();
+
+    const interval = setInterval(() => {
+      if (isConnectedRef.current) {
+        checkConnectivity();
+      }
+    }, healthCheckInterval);
+
+    // El backend cambia con el entorno activo
+    const unsubscribeEnvironment = onEnvironmentChange(() => {
+      checkConnectivity();
+    });
+
+    return () => {
+      console.log("🌐 [Network] Cleaning up network monitoring");
+      unsubscribe();
+      unsubscribeEnvironment();
+      clearInterval(interval);
+      clearReconnectTimeout();
+    };
+  }, [
+    connectivity,
+    evaluate,
+    checkConnectivity,
+    healthCheckInterval,
+    clearReconnectTimeout,
+  ]);
+
+  const contextValue = useMemo<NetworkContextValue>(
+    () => ({
+      ...networkState,
+      checkConnectivity,
+      forceReconnect,
+      resetReconnectAttempts,
+      subscribe,
+    }),
+    [
+      networkState,
+      checkConnectivity,
+      forceReconnect,
+      resetReconnectAttempts,
+      subscribe,
+    ]
+  );
+
+  return (
+    <NetworkContext.Provider value={contextValue}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+// =================== HOOK PERSONALIZADO ===================
+export function useNetwork(): NetworkContextValue {
+  const context = useContext(NetworkContext);
+
+  if (!context) {
+    throw new Error("useNetwork must be used within a NetworkProvider");
+  }
+
+  return context;
+}
+
+export default NetworkProvider;
@@ -5,6 +5,11 @@
  * proporcionando una interfaz limpia y organizada para su uso en toda la aplicación.
  */
 
+import { getApiConfig } from "@/config/environment";
+import { AUTH_EVENTS } from "@/services/auth-events";
+import { DEFAULT_AUTH_POLICY } from "@/services/auth-service";
+import { probeApiHealth } from "@/services/connectivity";
+
 // Hooks de API y mutaciones
 export {
   useApiMutation,
@@ -36,17 +41,117 @@ export {
   type UseNetworkStateOptions
 } from "./use-network-state";
 
-// Hooks de autenticación
+// Hooks de cola offline
+export {
+  useOfflineQueue,
+  useOfflineQueueSync,
+  type OfflineQueueActions,
+  type OfflineQueueStatus
+} from "./use-offline-queue";
+
+// Hooks de autenticación (AuthProvider sobre AuthService y SecureTokenStorage)
 export {
   useAuth,
-  type AuthActions,
-  type AuthState,
-  type AuthTokens,
-  type LoginCredentials,
-  type RegisterData,
-  type UseAuthOptions,
-  type User
-} from "./use-auth";
+  useRequireAuth,
+  useUser,
+  type AuthContextActions,
+  type AuthContextState,
+  type AuthContextValue
+} from "@/context/auth-context";
+export type {
+  AuthPolicy,
+  LoginCredentials,
+  LoginLockout,
+  RegisterData
+} from "@/services/auth-service";
+
+// Ajustes del bloqueo biométrico
+export { useBiometricSettings } from "./use-biometric-settings";
+
+// Eventos de autenticación
+export { useAuthEvent } from "./use-auth-event";
+export type {
+  AuthEventListener,
+  AuthEventName,
+  AuthEventPayloads,
+  LogoutReason,
+  SessionExpiredReason,
+  SessionReadyOrigin
+} from "@/services/auth-events";
+
+// Hooks de reportes ciudadanos
+export { useMyReports, useReport } from "./use-reports";
+
+// Hooks de trámites
+export {
+  useMyTramiteRequests,
+  useTramite,
+  useTramiteCatalogue,
+  useTramiteRequest
+} from "./use-tramites";
+
+// Hooks de noticias
+export { useNewsArticle, useNewsFeed, useReadArticles } from "./use-news";
+
+// Hooks del directorio de servicios
+export { usePlace, usePlaces } from "./use-places";
+export type { PlaceWithDistance } from "./use-places";
+export { useDeviceLocation } from "./use-device-location";
+export type { DeviceLocationStatus } from "./use-device-location";
+
+// Hooks del catálogo turístico
+export {
+  useAttraction,
+  useAttractions,
+  useSavedAttractions
+} from "./use-tourism";
+
+// Hooks del planificador de viajes
+export { useTrip, useTrips, useTripSync } from "./use-trips";
+
+// Hooks de la agenda de eventos
+export { useEvent, useEventReminders, useEvents } from "./use-events";
+export { useNotificationObserver } from "./use-notification-observer";
+export {
+  requestPushNotifications,
+  useNotificationInbox,
+  useNotificationPreferences,
+  usePushNotificationPrompt,
+  usePushPermission,
+  useUnreadNotificationCount,
+} from "./use-notifications";
+export {
+  useAccountDeletion,
+  useConsents,
+  useDataExport,
+} from "./use-privacy";
+
+// Hooks del panel de comercios
+export {
+  useClaimableListings,
+  useListing,
+  useListingStats,
+  useMyListings,
+} from "./use-business";
+
+// Hooks de la consola de moderación
+export {
+  useAuditLog,
+  useModerationDecision,
+  useModerationItem,
+  useModerationQueue,
+} from "./use-moderation";
+
+// Hooks de reseñas
+export {
+  useMyReview,
+  useRatingSummary,
+  useReviewReport,
+  useReviews,
+} from "./use-reviews";
+
+// Hooks de guardados
+export { useFavourites, useFavouriteToggle } from "./use-favourites";
 
 // Re-exportar AsyncStorage para consistencia
 export { default as AsyncStorage } from "@react-native-async-storage/async-storage";
@@ -56,18 +161,26 @@ export { default as AsyncStorage } from "@react-native-async-storage/async-stora
  */
 export const HOOKS_CONFIG = {
   // Configuración de red
+  // (se lee del entorno activo en config/environment)
   network: {
-    defaultTimeout: 10000,
-    maxRetries: 3,
-    baseURL: "http://192.168.1.8:3000/api/v1",
+    get defaultTimeout() {
+      return getApiConfig().timeout;
+    },
+    get maxRetries() {
+      return getApiConfig().retryAttempts;
+    },
+    get baseURL() {
+      return getApiConfig().baseURL;
+    },
   },
 
   // Configuración de autenticación
+  // (valores por defecto de AuthService; AuthProvider acepta overrides)
   auth: {
-    tokenRefreshThreshold: 5, // minutos
-    maxLoginAttempts: 5,
-    lockDuration: 30, // minutos
-    sessionTimeout: 60, // minutos
+    tokenRefreshThreshold: DEFAULT_AUTH_POLICY.refreshThreshold, // minutos
+    maxLoginAttempts: DEFAULT_AUTH_POLICY.maxLoginAttempts,
+    lockDuration: DEFAULT_AUTH_POLICY.lockDuration, // minutos
+    sessionTimeout: DEFAULT_AUTH_POLICY.sessionTimeout, // minutos
   },
 
   // Configuración de formularios
@@ -171,18 +284,11 @@ export const HookUtils = {
   },
 
   /**
-   * Verifica si el dispositivo está en modo offline
+   * Verifica si el dispositivo está en modo offline (probe a /health de la API)
    */
   isOffline: async (): Promise<boolean> => {
-    try {
-      await fetch("https://www.google.com", {
-        method: "HEAD",
-        mode: "no-cors",
-      });
-      return false;
-    } catch {
-      return true;
-    }
+    const { reachable } = await probeApiHealth();
+    return !reachable;
   },
 };
 
@@ -211,14 +317,8 @@ export const HOOK_CONSTANTS = {
     UNKNOWN: "UNKNOWN",
   },
 
-  // Eventos de autenticación
-  AUTH_EVENTS: {
-    LOGIN_SUCCESS: "auth:login:success",
-    LOGIN_FAILED: "auth:login:failed",
-    LOGOUT: "auth:logout",
-    TOKEN_REFRESHED: "auth:token:refreshed",
-    SESSION_EXPIRED: "auth:session:expired",
-  },
+  // Eventos de autenticación (publicados por authEvents)
+  AUTH_EVENTS,
 
   // Tipos de validación
   VALIDATION_TYPES: {
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from "react";
+
+import {
+  AuthEventListener,
+  AuthEventName,
+  authEvents,
+} from "@/services/auth-events";
+
+/**
+ * TolimaGO - Hook para eventos de autenticación
+ * Permite que los módulos reaccionen al ciclo de la sesión,
+ * por ejemplo limpiando sus cachés al cerrar sesión
+ */
+
+export function useAuthEvent<E extends AuthEventName>(
+  event: E,
+  listener: AuthEventListener<E>
+) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () => authEvents.on(event, (payload) => listenerRef.current(payload)),
+    [event]
+  );
+}
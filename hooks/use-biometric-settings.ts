@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { useAuth } from "@/context/auth-context";
+import {
+  BiometricAvailability,
+  biometricLock,
+  BiometricSettings,
+  DEFAULT_BIOMETRIC_SETTINGS,
+} from "@/services/biometric-auth";
+
+/**
+ * TolimaGO - Hook de ajustes de seguridad
+ * Activa o desactiva el bloqueo biométrico y el tiempo en background antes
+ * de volver a pedirlo
+ */
+
+export function useBiometricSettings() {
+  const { enableBiometricLock, disableBiometricLock } = useAuth();
+  const [settings, setSettings] = useState<BiometricSettings>(
+    DEFAULT_BIOMETRIC_SETTINGS
+  );
+  const [availability, setAvailability] = useState<BiometricAvailability>({
+    available: false,
+    kinds: [],
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([biometricLock.getSettings(), biometricLock.getAvailability()])
+      .then(([storedSettings, deviceAvailability]) => {
+        setSettings(storedSettings);
+        setAvailability(deviceAvailability);
+      })
+      .catch((err) =>
+        console.error("🔐 [Biometric] Failed to load settings:", err)
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const setEnabled = useCallback(
+    async (enabled: boolean) => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        if (enabled) {
+          const confirmed = await enableBiometricLock();
+          if (!confirmed) {
+            setError("No pudimos confirmar tu identidad. Intenta nuevamente.");
+          }
+        } else {
+          await disableBiometricLock();
+        }
+
+        setSettings(await biometricLock.getSettings());
+      } catch (err) {
+        console.error("🔐 [Biometric] Failed to update lock:", err);
+        setError("No se pudo actualizar el bloqueo");
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [enableBiometricLock, disableBiometricLock]
+  );
+
+  const setBackgroundTimeout = useCallback(async (minutes: number) => {
+    setError(null);
+    setSettings(
+      await biometricLock.updateSettings({ backgroundTimeout: minutes })
+    );
+  }, []);
+
+  return {
+    settings,
+    availability,
+    isLoading,
+    isSaving,
+    error,
+    setEnabled,
+    setBackgroundTimeout,
+  };
+}
@@ -0,0 +1,182 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+
+import { LISTING_STATS_DAYS } from "@/constants/business";
+import {
+  BusinessListing,
+  businessService,
+  ListingStats,
+} from "@/services/business-service";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Hooks de comercios
+ * Fichas del propietario, búsqueda para reclamar y estadísticas
+ */
+
+// Espera antes de buscar mientras el usuario escribe
+const SEARCH_DELAY = 400;
+
+// Búsquedas más cortas devuelven demasiados resultados
+const MIN_SEARCH_LENGTH = 3;
+
+/**
+ * Fichas del usuario; se recargan al volver al panel
+ */
+export function useMyListings() {
+  const [listings, setListings] = useState<BusinessListing[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (refreshing: boolean) => {
+    if (refreshing) setIsRefreshing(true);
+
+    try {
+      setError(null);
+      setListings(await businessService.getMyListings());
+    } catch (err: any) {
+      console.error("🏪 [Business] Failed to load listings:", err);
+      setError(getApiErrorMessage(err, "No se pudieron cargar tus negocios"));
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load(false);
+    }, [load])
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    listings,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+/**
+ * Una ficha; las pantallas de edición reemplazan la copia local con la
+ * respuesta del servidor
+ */
+export function useListing(id: string | undefined) {
+  const [listing, setListing] = useState<BusinessListing | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setError(null);
+      setListing(await businessService.getListing(id));
+    } catch (err: any) {
+      console.error("🏪 [Business] Failed to load listing:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar la ficha"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return {
+    listing,
+    isLoading,
+    error,
+    reload: load,
+    setListing,
+  };
+}
+
+export function useListingStats(id: string | undefined) {
+  const [stats, setStats] = useState<ListingStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setStats(await businessService.getStats(id, LISTING_STATS_DAYS));
+    } catch (err: any) {
+      console.error("🏪 [Business] Failed to load stats:", err);
+      setError(
+        getApiErrorMessage(err, "No se pudieron cargar las estadísticas")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    stats,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Fichas sin propietario que coinciden con el nombre buscado
+ */
+export function useClaimableListings(query: string) {
+  const [results, setResults] = useState<BusinessListing[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (trimmed.length < MIN_SEARCH_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        setError(null);
+        const listings = await businessService.searchClaimableListings(trimmed);
+        if (!cancelled) setResults(listings);
+      } catch (err: any) {
+        console.error("🏪 [Business] Claimable search failed:", err);
+        if (!cancelled) {
+          setError(getApiErrorMessage(err, "No se pudo buscar negocios"));
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmed]);
+
+  return {
+    results,
+    isSearching,
+    error,
+    canSearch: trimmed.length >= MIN_SEARCH_LENGTH,
+  };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Linking } from "react-native";
+
+import { Coordinates } from "@/lib/geo";
+import { locationService } from "@/services/location-service";
+
+/**
+ * TolimaGO - Hook de ubicación del dispositivo
+ * Explica para qué se usa la ubicación, pide el permiso en primer plano y
+ * entrega las coordenadas
+ */
+
+export type DeviceLocationStatus =
+  | "idle"
+  | "loading"
+  | "granted"
+  | "denied"
+  | "unavailable";
+
+interface UseDeviceLocationOptions {
+  // Pedir la ubicación al montar; si es false solo se pide con request()
+  autoRequest?: boolean;
+}
+
+// "Ahora no" en la explicación vale para el resto de la sesión
+let rationaleDeclined = false;
+
+const askRationale = () =>
+  new Promise<boolean>((resolve) => {
+    Alert.alert(
+      "Usar tu ubicación",
+      "TolimaGO usa tu ubicación solo mientras tienes la app abierta para " +
+        "encontrar tu municipio y mostrarte noticias, servicios y eventos " +
+        "cercanos. No guardamos tu recorrido.",
+      [
+        {
+          text: "Ahora no",
+          style: "cancel",
+          onPress: () => resolve(false),
+        },
+        { text: "Continuar", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+
+/**
+ * Pide el permiso de ubicación con una explicación previa. Las peticiones
+ * automáticas no insisten si el usuario ya dijo que no; las que inicia el
+ * usuario ofrecen abrir los ajustes cuando el sistema ya no pregunta
+ */
+export async function requestLocationPermission(
+  userInitiated: boolean
+): Promise<boolean> {
+  const permission = await locationService.getPermission();
+  if (permission === "granted") return true;
+
+  if (permission === "blocked") {
+    if (userInitiated) {
+      Alert.alert(
+        "Ubicación desactivada",
+        "Activa el permiso de ubicación de TolimaGO en los ajustes del dispositivo.",
+        [
+          { text: "Cancelar", style: "cancel" },
+          { text: "Abrir ajustes", onPress: () => Linking.openSettings() },
+        ]
+      );
+    }
+    return false;
+  }
+
+  if (!userInitiated && rationaleDeclined) return false;
+
+  const accepted = await askRationale();
+  if (!accepted) {
+    rationaleDeclined = true;
+    return false;
+  }
+
+  return locationService.requestPermission();
+}
+
+export function useDeviceLocation({
+  autoRequest = true,
+}: UseDeviceLocationOptions = {}) {
+  const [coords, setCoords] = useState<Coordinates | null>(null);
+  const [status, setStatus] = useState<DeviceLocationStatus>("idle");
+
+  const locate = useCallback(async (userInitiated: boolean) => {
+    setStatus("loading");
+
+    try {
+      const granted = await requestLocationPermission(userInitiated);
+      if (!granted) {
+        setStatus("denied");
+        return;
+      }
+
+      // La última posición conocida llega al instante; luego se afina
+      const current = await locationService.getCurrentPosition(setCoords);
+      setCoords(current);
+      setStatus("granted");
+    } catch (error) {
+      console.error("📍 [Location] Failed to get position:", error);
+      setStatus("unavailable");
+    }
+  }, []);
+
+  const request = useCallback(() => locate(true), [locate]);
+
+  useEffect(() => {
+    if (autoRequest) locate(false);
+  }, [autoRequest, locate]);
+
+  return {
+    coords,
+    status,
+    request,
+  };
+}
@@ -0,0 +1,136 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+
+import { EventCategory } from "@/constants/events";
+import {
+  AgendaEvent,
+  EventReminder,
+  eventService,
+} from "@/services/event-service";
+import { getApiErrorMessage } from "@/services/http-client";
+
+/**
+ * TolimaGO - Hooks de eventos
+ * Agenda mensual filtrada, detalle de un evento y recordatorios
+ */
+
+export function useEvents(
+  month: string,
+  municipality: string | null,
+  category: EventCategory | null
+) {
+  const [events, setEvents] = useState<AgendaEvent[]>([]);
+  const [fromCache, setFromCache] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refreshing = false) => {
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        const result = await eventService.getMonth(month, {
+          municipality,
+          category,
+        });
+        setEvents(result.events);
+        setFromCache(result.fromCache);
+      } catch (err: any) {
+        console.error("🎉 [Events] Failed to load agenda:", err);
+        setEvents([]);
+        setError(getApiErrorMessage(err, "No se pudo cargar la agenda"));
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [month, municipality, category]
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    events,
+    fromCache,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+export function useEvent(id: string | undefined) {
+  const [event, setEvent] = useState<AgendaEvent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setEvent(await eventService.getEvent(id));
+    } catch (err: any) {
+      console.error("🎉 [Events] Failed to load event:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar el evento"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    event,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Recordatorios pendientes programados en este dispositivo
+ */
+export function useEventReminders() {
+  const [reminders, setReminders] = useState<EventReminder[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      eventService.getReminders().then(setReminders);
+    }, [])
+  );
+
+  const getReminder = useCallback(
+    (eventId: string) =>
+      reminders.find((reminder) => reminder.eventId === eventId) ?? null,
+    [reminders]
+  );
+
+  const schedule = useCallback(
+    async (event: AgendaEvent, minutesBefore: number) => {
+      setReminders(await eventService.scheduleReminder(event, minutesBefore));
+    },
+    []
+  );
+
+  const cancel = useCallback(async (eventId: string) => {
+    setReminders(await eventService.cancelReminder(eventId));
+  }, []);
+
+  return {
+    reminders,
+    getReminder,
+    schedule,
+    cancel,
+  };
+}
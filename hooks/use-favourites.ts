@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { FAVOURITE_TYPES, FavouriteType } from "@/constants/favourites";
+import { useAuth } from "@/context/auth-context";
+import { getApiErrorMessage } from "@/services/http-client";
+import {
+  Favourite,
+  favouriteKey,
+  FavouriteInput,
+  favouriteService,
+  FavouritesState,
+  FavouriteToggle,
+} from "@/services/favourite-service";
+
+import { useApiMutation } from "./use-api-mutation";
+
+/**
+ * TolimaGO - Hooks de guardados
+ * Lista de guardados compartida entre pantallas y botón de guardar con
+ * actualización optimista
+ */
+
+export interface FavouriteGroup {
+  type: FavouriteType;
+  favourites: Favourite[];
+}
+
+/**
+ * Estado compartido de guardados; lo carga y sincroniza al haber sesión
+ */
+function useFavouritesState() {
+  const { user } = useAuth();
+  const [state, setState] = useState<FavouritesState>(
+    favouriteService.getState()
+  );
+
+  useEffect(() => favouriteService.subscribe(setState), []);
+
+  useEffect(() => {
+    if (!user) return;
+    favouriteService
+      .load(user.id)
+      .catch((err) =>
+        console.error("❤️ [Favourites] Failed to load favourites:", err)
+      );
+  }, [user]);
+
+  return state;
+}
+
+export function useFavourites() {
+  const { favourites, isSyncing, lastSyncedAt } = useFavouritesState();
+  const [error, setError] = useState<string | null>(null);
+
+  // Grupos en el orden de FAVOURITE_TYPES, sin los vacíos
+  const groups = useMemo<FavouriteGroup[]>(
+    () =>
+      FAVOURITE_TYPES.map((type) => ({
+        type,
+        favourites: favourites.filter((entry) => entry.type === type),
+      })).filter((group) => group.favourites.length > 0),
+    [favourites]
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      await favouriteService.sync();
+    } catch (err: any) {
+      console.error("❤️ [Favourites] Sync failed:", err);
+      setError(
+        getApiErrorMessage(err, "No se pudieron sincronizar tus guardados")
+      );
+    }
+  }, []);
+
+  return {
+    favourites,
+    groups,
+    isSyncing,
+    lastSyncedAt,
+    error,
+    refresh,
+  };
+}
+
+/**
+ * Guardar o quitar un elemento: se refleja al instante y se revierte si el
+ * servidor lo rechaza
+ */
+export function useFavouriteToggle(item: FavouriteInput | null) {
+  const { favourites } = useFavouritesState();
+  const previousRef = useRef<Favourite | null>(null);
+  const itemRef = useRef<FavouriteInput | null>(null);
+
+  const key = item ? favouriteKey(item.type, item.itemId) : null;
+  const isSaved = favourites.some(
+    (entry) => favouriteKey(entry.type, entry.itemId) === key
+  );
+
+  const mutation = useApiMutation<void, FavouriteToggle>({
+    mutationFn: (toggle) => favouriteService.push(toggle),
+    retry: 1,
+    optimisticUpdate: (toggle) => {
+      itemRef.current = toggle.item;
+      previousRef.current =
+        favourites.find(
+          (entry) =>
+            favouriteKey(entry.type, entry.itemId) ===
+            favouriteKey(toggle.item.type, toggle.item.itemId)
+        ) ?? null;
+      favouriteService.applyLocal(toggle);
+    },
+    revertOptimisticUpdate: () => {
+      if (!itemRef.current) return;
+      favouriteService.revertLocal(itemRef.current, previousRef.current);
+    },
+  });
+
+  const toggle = useCallback(() => {
+    if (!item) return;
+    mutation.mutate({ item, saved: !isSaved });
+  }, [item, isSaved, mutation]);
+
+  return {
+    isSaved,
+    toggle,
+    isLoading: mutation.isLoading,
+    error: mutation.error
+      ? getApiErrorMessage(
+          mutation.error,
+          "No se pudo actualizar tus guardados"
+        )
+      : null,
+  };
+}
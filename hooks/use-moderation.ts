@@ -0,0 +1,242 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+
+import { ModerationItemType } from "@/constants/moderation";
+import { getApiErrorMessage } from "@/services/http-client";
+import {
+  AuditEntry,
+  ModerationDecisionRequest,
+  ModerationItem,
+  moderationService,
+} from "@/services/moderation-service";
+
+/**
+ * TolimaGO - Hooks de moderación
+ * Cola de contenido pendiente, detalle, decisiones y auditoría
+ */
+
+/**
+ * Elementos pendientes, paginados por cursor; se recarga al volver a la
+ * pantalla. Con type null incluye reportes y reseñas
+ */
+export function useModerationQueue(type: ModerationItemType | null) {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refreshing: boolean) => {
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        const page = await moderationService.getQueue({
+          type: type ?? undefined,
+          status: "pending",
+        });
+        setItems(page.items);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      } catch (err: any) {
+        console.error("⚖️ [Moderation] Failed to load queue:", err);
+        setError(
+          getApiErrorMessage(err, "No se pudo cargar la cola de moderación")
+        );
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [type]
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      load(false);
+    }, [load])
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await moderationService.getQueue({
+        type: type ?? undefined,
+        status: "pending",
+        cursor: nextCursor,
+      });
+      setItems((current) => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("⚖️ [Moderation] Failed to load more:", err);
+      setError(getApiErrorMessage(err, "No se pudieron cargar más elementos"));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [type, nextCursor, isLoadingMore]);
+
+  /**
+   * Quita de la cola los elementos ya moderados
+   */
+  const removeItems = useCallback((ids: string[]) => {
+    setItems((current) => current.filter((item) => !ids.includes(item.id)));
+    setTotal((current) => Math.max(0, current - ids.length));
+  }, []);
+
+  return {
+    items,
+    total,
+    hasMore: Boolean(nextCursor),
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    error,
+    refresh: useCallback(() => load(true), [load]),
+    loadMore,
+    removeItems,
+  };
+}
+
+export function useModerationItem(
+  type: ModerationItemType | undefined,
+  id: string | undefined
+) {
+  const [item, setItem] = useState<ModerationItem | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!type || !id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setItem(await moderationService.getItem(type, id));
+    } catch (err: any) {
+      console.error("⚖️ [Moderation] Failed to load item:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar el contenido"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [type, id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    item,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Envía una decisión y devuelve los ids que el servidor aplicó
+ */
+export function useModerationDecision() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = useCallback(
+    async (request: ModerationDecisionRequest): Promise<string[] | null> => {
+      try {
+        setIsSubmitting(true);
+        setError(null);
+
+        const { results } = await moderationService.decide(request);
+        const failed = results.filter((result) => result.error);
+
+        if (failed.length > 0) {
+          setError(
+            `${failed.length} de ${results.length} elementos no se pudieron moderar: ${failed[0].error}`
+          );
+        }
+
+        return results
+          .filter((result) => !result.error)
+          .map((result) => result.id);
+      } catch (err: any) {
+        console.error("⚖️ [Moderation] Decision failed:", err);
+        setError(getApiErrorMessage(err, "No se pudo aplicar la decisión"));
+        return null;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    []
+  );
+
+  return {
+    decide,
+    isSubmitting,
+    error,
+    clearError: useCallback(() => setError(null), []),
+  };
+}
+
+/**
+ * Historial de decisiones; con itemId muestra solo las de ese elemento
+ */
+export function useAuditLog(itemId?: string) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const page = await moderationService.getAuditLog({ itemId });
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("⚖️ [Moderation] Failed to load audit log:", err);
+      setError(
+        getApiErrorMessage(err, "No se pudo cargar el historial de auditoría")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await moderationService.getAuditLog({
+        itemId,
+        cursor: nextCursor,
+      });
+      setEntries((current) => [...current, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("⚖️ [Moderation] Failed to load more audit:", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [itemId, nextCursor, isLoadingMore]);
+
+  return {
+    entries,
+    hasMore: Boolean(nextCursor),
+    isLoading,
+    isLoadingMore,
+    error,
+    reload: load,
+    loadMore,
+  };
+}
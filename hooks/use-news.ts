@@ -0,0 +1,173 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { useAuth } from "@/context/auth-context";
+import { getApiErrorMessage } from "@/services/http-client";
+import { NewsArticle, newsService } from "@/services/news-service";
+
+/**
+ * TolimaGO - Hooks de noticias
+ * Feed paginado por cursor con caché offline y estado de lectura por usuario
+ */
+
+/**
+ * Feed de noticias filtrado por municipio (null = todo el Tolima)
+ */
+export function useNewsFeed(municipality: string | null) {
+  const [articles, setArticles] = useState<NewsArticle[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Evita que una respuesta de otro municipio pise el filtro actual
+  const requestId = useRef(0);
+
+  const loadFirstPage = useCallback(
+    async (refreshing: boolean) => {
+      const current = ++requestId.current;
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        const page = await newsService.getNews({ municipality });
+        if (current !== requestId.current) return;
+
+        setArticles(page.articles);
+        setNextCursor(page.nextCursor);
+        setFromCache(page.fromCache);
+      } catch (err: any) {
+        if (current !== requestId.current) return;
+        console.error("📰 [News] Failed to load feed:", err);
+        setError(getApiErrorMessage(err, "No se pudieron cargar las noticias"));
+      } finally {
+        if (current === requestId.current) {
+          setIsLoading(false);
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [municipality]
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    setArticles([]);
+    loadFirstPage(false);
+  }, [loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore || isLoading) return;
+
+    const current = requestId.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await newsService.getNews({
+        municipality,
+        cursor: nextCursor,
+      });
+      if (current !== requestId.current) return;
+
+      setArticles((previous) => {
+        const known = new Set(previous.map((article) => article.id));
+        return [
+          ...previous,
+          ...page.articles.filter((article) => !known.has(article.id)),
+        ];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("📰 [News] Failed to load more:", err);
+      setError(getApiErrorMessage(err, "No se pudieron cargar más noticias"));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [municipality, nextCursor, isLoadingMore, isLoading]);
+
+  const refresh = useCallback(() => loadFirstPage(true), [loadFirstPage]);
+
+  return {
+    articles,
+    hasMore: nextCursor !== null,
+    fromCache,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore,
+  };
+}
+
+/**
+ * Artículo completo (desde la caché si está disponible)
+ */
+export function useNewsArticle(id: string | undefined) {
+  const [article, setArticle] = useState<NewsArticle | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setArticle(await newsService.getArticle(id));
+    } catch (err: any) {
+      console.error("📰 [News] Failed to load article:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar la noticia"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    article,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Artículos leídos por el usuario actual; se recarga al volver a la pantalla
+ */
+export function useReadArticles() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [readIds, setReadIds] = useState<ReadonlySet<string>>(new Set());
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId) return;
+      newsService.getReadIds(userId).then((ids) => setReadIds(new Set(ids)));
+    }, [userId])
+  );
+
+  const markAsRead = useCallback(
+    async (articleId: string) => {
+      if (!userId) return;
+      const ids = await newsService.markAsRead(userId, articleId);
+      setReadIds(new Set(ids));
+    },
+    [userId]
+  );
+
+  const isRead = useCallback(
+    (articleId: string) => readIds.has(articleId),
+    [readIds]
+  );
+
+  return {
+    readIds,
+    isRead,
+    markAsRead,
+  };
+}
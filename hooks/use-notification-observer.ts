@@ -0,0 +1,84 @@
+import * as Notifications from "expo-notifications";
+import { Href, router } from "expo-router";
+import { useEffect } from "react";
+
+import {
+  NOTIFICATION_CATEGORY_IDS,
+  NotificationCategory,
+} from "@/constants/notifications";
+import { notificationService } from "@/services/notification-service";
+
+/**
+ * TolimaGO - Observador de notificaciones
+ * Muestra las notificaciones con la app abierta (salvo las categorías que
+ * el usuario desactivó), las agrega a la bandeja y, al tocarlas, navega a
+ * la ruta que traen en `data.url`
+ */
+
+const getCategory = (
+  notification: Notifications.Notification
+): NotificationCategory | null => {
+  const category = notification.request.content.data?.category;
+  return NOTIFICATION_CATEGORY_IDS.find((id) => id === category) ?? null;
+};
+
+Notifications.setNotificationHandler({
+  handleNotification: async (notification) => {
+    const category = getCategory(notification);
+    const enabled =
+      !category || (await notificationService.isCategoryEnabled(category));
+
+    return {
+      shouldShowBanner: enabled,
+      shouldShowList: enabled,
+      shouldPlaySound: enabled,
+      shouldSetBadge: false,
+    };
+  },
+});
+
+function openNotification(notification: Notifications.Notification) {
+  const { notificationId, url } = notification.request.content.data ?? {};
+
+  if (typeof notificationId === "string") {
+    notificationService
+      .markAsRead(notificationId)
+      .catch((error) =>
+        console.error("🔔 [Notifications] Failed to mark as read:", error)
+      );
+  }
+
+  if (typeof url === "string" && url.startsWith("/")) {
+    console.log(`🔔 [Notifications] Opening ${url}`);
+    router.push(url as Href);
+  }
+}
+
+export function useNotificationObserver() {
+  useEffect(() => {
+    // Notificación que abrió la app estando cerrada
+    const lastResponse = Notifications.getLastNotificationResponse();
+    if (lastResponse) openNotification(lastResponse.notification);
+
+    const responseSubscription =
+      Notifications.addNotificationResponseReceivedListener((response) =>
+        openNotification(response.notification)
+      );
+
+    // Las push que llegan con la app abierta se ven de inmediato en la bandeja
+    const receivedSubscription = Notifications.addNotificationReceivedListener(
+      (notification) => {
+        notificationService
+          .addReceived(notification)
+          .catch((error) =>
+            console.error("🔔 [Notifications] Failed to store push:", error)
+          );
+      }
+    );
+
+    return () => {
+      responseSubscription.remove();
+      receivedSubscription.remove();
+    };
+  }, []);
+}
@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Linking } from "react-native";
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationCategory,
+  NotificationPreferences,
+} from "@/constants/notifications";
+import { useAuth } from "@/context/auth-context";
+import { AUTH_EVENTS } from "@/services/auth-events";
+import { getApiErrorMessage } from "@/services/http-client";
+import {
+  InboxState,
+  notificationService,
+  PushPermission,
+} from "@/services/notification-service";
+
+import { useAuthEvent } from "./use-auth-event";
+
+/**
+ * TolimaGO - Hooks de notificaciones
+ * Bandeja del usuario, contador de no leídas, preferencias por categoría
+ * y permiso de notificaciones push
+ */
+
+// "Ahora no" en la explicación vale para el resto de la sesión
+let pushRationaleDeclined = false;
+
+const askPushRationale = () =>
+  new Promise<boolean>((resolve) => {
+    Alert.alert(
+      "Activar notificaciones",
+      "TolimaGO te avisa cuando cambia el estado de tus reportes y trámites " +
+        "y te recuerda los eventos que guardaste. Puedes elegir qué avisos " +
+        "recibir en Preferencias.",
+      [
+        {
+          text: "Ahora no",
+          style: "cancel",
+          onPress: () => resolve(false),
+        },
+        { text: "Continuar", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+
+/**
+ * Pide el permiso de notificaciones push con una explicación previa y
+ * registra el token. Las peticiones automáticas no insisten si el usuario
+ * ya dijo que no; las que inicia el usuario ofrecen abrir los ajustes
+ * cuando el sistema ya no pregunta
+ */
+export async function requestPushNotifications(
+  userId: string,
+  userInitiated: boolean
+): Promise<boolean> {
+  const permission = await notificationService.getPushPermission();
+  // Con permiso el token ya se registra en cada SESSION_READY
+  if (permission === "granted") return true;
+  if (permission === "unsupported") return false;
+
+  if (permission === "blocked") {
+    if (userInitiated) {
+      Alert.alert(
+        "Notificaciones desactivadas",
+        "Activa las notificaciones de TolimaGO en los ajustes del dispositivo.",
+        [
+          { text: "Cancelar", style: "cancel" },
+          { text: "Abrir ajustes", onPress: () => Linking.openSettings() },
+        ]
+      );
+    }
+    return false;
+  }
+
+  if (!userInitiated && pushRationaleDeclined) return false;
+
+  const accepted = await askPushRationale();
+  if (!accepted) {
+    pushRationaleDeclined = true;
+    return false;
+  }
+
+  const token = await notificationService.registerPushToken(userId, {
+    prompt: true,
+  });
+  return token !== null;
+}
+
+/**
+ * Ofrece activar las push al iniciar sesión o crear la cuenta; las
+ * sesiones restauradas al abrir la app no vuelven a preguntar
+ */
+export function usePushNotificationPrompt() {
+  useAuthEvent(AUTH_EVENTS.SESSION_READY, ({ user, origin }) => {
+    if (origin === "restored") return;
+
+    requestPushNotifications(user.id, false).catch((err) =>
+      console.error("🔔 [Notifications] Push permission request failed:", err)
+    );
+  });
+}
+
+/**
+ * Estado del permiso push para la pantalla de preferencias
+ */
+export function usePushPermission() {
+  const { user } = useAuth();
+  const [permission, setPermission] = useState<PushPermission | null>(null);
+
+  const check = useCallback(async () => {
+    setPermission(await notificationService.getPushPermission());
+  }, []);
+
+  useEffect(() => {
+    check().catch((err) =>
+      console.error("🔔 [Notifications] Failed to read permission:", err)
+    );
+  }, [check]);
+
+  const enable = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      await requestPushNotifications(user.id, true);
+    } catch (err) {
+      console.error("🔔 [Notifications] Push permission request failed:", err);
+    } finally {
+      await check();
+    }
+  }, [user, check]);
+
+  return { permission, enable };
+}
+
+/**
+ * Bandeja compartida con el badge de la pestaña; la pantalla decide cuándo
+ * recargar (p. ej. al enfocarse)
+ */
+export function useNotificationInbox() {
+  const { user } = useAuth();
+  const [inbox, setInbox] = useState<InboxState>(
+    notificationService.getState()
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => notificationService.subscribe(setInbox), []);
+
+  const load = useCallback(
+    async (refreshing = false) => {
+      if (!user) return;
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        await notificationService.loadInbox(user.id);
+      } catch (err: any) {
+        console.error("🔔 [Notifications] Failed to load inbox:", err);
+        setError(
+          getApiErrorMessage(err, "No se pudieron cargar tus notificaciones")
+        );
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [user]
+  );
+
+  const reload = useCallback(() => load(), [load]);
+  const refresh = useCallback(() => load(true), [load]);
+
+  const markAsRead = useCallback(
+    (id: string) =>
+      notificationService
+        .markAsRead(id)
+        .catch((err) =>
+          console.error("🔔 [Notifications] Failed to mark as read:", err)
+        ),
+    []
+  );
+
+  const markAllAsRead = useCallback(
+    () =>
+      notificationService
+        .markAllAsRead()
+        .catch((err) =>
+          console.error("🔔 [Notifications] Failed to mark all as read:", err)
+        ),
+    []
+  );
+
+  return {
+    ...inbox,
+    isLoading,
+    isRefreshing,
+    error,
+    reload,
+    refresh,
+    markAsRead,
+    markAllAsRead,
+  };
+}
+
+/**
+ * Contador para el badge de la pestaña; carga la bandeja una vez por usuario
+ */
+export function useUnreadNotificationCount(): number {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(
+    notificationService.getState().unreadCount
+  );
+
+  useEffect(
+    () =>
+      notificationService.subscribe((state) =>
+        setUnreadCount(state.unreadCount)
+      ),
+    []
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    notificationService
+      .loadInbox(user.id)
+      .catch((err) =>
+        console.error("🔔 [Notifications] Failed to load inbox:", err)
+      );
+  }, [user]);
+
+  return unreadCount;
+}
+
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPreferences(await notificationService.getPreferences(user.id));
+    } catch (err: any) {
+      console.error("🔔 [Notifications] Failed to load preferences:", err);
+      setError(
+        getApiErrorMessage(err, "No se pudieron cargar tus preferencias")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const setPreference = useCallback(
+    async (category: NotificationCategory, enabled: boolean) => {
+      if (!user) return;
+
+      const previous = preferences;
+      const updated = { ...preferences, [category]: enabled };
+      setPreferences(updated);
+      setIsSaving(true);
+
+      try {
+        setError(null);
+        await notificationService.updatePreferences(user.id, updated);
+      } catch (err: any) {
+        console.error("🔔 [Notifications] Failed to save preferences:", err);
+        setPreferences(previous);
+        setError(
+          getApiErrorMessage(err, "No se pudieron guardar tus preferencias")
+        );
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [user, preferences]
+  );
+
+  return {
+    preferences,
+    isLoading,
+    isSaving,
+    error,
+    reload: load,
+    setPreference,
+  };
+}
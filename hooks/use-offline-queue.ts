@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+import { useNetwork } from "@/context/network-context";
+import { httpClient } from "@/services/http-client";
+import {
+  offlineQueue,
+  OfflineQueueState,
+  QueuedRequest,
+  ReplayResult,
+} from "@/services/offline-queue";
+
+/**
+ * TolimaGO - Hooks de la cola offline
+ * Estado de la bandeja de salida y reenvío automático al recuperar conexión,
+ * al volver a la app y, con backoff, mientras queden pendientes
+ */
+
+// Reintentos de lo que quedó pendiente con conexión (timeouts, red inestable)
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+export interface OfflineQueueStatus {
+  items: QueuedRequest[];
+  pendingItems: QueuedRequest[];
+  failedItems: QueuedRequest[];
+  pendingCount: number;
+  failedCount: number;
+  isReplaying: boolean;
+}
+
+export interface OfflineQueueActions {
+  replay: () => Promise<ReplayResult>;
+  retryItem: (id: string) => Promise<void>;
+  discardItem: (id: string) => Promise<void>;
+}
+
+/**
+ * Expone el estado de la cola offline para la UI
+ */
+export function useOfflineQueue(): OfflineQueueStatus & OfflineQueueActions {
+  const [queueState, setQueueState] = useState<OfflineQueueState>(
+    offlineQueue.getState()
+  );
+
+  useEffect(() => offlineQueue.subscribe(setQueueState), []);
+
+  const replay = useCallback(() => httpClient.replayOfflineQueue(), []);
+
+  const retryItem = useCallback(async (id: string) => {
+    await offlineQueue.retry(id);
+    await httpClient.replayOfflineQueue();
+  }, []);
+
+  const discardItem = useCallback((id: string) => offlineQueue.remove(id), []);
+
+  const pendingItems = queueState.items.filter(
+    (item) => item.status !== "failed"
+  );
+  const failedItems = queueState.items.filter(
+    (item) => item.status === "failed"
+  );
+
+  return {
+    items: queueState.items,
+    pendingItems,
+    failedItems,
+    pendingCount: pendingItems.length,
+    failedCount: failedItems.length,
+    isReplaying: queueState.isReplaying,
+    replay,
+    retryItem,
+    discardItem,
+  };
+}
+
+/**
+ * Reenvía la cola cuando el NetworkProvider reporta conexión, cuando la app
+ * vuelve a primer plano y, con backoff, mientras queden peticiones pendientes
+ * aunque NetInfo nunca haya reportado desconexión.
+ * Debe montarse una sola vez en el área autenticada de la app.
+ */
+export function useOfflineQueueSync() {
+  const { isOnline } = useNetwork();
+  const wasOnline = useRef(false);
+  const isOnlineRef = useRef(isOnline);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryAttempt = useRef(0);
+
+  isOnlineRef.current = isOnline;
+
+  const clearRetry = useCallback(() => {
+    if (retryTimeout.current) {
+      clearTimeout(retryTimeout.current);
+      retryTimeout.current = null;
+    }
+  }, []);
+
+  const replay = useCallback(
+    (reason: string) => {
+      clearRetry();
+      console.log(`📤 [OfflineQueue] ${reason}, replaying queued requests`);
+      httpClient.replayOfflineQueue().catch((error) => {
+        console.error("📤 [OfflineQueue] Replay failed:", error);
+      });
+    },
+    [clearRetry]
+  );
+
+  // Pendientes con conexión: reintento con backoff exponencial
+  useEffect(
+    () =>
+      offlineQueue.subscribe((state) => {
+        const hasPending = state.items.some(
+          (item) => item.status === "pending"
+        );
+
+        if (!hasPending) {
+          retryAttempt.current = 0;
+          clearRetry();
+          return;
+        }
+
+        if (state.isReplaying || retryTimeout.current || !isOnlineRef.current) {
+          return;
+        }
+
+        const delay = Math.min(
+          RETRY_BASE_DELAY * 2 ** retryAttempt.current,
+          RETRY_MAX_DELAY
+        );
+        retryAttempt.current += 1;
+        retryTimeout.current = setTimeout(() => {
+          retryTimeout.current = null;
+          replay(`Retry #${retryAttempt.current}`);
+        }, delay);
+      }),
+    [clearRetry, replay]
+  );
+
+  useEffect(() => {
+    if (isOnline && !wasOnline.current) {
+      retryAttempt.current = 0;
+      replay("Online");
+    } else if (!isOnline) {
+      // Sin conexión no hay reintentos; el regreso de la red los reanuda
+      clearRetry();
+    }
+
+    wasOnline.current = isOnline;
+  }, [isOnline, replay, clearRetry]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active" && isOnlineRef.current) {
+        replay("App active");
+      }
+    });
+
+    return () => subscription.remove();
+  }, [replay]);
+
+  useEffect(() => clearRetry, [clearRetry]);
+}
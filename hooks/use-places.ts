@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { PlaceCategory } from "@/constants/places";
+import { Coordinates, distanceInKm } from "@/lib/geo";
+import { getApiErrorMessage } from "@/services/http-client";
+import { Place, placesService } from "@/services/places-service";
+
+/**
+ * TolimaGO - Hooks del directorio de servicios
+ * Lista filtrada por municipio y categoría, ordenada por distancia
+ */
+
+export interface PlaceWithDistance extends Place {
+  // null mientras no se conozca la ubicación del dispositivo
+  distanceKm: number | null;
+}
+
+export function usePlaces(
+  municipality: string | null,
+  category: PlaceCategory | null,
+  origin: Coordinates | null
+) {
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [fromFixture, setFromFixture] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refreshing = false) => {
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        const result = await placesService.getPlaces({
+          municipality,
+          category,
+        });
+        setPlaces(result.places);
+        setFromFixture(result.fromFixture);
+      } catch (err: any) {
+        console.error("📍 [Places] Failed to load places:", err);
+        setError(
+          getApiErrorMessage(err, "No se pudieron cargar los servicios")
+        );
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [municipality, category]
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  // Sin ubicación se conserva el orden alfabético
+  const sorted = useMemo<PlaceWithDistance[]>(() => {
+    const withDistance = places.map((place) => ({
+      ...place,
+      distanceKm: origin ? distanceInKm(origin, place) : null,
+    }));
+
+    return withDistance.sort((a, b) =>
+      a.distanceKm !== null && b.distanceKm !== null
+        ? a.distanceKm - b.distanceKm
+        : a.name.localeCompare(b.name, "es")
+    );
+  }, [places, origin]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    places: sorted,
+    fromFixture,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+export function usePlace(id: string | undefined) {
+  const [place, setPlace] = useState<Place | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPlace(await placesService.getPlace(id));
+    } catch (err: any) {
+      console.error("📍 [Places] Failed to load place:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar el servicio"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    place,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
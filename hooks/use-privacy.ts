@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { getApiErrorMessage } from "@/services/http-client";
+import {
+  AccountDeletion,
+  ConsentRecord,
+  DataExport,
+  privacyService,
+} from "@/services/privacy-service";
+
+/**
+ * TolimaGO - Hooks de privacidad
+ * Exportación de datos, historial de consentimientos y eliminación de la
+ * cuenta pendiente
+ */
+
+export function useDataExport() {
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setDataExport(await privacyService.getLatestDataExport());
+    } catch (err: any) {
+      console.error("🛡️ [Privacy] Failed to load data export:", err);
+      setError(getApiErrorMessage(err, "No se pudo consultar tu exportación"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runTask = useCallback(
+    async (task: () => Promise<void>, fallback: string) => {
+      try {
+        setIsWorking(true);
+        setError(null);
+        await task();
+      } catch (err: any) {
+        console.error("🛡️ [Privacy] Data export error:", err);
+        setError(getApiErrorMessage(err, fallback));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    []
+  );
+
+  const request = useCallback(
+    () =>
+      runTask(async () => {
+        setDataExport(await privacyService.requestDataExport());
+      }, "No se pudo solicitar la exportación"),
+    [runTask]
+  );
+
+  const download = useCallback(
+    () =>
+      runTask(async () => {
+        if (dataExport) await privacyService.downloadDataExport(dataExport);
+      }, "No se pudo descargar tu exportación"),
+    [runTask, dataExport]
+  );
+
+  const shareDeviceData = useCallback(
+    () =>
+      runTask(
+        () => privacyService.shareDeviceData(),
+        "No se pudieron exportar los datos del dispositivo"
+      ),
+    [runTask]
+  );
+
+  return {
+    dataExport,
+    isLoading,
+    isWorking,
+    error,
+    reload: load,
+    request,
+    download,
+    shareDeviceData,
+  };
+}
+
+export function useConsents() {
+  const [consents, setConsents] = useState<ConsentRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setConsents(await privacyService.getConsents());
+    } catch (err: any) {
+      console.error("🛡️ [Privacy] Failed to load consents:", err);
+      setError(
+        getApiErrorMessage(
+          err,
+          "No se pudo cargar tu historial de autorizaciones"
+        )
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    consents,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Eliminación programada de la cuenta; mientras corre el periodo de gracia
+ * el usuario puede cancelarla
+ */
+export function useAccountDeletion() {
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    privacyService
+      .getAccountDeletion()
+      .then(setDeletion)
+      .catch((err) =>
+        console.error("🛡️ [Privacy] Failed to load deletion status:", err)
+      );
+  }, []);
+
+  const cancel = useCallback(async () => {
+    try {
+      setIsCancelling(true);
+      setError(null);
+      await privacyService.cancelAccountDeletion();
+      setDeletion(null);
+    } catch (err: any) {
+      console.error("🛡️ [Privacy] Failed to cancel deletion:", err);
+      setError(getApiErrorMessage(err, "No se pudo cancelar la eliminación"));
+    } finally {
+      setIsCancelling(false);
+    }
+  }, []);
+
+  return {
+    deletion,
+    isCancelling,
+    error,
+    cancel,
+  };
+}
@@ -1,56 +1,101 @@
 import { useAuth } from "@/context/auth-context";
-import { useRouter, useSegments } from "expo-router";
-import React, { useEffect, useState } from "react";
+import {
+  hasPermissions,
+  normalizeRole,
+  Permission,
+  resolvePermissions,
+  Role,
+} from "@/lib/permissions";
+import { Href, useRouter, useSegments } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+
+export interface ProtectedRouteOptions {
+  /**
+   * Exige email verificado (p. ej. pantallas para enviar reportes o trámites).
+   * Los usuarios sin verificar son enviados al interstitial de verificación.
+   */
+  requireVerifiedEmail?: boolean;
+
+  /**
+   * Permiso(s) necesarios para ver la ruta (se exigen todos)
+   */
+  requiredPermission?: Permission | Permission[];
+
+  /**
+   * Rol exacto necesario para ver la ruta (p. ej. la consola de administración)
+   */
+  requiredRole?: Role;
+
+  /**
+   * Destino cuando el usuario no tiene los permisos requeridos
+   */
+  unauthorizedRedirect?: Href;
+}
 
 /**
  * Hook de protección de rutas
  * Maneja la navegación automática basada en el estado de autenticación
  */
-export function useProtectedRoute() {
+export function useProtectedRoute(options: ProtectedRouteOptions = {}) {
+  const {
+    requireVerifiedEmail = false,
+    requiredPermission,
+    requiredRole,
+    unauthorizedRedirect = "/(tabs)",
+  } = options;
   const { user, isLoading } = useAuth();
+  const isAuthorized =
+    (!requiredPermission || hasPermissions(user, requiredPermission)) &&
+    (!requiredRole || normalizeRole(user?.role) === requiredRole);
   const segments = useSegments();
   const router = useRouter();
-  const [isNavigating, setIsNavigating] = useState(false);
+
+  // Destino al que hay que enviar al usuario, o null si puede quedarse
+  const inAuthGroup = segments[0] === "auth";
+  const authScreen = inAuthGroup ? (segments as string[])[1] : undefined;
+  // Los enlaces de reset y verificación deben abrirse con o sin sesión activa
+  const inAuthLinkScreen =
+    authScreen === "reset" || authScreen === "verify-email";
+  const inIndex = segments[0] === undefined;
+
+  let redirectTo: Href | null = null;
+  if (user) {
+    if ((inAuthGroup && !inAuthLinkScreen) || inIndex) {
+      // Está en auth o index -> redirect a tabs
+      redirectTo = "/(tabs)";
+    } else if (!isAuthorized) {
+      // Su rol no tiene acceso a esta ruta
+      redirectTo = unauthorizedRedirect;
+    } else if (requireVerifiedEmail && !user.isEmailVerified) {
+      // Puede navegar, pero esta ruta exige email verificado
+      redirectTo = "/auth/verify-email";
+    }
+  } else if (!inAuthGroup && !inIndex && segments[0] !== "splash") {
+    // No está en auth, index o splash -> redirect a login
+    redirectTo = "/auth/login";
+  }
+
+  // Redirigir en el propio efecto: se repite solo si cambia el destino o la
+  // ruta actual, nunca por su propio estado
+  const lastRedirect = useRef<Href | null>(null);
 
   useEffect(() => {
-    if (isLoading || isNavigating) return;
-
-    const inAuthGroup = segments[0] === "auth";
-    const inTabsGroup = segments[0] === "(tabs)";
-    const inIndex = segments[0] === undefined;
-
-    setIsNavigating(true);
-
-    const navigateTimeout = setTimeout(() => {
-      if (user) {
-        // Usuario autenticado
-        if (inAuthGroup || inIndex) {
-          // Está en auth o index -> redirect a tabs
-          router.replace("/(tabs)");
-        }
-      } else {
-        // Usuario no autenticado
-        if (inTabsGroup) {
-          // Está en tabs -> redirect a login
-          router.replace("/auth/login");
-        } else if (!inAuthGroup && !inIndex && segments[0] !== "splash") {
-          // No está en auth, index o splash -> redirect a login
-          router.replace("/auth/login");
-        }
-      }
-
-      setIsNavigating(false);
-    }, 100);
-
-    return () => {
-      clearTimeout(navigateTimeout);
-      setIsNavigating(false);
-    };
-  }, [user, segments, isLoading, router, isNavigating]);
+    if (isLoading || !redirectTo) {
+      lastRedirect.current = null;
+      return;
+    }
+    if (lastRedirect.current === redirectTo) return;
+
+    lastRedirect.current = redirectTo;
+    router.replace(redirectTo);
+  }, [isLoading, redirectTo, router]);
 
   return {
-    isLoading: isLoading || isNavigating,
+    // Mientras hay una redirección pendiente la ruta no debe mostrarse
+    isLoading: isLoading || redirectTo !== null,
     user,
+    isEmailVerified: Boolean(user?.isEmailVerified),
+    isAuthorized,
   };
 }
 
@@ -58,16 +103,22 @@ export function useProtectedRoute() {
  * Componente de alta orden para proteger rutas privadas
  */
 export function withProtectedRoute<T extends object>(
-  Component: React.ComponentType<T>
+  Component: React.ComponentType<T>,
+  options: ProtectedRouteOptions = {}
 ) {
   return function ProtectedComponent(props: T) {
-    const { isLoading, user } = useProtectedRoute();
+    const { isLoading, user, isEmailVerified, isAuthorized } =
+      useProtectedRoute(options);
 
     if (isLoading) {
       return null;
     }
 
-    if (!user) {
+    if (!user || !isAuthorized) {
+      return null;
+    }
+
+    if (options.requireVerifiedEmail && !isEmailVerified) {
       return null;
     }
 
@@ -75,31 +126,64 @@ export function withProtectedRoute<T extends object>(
   };
 }
 
+/**
+ * Hook para acciones que exigen email verificado (enviar reportes, trámites).
+ * Permite navegar libremente y solo bloquea en el momento de enviar.
+ */
+export function useEmailVerificationGate() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const isEmailVerified = Boolean(user?.isEmailVerified);
+
+  const requireVerifiedEmail = useCallback((): boolean => {
+    if (isEmailVerified) return true;
+
+    router.push("/auth/verify-email");
+    return false;
+  }, [isEmailVerified, router]);
+
+  return {
+    isEmailVerified,
+    requireVerifiedEmail,
+  };
+}
+
 /**
  * Hook para verificar si el usuario tiene permisos específicos
+ * según la matriz de lib/permissions o los claims del servidor
  */
 export function usePermissions() {
   const { user } = useAuth();
 
-  const hasRole = (role: string) => {
-    return user?.role === role || false;
-  };
+  const role = normalizeRole(user?.role);
+  const permissions = useMemo(() => resolvePermissions(user), [user]);
 
-  const hasPermission = (permission: string) => {
-    return user?.role === "admin" || false;
-  };
+  const hasRole = useCallback(
+    (expected: Role) => Boolean(user) && role === expected,
+    [user, role]
+  );
 
-  const isAdmin = () => {
-    return hasRole("admin") || hasRole("administrator");
-  };
+  const hasPermission = useCallback(
+    (permission: Permission) => permissions.has(permission),
+    [permissions]
+  );
 
-  const isResident = () => {
-    return user?.isResident || false;
-  };
+  const hasAnyPermission = useCallback(
+    (required: Permission[]) =>
+      required.some((permission) => permissions.has(permission)),
+    [permissions]
+  );
+
+  const isAdmin = useCallback(() => hasRole("admin"), [hasRole]);
+
+  const isResident = useCallback(() => user?.isResident || false, [user]);
 
   return {
+    role: user ? role : null,
+    permissions,
     hasRole,
     hasPermission,
+    hasAnyPermission,
     isAdmin,
     isResident,
     user,
@@ -0,0 +1,86 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+
+import { getApiErrorMessage } from "@/services/http-client";
+import { Report, reportService } from "@/services/report-service";
+
+/**
+ * TolimaGO - Hooks de reportes ciudadanos
+ * Carga y refresco de los reportes del usuario para seguir su estado
+ */
+
+/**
+ * Lista de reportes del usuario; se recarga al volver a la pantalla
+ */
+export function useMyReports() {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (refreshing: boolean) => {
+    if (refreshing) setIsRefreshing(true);
+
+    try {
+      setError(null);
+      setReports(await reportService.getMyReports());
+    } catch (err: any) {
+      console.error("📝 [Reports] Failed to load reports:", err);
+      setError(getApiErrorMessage(err, "No se pudieron cargar tus reportes"));
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load(false);
+    }, [load])
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    reports,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+/**
+ * Detalle de un reporte con su historial de estados
+ */
+export function useReport(id: string | undefined) {
+  const [report, setReport] = useState<Report | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setReport(await reportService.getReport(id));
+    } catch (err: any) {
+      console.error("📝 [Reports] Failed to load report:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar el reporte"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    report,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
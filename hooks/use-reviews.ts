@@ -0,0 +1,229 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+
+import { ReviewSort, ReviewTargetType } from "@/constants/reviews";
+import { ReviewReportFormData } from "@/lib/validations";
+import { getApiErrorMessage } from "@/services/http-client";
+import {
+  RatingSummary,
+  Review,
+  reviewService,
+} from "@/services/review-service";
+
+/**
+ * TolimaGO - Hooks de reseñas
+ * Resumen de calificaciones, listado paginado, reseña propia y denuncias
+ */
+
+/**
+ * Promedio y distribución de calificaciones; se recarga al volver a la
+ * pantalla para reflejar una reseña recién publicada
+ */
+export function useRatingSummary(
+  type: ReviewTargetType,
+  id: string | undefined
+) {
+  const [summary, setSummary] = useState<RatingSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setError(null);
+      setSummary(await reviewService.getSummary({ type, id }));
+    } catch (err: any) {
+      console.error("⭐ [Reviews] Failed to load summary:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar la calificación"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [type, id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return {
+    summary,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Reseñas de un lugar paginadas por cursor, con voto de utilidad optimista
+ */
+export function useReviews(
+  type: ReviewTargetType,
+  id: string | undefined,
+  sort: ReviewSort = "recent"
+) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setError(null);
+      const page = await reviewService.getReviews({ type, id }, { sort });
+      setReviews(page.reviews);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("⭐ [Reviews] Failed to load reviews:", err);
+      setError(getApiErrorMessage(err, "No se pudieron cargar las reseñas"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [type, id, sort]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!id || !nextCursor || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await reviewService.getReviews(
+        { type, id },
+        { sort, cursor: nextCursor }
+      );
+      setReviews((current) => [...current, ...page.reviews]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("⭐ [Reviews] Failed to load more reviews:", err);
+      setError(getApiErrorMessage(err, "No se pudieron cargar más reseñas"));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [type, id, sort, nextCursor, isLoadingMore]);
+
+  const patchReview = useCallback(
+    (reviewId: string, changes: Partial<Review>) => {
+      setReviews((current) =>
+        current.map((review) =>
+          review.id === reviewId ? { ...review, ...changes } : review
+        )
+      );
+    },
+    []
+  );
+
+  const toggleHelpful = useCallback(
+    async (review: Review) => {
+      const helpful = !review.markedHelpful;
+
+      // Se refleja de inmediato y se revierte si el servidor falla
+      patchReview(review.id, {
+        markedHelpful: helpful,
+        helpfulCount: review.helpfulCount + (helpful ? 1 : -1),
+      });
+
+      try {
+        patchReview(
+          review.id,
+          await reviewService.setHelpful(review.id, helpful)
+        );
+      } catch (err: any) {
+        console.error("⭐ [Reviews] Helpful vote failed:", err);
+        patchReview(review.id, {
+          markedHelpful: review.markedHelpful,
+          helpfulCount: review.helpfulCount,
+        });
+        throw new Error(
+          getApiErrorMessage(err, "No se pudo registrar tu voto")
+        );
+      }
+    },
+    [patchReview]
+  );
+
+  return {
+    reviews,
+    hasMore: Boolean(nextCursor),
+    isLoading,
+    isLoadingMore,
+    error,
+    reload: load,
+    loadMore,
+    toggleHelpful,
+  };
+}
+
+/**
+ * Reseña del usuario actual; null si aún no ha calificado el lugar
+ */
+export function useMyReview(type: ReviewTargetType, id: string | undefined) {
+  const [review, setReview] = useState<Review | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setError(null);
+      setReview(await reviewService.getMyReview({ type, id }));
+    } catch (err: any) {
+      console.error("⭐ [Reviews] Failed to load own review:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar tu reseña"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [type, id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return {
+    review,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+export function useReviewReport() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = useCallback(
+    async (reviewId: string, data: ReviewReportFormData): Promise<boolean> => {
+      try {
+        setIsSubmitting(true);
+        setError(null);
+        await reviewService.reportReview(reviewId, data);
+        return true;
+      } catch (err: any) {
+        console.error("⭐ [Reviews] Report failed:", err);
+        setError(getApiErrorMessage(err, "No se pudo enviar la denuncia"));
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    []
+  );
+
+  return {
+    report,
+    isSubmitting,
+    error,
+    clearError: useCallback(() => setError(null), []),
+  };
+}
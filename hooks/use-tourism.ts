@@ -0,0 +1,144 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { TourismCategory } from "@/constants/tourism";
+import { useAuth } from "@/context/auth-context";
+import { getApiErrorMessage } from "@/services/http-client";
+import { Attraction, tourismService } from "@/services/tourism-service";
+import { SavedAttraction, tripService } from "@/services/trip-service";
+
+/**
+ * TolimaGO - Hooks de turismo
+ * Catálogo por municipio y categoría, detalle y lugares guardados
+ */
+
+export function useAttractions(
+  municipality: string | null,
+  category: TourismCategory | null
+) {
+  const [attractions, setAttractions] = useState<Attraction[]>([]);
+  const [fromFixture, setFromFixture] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refreshing = false) => {
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        const result = await tourismService.getAttractions({
+          municipality,
+          category,
+        });
+        setAttractions(result.attractions);
+        setFromFixture(result.fromFixture);
+      } catch (err: any) {
+        console.error("🧭 [Tourism] Failed to load attractions:", err);
+        setError(getApiErrorMessage(err, "No se pudo cargar el catálogo"));
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [municipality, category]
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    attractions,
+    fromFixture,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+export function useAttraction(id: string | undefined) {
+  const [attraction, setAttraction] = useState<Attraction | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setAttraction(await tourismService.getAttraction(id));
+    } catch (err: any) {
+      console.error("🧭 [Tourism] Failed to load attraction:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar el lugar"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    attraction,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Lugares guardados en "Mi viaje" por el usuario actual
+ */
+export function useSavedAttractions() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [saved, setSaved] = useState<SavedAttraction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId) return;
+      tripService
+        .getSavedAttractions(userId)
+        .then(setSaved)
+        .finally(() => setIsLoading(false));
+    }, [userId])
+  );
+
+  const savedIds = useMemo(
+    () => new Set(saved.map((item) => item.attraction.id)),
+    [saved]
+  );
+
+  const isSaved = useCallback(
+    (attractionId: string) => savedIds.has(attractionId),
+    [savedIds]
+  );
+
+  const toggleSaved = useCallback(
+    async (attraction: Attraction) => {
+      if (!userId) return;
+      setSaved(
+        savedIds.has(attraction.id)
+          ? await tripService.removeAttraction(userId, attraction.id)
+          : await tripService.saveAttraction(userId, attraction)
+      );
+    },
+    [userId, savedIds]
+  );
+
+  return {
+    saved,
+    isLoading,
+    isSaved,
+    toggleSaved,
+  };
+}
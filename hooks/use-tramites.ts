@@ -0,0 +1,198 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+
+import { getApiErrorMessage } from "@/services/http-client";
+import {
+  Tramite,
+  TramiteCatalogue,
+  TramiteRequest,
+  tramiteService,
+} from "@/services/tramite-service";
+
+/**
+ * TolimaGO - Hooks de trámites
+ * Catálogo por municipio con caché offline y seguimiento de solicitudes
+ */
+
+/**
+ * Catálogo de un municipio: muestra primero la copia guardada y luego
+ * la reemplaza con la versión del servidor si hay conexión
+ */
+export function useTramiteCatalogue(municipality: string) {
+  const [catalogue, setCatalogue] = useState<TramiteCatalogue | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refreshing: boolean) => {
+      if (refreshing) setIsRefreshing(true);
+      setError(null);
+
+      try {
+        setCatalogue(await tramiteService.getCatalogue(municipality));
+      } catch (err: any) {
+        console.error("🏛️ [Tramites] Failed to load catalogue:", err);
+        setError(
+          getApiErrorMessage(err, "No se pudo cargar el catálogo de trámites")
+        );
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [municipality]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setCatalogue(null);
+
+    tramiteService.getCachedCatalogue(municipality).then((cached) => {
+      if (cancelled) return;
+      if (cached) {
+        setCatalogue(cached);
+        setIsLoading(false);
+      }
+      load(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [municipality, load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    catalogue,
+    tramites: catalogue?.tramites ?? [],
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+/**
+ * Un trámite del catálogo (desde la caché si está disponible)
+ */
+export function useTramite(id: string | undefined, municipality?: string) {
+  const [tramite, setTramite] = useState<Tramite | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setTramite(await tramiteService.getTramite(id, municipality));
+    } catch (err: any) {
+      console.error("🏛️ [Tramites] Failed to load tramite:", err);
+      setError(getApiErrorMessage(err, "No se pudo cargar el trámite"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, municipality]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    tramite,
+    isLoading,
+    error,
+    reload: load,
+  };
+}
+
+/**
+ * Solicitudes radicadas por el usuario; se recargan al volver a la pantalla
+ */
+export function useMyTramiteRequests() {
+  const [requests, setRequests] = useState<TramiteRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (refreshing: boolean) => {
+    if (refreshing) setIsRefreshing(true);
+
+    try {
+      setError(null);
+      setRequests(await tramiteService.getMyRequests());
+    } catch (err: any) {
+      console.error("🏛️ [Tramites] Failed to load requests:", err);
+      setError(
+        getApiErrorMessage(err, "No se pudieron cargar tus solicitudes")
+      );
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load(false);
+    }, [load])
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    requests,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
+
+/**
+ * Detalle de una solicitud con su línea de tiempo y documentos pedidos
+ */
+export function useTramiteRequest(id: string | undefined) {
+  const [request, setRequest] = useState<TramiteRequest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refreshing: boolean) => {
+      if (!id) return;
+      if (refreshing) setIsRefreshing(true);
+
+      try {
+        setError(null);
+        setRequest(await tramiteService.getRequest(id));
+      } catch (err: any) {
+        console.error("🏛️ [Tramites] Failed to load request:", err);
+        setError(getApiErrorMessage(err, "No se pudo cargar la solicitud"));
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [id]
+  );
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    request,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+  };
+}
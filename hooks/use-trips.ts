@@ -0,0 +1,132 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+
+import { useAuth } from "@/context/auth-context";
+import { getApiErrorMessage } from "@/services/http-client";
+import { Trip, tripService } from "@/services/trip-service";
+
+/**
+ * TolimaGO - Hooks de viajes
+ * Itinerarios del usuario guardados en el dispositivo y su sincronización
+ */
+
+export function useTrips() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    setTrips(await tripService.getTrips(userId));
+    setIsLoading(false);
+  }, [userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return {
+    trips,
+    isLoading,
+    reload: load,
+  };
+}
+
+/**
+ * Un itinerario con sus operaciones de edición
+ */
+export function useTrip(id: string | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId || !id) return;
+      tripService
+        .getTrip(userId, id)
+        .then(setTrip)
+        .finally(() => setIsLoading(false));
+    }, [userId, id])
+  );
+
+  /**
+   * Aplica un cambio al viaje y lo guarda
+   */
+  const update = useCallback(
+    async (change: (current: Trip) => Trip) => {
+      if (!userId || !trip) return;
+      setTrip(await tripService.updateTrip(userId, change(trip)));
+    },
+    [userId, trip]
+  );
+
+  const remove = useCallback(async () => {
+    if (!userId || !trip) return;
+    await tripService.deleteTrip(userId, trip.id);
+  }, [userId, trip]);
+
+  return {
+    trip,
+    isLoading,
+    update,
+    remove,
+  };
+}
+
+/**
+ * Preferencia de sincronizar los viajes con la cuenta del usuario
+ */
+export function useTripSync() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [enabled, setEnabledState] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    tripService.isSyncEnabled(userId).then(setEnabledState);
+  }, [userId]);
+
+  const run = useCallback(async (task: () => Promise<unknown>) => {
+    try {
+      setIsSyncing(true);
+      setError(null);
+      await task();
+    } catch (err: any) {
+      console.error("🧳 [Trip] Sync failed:", err);
+      setError(
+        getApiErrorMessage(err, "No se pudieron sincronizar tus viajes")
+      );
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  const setEnabled = useCallback(
+    async (value: boolean) => {
+      if (!userId) return;
+      setEnabledState(value);
+      await run(() => tripService.setSyncEnabled(userId, value));
+    },
+    [userId, run]
+  );
+
+  const syncNow = useCallback(async () => {
+    if (!userId) return;
+    await run(() => tripService.syncTrips(userId));
+  }, [userId, run]);
+
+  return {
+    enabled,
+    isSyncing,
+    error,
+    setEnabled,
+    syncNow,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * TolimaGO - Deep Links
+ * Normalización de enlaces externos (esquema tolimago:// y enlaces web)
+ * hacia las rutas internas de expo-router
+ */
+
+export const APP_SCHEME = "tolimago";
+
+// Rutas alternativas que usan los correos del backend → ruta interna
+const PATH_ALIASES: Record<string, string> = {
+  "verify-email": "/auth/verify-email",
+  verify: "/auth/verify-email",
+  "auth/verify": "/auth/verify-email",
+  "reset-password": "/auth/reset",
+  "auth/reset-password": "/auth/reset",
+};
+
+/**
+ * Separa un enlace en ruta y query, descartando esquema y host
+ */
+function splitLink(link: string): { path: string; query: string } {
+  let rest = link.trim();
+
+  const schemeMatch = rest.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+  if (schemeMatch) {
+    const scheme = schemeMatch[1].toLowerCase();
+    rest = rest.slice(schemeMatch[0].length);
+
+    // En enlaces web el primer segmento es el dominio
+    if (scheme === "http" || scheme === "https") {
+      const slashIndex = rest.indexOf("/");
+      rest = slashIndex === -1 ? "" : rest.slice(slashIndex);
+    }
+  }
+
+  const [path, query = ""] = rest.split("?");
+  return { path: path.replace(/^\/+|\/+$/g, ""), query };
+}
+
+/**
+ * Convierte cualquier enlace soportado en una ruta interna (`/auth/reset?token=…`)
+ */
+export function normalizeDeepLinkPath(link: string): string {
+  const { path, query } = splitLink(link);
+  const target = PATH_ALIASES[path] ?? `/${path}`;
+
+  return query ? `${target}?${query}` : target;
+}
+
+/**
+ * Construye un enlace profundo de la app (`tolimago://ruta?params`)
+ */
+export function buildDeepLink(
+  path: string,
+  params: Record<string, string | undefined> = {}
+): string {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value as string)}`
+    )
+    .join("&");
+
+  const cleanPath = path.replace(/^\/+/, "");
+  return `${APP_SCHEME}://${cleanPath}${query ? `?${query}` : ""}`;
+}
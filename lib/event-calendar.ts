@@ -0,0 +1,176 @@
+import { ALL_DAY_REMINDER_HOUR } from "@/constants/events";
+import type { AgendaEvent } from "@/services/event-service";
+import { IcsEvent } from "./ics";
+import { addDaysToDate } from "./trip-planning";
+
+/**
+ * TolimaGO - Calendario de eventos
+ * Meses de la agenda, días que ocupa cada evento, horarios legibles y
+ * conversión a ICS
+ */
+
+// Semanas de lunes a domingo, como en los calendarios colombianos
+export const WEEKDAY_LABELS = ["L", "M", "M", "J", "V", "S", "D"];
+
+// =================== MESES ===================
+
+/**
+ * Fecha local YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+/**
+ * Mes actual en formato YYYY-MM
+ */
+export function currentMonth(): string {
+  return toDateKey(new Date()).slice(0, 7);
+}
+
+export function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const result = new Date(Date.UTC(year, monthIndex - 1 + delta, 1));
+  return result.toISOString().slice(0, 7);
+}
+
+/**
+ * Primer y último día del mes (YYYY-MM-DD)
+ */
+export function getMonthRange(month: string): { from: string; to: string } {
+  const from = `${month}-01`;
+  return { from, to: addDaysToDate(`${shiftMonth(month, 1)}-01`, -1) };
+}
+
+/**
+ * "Junio de 2026"
+ */
+export function formatMonthLabel(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const label = new Date(year, monthIndex - 1, 1).toLocaleDateString("es-CO", {
+    month: "long",
+    year: "numeric",
+  });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Semanas del mes; los huecos antes del día 1 y después del último son null
+ */
+export function buildMonthGrid(month: string): (string | null)[][] {
+  const { from, to } = getMonthRange(month);
+  const [year, monthIndex] = month.split("-").map(Number);
+  // getDay() empieza en domingo
+  const leading = (new Date(year, monthIndex - 1, 1).getDay() + 6) % 7;
+  const daysInMonth = Number(to.slice(8));
+
+  const cells: (string | null)[] = [
+    ...Array.from({ length: leading }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) =>
+      addDaysToDate(from, index)
+    ),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+  return weeks;
+}
+
+// =================== DÍAS DEL EVENTO ===================
+
+/**
+ * Los eventos de día completo traen la fecha tal cual; los demás se
+ * convierten a la zona del dispositivo
+ */
+export function getEventStartKey(event: AgendaEvent): string {
+  return event.allDay
+    ? event.startsAt.slice(0, 10)
+    : toDateKey(new Date(event.startsAt));
+}
+
+export function getEventEndKey(event: AgendaEvent): string {
+  return event.allDay
+    ? event.endsAt.slice(0, 10)
+    : toDateKey(new Date(event.endsAt));
+}
+
+export function isEventOnDate(event: AgendaEvent, date: string): boolean {
+  return getEventStartKey(event) <= date && date <= getEventEndKey(event);
+}
+
+// =================== HORARIOS ===================
+
+/**
+ * "sáb. 28 de junio" a partir de YYYY-MM-DD
+ */
+export function formatEventDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("es-CO", {
+    weekday: "short",
+    day: "numeric",
+    month: "long",
+  });
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("es-CO", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * "sáb. 28 de junio · 8:00 p. m." o "vie. 27 de junio – lun. 30 de junio"
+ */
+export function formatEventSchedule(event: AgendaEvent): string {
+  const start = getEventStartKey(event);
+  const end = getEventEndKey(event);
+
+  if (start !== end) {
+    return `${formatEventDay(start)} – ${formatEventDay(end)}`;
+  }
+  if (event.allDay) {
+    return `${formatEventDay(start)} · Todo el día`;
+  }
+  return `${formatEventDay(start)} · ${formatTime(
+    event.startsAt
+  )} – ${formatTime(event.endsAt)}`;
+}
+
+/**
+ * Momento de un recordatorio `minutesBefore` antes del inicio; los eventos
+ * de día completo se toman desde las ALL_DAY_REMINDER_HOUR del primer día
+ */
+export function getReminderDate(
+  event: AgendaEvent,
+  minutesBefore: number
+): Date {
+  let start: Date;
+  if (event.allDay) {
+    const [year, month, day] = getEventStartKey(event).split("-").map(Number);
+    start = new Date(year, month - 1, day, ALL_DAY_REMINDER_HOUR);
+  } else {
+    start = new Date(event.startsAt);
+  }
+
+  return new Date(start.getTime() - minutesBefore * 60000);
+}
+
+// =================== ICS ===================
+
+export function toEventIcsEvent(event: AgendaEvent): IcsEvent {
+  return {
+    uid: `event-${event.id}`,
+    summary: event.title,
+    description: event.summary,
+    location: [event.venue, `${event.municipality}, Tolima`]
+      .filter(Boolean)
+      .join(", "),
+    allDay: event.allDay,
+    start: event.allDay ? getEventStartKey(event) : event.startsAt,
+    end: event.allDay ? addDaysToDate(getEventEndKey(event), 1) : event.endsAt,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * TolimaGO - Archivos en multipart/form-data
+ * React Native sube archivos locales como { uri, name, type }
+ */
+
+export interface FormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+export function appendFormDataFile(
+  formData: FormData,
+  field: string,
+  file: FormDataFile
+): void {
+  // El FormData de React Native acepta el objeto tal cual, pero los tipos
+  // del DOM que usa TypeScript solo conocen string y Blob
+  formData.append(field, file as unknown as Blob);
+}
@@ -0,0 +1,106 @@
+import { tolimaMunicipalityCoordinates } from "@/constants/locations";
+
+/**
+ * TolimaGO - Utilidades geográficas
+ * Distancias entre coordenadas, formato para mostrarlas y municipio más
+ * cercano sin conexión
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MunicipalityMatch {
+  municipality: string;
+  distanceKm: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Más allá de esta distancia a cualquier cabecera se asume fuera del Tolima
+const MAX_MUNICIPALITY_DISTANCE_KM = 30;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Distancia en línea recta (haversine) entre dos puntos, en kilómetros
+ */
+export function distanceInKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Municipio del Tolima cuya cabecera queda más cerca, o null si el punto
+ * está fuera del departamento. Es una aproximación por centroides: cerca de
+ * los límites puede elegir el municipio vecino
+ */
+export function findNearestMunicipality(
+  coords: Coordinates
+): MunicipalityMatch | null {
+  let nearest: MunicipalityMatch | null = null;
+
+  for (const [municipality, center] of Object.entries(
+    tolimaMunicipalityCoordinates
+  )) {
+    const distanceKm = distanceInKm(coords, center);
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { municipality, distanceKm };
+    }
+  }
+
+  return nearest && nearest.distanceKm <= MAX_MUNICIPALITY_DISTANCE_KM
+    ? nearest
+    : null;
+}
+
+/**
+ * "350 m" por debajo de un kilómetro, "2,4 km" a partir de ahí
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+
+  return `${km.toLocaleString("es-CO", {
+    maximumFractionDigits: km < 10 ? 1 : 0,
+  })} km`;
+}
+
+/**
+ * Enlace a la app de mapas nativa con indicaciones hasta el destino
+ */
+export function buildDirectionsUrl(
+  destination: Coordinates,
+  label: string,
+  // Platform.OS; cualquier otra plataforma usa el enlace web
+  platform: string
+): string {
+  const { latitude, longitude } = destination;
+  const query = encodeURIComponent(label);
+
+  if (platform === "ios") {
+    return `maps://?daddr=${latitude},${longitude}&q=${query}`;
+  }
+  if (platform === "android") {
+    return `geo:0,0?q=${latitude},${longitude}(${query})`;
+  }
+  return buildWebDirectionsUrl(destination);
+}
+
+/**
+ * Indicaciones en Google Maps web; sirve de respaldo en cualquier plataforma
+ */
+export function buildWebDirectionsUrl({
+  latitude,
+  longitude,
+}: Coordinates): string {
+  return `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`;
+}
@@ -0,0 +1,127 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+/**
+ * TolimaGO - Calendario ICS
+ * Generación de archivos iCalendar y hoja para compartirlos
+ */
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // Día completo: fechas YYYY-MM-DD con `end` exclusivo; si no, fechas ISO
+  allDay: boolean;
+  start: string;
+  end: string;
+}
+
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const toIcsDate = (date: string) => date.replace(/-/g, "");
+
+// 2026-06-28T20:00:00.000Z → 20260628T200000Z
+const toIcsDateTime = (iso: string) =>
+  new Date(iso).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+/**
+ * Las líneas ICS no deben superar 75 octetos en UTF-8 ("Ibagué" ocupa 7);
+ * se continúan con un espacio, que cuenta en el límite, sin partir ningún
+ * carácter
+ */
+const foldIcsLine = (line: string) => {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+
+  // for…of recorre puntos de código, no unidades UTF-16
+  for (const char of line) {
+    const size = utf8Length(char.codePointAt(0) ?? 0);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+
+    chunk += char;
+    octets += size;
+  }
+
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+};
+
+export function buildIcsCalendar(events: IcsEvent[]): string {
+  const stamp = toIcsDateTime(new Date().toISOString());
+
+  const lines = events.flatMap((event) => [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}@tolimago`,
+    `DTSTAMP:${stamp}`,
+    ...(event.allDay
+      ? [
+          `DTSTART;VALUE=DATE:${toIcsDate(event.start)}`,
+          `DTEND;VALUE=DATE:${toIcsDate(event.end)}`,
+        ]
+      : [
+          `DTSTART:${toIcsDateTime(event.start)}`,
+          `DTEND:${toIcsDateTime(event.end)}`,
+        ]),
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description
+      ? [`DESCRIPTION:${escapeIcsText(event.description)}`]
+      : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    "END:VEVENT",
+  ]);
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TolimaGO//Calendario//ES",
+    "CALSCALE:GREGORIAN",
+    ...lines,
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n");
+}
+
+/**
+ * Escribe el calendario en caché y abre la hoja para compartirlo o
+ * abrirlo con la app de calendario del dispositivo
+ */
+export async function shareIcsFile(
+  name: string,
+  events: IcsEvent[]
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error(
+      "Compartir archivos no está disponible en este dispositivo"
+    );
+  }
+
+  const fileName = `${name.replace(/[\\/:*?"<>|\s]+/g, "-")}.ics`;
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(buildIcsCalendar(events));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "text/calendar",
+    UTI: "public.calendar-event",
+    dialogTitle: name,
+  });
+}
@@ -0,0 +1,89 @@
+import { UserData } from "@/services/secure-storage";
+
+/**
+ * TolimaGO - Permisos por rol
+ * Matriz declarativa de permisos. El servidor puede enviar una lista de
+ * claims en `user.permissions` que reemplaza a la matriz del rol.
+ */
+
+export const PERMISSIONS = [
+  "reports:create",
+  "reports:moderate",
+  "tramites:create",
+  "news:publish",
+  "events:publish",
+  "business:manage",
+  "reviews:create",
+  "reviews:moderate",
+  "users:manage",
+  "admin:access",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ["user", "business", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: "Ciudadano",
+  business: "Comercio",
+  admin: "Administrador",
+};
+
+const CITIZEN_PERMISSIONS: readonly Permission[] = [
+  "reports:create",
+  "tramites:create",
+  "reviews:create",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: CITIZEN_PERMISSIONS,
+  business: [...CITIZEN_PERMISSIONS, "business:manage", "events:publish"],
+  admin: PERMISSIONS,
+};
+
+// Variantes de nombre de rol que envía el backend
+const ROLE_ALIASES: Record<string, Role> = {
+  administrator: "admin",
+};
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Normaliza el rol del usuario; un rol desconocido recibe permisos de ciudadano
+ */
+export function normalizeRole(role: string | undefined): Role {
+  if (!role) return "user";
+  if ((ROLES as readonly string[]).includes(role)) return role as Role;
+  return ROLE_ALIASES[role] ?? "user";
+}
+
+/**
+ * Permisos efectivos de un usuario (vacío si no hay sesión)
+ */
+export function resolvePermissions(
+  user: Pick<UserData, "role" | "permissions"> | null | undefined
+): ReadonlySet<Permission> {
+  if (!user) return new Set();
+
+  if (user.permissions) {
+    return new Set(user.permissions.filter(isPermission));
+  }
+
+  return new Set(ROLE_PERMISSIONS[normalizeRole(user.role)]);
+}
+
+/**
+ * Verifica uno o varios permisos (todos deben cumplirse)
+ */
+export function hasPermissions(
+  user: Pick<UserData, "role" | "permissions"> | null | undefined,
+  required: Permission | readonly Permission[]
+): boolean {
+  const granted = resolvePermissions(user);
+  const list = typeof required === "string" ? [required] : required;
+  return list.every((permission) => granted.has(permission));
+}
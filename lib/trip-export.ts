@@ -0,0 +1,97 @@
+import type { SharedTrip, Trip } from "@/services/trip-service";
+import { buildDeepLink } from "./deep-links";
+import { IcsEvent, shareIcsFile } from "./ics";
+import { addDaysToDate, formatTripDate } from "./trip-planning";
+import { sharedTripSchema } from "./validations";
+
+/**
+ * TolimaGO - Exportación de viajes
+ * Enlace para compartir un itinerario, resumen en texto y calendario ICS
+ */
+
+export const TRIP_IMPORT_PATH = "trips/import";
+
+// =================== ENLACE ===================
+
+export function toSharedTrip(trip: Trip): SharedTrip {
+  return {
+    name: trip.name,
+    startDate: trip.startDate,
+    notes: trip.notes,
+    days: trip.days.map((day) => ({
+      notes: day.notes,
+      stops: day.stops.map(({ id, ...stop }) => stop),
+    })),
+  };
+}
+
+/**
+ * tolimago://trips/import?data=… con el itinerario completo en el enlace
+ */
+export function buildTripShareLink(trip: Trip): string {
+  return buildDeepLink(TRIP_IMPORT_PATH, {
+    data: JSON.stringify(toSharedTrip(trip)),
+  });
+}
+
+/**
+ * Itinerario recibido por enlace, o null si está dañado o no es válido
+ */
+export function parseSharedTrip(data: string | undefined): SharedTrip | null {
+  if (!data) return null;
+
+  try {
+    const result = sharedTripSchema.safeParse(JSON.parse(data));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// =================== TEXTO ===================
+
+export function buildTripText(trip: Trip): string {
+  const lines = [`🧳 ${trip.name}`];
+  if (trip.notes) lines.push(trip.notes);
+
+  trip.days.forEach((day, index) => {
+    lines.push("", `Día ${index + 1} · ${formatTripDate(day.date)}`);
+    if (day.stops.length === 0) lines.push("  (libre)");
+    day.stops.forEach((stop, stopIndex) =>
+      lines.push(`  ${stopIndex + 1}. ${stop.name} (${stop.municipality})`)
+    );
+    if (day.notes) lines.push(`  📝 ${day.notes}`);
+  });
+
+  lines.push("", "Planeado con TolimaGO");
+  return lines.join("\n");
+}
+
+// =================== CALENDARIO (ICS) ===================
+
+/**
+ * Un evento de día completo por cada día del viaje
+ */
+export function toTripIcsEvents(trip: Trip): IcsEvent[] {
+  return trip.days.map((day, index) => ({
+    uid: `${trip.id}-${index + 1}`,
+    summary: `${trip.name} · Día ${index + 1}`,
+    description: [
+      ...day.stops.map(
+        (stop, stopIndex) =>
+          `${stopIndex + 1}. ${stop.name} (${stop.municipality})`
+      ),
+      day.notes,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    location: day.stops[0] ? `${day.stops[0].municipality}, Tolima` : undefined,
+    allDay: true,
+    start: day.date,
+    end: addDaysToDate(day.date, 1),
+  }));
+}
+
+export async function shareTripCalendar(trip: Trip): Promise<void> {
+  await shareIcsFile(trip.name, toTripIcsEvents(trip));
+}
@@ -0,0 +1,141 @@
+import { tolimaMunicipalityCoordinates } from "@/constants/locations";
+import { Coordinates, distanceInKm } from "./geo";
+
+/**
+ * TolimaGO - Planificación de viajes
+ * Fechas del itinerario, orden sugerido de visitas y tiempos de
+ * desplazamiento estimados entre municipios
+ */
+
+// Las vías del Tolima recorren más que la línea recta entre cabeceras
+const ROAD_FACTOR = 1.4;
+const AVERAGE_SPEED_KMH = 45;
+
+interface StopLike {
+  municipality: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface TravelLeg {
+  from: string;
+  to: string;
+  distanceKm: number;
+  minutes: number;
+}
+
+export interface TravelEstimate {
+  legs: TravelLeg[];
+  totalKm: number;
+  totalMinutes: number;
+}
+
+// =================== FECHAS ===================
+
+/**
+ * Suma días a una fecha YYYY-MM-DD (en UTC para no depender de la zona)
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return result.toISOString().slice(0, 10);
+}
+
+export function todayISODate(): string {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 10);
+}
+
+/**
+ * "sáb. 14 de junio" a partir de YYYY-MM-DD
+ */
+export function formatTripDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("es-CO", {
+    weekday: "short",
+    day: "numeric",
+    month: "long",
+  });
+}
+
+// =================== RECORRIDO ===================
+
+/**
+ * Coordenadas de la parada o, si no las tiene, de su cabecera municipal
+ */
+export function getStopCoordinates(stop: StopLike): Coordinates | null {
+  if (stop.latitude !== undefined && stop.longitude !== undefined) {
+    return { latitude: stop.latitude, longitude: stop.longitude };
+  }
+  return tolimaMunicipalityCoordinates[stop.municipality] ?? null;
+}
+
+/**
+ * Orden por vecino más cercano a partir de la primera parada.
+ * Las paradas sin coordenadas conocidas quedan al final en su orden
+ */
+export function suggestStopOrder<T extends StopLike>(stops: T[]): T[] {
+  if (stops.length < 3) return stops;
+
+  const located = stops.filter((stop) => getStopCoordinates(stop));
+  const unlocated = stops.filter((stop) => !getStopCoordinates(stop));
+  if (located.length < 3) return stops;
+
+  const [first, ...pending] = located;
+  const ordered = [first];
+
+  while (pending.length > 0) {
+    const current = getStopCoordinates(ordered[ordered.length - 1])!;
+    let nearest = 0;
+    let nearestKm = Infinity;
+    pending.forEach((stop, index) => {
+      const km = distanceInKm(current, getStopCoordinates(stop)!);
+      if (km < nearestKm) {
+        nearest = index;
+        nearestKm = km;
+      }
+    });
+    ordered.push(pending.splice(nearest, 1)[0]);
+  }
+
+  return [...ordered, ...unlocated];
+}
+
+/**
+ * Distancia y tiempo por carretera estimados entre paradas consecutivas
+ */
+export function estimateTravel(stops: StopLike[]): TravelEstimate {
+  const legs: TravelLeg[] = [];
+
+  for (let index = 1; index < stops.length; index++) {
+    const from = getStopCoordinates(stops[index - 1]);
+    const to = getStopCoordinates(stops[index]);
+    if (!from || !to) continue;
+
+    const distanceKm = distanceInKm(from, to) * ROAD_FACTOR;
+    legs.push({
+      from: stops[index - 1].municipality,
+      to: stops[index].municipality,
+      distanceKm,
+      minutes: Math.round((distanceKm / AVERAGE_SPEED_KMH) * 60),
+    });
+  }
+
+  return {
+    legs,
+    totalKm: legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+    totalMinutes: legs.reduce((sum, leg) => sum + leg.minutes, 0),
+  };
+}
+
+/**
+ * "45 min" o "2 h 10 min"
+ */
+export function formatTravelDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
@@ -1,8 +1,28 @@
 import { z } from "zod";
 
+import {
+  BUSINESS_CATEGORY_IDS,
+  BusinessCategory,
+  MAX_LISTING_PRICES,
+  WEEKDAY_IDS,
+} from "@/constants/business";
+import { tolimaMunicipalities } from "@/constants/locations";
+import { MAX_REPORT_PHOTOS, REPORT_CATEGORY_IDS } from "@/constants/reports";
+import {
+  MAX_REVIEW_PHOTOS,
+  REVIEW_MAX_LENGTH,
+  REVIEW_MIN_LENGTH,
+  REVIEW_REPORT_REASONS,
+} from "@/constants/reviews";
+import {
+  MAX_STOPS_PER_DAY,
+  MAX_TRIP_DAYS,
+  TRIP_STOP_KINDS,
+} from "@/constants/trips";
+
 /**
  * TolimaGO - Validation Schemas
- * Esquemas de validación con Zod para formularios de autenticación
+ * Esquemas de validación con Zod para formularios de autenticación y reportes
  */
 
 const emailSchema = z
@@ -77,10 +97,22 @@ export const registerSchema = z
       ),
     phone: phoneSchema,
     location: locationSchema,
+    // Registro como comercio (rol "business")
+    isBusiness: z.boolean().default(false),
+    nit: z.string().optional(),
+    businessCategory: z.enum(BUSINESS_CATEGORY_IDS).optional(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Las contraseñas no coinciden",
     path: ["confirmPassword"],
+  })
+  .refine((data) => !data.isBusiness || isValidNit(data.nit ?? ""), {
+    message: "Ingresa un NIT válido con dígito de verificación",
+    path: ["nit"],
+  })
+  .refine((data) => !data.isBusiness || !!data.businessCategory, {
+    message: "Selecciona la categoría de tu negocio",
+    path: ["businessCategory"],
   });
 
 export type RegisterFormData = z.infer<typeof registerSchema>;
@@ -95,6 +127,9 @@ export type RegisterFormInput = {
   city?: string;
   isResident: boolean;
   acceptTerms: boolean;
+  isBusiness?: boolean;
+  nit?: string;
+  businessCategory?: BusinessCategory;
 };
 
 // =================== ESQUEMA DE RECUPERAR CONTRASEÑA ===================
@@ -118,6 +153,342 @@ export const resetPasswordSchema = z
 
 export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 
+// =================== ESQUEMAS DE PERFIL ===================
+export const profileSchema = z.object({
+  name: nameSchema,
+  phone: phoneSchema,
+  isResident: z.boolean(),
+  location: locationSchema,
+});
+
+export type ProfileFormData = z.infer<typeof profileSchema>;
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Ingresa tu contraseña actual"),
+    newPassword: passwordSchema,
+    confirmNewPassword: z.string().min(1, "Confirma tu nueva contraseña"),
+  })
+  .refine((data) => data.newPassword === data.confirmNewPassword, {
+    message: "Las contraseñas no coinciden",
+    path: ["confirmNewPassword"],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: "La nueva contraseña debe ser distinta a la actual",
+    path: ["newPassword"],
+  });
+
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+export const changeEmailSchema = z.object({
+  newEmail: emailSchema,
+  currentPassword: z.string().min(1, "Ingresa tu contraseña actual"),
+});
+
+export type ChangeEmailFormData = z.infer<typeof changeEmailSchema>;
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Ingresa tu contraseña"),
+  understood: z
+    .boolean()
+    .refine(
+      (value) => value === true,
+      "Confirma que entiendes lo que implica eliminar tu cuenta"
+    ),
+});
+
+export type DeleteAccountFormData = z.infer<typeof deleteAccountSchema>;
+
+// =================== ESQUEMAS DE COMERCIOS ===================
+const optionalUrlSchema = z
+  .string()
+  .trim()
+  .max(200, "El enlace es demasiado largo")
+  .optional()
+  .refine(
+    (value) => !value || /^https?:\/\/[^\s.]+\.[^\s]+$/i.test(value),
+    "Ingresa un enlace válido (https://...)"
+  );
+
+export const listingSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "El nombre del negocio es requerido")
+    .min(3, "El nombre debe tener al menos 3 caracteres")
+    .max(80, "El nombre es demasiado largo"),
+  category: z.enum(BUSINESS_CATEGORY_IDS, {
+    message: "Selecciona una categoría",
+  }),
+  municipality: z
+    .string()
+    .min(1, "Selecciona el municipio")
+    .refine(
+      (value) => tolimaMunicipalities.includes(value),
+      "Selecciona un municipio del Tolima"
+    ),
+  address: z
+    .string()
+    .trim()
+    .min(1, "La dirección es requerida")
+    .min(5, "Ingresa una dirección más específica")
+    .max(150, "La dirección es demasiado larga"),
+  description: z
+    .string()
+    .trim()
+    .min(1, "La descripción es requerida")
+    .min(30, "Describe tu negocio con al menos 30 caracteres")
+    .max(1000, "La descripción es demasiado larga"),
+  phone: phoneSchema,
+  whatsapp: phoneSchema,
+  email: z
+    .string()
+    .trim()
+    .optional()
+    .refine(
+      (value) => !value || emailSchema.safeParse(value).success,
+      "Ingresa un email válido"
+    ),
+  website: optionalUrlSchema,
+});
+
+export type ListingFormData = z.infer<typeof listingSchema>;
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Usa el formato HH:MM");
+
+export const listingHoursSchema = z.object({
+  hours: z.array(
+    z
+      .object({
+        day: z.enum(WEEKDAY_IDS),
+        isOpen: z.boolean(),
+        opens: timeSchema,
+        closes: timeSchema,
+      })
+      // Las horas en formato HH:MM se comparan como texto
+      .refine((entry) => !entry.isOpen || entry.opens < entry.closes, {
+        message: "La hora de cierre debe ser posterior a la de apertura",
+        path: ["closes"],
+      })
+  ),
+});
+
+export type ListingHoursFormData = z.infer<typeof listingHoursSchema>;
+
+export const listingPricesSchema = z.object({
+  prices: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        label: z
+          .string()
+          .trim()
+          .min(1, "Describe el producto o servicio")
+          .max(60, "La descripción es demasiado larga"),
+        amount: z
+          .number({ message: "Ingresa el precio" })
+          .int("Ingresa el precio sin decimales")
+          .min(1, "Ingresa el precio"),
+      })
+    )
+    .max(
+      MAX_LISTING_PRICES,
+      `Puedes publicar hasta ${MAX_LISTING_PRICES} precios`
+    ),
+});
+
+export type ListingPricesFormData = z.infer<typeof listingPricesSchema>;
+
+// =================== ESQUEMAS DE REPORTES ===================
+// Un esquema por paso del formulario; reportSchema valida el envío completo
+export const reportCategoryStepSchema = z.object({
+  category: z.enum(REPORT_CATEGORY_IDS, {
+    message: "Selecciona una categoría",
+  }),
+});
+
+export const reportDetailsStepSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "El título es requerido")
+    .min(5, "El título debe tener al menos 5 caracteres")
+    .max(80, "El título es demasiado largo"),
+  description: z
+    .string()
+    .trim()
+    .min(1, "La descripción es requerida")
+    .min(20, "Describe el problema con al menos 20 caracteres")
+    .max(1000, "La descripción es demasiado larga"),
+});
+
+const reportPhotoSchema = z.object({
+  uri: z.string().min(1),
+  fileName: z.string().optional(),
+  mimeType: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+export const reportPhotosStepSchema = z.object({
+  photos: z
+    .array(reportPhotoSchema)
+    .max(MAX_REPORT_PHOTOS, `Puedes adjuntar hasta ${MAX_REPORT_PHOTOS} fotos`),
+});
+
+export const reportLocationStepSchema = z.object({
+  municipality: z
+    .string()
+    .min(1, "Selecciona el municipio")
+    .refine(
+      (value) => tolimaMunicipalities.includes(value),
+      "Selecciona un municipio del Tolima"
+    ),
+  address: z
+    .string()
+    .trim()
+    .min(1, "La dirección es requerida")
+    .min(5, "Ingresa una dirección más específica")
+    .max(150, "La dirección es demasiado larga"),
+  reference: z
+    .string()
+    .trim()
+    .max(150, "El punto de referencia es demasiado largo")
+    .optional(),
+});
+
+export const reportSchema = z.object({
+  ...reportCategoryStepSchema.shape,
+  ...reportDetailsStepSchema.shape,
+  ...reportPhotosStepSchema.shape,
+  ...reportLocationStepSchema.shape,
+});
+
+export type ReportPhoto = z.infer<typeof reportPhotoSchema>;
+
+export type ReportFormData = z.infer<typeof reportSchema>;
+
+// =================== ESQUEMAS DE RESEÑAS ===================
+export const reviewSchema = z.object({
+  rating: z
+    .number({ message: "Elige una calificación" })
+    .int()
+    .min(1, "Elige una calificación")
+    .max(5, "La calificación máxima es 5"),
+  body: z
+    .string()
+    .trim()
+    .min(1, "Cuéntanos tu experiencia")
+    .min(REVIEW_MIN_LENGTH, `Escribe al menos ${REVIEW_MIN_LENGTH} caracteres`)
+    .max(REVIEW_MAX_LENGTH, "La reseña es demasiado larga"),
+  // Solo las fotos nuevas; las ya publicadas se conservan por id
+  photos: z
+    .array(reportPhotoSchema)
+    .max(MAX_REVIEW_PHOTOS, `Puedes adjuntar hasta ${MAX_REVIEW_PHOTOS} fotos`),
+});
+
+export type ReviewFormData = z.infer<typeof reviewSchema>;
+
+export const reviewReportSchema = z.object({
+  reason: z.enum(REVIEW_REPORT_REASONS, {
+    message: "Selecciona un motivo",
+  }),
+  details: z
+    .string()
+    .trim()
+    .max(300, "Los detalles son demasiado largos")
+    .optional(),
+});
+
+export type ReviewReportFormData = z.infer<typeof reviewReportSchema>;
+
+// =================== ESQUEMA DE SOLICITUD DE TRÁMITE ===================
+export const tramiteRequestSchema = z.object({
+  contactPhone: z
+    .string()
+    .min(1, "El teléfono de contacto es requerido")
+    .refine(
+      (value) => phoneSchema.safeParse(value).success,
+      "Ingresa un número de teléfono colombiano válido (+57 3XX XXXXXXX)"
+    ),
+  notes: z
+    .string()
+    .trim()
+    .max(500, "Las observaciones son demasiado largas")
+    .optional(),
+  acceptRequirements: z
+    .boolean()
+    .refine(
+      (value) => value === true,
+      "Confirma que cuentas con los requisitos"
+    ),
+});
+
+export type TramiteRequestFormData = z.infer<typeof tramiteRequestSchema>;
+
+// =================== ESQUEMAS DE VIAJES ===================
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Usa el formato AAAA-MM-DD")
+  .refine((value) => {
+    const [year, month, day] = value.split("-").map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }, "Ingresa una fecha válida");
+
+const tripNotesSchema = z
+  .string()
+  .trim()
+  .max(1000, "Las notas son demasiado largas");
+
+export const tripSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, "El nombre debe tener al menos 3 caracteres")
+    .max(60, "El nombre es demasiado largo"),
+  startDate: isoDateSchema,
+  dayCount: z
+    .number()
+    .int()
+    .min(1, "El viaje debe tener al menos un día")
+    .max(MAX_TRIP_DAYS, `Máximo ${MAX_TRIP_DAYS} días por viaje`),
+  notes: tripNotesSchema.optional(),
+});
+
+export type TripFormData = z.infer<typeof tripSchema>;
+
+/**
+ * Itinerario recibido por enlace: se valida antes de importarlo
+ */
+export const sharedTripSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  startDate: isoDateSchema,
+  notes: tripNotesSchema.default(""),
+  days: z
+    .array(
+      z.object({
+        notes: tripNotesSchema.default(""),
+        stops: z
+          .array(
+            z.object({
+              kind: z.enum(TRIP_STOP_KINDS),
+              refId: z.string().min(1).max(100),
+              name: z.string().min(1).max(120),
+              municipality: z.string().min(1).max(60),
+              latitude: z.number().min(-90).max(90).optional(),
+              longitude: z.number().min(-180).max(180).optional(),
+            })
+          )
+          .max(MAX_STOPS_PER_DAY),
+      })
+    )
+    .min(1)
+    .max(MAX_TRIP_DAYS),
+});
+
 // =================== VALIDADORES UTILITARIOS ===================
 
 /**
@@ -142,6 +513,28 @@ export const validatePasswordStrength = (password: string) => {
   };
 };
 
+/**
+ * Valida un NIT colombiano con su dígito de verificación (DIAN),
+ * p. ej. "900.123.456-8"
+ */
+export const isValidNit = (nit: string): boolean => {
+  const match = nit.replace(/[\s.]/g, "").match(/^(\d{6,15})-?(\d)$/);
+  if (!match) return false;
+
+  const [, body, checkDigit] = match;
+  const weights = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+  // Los pesos se aplican de derecha a izquierda
+  const sum = body
+    .split("")
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * weights[index], 0);
+
+  const remainder = sum % 11;
+  const expected = remainder > 1 ? 11 - remainder : remainder;
+  return expected === Number(checkDigit);
+};
+
 /**
  * Sanitiza input de texto
  */
@@ -172,6 +565,37 @@ export const formatColombianPhone = (phone: string): string => {
   return phone;
 };
 
+/**
+ * Normaliza lo que se escribe en un campo de teléfono: conserva el prefijo
+ * +57 y aplica el formato colombiano
+ */
+export const formatPhoneInput = (text: string): string => {
+  // Si el usuario trata de borrar todo, mantener el prefijo +57
+  if (text.length < 4) {
+    return "+57 ";
+  }
+
+  // Si no empieza con +57, agregarlo automáticamente
+  if (!text.startsWith("+57")) {
+    // Si empieza con 57, agregar el +
+    if (text.startsWith("57")) {
+      text = "+" + text;
+    } else if (
+      text.startsWith("3") ||
+      text.startsWith("6") ||
+      text.startsWith("1")
+    ) {
+      // Si empieza con números colombianos típicos, agregar +57
+      text = "+57 " + text;
+    } else {
+      // Para cualquier otro caso, forzar el prefijo
+      text = "+57 " + text.replace(/^\+?57?\s?/, "");
+    }
+  }
+
+  return formatColombianPhone(text);
+};
+
 // =================== MENSAJES DE ERROR PERSONALIZADOS ===================
 export const errorMessages = {
   required: "Este campo es requerido",
@@ -0,0 +1,80 @@
+import { UserData } from "./secure-storage";
+
+/**
+ * TolimaGO - Auth Events
+ * Bus de eventos tipado para el ciclo de vida de la sesión
+ */
+
+export const AUTH_EVENTS = {
+  LOGIN_SUCCESS: "auth:login:success",
+  LOGIN_FAILED: "auth:login:failed",
+  // Hay sesión utilizable: login, registro o sesión restaurada al abrir la app
+  SESSION_READY: "auth:session:ready",
+  LOGOUT: "auth:logout",
+  TOKEN_REFRESHED: "auth:token:refreshed",
+  SESSION_EXPIRED: "auth:session:expired",
+} as const;
+
+export type AuthEventName = (typeof AUTH_EVENTS)[keyof typeof AUTH_EVENTS];
+
+export type SessionExpiredReason =
+  | "refresh_failed"
+  | "no_refresh_token"
+  | "inactivity"
+  | "biometric_failed";
+
+export type SessionReadyOrigin = "login" | "register" | "restored";
+
+// "expired": la sesión terminó sin que el usuario la cerrara
+export type LogoutReason = "user" | "account_deleted" | "expired";
+
+export interface AuthEventPayloads {
+  "auth:login:success": { user: UserData };
+  "auth:login:failed": { message: string; code?: string };
+  "auth:session:ready": { user: UserData; origin: SessionReadyOrigin };
+  "auth:logout": { reason: LogoutReason };
+  "auth:token:refreshed": { expiresAt: number | null };
+  "auth:session:expired": { reason: SessionExpiredReason };
+}
+
+export type AuthEventListener<E extends AuthEventName> = (
+  payload: AuthEventPayloads[E]
+) => void;
+
+class AuthEventBus {
+  private listeners = new Map<AuthEventName, Set<AuthEventListener<any>>>();
+
+  /**
+   * Suscribe un listener a un evento; devuelve la función para cancelar
+   */
+  on<E extends AuthEventName>(
+    event: E,
+    listener: AuthEventListener<E>
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Publica un evento; un listener que falla no afecta a los demás
+   */
+  emit<E extends AuthEventName>(event: E, payload: AuthEventPayloads[E]): void {
+    console.log(`📣 [AuthEvents] ${event}`);
+
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`📣 [AuthEvents] Listener for ${event} failed:`, error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const authEvents = new AuthEventBus();
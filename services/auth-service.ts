@@ -1,4 +1,15 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  AUTH_EVENTS,
+  authEvents,
+  LogoutReason,
+  SessionExpiredReason,
+} from "./auth-events";
+import type { BusinessRegistration } from "./business-service";
 import { httpClient } from "./http-client";
+import { notificationService } from "./notification-service";
+import type { ConsentGrant } from "./privacy-service";
 import { secureTokenStorage, TokenData, UserData } from "./secure-storage";
 
 /**
@@ -25,6 +36,10 @@ export interface RegisterData {
   city?: string;
   isResident?: boolean;
   role?: "user" | "admin" | "business";
+  // Términos y política de datos aceptados en el formulario
+  consents?: ConsentGrant[];
+  // NIT y categoría cuando se registra un comercio (rol "business")
+  business?: BusinessRegistration;
 }
 
 export interface AuthResponse {
@@ -41,6 +56,39 @@ export interface ConfirmResetPassword {
   newPassword: string;
 }
 
+export type TokenStatus = "valid" | "expired" | "invalid";
+
+// =================== POLÍTICA DE SESIÓN ===================
+export interface AuthPolicy {
+  maxLoginAttempts: number;
+  lockDuration: number; // minutos
+  sessionTimeout: number; // minutos de inactividad (0 = sin límite)
+  refreshThreshold: number; // minutos antes de expirar el access token
+}
+
+export const DEFAULT_AUTH_POLICY: AuthPolicy = {
+  maxLoginAttempts: 5,
+  lockDuration: 30,
+  sessionTimeout: 60,
+  refreshThreshold: 5,
+};
+
+export interface LoginLockout {
+  attempts: number;
+  remainingAttempts: number;
+  lockedUntil: string | null;
+}
+
+// Estado no sensible; los tokens viven solo en SecureStore
+const SESSION_KEYS = {
+  LOGIN_ATTEMPTS: "@tolimago/login_attempts",
+  LOCK_UNTIL: "@tolimago/lock_until",
+  LAST_ACTIVITY: "@tolimago/last_activity",
+} as const;
+
+// Claves del antiguo hook useAuth que guardaba la sesión en AsyncStorage
+const LEGACY_SESSION_KEYS = ["@tolimago/tokens", "@tolimago/user"];
+
 // =================== ESTADOS DE AUTENTICACIÓN ===================
 export enum AuthState {
   IDLE = "idle",
@@ -54,9 +102,23 @@ export interface AuthError {
   message: string;
   field?: string; // Para errores específicos de campos
   code?: string;
+  status?: number;
 }
 
 class AuthService {
+  private policy: AuthPolicy = DEFAULT_AUTH_POLICY;
+
+  /**
+   * Ajusta la política de bloqueo, inactividad y refresh
+   */
+  configure(policy: Partial<AuthPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  getPolicy(): AuthPolicy {
+    return this.policy;
+  }
+
   /**
    * Registra un nuevo usuario
    */
@@ -71,6 +133,8 @@ class AuthService {
         city: registerData.city || "",
         isResident: registerData.isResident || true,
         role: registerData.role || "user",
+        consents: registerData.consents ?? [],
+        business: registerData.business,
       };
 
       // Hacer llamada a la API
@@ -118,8 +182,13 @@ class AuthService {
       await Promise.all([
         secureTokenStorage.setTokens(authResponse.tokens),
         secureTokenStorage.setUserData(authResponse.user),
+        this.recordActivity(),
       ]);
 
+      authEvents.emit(AUTH_EVENTS.SESSION_READY, {
+        user: authResponse.user,
+        origin: "register",
+      });
       return authResponse;
     } catch (error: any) {
       throw this.handleAuthError(error);
@@ -130,6 +199,13 @@ class AuthService {
    * Inicia sesión del usuario
    */
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
+    const lockout = await this.getLoginLockout();
+    if (lockout.lockedUntil) {
+      const lockoutError = this.createLockoutError(lockout.lockedUntil);
+      authEvents.emit(AUTH_EVENTS.LOGIN_FAILED, lockoutError);
+      throw lockoutError;
+    }
+
     try {
       // Hacer llamada a la API real
       const response = await httpClient.postPublic<{
@@ -175,19 +251,47 @@ class AuthService {
       await Promise.all([
         secureTokenStorage.setTokens(authResponse.tokens),
         secureTokenStorage.setUserData(authResponse.user),
+        this.resetLoginAttempts(),
+        this.recordActivity(),
       ]);
 
+      authEvents.emit(AUTH_EVENTS.LOGIN_SUCCESS, { user: authResponse.user });
+      authEvents.emit(AUTH_EVENTS.SESSION_READY, {
+        user: authResponse.user,
+        origin: "login",
+      });
       return authResponse;
     } catch (error: any) {
-      throw this.handleAuthError(error);
+      let authError = this.handleAuthError(error);
+
+      // Solo cuentan los rechazos del servidor, no los fallos de red
+      if (error?.code !== "ERR_NETWORK" && error?.code !== "ECONNABORTED") {
+        const lockedUntil = await this.registerFailedLogin();
+        if (lockedUntil) {
+          authError = this.createLockoutError(lockedUntil);
+        }
+      }
+
+      authEvents.emit(AUTH_EVENTS.LOGIN_FAILED, {
+        message: authError.message,
+        code: authError.code,
+      });
+      throw authError;
     }
   }
 
   /**
    * Cierra sesión del usuario
    */
-  async logout(): Promise<void> {
+  async logout(reason: LogoutReason = "user"): Promise<void> {
     try {
+      // Desvincular el token push mientras la sesión sigue autenticada
+      await notificationService
+        .unregisterPushToken()
+        .catch((pushError) =>
+          console.warn("Push token removal failed:", pushError)
+        );
+
       // Intentar logout en el servidor (opcional, puede fallar si no hay conexión)
       try {
         await httpClient.post("/auth/logout");
@@ -200,44 +304,50 @@ class AuthService {
       }
 
       // Limpiar tokens localmente
-      await secureTokenStorage.clearAll();
+      await Promise.all([
+        secureTokenStorage.clearAll(),
+        AsyncStorage.removeItem(SESSION_KEYS.LAST_ACTIVITY),
+      ]);
       httpClient.removeAuthToken();
     } catch (error: any) {
       // Asegurar limpieza local incluso si hay errores
-      await secureTokenStorage.clearAll();
-      httpClient.removeAuthToken();
+      await this.clearLocalSession();
       throw this.handleAuthError(error);
+    } finally {
+      // Los módulos limpian sus datos del usuario (p. ej. la cola offline)
+      authEvents.emit(AUTH_EVENTS.LOGOUT, { reason });
     }
   }
 
+  /**
+   * Cierra la sesión sin intervención del usuario (p. ej. por inactividad)
+   * y publica SESSION_EXPIRED para que la app vuelva al login
+   */
+  async expireSession(reason: SessionExpiredReason): Promise<void> {
+    await this.logout("expired").catch(() => {});
+    authEvents.emit(AUTH_EVENTS.SESSION_EXPIRED, { reason });
+  }
+
+  /**
+   * Cierra la sesión solo en el dispositivo, cuando el servidor ya no la
+   * acepta. Publica LOGOUT para que los módulos limpien los datos del
+   * usuario y SESSION_EXPIRED para que la app vuelva al login
+   */
+  async expireLocalSession(reason: SessionExpiredReason): Promise<void> {
+    await this.clearLocalSession();
+    authEvents.emit(AUTH_EVENTS.LOGOUT, { reason: "expired" });
+    authEvents.emit(AUTH_EVENTS.SESSION_EXPIRED, { reason });
+  }
+
   /**
    * Refresca los tokens de autenticación
    */
   async refreshTokens(): Promise<TokenData> {
     try {
-      const refreshToken = await secureTokenStorage.getRefreshToken();
-      if (!refreshToken) {
-        throw new Error("No refresh token available");
-      }
-
-      const response = await httpClient.postPublic<{ tokens: TokenData }>(
-        "/auth/refresh",
-        {
-          refreshToken,
-        }
-      );
-
-      if (!response.success || !response.data?.tokens) {
-        throw new Error(response.message || "Token refresh failed");
-      }
-
-      // Guardar nuevos tokens
-      await secureTokenStorage.setTokens(response.data.tokens);
-
-      return response.data.tokens;
+      // Comparte la petición en vuelo con el interceptor de 401 de HttpClient,
+      // que también limpia la sesión si el servidor rechaza el refresh token
+      return await httpClient.refreshSession();
     } catch (error: any) {
-      // Si el refresh falla, limpiar tokens
-      await secureTokenStorage.clearAll();
       throw this.handleAuthError(error);
     }
   }
@@ -297,14 +407,27 @@ class AuthService {
     }
   }
 
+  /**
+   * Milisegundos hasta que el token entre en la ventana de refresh
+   * (null si no hay sesión)
+   */
+  async getRefreshDelay(): Promise<number | null> {
+    const expiry = await secureTokenStorage.getTokenExpiry();
+    if (expiry === null) return null;
+
+    return Math.max(
+      0,
+      expiry - Date.now() - this.policy.refreshThreshold * 60 * 1000
+    );
+  }
+
   /**
    * Verifica si el token necesita refresh pronto
    */
   async shouldRefreshToken(): Promise<boolean> {
     try {
       const timeUntilExpiry = await secureTokenStorage.getTimeUntilExpiry();
-      // Refresh si quedan menos de 5 minutos
-      return timeUntilExpiry < 5;
+      return timeUntilExpiry < this.policy.refreshThreshold;
     } catch {
       return false;
     }
@@ -362,6 +485,91 @@ class AuthService {
     }
   }
 
+  /**
+   * Verifica un token de reset de contraseña distinguiendo expirado de inválido
+   */
+  async checkResetToken(token: string): Promise<TokenStatus> {
+    try {
+      const response = await httpClient.postPublic<void>("/auth/verify-token", {
+        token,
+      });
+      return response.success ? "valid" : "invalid";
+    } catch (error: any) {
+      return this.getTokenErrorStatus(error) ?? "invalid";
+    }
+  }
+
+  /**
+   * Clasifica un error de la API relacionado con tokens de un solo uso
+   * (reset de contraseña y verificación de email)
+   */
+  getTokenErrorStatus(error: any): TokenStatus | null {
+    const code = String(error?.code || "").toUpperCase();
+    const message = String(error?.message || "").toLowerCase();
+
+    if (code === "TOKEN_EXPIRED" || message.includes("expired")) {
+      return "expired";
+    }
+
+    if (
+      code === "INVALID_TOKEN" ||
+      code === "TOKEN_INVALID" ||
+      message.includes("invalid token")
+    ) {
+      return "invalid";
+    }
+
+    return null;
+  }
+
+  /**
+   * Verifica el email con el token recibido por correo.
+   * Funciona con o sin sesión activa; si hay sesión actualiza el usuario guardado.
+   */
+  async verifyEmail(token: string): Promise<UserData | null> {
+    try {
+      const response = await httpClient.postPublic<{ user?: UserData }>(
+        "/auth/verify-email",
+        { token }
+      );
+
+      if (!response.success) {
+        throw new Error(response.message || "Email verification failed");
+      }
+
+      const storedUser = await secureTokenStorage.getUserData();
+      if (!storedUser) {
+        return response.data?.user ?? null;
+      }
+
+      const updatedUser: UserData = {
+        ...storedUser,
+        ...response.data?.user,
+        isEmailVerified: true,
+      };
+      await secureTokenStorage.setUserData(updatedUser);
+
+      return updatedUser;
+    } catch (error: any) {
+      throw this.handleAuthError(error);
+    }
+  }
+
+  /**
+   * Reenvía el correo de verificación al usuario autenticado
+   */
+  async resendVerification(): Promise<void> {
+    try {
+      const response = await httpClient.post<void>("/auth/resend-verification");
+
+      if (!response.success) {
+        throw new Error(response.message || "Resend verification failed");
+      }
+    } catch (error: any) {
+      throw this.handleAuthError(error);
+    }
+  }
+
   /**
    * Obtiene datos de usuario almacenados localmente
    */
@@ -380,12 +588,143 @@ class AuthService {
    * Limpia toda la sesión local (sin llamar al servidor)
    */
   async clearLocalSession(): Promise<void> {
-    await secureTokenStorage.clearAll();
+    await Promise.all([
+      secureTokenStorage.clearAll(),
+      AsyncStorage.removeItem(SESSION_KEYS.LAST_ACTIVITY).catch(() => {}),
+    ]);
     httpClient.removeAuthToken();
   }
 
+  /**
+   * Elimina la sesión que el antiguo hook useAuth guardaba en AsyncStorage
+   */
+  async removeLegacySession(): Promise<void> {
+    try {
+      await AsyncStorage.multiRemove(LEGACY_SESSION_KEYS);
+    } catch (error) {
+      console.warn("Failed to remove legacy session data:", error);
+    }
+  }
+
+  // =================== BLOQUEO POR INTENTOS FALLIDOS ===================
+
+  /**
+   * Estado actual del bloqueo de login; un bloqueo vencido se limpia solo
+   */
+  async getLoginLockout(): Promise<LoginLockout> {
+    try {
+      const [attemptsValue, lockUntilValue] = await Promise.all([
+        AsyncStorage.getItem(SESSION_KEYS.LOGIN_ATTEMPTS),
+        AsyncStorage.getItem(SESSION_KEYS.LOCK_UNTIL),
+      ]);
+
+      if (lockUntilValue && new Date(lockUntilValue).getTime() <= Date.now()) {
+        await this.resetLoginAttempts();
+        return this.buildLockout(0, null);
+      }
+
+      return this.buildLockout(
+        attemptsValue ? parseInt(attemptsValue, 10) : 0,
+        lockUntilValue
+      );
+    } catch {
+      return this.buildLockout(0, null);
+    }
+  }
+
+  async resetLoginAttempts(): Promise<void> {
+    await AsyncStorage.multiRemove([
+      SESSION_KEYS.LOGIN_ATTEMPTS,
+      SESSION_KEYS.LOCK_UNTIL,
+    ]).catch(() => {});
+  }
+
+  // =================== INACTIVIDAD ===================
+
+  /**
+   * Guarda la marca de la última interacción del usuario
+   */
+  async recordActivity(at: Date = new Date()): Promise<void> {
+    await AsyncStorage.setItem(
+      SESSION_KEYS.LAST_ACTIVITY,
+      at.toISOString()
+    ).catch(() => {});
+  }
+
+  async getLastActivity(): Promise<Date | null> {
+    try {
+      const value = await AsyncStorage.getItem(SESSION_KEYS.LAST_ACTIVITY);
+      return value ? new Date(value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Verifica si la sesión superó el tiempo máximo de inactividad
+   */
+  isSessionInactive(lastActivity: Date | null): boolean {
+    if (!lastActivity || this.policy.sessionTimeout <= 0) return false;
+
+    const inactiveMs = Date.now() - lastActivity.getTime();
+    return inactiveMs >= this.policy.sessionTimeout * 60 * 1000;
+  }
+
   // =================== MÉTODOS PRIVADOS ===================
 
+  /**
+   * Suma un intento fallido y bloquea al superar el máximo.
+   * Devuelve la fecha de desbloqueo si el login quedó bloqueado.
+   */
+  private async registerFailedLogin(): Promise<string | null> {
+    try {
+      const { attempts } = await this.getLoginLockout();
+      const nextAttempts = attempts + 1;
+
+      await AsyncStorage.setItem(
+        SESSION_KEYS.LOGIN_ATTEMPTS,
+        String(nextAttempts)
+      );
+
+      if (nextAttempts < this.policy.maxLoginAttempts) return null;
+
+      const lockedUntil = new Date(
+        Date.now() + this.policy.lockDuration * 60 * 1000
+      ).toISOString();
+      await AsyncStorage.setItem(SESSION_KEYS.LOCK_UNTIL, lockedUntil);
+
+      console.log(`🔒 [Auth] Login locked until ${lockedUntil}`);
+      return lockedUntil;
+    } catch {
+      return null;
+    }
+  }
+
+  private buildLockout(
+    attempts: number,
+    lockedUntil: string | null
+  ): LoginLockout {
+    return {
+      attempts,
+      remainingAttempts: Math.max(0, this.policy.maxLoginAttempts - attempts),
+      lockedUntil,
+    };
+  }
+
+  private createLockoutError(lockedUntil: string): AuthError {
+    const remainingMinutes = Math.max(
+      1,
+      Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000)
+    );
+
+    return {
+      message: `Demasiados intentos fallidos. Intenta de nuevo en ${remainingMinutes} ${
+        remainingMinutes === 1 ? "minuto" : "minutos"
+      }.`,
+      code: "ACCOUNT_LOCKED",
+    };
+  }
+
   /**
    * Maneja errores de autenticación de manera consistente
    */
@@ -396,6 +735,7 @@ class AuthService {
         message: errorData.message || "Authentication error occurred",
         field: errorData.field,
         code: errorData.code,
+        status: error.response.status,
       };
     }
 
@@ -403,6 +743,7 @@ class AuthService {
       return {
         message: error.message,
         code: error.code,
+        status: error.status ?? error.response?.status,
       };
     }
 
@@ -415,3 +756,8 @@ class AuthService {
 
 // Singleton instance
 export const authService = new AuthService();
+
+// Un refresh token rechazado cierra la sesión igual que un logout local
+httpClient.setSessionRejectedHandler((reason) =>
+  authService.expireLocalSession(reason)
+);
@@ -0,0 +1,326 @@
+import * as LocalAuthentication from "expo-local-authentication";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+
+import { AUTH_EVENTS, authEvents } from "./auth-events";
+import { secureTokenStorage } from "./secure-storage";
+
+/**
+ * TolimaGO - Biometric Lock
+ * Bloqueo opcional con biometría o código del dispositivo que protege
+ * el refresh token guardado. El acceso al hardware pasa por un adapter
+ * intercambiable (Expo en dispositivos, fake en web y pruebas).
+ */
+
+// =================== ADAPTERS ===================
+export type BiometricKind = "fingerprint" | "facial" | "iris" | "passcode";
+
+export interface BiometricAvailability {
+  available: boolean;
+  kinds: BiometricKind[];
+}
+
+export type BiometricFailure =
+  | "cancelled"
+  | "failed"
+  | "unavailable"
+  | "lockout";
+
+export type BiometricResult =
+  | { success: true }
+  | { success: false; error: BiometricFailure };
+
+export interface BiometricAdapter {
+  getAvailability(): Promise<BiometricAvailability>;
+  authenticate(promptMessage: string): Promise<BiometricResult>;
+}
+
+/**
+ * Implementación real con expo-local-authentication.
+ * Permite el código del dispositivo como alternativa a la biometría.
+ */
+export class ExpoBiometricAdapter implements BiometricAdapter {
+  async getAvailability(): Promise<BiometricAvailability> {
+    try {
+      const [level, types] = await Promise.all([
+        LocalAuthentication.getEnrolledLevelAsync(),
+        LocalAuthentication.supportedAuthenticationTypesAsync(),
+      ]);
+
+      if (level === LocalAuthentication.SecurityLevel.NONE) {
+        return { available: false, kinds: [] };
+      }
+
+      const kinds: BiometricKind[] = types.map((type) => {
+        switch (type) {
+          case LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION:
+            return "facial";
+          case LocalAuthentication.AuthenticationType.IRIS:
+            return "iris";
+          default:
+            return "fingerprint";
+        }
+      });
+
+      return {
+        available: true,
+        kinds: kinds.length > 0 ? kinds : ["passcode"],
+      };
+    } catch (error) {
+      console.error("🔐 [Biometric] Availability check failed:", error);
+      return { available: false, kinds: [] };
+    }
+  }
+
+  async authenticate(promptMessage: string): Promise<BiometricResult> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: "Cancelar",
+        fallbackLabel: "Usar código",
+        disableDeviceFallback: false,
+      });
+
+      if (result.success) return { success: true };
+
+      switch (result.error) {
+        case "user_cancel":
+        case "system_cancel":
+        case "app_cancel":
+          return { success: false, error: "cancelled" };
+        case "lockout":
+          return { success: false, error: "lockout" };
+        case "not_enrolled":
+        case "not_available":
+        case "passcode_not_set":
+          return { success: false, error: "unavailable" };
+        default:
+          return { success: false, error: "failed" };
+      }
+    } catch (error) {
+      console.error("🔐 [Biometric] Authentication error:", error);
+      return { success: false, error: "failed" };
+    }
+  }
+}
+
+export interface FakeBiometricOptions {
+  available?: boolean;
+  kinds?: BiometricKind[];
+  // Resultados a devolver en orden; el último se repite
+  results?: BiometricResult[];
+}
+
+/**
+ * Implementación determinista sin hardware ni prompts
+ */
+export class FakeBiometricAdapter implements BiometricAdapter {
+  private available: boolean;
+  private kinds: BiometricKind[];
+  private results: BiometricResult[];
+
+  constructor(options: FakeBiometricOptions = {}) {
+    this.available = options.available ?? true;
+    this.kinds = options.kinds ?? ["fingerprint"];
+    this.results = options.results ?? [{ success: true }];
+  }
+
+  async getAvailability(): Promise<BiometricAvailability> {
+    return this.available
+      ? { available: true, kinds: [...this.kinds] }
+      : { available: false, kinds: [] };
+  }
+
+  async authenticate(): Promise<BiometricResult> {
+    if (!this.available) return { success: false, error: "unavailable" };
+
+    const result =
+      this.results.length > 1 ? this.results.shift()! : this.results[0];
+    return result ?? { success: true };
+  }
+}
+
+/**
+ * Adapter por defecto según la plataforma
+ */
+export function createBiometricAdapter(): BiometricAdapter {
+  if (Platform.OS === "web") {
+    return new FakeBiometricAdapter({ available: false });
+  }
+
+  return new ExpoBiometricAdapter();
+}
+
+// =================== CONFIGURACIÓN ===================
+export interface BiometricSettings {
+  enabled: boolean;
+  // Minutos en background antes de volver a pedir desbloqueo
+  backgroundTimeout: number;
+  // Ya se ofreció activar el bloqueo tras el login
+  prompted: boolean;
+}
+
+export const DEFAULT_BIOMETRIC_SETTINGS: BiometricSettings = {
+  enabled: false,
+  backgroundTimeout: 5,
+  prompted: false,
+};
+
+// Minutos en background que se ofrecen en la pantalla de seguridad
+export const BACKGROUND_TIMEOUT_OPTIONS = [1, 5, 15, 30] as const;
+
+// Intentos fallidos antes de exigir login completo
+export const MAX_UNLOCK_ATTEMPTS = 3;
+
+const SETTINGS_KEY = "tolimaGO_biometric_settings";
+
+export type UnlockResult =
+  | { status: "unlocked" }
+  | { status: "cancelled" }
+  | { status: "failed"; remainingAttempts: number }
+  | { status: "fallback" };
+
+// =================== SERVICIO ===================
+class BiometricLockService {
+  private adapter: BiometricAdapter = createBiometricAdapter();
+  private settings: BiometricSettings = DEFAULT_BIOMETRIC_SETTINGS;
+  private loaded = false;
+  private failedAttempts = 0;
+
+  /**
+   * Reemplaza el adapter (fake en pruebas)
+   */
+  setAdapter(adapter: BiometricAdapter): void {
+    this.adapter = adapter;
+  }
+
+  getAvailability(): Promise<BiometricAvailability> {
+    return this.adapter.getAvailability();
+  }
+
+  async getSettings(): Promise<BiometricSettings> {
+    if (!this.loaded) {
+      try {
+        const stored = await SecureStore.getItemAsync(SETTINGS_KEY);
+        this.settings = stored
+          ? { ...DEFAULT_BIOMETRIC_SETTINGS, ...JSON.parse(stored) }
+          : DEFAULT_BIOMETRIC_SETTINGS;
+      } catch {
+        this.settings = DEFAULT_BIOMETRIC_SETTINGS;
+      }
+      this.loaded = true;
+    }
+
+    return this.settings;
+  }
+
+  async updateSettings(
+    changes: Partial<BiometricSettings>
+  ): Promise<BiometricSettings> {
+    const current = await this.getSettings();
+    this.settings = { ...current, ...changes };
+
+    try {
+      await SecureStore.setItemAsync(
+        SETTINGS_KEY,
+        JSON.stringify(this.settings)
+      );
+    } catch (error) {
+      console.error("🔐 [Biometric] Failed to persist settings:", error);
+    }
+
+    return this.settings;
+  }
+
+  /**
+   * Activa el bloqueo tras confirmar que el usuario puede autenticarse
+   */
+  async enable(): Promise<boolean> {
+    const { available } = await this.adapter.getAvailability();
+    if (!available) return false;
+
+    const result = await this.adapter.authenticate(
+      "Confirma para activar el desbloqueo"
+    );
+    if (!result.success) return false;
+
+    await this.updateSettings({ enabled: true, prompted: true });
+    return true;
+  }
+
+  async disable(): Promise<void> {
+    await this.updateSettings({ enabled: false });
+    this.release();
+  }
+
+  /**
+   * Indica si una sesión guardada debe abrirse bloqueada
+   */
+  async isEnabled(): Promise<boolean> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) return false;
+
+    const { available } = await this.adapter.getAvailability();
+    return available;
+  }
+
+  /**
+   * Verifica si el tiempo en background exige volver a bloquear
+   */
+  async shouldLockAfterBackground(backgroundedAt: number): Promise<boolean> {
+    if (!(await this.isEnabled())) return false;
+
+    const { backgroundTimeout } = await this.getSettings();
+    return Date.now() - backgroundedAt >= backgroundTimeout * 60 * 1000;
+  }
+
+  /**
+   * Bloquea el acceso al refresh token hasta el próximo desbloqueo
+   */
+  lock(): void {
+    this.failedAttempts = 0;
+    secureTokenStorage.lockRefreshToken();
+  }
+
+  /**
+   * Libera el refresh token sin pedir autenticación (logout o desactivación)
+   */
+  release(): void {
+    this.failedAttempts = 0;
+    secureTokenStorage.unlockRefreshToken();
+  }
+
+  async unlock(): Promise<UnlockResult> {
+    const result = await this.adapter.authenticate("Desbloquea TolimaGO");
+
+    if (result.success) {
+      this.release();
+      return { status: "unlocked" };
+    }
+
+    if (result.error === "cancelled") {
+      return { status: "cancelled" };
+    }
+
+    this.failedAttempts += 1;
+    const remainingAttempts = MAX_UNLOCK_ATTEMPTS - this.failedAttempts;
+
+    if (result.error !== "failed" || remainingAttempts <= 0) {
+      return { status: "fallback" };
+    }
+
+    return { status: "failed", remainingAttempts };
+  }
+}
+
+// Singleton instance
+export const biometricLock = new BiometricLockService();
+
+// Tras cerrar sesión el siguiente usuario decide si activa el bloqueo en
+// este dispositivo; si la sesión expiró se conserva la elección
+authEvents.on(AUTH_EVENTS.LOGOUT, ({ reason }) => {
+  biometricLock.release();
+  if (reason !== "expired") {
+    biometricLock.updateSettings({ enabled: false, prompted: false });
+  }
+});
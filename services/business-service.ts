@@ -0,0 +1,288 @@
+import { BusinessCategory, ListingStatus, Weekday } from "@/constants/business";
+import { appendFormDataFile } from "@/lib/form-data";
+import {
+  ListingFormData,
+  ListingHoursFormData,
+  ListingPricesFormData,
+  ReportPhoto,
+} from "@/lib/validations";
+import { httpClient } from "./http-client";
+
+/**
+ * TolimaGO - Business Service
+ * Fichas de comercios (hoteles, restaurantes y operadores turísticos):
+ * creación o reclamo de una ficha existente, edición de horarios, precios,
+ * fotos y contacto, y estadísticas básicas para el propietario
+ */
+
+// =================== TIPOS ===================
+export interface BusinessRegistration {
+  nit: string;
+  category: BusinessCategory;
+}
+
+export interface ListingHours {
+  day: Weekday;
+  isOpen: boolean;
+  // Formato HH:MM
+  opens: string;
+  closes: string;
+}
+
+export interface ListingPrice {
+  id: string;
+  label: string;
+  // Pesos colombianos
+  amount: number;
+}
+
+export interface ListingPhoto {
+  id: string;
+  url: string;
+}
+
+export interface BusinessListing {
+  id: string;
+  // Sin propietario mientras nadie la reclame
+  ownerId?: string;
+  name: string;
+  category: BusinessCategory;
+  municipality: string;
+  address: string;
+  description: string;
+  phone?: string;
+  whatsapp?: string;
+  email?: string;
+  website?: string;
+  hours: ListingHours[];
+  prices: ListingPrice[];
+  photos: ListingPhoto[];
+  status: ListingStatus;
+  updatedAt: string;
+}
+
+export interface ListingDailyStat {
+  // Formato AAAA-MM-DD
+  date: string;
+  visits: number;
+}
+
+export interface ListingStats {
+  totalVisits: number;
+  totalFavourites: number;
+  daily: ListingDailyStat[];
+}
+
+/**
+ * Normaliza un NIT a "número-dígito" antes de enviarlo
+ */
+export const formatNit = (nit: string): string => {
+  const digits = nit.replace(/\D/g, "");
+  return `${digits.slice(0, -1)}-${digits.slice(-1)}`;
+};
+
+const toListingPayload = (data: ListingFormData) => ({
+  ...data,
+  phone: data.phone?.trim() || undefined,
+  whatsapp: data.whatsapp?.trim() || undefined,
+  email: data.email?.trim().toLowerCase() || undefined,
+  website: data.website?.trim() || undefined,
+});
+
+class BusinessService {
+  // =================== FICHAS DEL PROPIETARIO ===================
+
+  async getMyListings(): Promise<BusinessListing[]> {
+    const response = await httpClient.get<{ listings: BusinessListing[] }>(
+      "/business/listings/me"
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudieron cargar tus fichas");
+    }
+
+    return response.data.listings;
+  }
+
+  async getListing(id: string): Promise<BusinessListing> {
+    const response = await httpClient.get<{ listing: BusinessListing }>(
+      `/business/listings/${id}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo cargar la ficha");
+    }
+
+    return response.data.listing;
+  }
+
+  /**
+   * Crea una ficha nueva; queda en revisión hasta que la alcaldía la publique
+   */
+  async createListing(data: ListingFormData): Promise<BusinessListing> {
+    const response = await httpClient.post<{ listing: BusinessListing }>(
+      "/business/listings",
+      toListingPayload(data)
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo crear la ficha");
+    }
+
+    console.log(`🏪 [Business] Listing created: ${response.data.listing.id}`);
+    return response.data.listing;
+  }
+
+  // =================== RECLAMO ===================
+
+  /**
+   * Fichas del directorio sin propietario que coinciden con la búsqueda
+   */
+  async searchClaimableListings(query: string): Promise<BusinessListing[]> {
+    const response = await httpClient.get<{ listings: BusinessListing[] }>(
+      "/business/listings/claimable",
+      { params: { q: query.trim() } }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo buscar negocios");
+    }
+
+    return response.data.listings;
+  }
+
+  /**
+   * Solicita la administración de una ficha existente. El servidor la
+   * asigna tras validar el NIT registrado en la cuenta
+   */
+  async claimListing(id: string): Promise<BusinessListing> {
+    try {
+      const response = await httpClient.post<{ listing: BusinessListing }>(
+        `/business/listings/${id}/claim`
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se pudo reclamar la ficha");
+      }
+
+      console.log(`🏪 [Business] Listing claimed: ${id}`);
+      return response.data.listing;
+    } catch (error: any) {
+      if (error?.status === 409 || error?.code === "ALREADY_CLAIMED") {
+        throw new Error("Este negocio ya tiene un administrador");
+      }
+      throw error;
+    }
+  }
+
+  // =================== EDICIÓN ===================
+
+  async updateListing(
+    id: string,
+    data: ListingFormData
+  ): Promise<BusinessListing> {
+    return this.patchListing(id, toListingPayload(data));
+  }
+
+  async updateHours(
+    id: string,
+    data: ListingHoursFormData
+  ): Promise<BusinessListing> {
+    return this.patchListing(id, { hours: data.hours });
+  }
+
+  async updatePrices(
+    id: string,
+    data: ListingPricesFormData
+  ): Promise<BusinessListing> {
+    return this.patchListing(id, {
+      prices: data.prices.map((price) => ({
+        ...price,
+        label: price.label.trim(),
+      })),
+    });
+  }
+
+  /**
+   * Sube fotos nuevas como multipart/form-data
+   */
+  async uploadPhotos(
+    id: string,
+    photos: ReportPhoto[]
+  ): Promise<BusinessListing> {
+    const formData = new FormData();
+
+    photos.forEach((photo, index) => {
+      appendFormDataFile(formData, "photos", {
+        uri: photo.uri,
+        name: photo.fileName ?? `negocio-${index + 1}.jpg`,
+        type: photo.mimeType ?? "image/jpeg",
+      });
+    });
+
+    const response = await httpClient.post<{ listing: BusinessListing }>(
+      `/business/listings/${id}/photos`,
+      formData,
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudieron subir las fotos");
+    }
+
+    console.log(`🏪 [Business] ${photos.length} photo(s) uploaded to ${id}`);
+    return response.data.listing;
+  }
+
+  async deletePhoto(id: string, photoId: string): Promise<BusinessListing> {
+    const response = await httpClient.delete<{ listing: BusinessListing }>(
+      `/business/listings/${id}/photos/${photoId}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo eliminar la foto");
+    }
+
+    return response.data.listing;
+  }
+
+  // =================== ESTADÍSTICAS ===================
+
+  /**
+   * Visitas a la ficha por día y total de usuarios que la guardaron
+   */
+  async getStats(id: string, days: number): Promise<ListingStats> {
+    const response = await httpClient.get<{ stats: ListingStats }>(
+      `/business/listings/${id}/stats`,
+      { params: { days } }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "No se pudieron cargar las estadísticas"
+      );
+    }
+
+    return response.data.stats;
+  }
+
+  private async patchListing(
+    id: string,
+    changes: Record<string, unknown>
+  ): Promise<BusinessListing> {
+    const response = await httpClient.patch<{ listing: BusinessListing }>(
+      `/business/listings/${id}`,
+      changes
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo guardar la ficha");
+    }
+
+    console.log(`🏪 [Business] Listing updated: ${id}`);
+    return response.data.listing;
+  }
+}
+
+// Singleton instance
+export const businessService = new BusinessService();
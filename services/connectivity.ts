@@ -0,0 +1,190 @@
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import { Platform } from "react-native";
+
+import { getApiConfig, onEnvironmentChange } from "@/config/environment";
+
+/**
+ * TolimaGO - Connectivity Providers
+ * Fuente de verdad intercambiable para el estado de la red:
+ * NetInfo en dispositivos, un fake determinista para pruebas y web,
+ * y un probe contra el endpoint /health de nuestra propia API.
+ */
+
+// =================== TIPOS ===================
+export interface ConnectivitySnapshot {
+  isConnected: boolean | null;
+  isInternetReachable: boolean | null;
+  type: string | null;
+}
+
+export interface HealthProbeResult {
+  reachable: boolean;
+  latencyMs: number | null;
+}
+
+export type ConnectivityListener = (snapshot: ConnectivitySnapshot) => void;
+
+export interface ConnectivityProvider {
+  /** Estado actual del dispositivo */
+  fetch(): Promise<ConnectivitySnapshot>;
+  /** Suscribe a cambios del dispositivo; devuelve la función para cancelar */
+  subscribe(listener: ConnectivityListener): () => void;
+  /** Verifica que el backend responda */
+  probe(): Promise<HealthProbeResult>;
+}
+
+const HEALTH_PROBE_TIMEOUT = 5000;
+
+// =================== HEALTH PROBE ===================
+export function getHealthCheckUrl(): string {
+  return `${getApiConfig().baseURL}/health`;
+}
+
+/**
+ * Consulta GET /health de la API activa y mide la latencia
+ */
+export async function probeApiHealth(
+  timeout: number = HEALTH_PROBE_TIMEOUT
+): Promise<HealthProbeResult> {
+  const url = getHealthCheckUrl();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const startTime = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      signal: controller.signal,
+      cache: "no-cache",
+    });
+
+    const result = {
+      reachable: response.ok,
+      latencyMs: Date.now() - startTime,
+    };
+    console.log(`🌐 [Network] Health probe ${url}:`, result);
+    return result;
+  } catch (error) {
+    console.log(`🌐 [Network] Health probe ${url} failed:`, error);
+    return { reachable: false, latencyMs: null };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// =================== NETINFO ===================
+function toSnapshot(state: NetInfoState): ConnectivitySnapshot {
+  return {
+    isConnected: state.isConnected,
+    isInternetReachable: state.isInternetReachable,
+    type: state.type,
+  };
+}
+
+/**
+ * Implementación real basada en @react-native-community/netinfo.
+ * La alcanzabilidad de NetInfo también se mide contra /health.
+ */
+export class NetInfoConnectivityProvider implements ConnectivityProvider {
+  constructor() {
+    this.configureReachability();
+    onEnvironmentChange(() => this.configureReachability());
+  }
+
+  private configureReachability(): void {
+    NetInfo.configure({
+      reachabilityUrl: getHealthCheckUrl(),
+      reachabilityTest: async (response) => response.status === 200,
+    });
+  }
+
+  async fetch(): Promise<ConnectivitySnapshot> {
+    return toSnapshot(await NetInfo.fetch());
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    return NetInfo.addEventListener((state) => listener(toSnapshot(state)));
+  }
+
+  probe(): Promise<HealthProbeResult> {
+    return probeApiHealth();
+  }
+}
+
+// =================== FAKE ===================
+export interface FakeConnectivityOptions extends Partial<ConnectivitySnapshot> {
+  reachable?: boolean;
+  latencyMs?: number | null;
+}
+
+/**
+ * Implementación determinista: no hace requests ni usa timers.
+ * El estado solo cambia con setState / setReachable.
+ */
+export class FakeConnectivityProvider implements ConnectivityProvider {
+  private snapshot: ConnectivitySnapshot;
+  private probeResult: HealthProbeResult;
+  private listeners = new Set<ConnectivityListener>();
+
+  constructor(options: FakeConnectivityOptions = {}) {
+    const {
+      reachable = true,
+      latencyMs = reachable ? 0 : null,
+      ...snapshot
+    } = options;
+
+    this.snapshot = {
+      isConnected: true,
+      isInternetReachable: true,
+      type: "wifi",
+      ...snapshot,
+    };
+    this.probeResult = { reachable, latencyMs };
+  }
+
+  async fetch(): Promise<ConnectivitySnapshot> {
+    return { ...this.snapshot };
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async probe(): Promise<HealthProbeResult> {
+    return { ...this.probeResult };
+  }
+
+  /**
+   * Cambia el estado del dispositivo y notifica a los suscriptores
+   */
+  setState(changes: Partial<ConnectivitySnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    const snapshot = { ...this.snapshot };
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  /**
+   * Define la respuesta de los siguientes probes a /health
+   */
+  setReachable(reachable: boolean, latencyMs: number | null = null): void {
+    this.probeResult = {
+      reachable,
+      latencyMs: reachable ? latencyMs ?? 0 : null,
+    };
+  }
+}
+
+// =================== FACTORY ===================
+/**
+ * Provider por defecto según la plataforma
+ */
+export function createConnectivityProvider(): ConnectivityProvider {
+  if (Platform.OS === "web") {
+    return new FakeConnectivityProvider();
+  }
+
+  return new NetInfoConnectivityProvider();
+}
@@ -0,0 +1,303 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+import { EventCategory } from "@/constants/events";
+import { getMonthRange, getReminderDate } from "@/lib/event-calendar";
+import { httpClient, isNetworkError } from "./http-client";
+import { notificationService } from "./notification-service";
+
+/**
+ * TolimaGO - Event Service
+ * Agenda de eventos y festivales por mes (con caché para consulta offline)
+ * y recordatorios con notificaciones locales
+ */
+
+// =================== TIPOS ===================
+export interface AgendaEvent {
+  id: string;
+  title: string;
+  category: EventCategory;
+  municipality: string;
+  summary: string;
+  description: string;
+  // ISO 8601; en eventos de día completo solo cuenta la fecha
+  startsAt: string;
+  endsAt: string;
+  allDay: boolean;
+  venue?: string;
+  organizer?: string;
+  fee?: string;
+  imageUrl?: string;
+}
+
+export interface EventFilters {
+  // null para todo el departamento
+  municipality: string | null;
+  category: EventCategory | null;
+}
+
+export interface EventMonth {
+  // YYYY-MM
+  month: string;
+  events: AgendaEvent[];
+  fetchedAt: string;
+  // Datos leídos de la caché porque no hubo conexión
+  fromCache: boolean;
+}
+
+export interface EventReminder {
+  eventId: string;
+  eventTitle: string;
+  notificationId: string;
+  minutesBefore: number;
+  remindAt: string;
+}
+
+const MONTH_KEY_PREFIX = "@tolimago/events_month:";
+const REMINDERS_KEY = "@tolimago/event_reminders";
+const REMINDER_CHANNEL_ID = "event-reminders";
+
+class EventService {
+  // =================== AGENDA ===================
+
+  /**
+   * Eventos del mes; sin conexión se devuelve la última copia guardada.
+   * El mes completo se guarda sin filtrar para poder filtrar offline
+   */
+  async getMonth(month: string, filters: EventFilters): Promise<EventMonth> {
+    let result: EventMonth;
+
+    try {
+      const { from, to } = getMonthRange(month);
+      const response = await httpClient.get<{ events: AgendaEvent[] }>(
+        "/events",
+        { params: { from, to } }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se pudo cargar la agenda");
+      }
+
+      result = {
+        month,
+        events: response.data.events,
+        fetchedAt: new Date().toISOString(),
+        fromCache: false,
+      };
+      await this.saveMonth(result);
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+
+      const cached = await this.getCachedMonth(month);
+      if (!cached) throw error;
+
+      console.log(`🎉 [Events] Offline, using cached ${month}`);
+      result = cached;
+    }
+
+    return { ...result, events: this.filterEvents(result.events, filters) };
+  }
+
+  /**
+   * Busca el evento en el servidor y, sin conexión, en los meses guardados
+   */
+  async getEvent(id: string): Promise<AgendaEvent> {
+    try {
+      const response = await httpClient.get<{ event: AgendaEvent }>(
+        `/events/${encodeURIComponent(id)}`
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se encontró el evento");
+      }
+
+      return response.data.event;
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+
+      const event = await this.findCachedEvent(id);
+      if (!event) throw error;
+      return event;
+    }
+  }
+
+  private filterEvents(
+    events: AgendaEvent[],
+    { municipality, category }: EventFilters
+  ): AgendaEvent[] {
+    return events
+      .filter(
+        (event) =>
+          (!municipality || event.municipality === municipality) &&
+          (!category || event.category === category)
+      )
+      .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  // =================== CACHÉ ===================
+
+  async getCachedMonth(month: string): Promise<EventMonth | null> {
+    try {
+      const stored = await AsyncStorage.getItem(MONTH_KEY_PREFIX + month);
+      if (!stored) return null;
+
+      return { ...(JSON.parse(stored) as EventMonth), fromCache: true };
+    } catch (error) {
+      console.error("🎉 [Events] Failed to read cache:", error);
+      return null;
+    }
+  }
+
+  private async findCachedEvent(id: string): Promise<AgendaEvent | null> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+        key.startsWith(MONTH_KEY_PREFIX)
+      );
+      const entries = await AsyncStorage.multiGet(keys);
+
+      for (const [, value] of entries) {
+        if (!value) continue;
+        const { events } = JSON.parse(value) as EventMonth;
+        const event = events.find((item) => item.id === id);
+        if (event) return event;
+      }
+    } catch (error) {
+      console.error("🎉 [Events] Failed to search cache:", error);
+    }
+
+    return null;
+  }
+
+  private async saveMonth(month: EventMonth): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        MONTH_KEY_PREFIX + month.month,
+        JSON.stringify(month)
+      );
+    } catch (error) {
+      console.error("🎉 [Events] Failed to cache month:", error);
+    }
+  }
+
+  // =================== RECORDATORIOS ===================
+
+  async getReminders(): Promise<EventReminder[]> {
+    try {
+      const stored = await AsyncStorage.getItem(REMINDERS_KEY);
+      const reminders = stored ? (JSON.parse(stored) as EventReminder[]) : [];
+      // Los recordatorios ya disparados no se muestran como pendientes
+      const now = new Date().toISOString();
+      return reminders.filter((reminder) => reminder.remindAt > now);
+    } catch (error) {
+      console.error("🎉 [Events] Failed to read reminders:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Programa una notificación local antes del evento (reemplaza la anterior)
+   */
+  async scheduleReminder(
+    event: AgendaEvent,
+    minutesBefore: number
+  ): Promise<EventReminder[]> {
+    const remindAt = getReminderDate(event, minutesBefore);
+    if (remindAt.getTime() <= Date.now()) {
+      throw new Error("Ese momento ya pasó; elige un recordatorio más cercano");
+    }
+
+    if (!(await notificationService.isCategoryEnabled("event_reminders"))) {
+      throw new Error(
+        "Activa los recordatorios de eventos en tus preferencias de notificación"
+      );
+    }
+    await this.ensureNotificationPermission();
+
+    const reminders = await this.cancelScheduled(event.id);
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: event.title,
+        body: `${event.municipality}${event.venue ? ` · ${event.venue}` : ""}`,
+        data: { url: `/events/${event.id}`, category: "event_reminders" },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: remindAt,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+
+    const updated = [
+      ...reminders,
+      {
+        eventId: event.id,
+        eventTitle: event.title,
+        notificationId,
+        minutesBefore,
+        remindAt: remindAt.toISOString(),
+      },
+    ];
+    await this.persistReminders(updated);
+
+    console.log(`🎉 [Events] Reminder set for ${event.id} at ${remindAt}`);
+    return updated;
+  }
+
+  async cancelReminder(eventId: string): Promise<EventReminder[]> {
+    const updated = await this.cancelScheduled(eventId);
+    await this.persistReminders(updated);
+    return updated;
+  }
+
+  /**
+   * Cancela la notificación del evento y devuelve los demás recordatorios
+   */
+  private async cancelScheduled(eventId: string): Promise<EventReminder[]> {
+    const reminders = await this.getReminders();
+    const current = reminders.find((reminder) => reminder.eventId === eventId);
+
+    if (current) {
+      await Notifications.cancelScheduledNotificationAsync(
+        current.notificationId
+      ).catch((error) =>
+        console.error("🎉 [Events] Failed to cancel reminder:", error)
+      );
+    }
+
+    return reminders.filter((reminder) => reminder.eventId !== eventId);
+  }
+
+  private async ensureNotificationPermission(): Promise<void> {
+    if (Platform.OS === "android") {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: "Recordatorios de eventos",
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return;
+
+    const requested = current.canAskAgain
+      ? await Notifications.requestPermissionsAsync()
+      : current;
+    if (!requested.granted) {
+      throw new Error(
+        "Activa las notificaciones de TolimaGO en los ajustes para recibir recordatorios"
+      );
+    }
+  }
+
+  private async persistReminders(reminders: EventReminder[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify(reminders));
+    } catch (error) {
+      console.error("🎉 [Events] Failed to save reminders:", error);
+      throw new Error("No se pudo guardar el recordatorio");
+    }
+  }
+}
+
+// Singleton instance
+export const eventService = new EventService();
@@ -0,0 +1,344 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { FavouriteType } from "@/constants/favourites";
+import { AUTH_EVENTS, authEvents } from "./auth-events";
+import { httpClient, isNetworkError } from "./http-client";
+
+/**
+ * TolimaGO - Favourite Service
+ * Lugares, eventos, noticias y trámites guardados por el usuario. La lista
+ * vive en el dispositivo para consultarla sin conexión y se sincroniza con
+ * el servidor al iniciar sesión, resolviendo los cambios hechos en otros
+ * dispositivos
+ */
+
+// =================== TIPOS ===================
+export interface FavouriteInput {
+  type: FavouriteType;
+  itemId: string;
+  title: string;
+  // Fecha, municipio u otro dato breve para la lista
+  subtitle?: string;
+  // Algunos detalles (trámites) se consultan por municipio
+  municipality?: string;
+  imageUrl?: string;
+}
+
+export interface Favourite extends FavouriteInput {
+  savedAt: string;
+}
+
+export interface FavouritesState {
+  favourites: Favourite[];
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+}
+
+export interface FavouriteToggle {
+  item: FavouriteInput;
+  saved: boolean;
+}
+
+type FavouritesListener = (state: FavouritesState) => void;
+
+// Registro de un guardado quitado en este dispositivo, para la sincronización
+interface Removal {
+  type: FavouriteType;
+  itemId: string;
+  removedAt: string;
+}
+
+interface StoredFavourites {
+  favourites: Favourite[];
+  removals: Removal[];
+  lastSyncedAt: string | null;
+}
+
+const FAVOURITES_KEY_PREFIX = "@tolimago/favourites:";
+
+export const favouriteKey = (type: FavouriteType, itemId: string) =>
+  `${type}:${itemId}`;
+
+const keyOf = (entry: { type: FavouriteType; itemId: string }) =>
+  favouriteKey(entry.type, entry.itemId);
+
+const newestFirst = (a: Favourite, b: Favourite) =>
+  b.savedAt.localeCompare(a.savedAt);
+
+class FavouriteService {
+  private userId: string | null = null;
+  private favourites: Favourite[] = [];
+  private removals: Removal[] = [];
+  private lastSyncedAt: string | null = null;
+  private isSyncing = false;
+  private listeners = new Set<FavouritesListener>();
+
+  // =================== ESTADO ===================
+
+  getState(): FavouritesState {
+    return {
+      favourites: [...this.favourites],
+      isSyncing: this.isSyncing,
+      lastSyncedAt: this.lastSyncedAt,
+    };
+  }
+
+  subscribe(listener: FavouritesListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isFavourite(type: FavouriteType, itemId: string): boolean {
+    const key = favouriteKey(type, itemId);
+    return this.favourites.some((entry) => keyOf(entry) === key);
+  }
+
+  /**
+   * Carga la copia local del usuario y la sincroniza con el servidor; para
+   * el usuario ya cargado no hace nada
+   */
+  async load(userId: string): Promise<FavouritesState> {
+    if (this.userId === userId) return this.getState();
+
+    this.userId = userId;
+    const stored = await this.getStored(userId);
+    this.favourites = stored.favourites;
+    this.removals = stored.removals;
+    this.lastSyncedAt = stored.lastSyncedAt;
+    this.notify();
+
+    await this.sync();
+    return this.getState();
+  }
+
+  // =================== CAMBIOS LOCALES ===================
+
+  /**
+   * Guarda o quita un elemento solo en el dispositivo
+   */
+  async applyLocal({ item, saved }: FavouriteToggle): Promise<void> {
+    const key = keyOf(item);
+    const previous = this.favourites.find((entry) => keyOf(entry) === key);
+    const now = new Date().toISOString();
+
+    this.favourites = this.favourites.filter((entry) => keyOf(entry) !== key);
+    this.removals = this.removals.filter((entry) => keyOf(entry) !== key);
+
+    if (saved) {
+      this.favourites = [{ ...item, savedAt: now }, ...this.favourites];
+    } else if (previous) {
+      this.removals.push({
+        type: item.type,
+        itemId: item.itemId,
+        removedAt: now,
+      });
+    }
+
+    this.notify();
+    await this.persist();
+  }
+
+  /**
+   * Deshace un cambio local que el servidor rechazó
+   */
+  async revertLocal(item: FavouriteInput, previous: Favourite | null) {
+    const key = keyOf(item);
+
+    this.favourites = this.favourites.filter((entry) => keyOf(entry) !== key);
+    this.removals = this.removals.filter((entry) => keyOf(entry) !== key);
+    if (previous) {
+      this.favourites = [...this.favourites, previous].sort(newestFirst);
+    }
+
+    this.notify();
+    await this.persist();
+  }
+
+  // =================== SERVIDOR ===================
+
+  /**
+   * Envía un cambio al servidor; sin conexión queda en la cola offline
+   */
+  async push({ item, saved }: FavouriteToggle): Promise<void> {
+    const response = saved
+      ? await httpClient.put(
+          `/favourites/me/${item.type}/${encodeURIComponent(item.itemId)}`,
+          item,
+          {
+            offline: { queueIfOffline: true, label: `Guardar "${item.title}"` },
+          }
+        )
+      : await httpClient.delete(
+          `/favourites/me/${item.type}/${encodeURIComponent(item.itemId)}`,
+          { offline: { queueIfOffline: true, label: `Quitar "${item.title}"` } }
+        );
+
+    if (!response.success) {
+      throw new Error(
+        response.message || "No se pudo actualizar tus guardados"
+      );
+    }
+
+    // Encolado: la sincronización al iniciar sesión lo completará si hace falta
+    if (!response.queued) {
+      this.removals = this.removals.filter(
+        (entry) => keyOf(entry) !== keyOf(item)
+      );
+      await this.persist();
+    }
+  }
+
+  /**
+   * Combina la copia local con la del servidor. Gana el cambio más reciente:
+   * un guardado local posterior a la última sincronización se sube, uno
+   * anterior que ya no está en el servidor se quitó en otro dispositivo, y
+   * un guardado del servidor se descarta si aquí se quitó después
+   */
+  async sync(): Promise<void> {
+    if (!this.userId || this.isSyncing) return;
+
+    this.isSyncing = true;
+    this.notify();
+
+    try {
+      const response = await httpClient.get<{ favourites: Favourite[] }>(
+        "/favourites/me"
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "No se pudieron sincronizar tus guardados"
+        );
+      }
+
+      const remote = new Map(
+        response.data.favourites.map((entry) => [keyOf(entry), entry])
+      );
+      const local = new Map(
+        this.favourites.map((entry) => [keyOf(entry), entry])
+      );
+      const removed = new Map(
+        this.removals.map((entry) => [keyOf(entry), entry])
+      );
+      const lastSyncedAt = this.lastSyncedAt;
+
+      const merged: Favourite[] = [];
+      const upserts: Favourite[] = [];
+      const deletions: Removal[] = [];
+
+      local.forEach((entry, key) => {
+        if (remote.has(key)) {
+          merged.push(entry);
+        } else if (!lastSyncedAt || entry.savedAt > lastSyncedAt) {
+          merged.push(entry);
+          upserts.push(entry);
+        }
+      });
+
+      remote.forEach((entry, key) => {
+        if (local.has(key)) return;
+
+        const removal = removed.get(key);
+        if (removal && removal.removedAt > entry.savedAt) {
+          deletions.push(removal);
+        } else {
+          merged.push(entry);
+        }
+      });
+
+      if (upserts.length > 0 || deletions.length > 0) {
+        const result = await httpClient.post("/favourites/me/sync", {
+          upserts,
+          deletions: deletions.map(({ type, itemId }) => ({ type, itemId })),
+        });
+
+        if (!result.success) {
+          throw new Error(
+            result.message || "No se pudieron sincronizar tus guardados"
+          );
+        }
+      }
+
+      this.favourites = merged.sort(newestFirst);
+      this.removals = [];
+      this.lastSyncedAt = new Date().toISOString();
+      await this.persist();
+
+      console.log(
+        `❤️ [Favourites] Synced: ${merged.length} saved, ${upserts.length} uploaded, ${deletions.length} removed`
+      );
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+
+      console.log("❤️ [Favourites] Offline, keeping local favourites");
+    } finally {
+      this.isSyncing = false;
+      this.notify();
+    }
+  }
+
+  private async getStored(userId: string): Promise<StoredFavourites> {
+    try {
+      const stored = await AsyncStorage.getItem(FAVOURITES_KEY_PREFIX + userId);
+      if (stored) return JSON.parse(stored) as StoredFavourites;
+    } catch (error) {
+      console.error("❤️ [Favourites] Failed to read favourites:", error);
+    }
+
+    return { favourites: [], removals: [], lastSyncedAt: null };
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.userId) return;
+
+    try {
+      await AsyncStorage.setItem(
+        FAVOURITES_KEY_PREFIX + this.userId,
+        JSON.stringify({
+          favourites: this.favourites,
+          removals: this.removals,
+          lastSyncedAt: this.lastSyncedAt,
+        } satisfies StoredFavourites)
+      );
+    } catch (error) {
+      console.error("❤️ [Favourites] Failed to save favourites:", error);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  /**
+   * Olvida los guardados en memoria; la copia por usuario se conserva en el
+   * dispositivo para el próximo inicio de sesión
+   */
+  clear(): void {
+    this.userId = null;
+    this.favourites = [];
+    this.removals = [];
+    this.lastSyncedAt = null;
+    this.notify();
+  }
+}
+
+// Singleton instance
+export const favouriteService = new FavouriteService();
+
+// Cada inicio de sesión combina los guardados del dispositivo con la cuenta
+authEvents.on(AUTH_EVENTS.LOGIN_SUCCESS, ({ user }) => {
+  favouriteService
+    .load(user.id)
+    .catch((error) =>
+      console.error("❤️ [Favourites] Sync on login failed:", error)
+    );
+});
+
+authEvents.on(AUTH_EVENTS.LOGOUT, () => {
+  favouriteService.clear();
+});
@@ -0,0 +1,153 @@
+import type { Attraction } from "../tourism-service";
+
+/**
+ * TolimaGO - Fixture del catálogo turístico
+ * Datos de demostración usados cuando el backend no está disponible.
+ * Sin imágenes: la galería muestra el ícono de la categoría
+ */
+
+export const ATTRACTIONS_FIXTURE: Attraction[] = [
+  // =================== IBAGUÉ ===================
+  {
+    id: "fx-ibague-jardin-botanico-san-jorge",
+    name: "Jardín Botánico San Jorge",
+    category: "natural_parks",
+    municipality: "Ibagué",
+    summary: "Senderos de bosque andino con vista a la ciudad.",
+    description:
+      "Reserva natural con senderos ecológicos, colecciones de plantas nativas y miradores sobre Ibagué. Ideal para caminatas cortas y avistamiento de aves.",
+    images: [],
+    openingHours: [
+      { days: "Martes a domingo", hours: "8:00 a. m. – 4:00 p. m." },
+    ],
+    accessibility: {
+      features: ["accessibleRestroom", "guideDogs"],
+      notes: "Senderos con pendientes y tramos sin pavimentar.",
+    },
+    fee: "Consultar tarifa en taquilla",
+    latitude: 4.4511,
+    longitude: -75.2497,
+  },
+  {
+    id: "fx-ibague-conservatorio",
+    name: "Conservatorio del Tolima",
+    category: "attractions",
+    municipality: "Ibagué",
+    summary: "Edificio patrimonial y corazón de la Capital Musical.",
+    description:
+      "Sede histórica de la formación musical del Tolima. Programa conciertos y recitales a lo largo del año en su sala principal.",
+    images: [],
+    openingHours: [
+      { days: "Lunes a viernes", hours: "8:00 a. m. – 6:00 p. m." },
+    ],
+    accessibility: {
+      features: ["wheelchair", "accessibleRestroom", "guideDogs"],
+    },
+    latitude: 4.4393,
+    longitude: -75.2401,
+  },
+  {
+    id: "fx-ibague-festival-folclorico",
+    name: "Festival Folclórico Colombiano",
+    category: "festivals",
+    municipality: "Ibagué",
+    summary: "Desfiles, reinado y música andina en toda la ciudad.",
+    description:
+      "Celebración anual de la tradición musical y dancística colombiana, con desfiles, concursos de bambuco y sanjuanero y conciertos en espacios públicos.",
+    images: [],
+    openingHours: [],
+    accessibility: {
+      features: ["wheelchair"],
+      notes:
+        "Zonas reservadas para personas con movilidad reducida en los desfiles.",
+    },
+    fee: "Entrada libre a la mayoría de eventos",
+    season: "Junio",
+  },
+  {
+    id: "fx-ibague-lechona",
+    name: "Lechona tolimense",
+    category: "gastronomy",
+    municipality: "Ibagué",
+    summary: "El plato insignia del Tolima, acompañado de insulso y arepa.",
+    description:
+      "Cerdo relleno de arveja y arroz, horneado lentamente. Se encuentra en plazas de mercado y restaurantes típicos, sobre todo los fines de semana.",
+    images: [],
+    openingHours: [
+      { days: "Todos los días", hours: "7:00 a. m. – 3:00 p. m." },
+    ],
+    accessibility: { features: [] },
+  },
+
+  // =================== OTROS MUNICIPIOS ===================
+  {
+    id: "fx-honda-calle-trampas",
+    name: "Calle de las Trampas",
+    category: "attractions",
+    municipality: "Honda",
+    summary: "Calle empedrada del centro histórico colonial.",
+    description:
+      "Una de las calles más antiguas de Honda, con casonas coloniales y balcones. Punto de partida para recorrer el centro histórico a orillas del río Magdalena.",
+    images: [],
+    openingHours: [],
+    accessibility: {
+      features: [],
+      notes: "Calle empedrada con pendiente pronunciada.",
+    },
+    fee: "Entrada libre",
+    latitude: 5.2073,
+    longitude: -74.7376,
+  },
+  {
+    id: "fx-armero-parque-monumento",
+    name: "Parque Monumento Armero",
+    category: "attractions",
+    municipality: "Armero-Guayabal",
+    summary: "Lugar de memoria de la tragedia de 1985.",
+    description:
+      "Recorrido por las ruinas de la antigua Armero, con monumentos y placas conmemorativas de las víctimas de la avalancha del Nevado del Ruiz.",
+    images: [],
+    openingHours: [
+      { days: "Todos los días", hours: "6:00 a. m. – 6:00 p. m." },
+    ],
+    accessibility: {
+      features: ["accessibleParking"],
+      notes: "Senderos de tierra en buena parte del recorrido.",
+    },
+    fee: "Entrada libre",
+  },
+  {
+    id: "fx-mariquita-casa-expedicion",
+    name: "Casa de la Expedición Botánica",
+    category: "attractions",
+    municipality: "Mariquita",
+    summary: "Sede histórica de la Expedición Botánica de Mutis.",
+    description:
+      "Casa colonial donde trabajó la Real Expedición Botánica del Nuevo Reino de Granada. Conserva muestras y documentación del trabajo científico de la época.",
+    images: [],
+    openingHours: [
+      { days: "Martes a domingo", hours: "9:00 a. m. – 5:00 p. m." },
+    ],
+    accessibility: {
+      features: ["wheelchair"],
+    },
+  },
+  {
+    id: "fx-murillo-termales",
+    name: "Aguas termales de Murillo",
+    category: "hot_springs",
+    municipality: "Murillo",
+    summary: "Piscinas de aguas termales en la alta montaña.",
+    description:
+      "Pozos termales rodeados de páramo en la ruta hacia el Parque Nacional Natural Los Nevados. Lleva ropa abrigada: la temperatura exterior es baja.",
+    images: [],
+    openingHours: [
+      { days: "Todos los días", hours: "8:00 a. m. – 6:00 p. m." },
+    ],
+    accessibility: {
+      features: [],
+      notes: "Acceso por carretera destapada.",
+    },
+    fee: "Consultar tarifa en el lugar",
+  },
+];
@@ -0,0 +1,130 @@
+import type { Place } from "../places-service";
+
+/**
+ * TolimaGO - Fixture del directorio de servicios
+ * Datos de demostración usados cuando el backend no está disponible.
+ * Ubicaciones aproximadas; los teléfonos son de ejemplo salvo las
+ * líneas nacionales (123)
+ */
+
+export const PLACES_FIXTURE: Place[] = [
+  // =================== IBAGUÉ ===================
+  {
+    id: "fx-ibague-hospital-federico-lleras",
+    name: "Hospital Federico Lleras Acosta",
+    category: "hospital",
+    municipality: "Ibagué",
+    address: "Calle 33 # 4A-50",
+    phone: "+576082600000",
+    latitude: 4.4449,
+    longitude: -75.2288,
+    openingHours: "Urgencias 24 horas",
+  },
+  {
+    id: "fx-ibague-policia-metropolitana",
+    name: "Policía Metropolitana de Ibagué",
+    category: "police",
+    municipality: "Ibagué",
+    address: "Calle 60 # 5-20",
+    phone: "123",
+    latitude: 4.4497,
+    longitude: -75.2036,
+    openingHours: "24 horas",
+  },
+  {
+    id: "fx-ibague-notaria-primera",
+    name: "Notaría Primera de Ibagué",
+    category: "notary",
+    municipality: "Ibagué",
+    address: "Carrera 3 # 12-45",
+    phone: "+576082610000",
+    latitude: 4.4406,
+    longitude: -75.2413,
+    openingHours: "Lunes a viernes 8:00 a. m. – 5:00 p. m.",
+  },
+  {
+    id: "fx-ibague-pit-centro",
+    name: "Punto de Información Turística – Centro",
+    category: "tourist_info",
+    municipality: "Ibagué",
+    address: "Plaza de Bolívar",
+    phone: "+576082620000",
+    latitude: 4.4386,
+    longitude: -75.2422,
+    openingHours: "Todos los días 8:00 a. m. – 6:00 p. m.",
+    description: "Mapas, rutas turísticas y agenda cultural de la ciudad.",
+  },
+  {
+    id: "fx-ibague-drogueria-centro",
+    name: "Droguería Central",
+    category: "pharmacy",
+    municipality: "Ibagué",
+    address: "Carrera 4 # 11-20",
+    phone: "+576082630000",
+    latitude: 4.4398,
+    longitude: -75.2401,
+    openingHours: "Lunes a sábado 7:00 a. m. – 9:00 p. m.",
+  },
+
+  // =================== ESPINAL ===================
+  {
+    id: "fx-espinal-hospital-san-rafael",
+    name: "Hospital San Rafael",
+    category: "hospital",
+    municipality: "Espinal",
+    address: "Carrera 6 # 1-55",
+    phone: "+576082480000",
+    latitude: 4.1521,
+    longitude: -74.8861,
+    openingHours: "Urgencias 24 horas",
+  },
+  {
+    id: "fx-espinal-estacion-policia",
+    name: "Estación de Policía Espinal",
+    category: "police",
+    municipality: "Espinal",
+    address: "Calle 9 # 5-30",
+    phone: "123",
+    latitude: 4.1487,
+    longitude: -74.8835,
+    openingHours: "24 horas",
+  },
+
+  // =================== MELGAR ===================
+  {
+    id: "fx-melgar-pit",
+    name: "Punto de Información Turística Melgar",
+    category: "tourist_info",
+    municipality: "Melgar",
+    address: "Parque principal",
+    phone: "+576082450000",
+    latitude: 4.2047,
+    longitude: -74.6406,
+    openingHours: "Todos los días 8:00 a. m. – 6:00 p. m.",
+    description: "Información sobre hospedaje, piscinas y actividades.",
+  },
+  {
+    id: "fx-melgar-drogueria",
+    name: "Droguería Melgar",
+    category: "pharmacy",
+    municipality: "Melgar",
+    address: "Calle 7 # 24-10",
+    phone: "+576082450001",
+    latitude: 4.2039,
+    longitude: -74.6418,
+    openingHours: "Todos los días 7:00 a. m. – 10:00 p. m.",
+  },
+
+  // =================== HONDA ===================
+  {
+    id: "fx-honda-notaria-unica",
+    name: "Notaría Única de Honda",
+    category: "notary",
+    municipality: "Honda",
+    address: "Calle 12 # 11-30",
+    phone: "+576082510000",
+    latitude: 5.2075,
+    longitude: -74.7369,
+    openingHours: "Lunes a viernes 8:00 a. m. – 4:00 p. m.",
+  },
+];
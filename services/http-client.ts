@@ -4,6 +4,15 @@ import axios, {
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from "axios";
+import { getApiConfig, onEnvironmentChange } from "@/config/environment";
+import { AUTH_EVENTS, authEvents, SessionExpiredReason } from "./auth-events";
+import {
+  generateRequestId,
+  offlineQueue,
+  QueuedMethod,
+  QueuedRequest,
+  ReplayResult,
+} from "./offline-queue";
 import { secureTokenStorage, TokenData } from "./secure-storage";
 
 /**
@@ -11,20 +20,15 @@ import { secureTokenStorage, TokenData } from "./secure-storage";
  * Cliente HTTP profesional con manejo automático de tokens y refresh
  */
 
-// Configuración base de la API
-const API_CONFIG = {
-  BASE_URL: "http://192.168.1.8:3000/api/v1",
-  TIMEOUT: 10000,
-  RETRY_ATTEMPTS: 3,
-  RETRY_DELAY: 1000,
-} as const;
-
 // Tipos para las respuestas de la API
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   data?: T;
   error?: string;
+  // Presente cuando la petición quedó en la cola offline
+  queued?: boolean;
+  queueId?: string;
 }
 
 export interface ApiError {
@@ -33,18 +37,69 @@ export interface ApiError {
   code?: string;
 }
 
+export interface OfflineRequestOptions {
+  // Encolar la petición si falla por falta de conexión
+  queueIfOffline: boolean;
+  // Descripción legible para mostrar en la bandeja de salida
+  label?: string;
+}
+
+export interface MutationRequestConfig extends AxiosRequestConfig {
+  offline?: OfflineRequestOptions;
+}
+
+const IDEMPOTENCY_HEADER = "Idempotency-Key";
+// Código con el que el servidor indica que esa idempotency key ya se aplicó
+const IDEMPOTENCY_REPLAYED_CODE = "IDEMPOTENCY_KEY_REPLAYED";
+
+/**
+ * Determina si un error (ya normalizado) se debe a falta de conexión
+ */
+export function isNetworkError(error: any): boolean {
+  return (
+    error?.code === "NETWORK_ERROR" ||
+    error?.code === "ERR_NETWORK" ||
+    (error?.status === 0 && error?.code !== "UNKNOWN_ERROR")
+  );
+}
+
+/**
+ * Sin conexión, error del servidor o endpoint aún no desplegado; los
+ * servicios con datos de respaldo locales los usan en estos casos
+ */
+export function isBackendUnavailable(error: any): boolean {
+  return (
+    isNetworkError(error) ||
+    error?.status === 404 ||
+    (typeof error?.status === "number" && error.status >= 500)
+  );
+}
+
+/**
+ * Mensaje para el usuario a partir de un error de la API
+ */
+export function getApiErrorMessage(error: any, fallback: string): string {
+  if (isNetworkError(error)) {
+    return "Error de conexión. Verifica tu internet";
+  }
+  return error?.message || fallback;
+}
+
 class HttpClient {
   private axiosInstance: AxiosInstance;
-  private isRefreshing = false;
-  private failedQueue: {
-    resolve: (value: string | null) => void;
-    reject: (error: any) => void;
-  }[] = [];
+  // Refresh en vuelo compartido por el interceptor de 401 y el scheduler
+  private refreshPromise: Promise<TokenData> | null = null;
+  // Cierre local de sesión que registra AuthService (evita el import circular)
+  private sessionRejectedHandler:
+    | ((reason: SessionExpiredReason) => Promise<void>)
+    | null = null;
 
   constructor() {
+    const apiConfig = getApiConfig();
+
     this.axiosInstance = axios.create({
-      baseURL: API_CONFIG.BASE_URL,
-      timeout: API_CONFIG.TIMEOUT,
+      baseURL: apiConfig.baseURL,
+      timeout: apiConfig.timeout,
       headers: {
         "Content-Type": "application/json",
         Accept: "application/json",
@@ -52,6 +107,12 @@ class HttpClient {
     });
 
     this.setupInterceptors();
+
+    // Mantener la URL base sincronizada con el entorno activo
+    onEnvironmentChange((config) => {
+      this.setBaseURL(config.baseURL);
+      this.axiosInstance.defaults.timeout = config.timeout;
+    });
   }
 
   /**
@@ -78,48 +139,18 @@ class HttpClient {
       async (error) => {
         const originalRequest = error.config;
 
-        // Si es error 401 y no estamos ya refrescando, intentar refresh
+        // Si es error 401, esperar el refresh compartido y reintentar una vez
         if (error.response?.status === 401 && !originalRequest._retry) {
-          if (this.isRefreshing) {
-            // Si ya estamos refrescando, esperar en cola
-            return new Promise((resolve, reject) => {
-              this.failedQueue.push({ resolve, reject });
-            }).then((token) => {
-              if (token) {
-                originalRequest.headers.Authorization = `Bearer ${token}`;
-                return this.axiosInstance(originalRequest);
-              }
-              return Promise.reject(error);
-            });
-          }
-
           originalRequest._retry = true;
-          this.isRefreshing = true;
 
           try {
-            const refreshToken = await secureTokenStorage.getRefreshToken();
-            if (!refreshToken) {
-              throw new Error("No refresh token available");
-            }
-
-            const newTokens = await this.refreshTokens(refreshToken);
-            await secureTokenStorage.setTokens(newTokens);
-
-            // Procesar cola de requests fallidos
-            this.processQueue(newTokens.accessToken, null);
+            const newTokens = await this.refreshSession();
 
             // Reintentar request original con nuevo token
             originalRequest.headers.Authorization = `Bearer ${newTokens.accessToken}`;
             return this.axiosInstance(originalRequest);
           } catch (refreshError) {
-            // Refresh falló, limpiar tokens y procesar cola
-            this.processQueue(null, refreshError);
-            await secureTokenStorage.clearAll();
-
-            // Opcional: redirigir a login aquí o emitir evento
             throw this.handleError(refreshError);
-          } finally {
-            this.isRefreshing = false;
           }
         }
 
@@ -129,25 +160,76 @@ class HttpClient {
   }
 
   /**
-   * Procesa la cola de requests que esperaban el refresh
+   * Refresca la sesión con el refresh token guardado.
+   * Las llamadas concurrentes comparten la misma petición en vuelo.
    */
-  private processQueue(token: string | null, error: any): void {
-    this.failedQueue.forEach(({ resolve, reject }) => {
-      if (error) {
-        reject(error);
-      } else {
-        resolve(token);
+  refreshSession(): Promise<TokenData> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<TokenData> {
+    // Sesión bloqueada por biometría: esperar el desbloqueo sin cerrarla
+    if (secureTokenStorage.isRefreshTokenLocked()) {
+      throw new Error("Session is locked until the user unlocks the app");
+    }
+
+    const refreshToken = await secureTokenStorage.getRefreshToken();
+    if (!refreshToken) {
+      await this.rejectSession("no_refresh_token");
+      throw new Error("No refresh token available");
+    }
+
+    try {
+      const newTokens = await this.refreshTokens(refreshToken);
+      await secureTokenStorage.setTokens(newTokens);
+
+      authEvents.emit(AUTH_EVENTS.TOKEN_REFRESHED, {
+        expiresAt: await secureTokenStorage.getTokenExpiry(),
+      });
+      return newTokens;
+    } catch (refreshError: any) {
+      // Sin conexión o con el servidor caído el refresh token sigue siendo
+      // válido: no cerrar sesión
+      const apiError = this.handleError(refreshError);
+      if (this.isNetworkError(apiError) || apiError.status >= 500) {
+        throw refreshError;
       }
-    });
 
-    this.failedQueue = [];
+      await this.rejectSession("refresh_failed");
+      throw refreshError;
+    }
+  }
+
+  /**
+   * Registra el cierre local de sesión para refresh tokens rechazados
+   */
+  setSessionRejectedHandler(
+    handler: (reason: SessionExpiredReason) => Promise<void>
+  ): void {
+    this.sessionRejectedHandler = handler;
+  }
+
+  private async rejectSession(reason: SessionExpiredReason): Promise<void> {
+    if (this.sessionRejectedHandler) {
+      await this.sessionRejectedHandler(reason);
+      return;
+    }
+
+    await secureTokenStorage.clearAll();
+    authEvents.emit(AUTH_EVENTS.SESSION_EXPIRED, { reason });
   }
 
   /**
    * Refresca los tokens de autenticación
    */
   private async refreshTokens(refreshToken: string): Promise<TokenData> {
-    const response = await axios.post(`${API_CONFIG.BASE_URL}/auth/refresh`, {
+    const response = await axios.post(`${this.getBaseURL()}/auth/refresh`, {
       refreshToken,
     });
 
@@ -199,36 +281,131 @@ class HttpClient {
   async post<T>(
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: MutationRequestConfig
   ): Promise<ApiResponse<T>> {
-    const response = await this.axiosInstance.post(url, data, config);
-    return response.data;
+    return this.mutate<T>("post", url, data, config);
   }
 
   async put<T>(
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: MutationRequestConfig
   ): Promise<ApiResponse<T>> {
-    const response = await this.axiosInstance.put(url, data, config);
-    return response.data;
+    return this.mutate<T>("put", url, data, config);
   }
 
   async patch<T>(
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: MutationRequestConfig
   ): Promise<ApiResponse<T>> {
-    const response = await this.axiosInstance.patch(url, data, config);
-    return response.data;
+    return this.mutate<T>("patch", url, data, config);
   }
 
   async delete<T>(
     url: string,
-    config?: AxiosRequestConfig
+    config?: MutationRequestConfig
   ): Promise<ApiResponse<T>> {
-    const response = await this.axiosInstance.delete(url, config);
-    return response.data;
+    return this.mutate<T>("delete", url, undefined, config);
+  }
+
+  // =================== COLA OFFLINE ===================
+
+  /**
+   * Ejecuta una escritura; si falla por red y el llamador lo pidió, la encola
+   */
+  private async mutate<T>(
+    method: QueuedMethod,
+    url: string,
+    data?: any,
+    config?: MutationRequestConfig
+  ): Promise<ApiResponse<T>> {
+    const { offline, ...axiosConfig } = config ?? {};
+
+    if (!offline?.queueIfOffline) {
+      const response = await this.axiosInstance.request({
+        ...axiosConfig,
+        method,
+        url,
+        data,
+      });
+      return response.data;
+    }
+
+    // La misma key viaja en el primer intento y en los reenvíos
+    const idempotencyKey = generateRequestId();
+
+    try {
+      const response = await this.axiosInstance.request({
+        ...axiosConfig,
+        method,
+        url,
+        data,
+        headers: {
+          ...axiosConfig.headers,
+          [IDEMPOTENCY_HEADER]: idempotencyKey,
+        },
+      });
+      return response.data;
+    } catch (error: any) {
+      if (!this.isNetworkError(error)) {
+        throw error;
+      }
+
+      const item = await offlineQueue.enqueue({
+        method,
+        url,
+        data,
+        label: offline.label,
+        idempotencyKey,
+      });
+
+      return {
+        success: true,
+        message: "Sin conexión: la solicitud se enviará automáticamente",
+        queued: true,
+        queueId: item.id,
+      };
+    }
+  }
+
+  /**
+   * Reenvía en orden las peticiones guardadas en la cola offline
+   */
+  async replayOfflineQueue(): Promise<ReplayResult> {
+    return offlineQueue.replay(async (item: QueuedRequest) => {
+      try {
+        await this.axiosInstance.request({
+          method: item.method,
+          url: item.url,
+          data: item.data,
+          headers: { [IDEMPOTENCY_HEADER]: item.idempotencyKey },
+        });
+        return { type: "sent" };
+      } catch (error: any) {
+        if (this.isNetworkError(error)) {
+          return { type: "retry", error: error.message };
+        }
+
+        // El servidor ya procesó esta idempotency key. Cualquier otro 409 es
+        // un conflicto real y queda para revisión del usuario
+        if (
+          error?.status === 409 &&
+          error?.code === IDEMPOTENCY_REPLAYED_CODE
+        ) {
+          return { type: "sent" };
+        }
+
+        return {
+          type: "failed",
+          error: error?.message || "La solicitud fue rechazada",
+        };
+      }
+    });
+  }
+
+  private isNetworkError(error: any): boolean {
+    return isNetworkError(error);
   }
 
   /**
@@ -240,7 +417,7 @@ class HttpClient {
     config?: AxiosRequestConfig
   ): Promise<ApiResponse<T>> {
     console.log("🌐 [HTTP] postPublic called:", {
-      url: `${API_CONFIG.BASE_URL}${url}`,
+      url: `${this.getBaseURL()}${url}`,
       data,
     });
 
@@ -252,12 +429,12 @@ class HttpClient {
         ...config?.headers,
         Authorization: undefined,
       },
-      timeout: API_CONFIG.TIMEOUT,
+      timeout: this.axiosInstance.defaults.timeout,
     };
 
     try {
       const response = await axios.post(
-        `${API_CONFIG.BASE_URL}${url}`,
+        `${this.getBaseURL()}${url}`,
         data,
         publicConfig
       );
@@ -320,6 +497,13 @@ class HttpClient {
   setBaseURL(baseURL: string): void {
     this.axiosInstance.defaults.baseURL = baseURL;
   }
+
+  /**
+   * Obtiene la URL base activa
+   */
+  getBaseURL(): string {
+    return this.axiosInstance.defaults.baseURL ?? getApiConfig().baseURL;
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,96 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Location from "expo-location";
+
+import { Coordinates, findNearestMunicipality } from "@/lib/geo";
+
+/**
+ * TolimaGO - Location Service
+ * Acceso a la ubicación del dispositivo y detección del municipio del
+ * Tolima con los centroides incluidos en la app, sin red
+ */
+
+// =================== TIPOS ===================
+// "blocked": el usuario negó el permiso y el sistema ya no vuelve a preguntar
+export type LocationPermission = "granted" | "undetermined" | "blocked";
+
+export interface DetectedMunicipality {
+  municipality: string;
+  distanceKm: number;
+  detectedAt: string;
+}
+
+// =================== CONFIGURACIÓN ===================
+const LAST_DETECTED_KEY = "@tolimago/last_detected_municipality";
+
+class LocationService {
+  /**
+   * Estado del permiso en primer plano, sin mostrar ningún diálogo
+   */
+  async getPermission(): Promise<LocationPermission> {
+    const permission = await Location.getForegroundPermissionsAsync();
+    if (permission.granted) return "granted";
+    return permission.canAskAgain ? "undetermined" : "blocked";
+  }
+
+  /**
+   * Diálogo del sistema; la explicación previa la muestra la interfaz
+   */
+  async requestPermission(): Promise<boolean> {
+    const permission = await Location.requestForegroundPermissionsAsync();
+    return permission.granted;
+  }
+
+  /**
+   * Posición actual. La última conocida llega antes por onLastKnown
+   */
+  async getCurrentPosition(
+    onLastKnown?: (coords: Coordinates) => void
+  ): Promise<Coordinates> {
+    const lastKnown = await Location.getLastKnownPositionAsync();
+    if (lastKnown && onLastKnown) onLastKnown(lastKnown.coords);
+
+    const current = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.Balanced,
+    });
+    return current.coords;
+  }
+
+  /**
+   * Municipio más cercano a la posición actual; requiere el permiso
+   * concedido. null si el dispositivo está fuera del Tolima
+   */
+  async detectMunicipality(): Promise<DetectedMunicipality | null> {
+    const coords = await this.getCurrentPosition();
+    const match = findNearestMunicipality(coords);
+
+    if (!match) {
+      console.log("📍 [Location] Device is outside Tolima");
+      await AsyncStorage.removeItem(LAST_DETECTED_KEY);
+      return null;
+    }
+
+    const detected: DetectedMunicipality = {
+      ...match,
+      detectedAt: new Date().toISOString(),
+    };
+    await AsyncStorage.setItem(LAST_DETECTED_KEY, JSON.stringify(detected));
+    console.log(`📍 [Location] Detected municipality: ${match.municipality}`);
+    return detected;
+  }
+
+  /**
+   * Última detección guardada, útil al abrir la app antes del GPS
+   */
+  async getLastDetected(): Promise<DetectedMunicipality | null> {
+    try {
+      const stored = await AsyncStorage.getItem(LAST_DETECTED_KEY);
+      return stored ? (JSON.parse(stored) as DetectedMunicipality) : null;
+    } catch (error) {
+      console.error("📍 [Location] Failed to read last detection:", error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const locationService = new LocationService();
@@ -0,0 +1,207 @@
+import {
+  MAX_BULK_MODERATION,
+  ModerationAction,
+  ModerationItemType,
+  ModerationReasonCode,
+  ModerationStatus,
+  REASONS_BY_ACTION,
+} from "@/constants/moderation";
+import { httpClient } from "./http-client";
+
+/**
+ * TolimaGO - Moderation Service
+ * Consola de administración: cola de reportes ciudadanos y reseñas,
+ * decisiones (aprobar, rechazar, fusionar duplicados) individuales o en
+ * lote y el historial de auditoría de cada decisión
+ */
+
+// =================== MODELOS ===================
+export interface ModerationAuthor {
+  id: string;
+  name: string;
+}
+
+export interface ModerationItem {
+  id: string;
+  type: ModerationItemType;
+  status: ModerationStatus;
+  title: string;
+  body: string;
+  municipality?: string;
+  // Calificación de 1 a 5 (solo reseñas)
+  rating?: number;
+  photos: string[];
+  author: ModerationAuthor;
+  // Veces que otros usuarios marcaron el contenido
+  flagCount: number;
+  // Posibles duplicados detectados por el servidor
+  duplicateIds: string[];
+  createdAt: string;
+}
+
+export interface ModerationQueueQuery {
+  type?: ModerationItemType;
+  status?: ModerationStatus;
+  cursor?: string;
+}
+
+export interface ModerationQueueResponse {
+  items: ModerationItem[];
+  total: number;
+  nextCursor?: string;
+}
+
+export interface ModerationDecisionRequest {
+  type: ModerationItemType;
+  action: ModerationAction;
+  reasonCode: ModerationReasonCode;
+  itemIds: string[];
+  // Elemento que se conserva al fusionar duplicados
+  targetId?: string;
+  note?: string;
+}
+
+export interface ModerationDecisionResult {
+  id: string;
+  status: ModerationStatus;
+  // Motivo si el servidor no pudo aplicar la decisión a este elemento
+  error?: string;
+}
+
+export interface ModerationDecisionResponse {
+  results: ModerationDecisionResult[];
+}
+
+export interface AuditEntry {
+  id: string;
+  actor: ModerationAuthor;
+  action: ModerationAction;
+  reasonCode: ModerationReasonCode;
+  itemType: ModerationItemType;
+  itemIds: string[];
+  targetId?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface AuditLogQuery {
+  itemId?: string;
+  cursor?: string;
+}
+
+export interface AuditLogResponse {
+  entries: AuditEntry[];
+  nextCursor?: string;
+}
+
+class ModerationService {
+  // =================== COLA ===================
+
+  async getQueue(
+    query: ModerationQueueQuery
+  ): Promise<ModerationQueueResponse> {
+    const response = await httpClient.get<ModerationQueueResponse>(
+      "/admin/moderation/queue",
+      { params: query }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "No se pudo cargar la cola de moderación"
+      );
+    }
+
+    return response.data;
+  }
+
+  async getItem(type: ModerationItemType, id: string): Promise<ModerationItem> {
+    const response = await httpClient.get<{ item: ModerationItem }>(
+      `/admin/moderation/items/${encodeURIComponent(type)}/` +
+        encodeURIComponent(id)
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo cargar el contenido");
+    }
+
+    return response.data.item;
+  }
+
+  // =================== DECISIONES ===================
+
+  /**
+   * Aplica una decisión a uno o varios elementos del mismo tipo. El
+   * servidor responde el resultado de cada elemento por separado
+   */
+  async decide(
+    request: ModerationDecisionRequest
+  ): Promise<ModerationDecisionResponse> {
+    this.validateDecision(request);
+
+    const response = await httpClient.post<ModerationDecisionResponse>(
+      "/admin/moderation/decisions",
+      { ...request, note: request.note?.trim() || undefined }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo aplicar la decisión");
+    }
+
+    const failed = response.data.results.filter((result) => result.error);
+    console.log(
+      `⚖️ [Moderation] ${request.action} applied to ${
+        request.itemIds.length - failed.length
+      }/${request.itemIds.length} ${request.type}(s)`
+    );
+
+    return response.data;
+  }
+
+  // =================== AUDITORÍA ===================
+
+  async getAuditLog(query: AuditLogQuery = {}): Promise<AuditLogResponse> {
+    const response = await httpClient.get<AuditLogResponse>(
+      "/admin/audit-log",
+      { params: query }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "No se pudo cargar el historial de auditoría"
+      );
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Rechaza en el cliente las decisiones que el servidor no aceptaría
+   */
+  private validateDecision(request: ModerationDecisionRequest): void {
+    if (request.itemIds.length === 0) {
+      throw new Error("Selecciona al menos un elemento");
+    }
+
+    if (request.itemIds.length > MAX_BULK_MODERATION) {
+      throw new Error(
+        `Puedes moderar hasta ${MAX_BULK_MODERATION} elementos a la vez`
+      );
+    }
+
+    if (!REASONS_BY_ACTION[request.action].includes(request.reasonCode)) {
+      throw new Error("El motivo no corresponde a la acción");
+    }
+
+    if (request.action === "merge") {
+      if (!request.targetId) {
+        throw new Error("Elige el elemento que se conserva");
+      }
+      if (request.itemIds.includes(request.targetId)) {
+        throw new Error("El elemento que se conserva no puede fusionarse");
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const moderationService = new ModerationService();
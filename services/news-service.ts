@@ -0,0 +1,197 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { httpClient, isNetworkError } from "./http-client";
+
+/**
+ * TolimaGO - News Service
+ * Noticias municipales con paginación por cursor, caché de los últimos
+ * artículos para lectura offline y registro de leídos por usuario
+ */
+
+// =================== TIPOS ===================
+/**
+ * Bloques de contenido enriquecido de un artículo
+ */
+export type NewsBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "quote"; text: string; author?: string }
+  | { type: "list"; items: string[] }
+  | { type: "image"; url: string; caption?: string };
+
+export interface NewsArticle {
+  id: string;
+  title: string;
+  summary: string;
+  coverImageUrl?: string;
+  // null para noticias departamentales
+  municipality: string | null;
+  author?: string;
+  publishedAt: string;
+  content: NewsBlock[];
+}
+
+export interface NewsPage {
+  articles: NewsArticle[];
+  nextCursor: string | null;
+  // Página armada con la caché porque no hubo conexión
+  fromCache: boolean;
+}
+
+export interface NewsQuery {
+  // null para todo el departamento
+  municipality: string | null;
+  cursor?: string | null;
+  limit?: number;
+}
+
+// Artículos más recientes que se conservan para lectura offline
+export const NEWS_CACHE_SIZE = 50;
+
+const PAGE_SIZE = 15;
+const MAX_READ_IDS = 500;
+const CACHE_KEY = "@tolimago/news_cache";
+const READ_KEY_PREFIX = "@tolimago/news_read:";
+
+class NewsService {
+  // =================== FEED ===================
+
+  /**
+   * Página del feed; sin conexión la primera página sale de la caché
+   */
+  async getNews({
+    municipality,
+    cursor = null,
+    limit = PAGE_SIZE,
+  }: NewsQuery): Promise<NewsPage> {
+    try {
+      const response = await httpClient.get<{
+        articles: NewsArticle[];
+        nextCursor: string | null;
+      }>("/news", {
+        params: {
+          municipality: municipality ?? undefined,
+          cursor: cursor ?? undefined,
+          limit,
+        },
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se pudieron cargar noticias");
+      }
+
+      await this.cacheArticles(response.data.articles);
+
+      return {
+        articles: response.data.articles,
+        nextCursor: response.data.nextCursor,
+        fromCache: false,
+      };
+    } catch (error: any) {
+      // Las páginas siguientes no se arman offline para no mezclar órdenes
+      if (!isNetworkError(error) || cursor) throw error;
+
+      const cached = await this.getCachedArticles();
+      console.log("📰 [News] Offline, serving cached articles");
+
+      return {
+        articles: cached.filter(
+          (article) =>
+            !municipality ||
+            article.municipality === municipality ||
+            article.municipality === null
+        ),
+        nextCursor: null,
+        fromCache: true,
+      };
+    }
+  }
+
+  /**
+   * Artículo completo; se busca primero en la caché
+   */
+  async getArticle(id: string): Promise<NewsArticle> {
+    const cached = await this.getCachedArticles();
+    const article = cached.find((item) => item.id === id);
+    if (article) return article;
+
+    const response = await httpClient.get<{ article: NewsArticle }>(
+      `/news/${encodeURIComponent(id)}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se encontró la noticia");
+    }
+
+    return response.data.article;
+  }
+
+  // =================== CACHÉ ===================
+
+  async getCachedArticles(): Promise<NewsArticle[]> {
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_KEY);
+      return stored ? (JSON.parse(stored) as NewsArticle[]) : [];
+    } catch (error) {
+      console.error("📰 [News] Failed to read cache:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Conserva solo los NEWS_CACHE_SIZE artículos más recientes
+   */
+  private async cacheArticles(articles: NewsArticle[]): Promise<void> {
+    if (articles.length === 0) return;
+
+    try {
+      const cached = await this.getCachedArticles();
+      const byId = new Map(cached.map((article) => [article.id, article]));
+      articles.forEach((article) => byId.set(article.id, article));
+
+      const latest = Array.from(byId.values())
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+        .slice(0, NEWS_CACHE_SIZE);
+
+      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(latest));
+    } catch (error) {
+      console.error("📰 [News] Failed to update cache:", error);
+    }
+  }
+
+  // =================== LEÍDOS ===================
+
+  async getReadIds(userId: string): Promise<string[]> {
+    try {
+      const stored = await AsyncStorage.getItem(READ_KEY_PREFIX + userId);
+      return stored ? (JSON.parse(stored) as string[]) : [];
+    } catch (error) {
+      console.error("📰 [News] Failed to read read-state:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Marca un artículo como leído para el usuario; devuelve la lista actualizada
+   */
+  async markAsRead(userId: string, articleId: string): Promise<string[]> {
+    const readIds = await this.getReadIds(userId);
+    if (readIds.includes(articleId)) return readIds;
+
+    const updated = [articleId, ...readIds].slice(0, MAX_READ_IDS);
+
+    try {
+      await AsyncStorage.setItem(
+        READ_KEY_PREFIX + userId,
+        JSON.stringify(updated)
+      );
+    } catch (error) {
+      console.error("📰 [News] Failed to save read-state:", error);
+    }
+
+    return updated;
+  }
+}
+
+// Singleton instance
+export const newsService = new NewsService();
@@ -0,0 +1,415 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import Constants from "expo-constants";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationCategory,
+  NotificationPreferences,
+} from "@/constants/notifications";
+import { AUTH_EVENTS, authEvents } from "./auth-events";
+import { httpClient, isNetworkError } from "./http-client";
+
+/**
+ * TolimaGO - Notification Service
+ * Bandeja de notificaciones del usuario (con caché offline y contador de
+ * no leídas), registro del token push por usuario y preferencias por
+ * categoría
+ */
+
+// =================== TIPOS ===================
+export interface AppNotification {
+  id: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  // Ruta interna a la que lleva la notificación (p. ej. /reports/123)
+  url?: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface InboxState {
+  notifications: AppNotification[];
+  unreadCount: number;
+  // Bandeja leída de la caché porque no hubo conexión
+  fromCache: boolean;
+}
+
+type InboxListener = (state: InboxState) => void;
+
+// "blocked": el usuario negó el permiso y el sistema ya no vuelve a preguntar
+export type PushPermission =
+  | "granted"
+  | "undetermined"
+  | "blocked"
+  | "unsupported";
+
+interface StoredPushToken {
+  token: string;
+  userId: string;
+}
+
+interface StoredPreferences {
+  userId: string;
+  preferences: NotificationPreferences;
+}
+
+const INBOX_KEY_PREFIX = "@tolimago/notifications:";
+const PUSH_TOKEN_KEY = "@tolimago/push_token";
+const PREFERENCES_KEY = "@tolimago/notification_preferences";
+const MAX_CACHED_NOTIFICATIONS = 100;
+
+class NotificationService {
+  private userId: string | null = null;
+  private notifications: AppNotification[] = [];
+  private fromCache = false;
+  private listeners = new Set<InboxListener>();
+
+  // =================== BANDEJA ===================
+
+  getState(): InboxState {
+    return {
+      notifications: [...this.notifications],
+      unreadCount: this.notifications.filter((item) => !item.readAt).length,
+      fromCache: this.fromCache,
+    };
+  }
+
+  subscribe(listener: InboxListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Carga la bandeja del usuario; sin conexión se usa la última copia
+   */
+  async loadInbox(userId: string): Promise<InboxState> {
+    if (this.userId !== userId) {
+      this.userId = userId;
+      this.notifications = await this.getCachedInbox(userId);
+      this.notify();
+    }
+
+    try {
+      const response = await httpClient.get<{
+        notifications: AppNotification[];
+      }>("/notifications/me");
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "No se pudieron cargar tus notificaciones"
+        );
+      }
+
+      this.notifications = response.data.notifications;
+      this.fromCache = false;
+      await this.persistInbox();
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+
+      console.log("🔔 [Notifications] Offline, using cached inbox");
+      this.fromCache = true;
+    }
+
+    this.notify();
+    return this.getState();
+  }
+
+  /**
+   * Marca una notificación como leída; sin conexión queda en la cola
+   */
+  async markAsRead(id: string): Promise<void> {
+    const target = this.notifications.find((item) => item.id === id);
+    if (target?.readAt) return;
+
+    // Al abrir la app desde una push la bandeja aún no está cargada: el
+    // servidor se entera igual y la bandeja llega ya actualizada
+    if (target) {
+      const readAt = new Date().toISOString();
+      this.notifications = this.notifications.map((item) =>
+        item.id === id ? { ...item, readAt } : item
+      );
+      this.notify();
+      await this.persistInbox();
+    }
+
+    await httpClient.patch(
+      `/notifications/${encodeURIComponent(id)}/read`,
+      undefined,
+      { offline: { queueIfOffline: true, label: "Marcar notificación leída" } }
+    );
+  }
+
+  async markAllAsRead(): Promise<void> {
+    if (!this.notifications.some((item) => !item.readAt)) return;
+
+    const readAt = new Date().toISOString();
+    this.notifications = this.notifications.map((item) =>
+      item.readAt ? item : { ...item, readAt }
+    );
+    this.notify();
+    await this.persistInbox();
+
+    await httpClient.post("/notifications/me/read-all", undefined, {
+      offline: { queueIfOffline: true, label: "Marcar notificaciones leídas" },
+    });
+  }
+
+  /**
+   * Agrega a la bandeja una notificación push recibida con la app abierta
+   */
+  async addReceived(notification: Notifications.Notification): Promise<void> {
+    const { data, title, body } = notification.request.content;
+    // Los recordatorios locales no traen id y no forman parte de la bandeja
+    if (!this.userId || typeof data?.notificationId !== "string") return;
+    if (this.notifications.some((item) => item.id === data.notificationId)) {
+      return;
+    }
+
+    this.notifications = [
+      {
+        id: data.notificationId,
+        category: data.category as NotificationCategory,
+        title: title ?? "",
+        body: body ?? "",
+        url: typeof data.url === "string" ? data.url : undefined,
+        createdAt: new Date(notification.date).toISOString(),
+        readAt: null,
+      },
+      ...this.notifications,
+    ];
+    this.notify();
+    await this.persistInbox();
+  }
+
+  private async getCachedInbox(userId: string): Promise<AppNotification[]> {
+    try {
+      const stored = await AsyncStorage.getItem(INBOX_KEY_PREFIX + userId);
+      return stored ? (JSON.parse(stored) as AppNotification[]) : [];
+    } catch (error) {
+      console.error("🔔 [Notifications] Failed to read inbox cache:", error);
+      return [];
+    }
+  }
+
+  private async persistInbox(): Promise<void> {
+    if (!this.userId) return;
+
+    try {
+      await AsyncStorage.setItem(
+        INBOX_KEY_PREFIX + this.userId,
+        JSON.stringify(this.notifications.slice(0, MAX_CACHED_NOTIFICATIONS))
+      );
+    } catch (error) {
+      console.error("🔔 [Notifications] Failed to cache inbox:", error);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  /**
+   * Olvida la bandeja y las preferencias del usuario en memoria y en el
+   * dispositivo (la caché de la bandeja por usuario se conserva)
+   */
+  clear(): void {
+    this.userId = null;
+    this.notifications = [];
+    this.fromCache = false;
+    this.notify();
+    AsyncStorage.removeItem(PREFERENCES_KEY).catch(() => {});
+  }
+
+  // =================== TOKEN PUSH ===================
+
+  /**
+   * Estado del permiso de notificaciones push, sin mostrar ningún diálogo
+   */
+  async getPushPermission(): Promise<PushPermission> {
+    if (Platform.OS === "web") return "unsupported";
+
+    const permission = await Notifications.getPermissionsAsync();
+    if (permission.granted) return "granted";
+    return permission.canAskAgain ? "undetermined" : "blocked";
+  }
+
+  /**
+   * Obtiene el token de Expo y lo asocia al usuario en el servidor. Solo
+   * muestra el diálogo del sistema con `prompt` (tras la explicación de la
+   * interfaz). Devuelve null sin permiso o en la web
+   */
+  async registerPushToken(
+    userId: string,
+    { prompt = false }: { prompt?: boolean } = {}
+  ): Promise<string | null> {
+    if (Platform.OS === "web") return null;
+
+    if (Platform.OS === "android") {
+      await Notifications.setNotificationChannelAsync("default", {
+        name: "Notificaciones",
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    const permission =
+      current.granted || !current.canAskAgain || !prompt
+        ? current
+        : await Notifications.requestPermissionsAsync();
+    if (!permission.granted) {
+      console.log("🔔 [Notifications] Push permission not granted");
+      return null;
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync({
+      projectId,
+    });
+
+    const response = await httpClient.post("/notifications/push-tokens", {
+      token,
+      userId,
+      platform: Platform.OS,
+    });
+    if (!response.success) {
+      throw new Error(response.message || "No se pudo registrar el token");
+    }
+
+    await AsyncStorage.setItem(
+      PUSH_TOKEN_KEY,
+      JSON.stringify({ token, userId } satisfies StoredPushToken)
+    );
+    console.log(`🔔 [Notifications] Push token registered for ${userId}`);
+    return token;
+  }
+
+  /**
+   * Desvincula el token del dispositivo; se llama antes de borrar la sesión
+   * para que la petición todavía vaya autenticada
+   */
+  async unregisterPushToken(): Promise<void> {
+    const stored = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!stored) return;
+
+    const { token } = JSON.parse(stored) as StoredPushToken;
+    try {
+      await httpClient.delete(
+        `/notifications/push-tokens/${encodeURIComponent(token)}`
+      );
+      console.log("🔔 [Notifications] Push token removed");
+    } finally {
+      await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+    }
+  }
+
+  // =================== PREFERENCIAS ===================
+
+  /**
+   * Preferencias del usuario; sin conexión se usa la copia del dispositivo
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      const response = await httpClient.get<{
+        preferences: Partial<NotificationPreferences>;
+      }>("/notifications/preferences");
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "No se pudieron cargar tus preferencias"
+        );
+      }
+
+      const preferences = {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...response.data.preferences,
+      };
+      await this.persistPreferences(userId, preferences);
+      return preferences;
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+      return this.getStoredPreferences(userId);
+    }
+  }
+
+  async updatePreferences(
+    userId: string,
+    preferences: NotificationPreferences
+  ): Promise<NotificationPreferences> {
+    await this.persistPreferences(userId, preferences);
+
+    await httpClient.put("/notifications/preferences", preferences, {
+      offline: { queueIfOffline: true, label: "Preferencias de notificación" },
+    });
+    return preferences;
+  }
+
+  /**
+   * Consulta la copia local; la usan los módulos que programan
+   * notificaciones en el dispositivo (p. ej. recordatorios de eventos)
+   */
+  async isCategoryEnabled(category: NotificationCategory): Promise<boolean> {
+    try {
+      const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+      if (!stored) return true;
+      return (JSON.parse(stored) as StoredPreferences).preferences[category];
+    } catch {
+      return true;
+    }
+  }
+
+  private async getStoredPreferences(
+    userId: string
+  ): Promise<NotificationPreferences> {
+    try {
+      const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+      const parsed = stored ? (JSON.parse(stored) as StoredPreferences) : null;
+      return parsed?.userId === userId
+        ? parsed.preferences
+        : DEFAULT_NOTIFICATION_PREFERENCES;
+    } catch (error) {
+      console.error("🔔 [Notifications] Failed to read preferences:", error);
+      return DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+  }
+
+  private async persistPreferences(
+    userId: string,
+    preferences: NotificationPreferences
+  ): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        PREFERENCES_KEY,
+        JSON.stringify({ userId, preferences } satisfies StoredPreferences)
+      );
+    } catch (error) {
+      console.error("🔔 [Notifications] Failed to save preferences:", error);
+    }
+  }
+}
+
+// Singleton instance
+export const notificationService = new NotificationService();
+
+// Cada sesión (login, registro o restaurada al abrir la app) vuelve a
+// asociar el token del dispositivo al usuario si ya hay permiso; pedirlo
+// le corresponde a la interfaz, con su explicación previa
+authEvents.on(AUTH_EVENTS.SESSION_READY, ({ user }) => {
+  notificationService
+    .registerPushToken(user.id)
+    .catch((error) =>
+      console.error("🔔 [Notifications] Push registration failed:", error)
+    );
+});
+
+// La bandeja y las preferencias no deben quedar visibles para otro usuario
+authEvents.on(AUTH_EVENTS.LOGOUT, () => {
+  notificationService.clear();
+});
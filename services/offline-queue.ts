@@ -0,0 +1,271 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { AUTH_EVENTS, authEvents } from "./auth-events";
+
+/**
+ * TolimaGO - Offline Mutation Queue
+ * Bandeja de salida persistente para escrituras hechas sin conexión.
+ * Las peticiones se guardan en AsyncStorage y se reenvían en orden,
+ * con su idempotency key, cuando vuelve la conectividad.
+ */
+
+const STORAGE_KEY = "@tolimago/offline_queue";
+
+export type QueuedMethod = "post" | "put" | "patch" | "delete";
+
+export type QueuedRequestStatus = "pending" | "processing" | "failed";
+
+export interface QueuedRequest {
+  id: string;
+  idempotencyKey: string;
+  method: QueuedMethod;
+  url: string;
+  data?: any;
+  label?: string;
+  createdAt: string;
+  attempts: number;
+  status: QueuedRequestStatus;
+  lastError?: string;
+  lastAttemptAt?: string;
+}
+
+export interface OfflineQueueState {
+  items: QueuedRequest[];
+  isReplaying: boolean;
+}
+
+export interface ReplayResult {
+  sent: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Resultado de reenviar una petición:
+ * - "sent": el servidor la aceptó, se elimina de la cola
+ * - "retry": sigue sin conexión, se detiene el reenvío para conservar el orden
+ * - "failed": el servidor la rechazó, queda marcada para revisión del usuario
+ */
+export type ReplayOutcome =
+  | { type: "sent" }
+  | { type: "retry"; error: string }
+  | { type: "failed"; error: string };
+
+export type ReplayExecutor = (item: QueuedRequest) => Promise<ReplayOutcome>;
+
+type QueueListener = (state: OfflineQueueState) => void;
+
+/**
+ * Genera un identificador único (también usado como idempotency key)
+ */
+export function generateRequestId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+class OfflineQueue {
+  private items: QueuedRequest[] = [];
+  private loaded = false;
+  private loadingPromise: Promise<void> | null = null;
+  private isReplaying = false;
+  private listeners = new Set<QueueListener>();
+
+  /**
+   * Carga la cola persistida una sola vez
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    if (!this.loadingPromise) {
+      this.loadingPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          const parsed: QueuedRequest[] = stored ? JSON.parse(stored) : [];
+
+          // Un item "processing" significa que la app se cerró durante el envío
+          this.items = parsed.map((item) =>
+            item.status === "processing" ? { ...item, status: "pending" } : item
+          );
+        } catch (error) {
+          console.error("📤 [OfflineQueue] Failed to load queue:", error);
+          this.items = [];
+        } finally {
+          this.loaded = true;
+        }
+      })();
+    }
+
+    await this.loadingPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error("📤 [OfflineQueue] Failed to persist queue:", error);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  private async update(
+    id: string,
+    changes: Partial<QueuedRequest>
+  ): Promise<void> {
+    this.items = this.items.map((item) =>
+      item.id === id ? { ...item, ...changes } : item
+    );
+    await this.persist();
+    this.notify();
+  }
+
+  // =================== API PÚBLICA ===================
+
+  getState(): OfflineQueueState {
+    return { items: [...this.items], isReplaying: this.isReplaying };
+  }
+
+  async getItems(): Promise<QueuedRequest[]> {
+    await this.ensureLoaded();
+    return [...this.items];
+  }
+
+  /**
+   * Agrega una petición al final de la cola
+   */
+  async enqueue(
+    request: Pick<QueuedRequest, "method" | "url" | "data" | "label"> & {
+      idempotencyKey?: string;
+    }
+  ): Promise<QueuedRequest> {
+    await this.ensureLoaded();
+
+    const item: QueuedRequest = {
+      id: generateRequestId(),
+      idempotencyKey: request.idempotencyKey ?? generateRequestId(),
+      method: request.method,
+      url: request.url,
+      data: request.data,
+      label: request.label,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: "pending",
+    };
+
+    this.items = [...this.items, item];
+    await this.persist();
+    this.notify();
+
+    console.log(
+      `📤 [OfflineQueue] Queued ${item.method.toUpperCase()} ${item.url}`
+    );
+    return item;
+  }
+
+  /**
+   * Reenvía las peticiones pendientes en orden de llegada
+   */
+  async replay(executor: ReplayExecutor): Promise<ReplayResult> {
+    await this.ensureLoaded();
+
+    const result: ReplayResult = { sent: 0, failed: 0, remaining: 0 };
+    if (this.isReplaying) {
+      result.remaining = this.items.length;
+      return result;
+    }
+
+    this.isReplaying = true;
+    this.notify();
+
+    try {
+      const pending = this.items.filter((item) => item.status === "pending");
+
+      for (const item of pending) {
+        await this.update(item.id, {
+          status: "processing",
+          attempts: item.attempts + 1,
+          lastAttemptAt: new Date().toISOString(),
+        });
+
+        const outcome = await executor(item);
+
+        if (outcome.type === "sent") {
+          this.items = this.items.filter((queued) => queued.id !== item.id);
+          await this.persist();
+          this.notify();
+          result.sent += 1;
+        } else if (outcome.type === "failed") {
+          await this.update(item.id, {
+            status: "failed",
+            lastError: outcome.error,
+          });
+          result.failed += 1;
+        } else {
+          // Sin conexión otra vez: conservar el orden y esperar
+          await this.update(item.id, {
+            status: "pending",
+            lastError: outcome.error,
+          });
+          break;
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+      result.remaining = this.items.length;
+      this.notify();
+    }
+
+    console.log("📤 [OfflineQueue] Replay finished:", result);
+    return result;
+  }
+
+  /**
+   * Vuelve a poner en cola una petición que falló
+   */
+  async retry(id: string): Promise<void> {
+    await this.ensureLoaded();
+    await this.update(id, { status: "pending", lastError: undefined });
+  }
+
+  /**
+   * Descarta una petición de la cola
+   */
+  async remove(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.items = this.items.filter((item) => item.id !== id);
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Vacía la cola completa (p. ej. al cerrar sesión)
+   */
+  async clear(): Promise<void> {
+    this.items = [];
+    this.loaded = true;
+    await AsyncStorage.removeItem(STORAGE_KEY).catch(() => {});
+    this.notify();
+  }
+
+  /**
+   * Suscribe un listener a los cambios de la cola
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    this.ensureLoaded().then(() => listener(this.getState()));
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Singleton instance
+export const offlineQueue = new OfflineQueue();
+
+// Las solicitudes pendientes pertenecen al usuario que cerró sesión
+authEvents.on(AUTH_EVENTS.LOGOUT, () => {
+  offlineQueue.clear();
+});
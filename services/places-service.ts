@@ -0,0 +1,93 @@
+import { PlaceCategory } from "@/constants/places";
+import { PLACES_FIXTURE } from "./fixtures/places";
+import { httpClient, isBackendUnavailable } from "./http-client";
+
+/**
+ * TolimaGO - Places Service
+ * Directorio de servicios cercanos (hospitales, policía, notarías,
+ * información turística, droguerías). Si el backend no está disponible
+ * se responde con el fixture local
+ */
+
+// =================== TIPOS ===================
+export interface Place {
+  id: string;
+  name: string;
+  category: PlaceCategory;
+  municipality: string;
+  address: string;
+  phone?: string;
+  latitude: number;
+  longitude: number;
+  openingHours?: string;
+  description?: string;
+}
+
+export interface PlaceFilters {
+  // null para todo el departamento
+  municipality: string | null;
+  category: PlaceCategory | null;
+}
+
+export interface PlacesResult {
+  places: Place[];
+  // Datos de demostración porque el backend no respondió
+  fromFixture: boolean;
+}
+
+const matchesFilters = (place: Place, filters: PlaceFilters) =>
+  (!filters.municipality || place.municipality === filters.municipality) &&
+  (!filters.category || place.category === filters.category);
+
+class PlacesService {
+  // =================== CONSULTA ===================
+
+  async getPlaces(filters: PlaceFilters): Promise<PlacesResult> {
+    try {
+      const response = await httpClient.get<{ places: Place[] }>("/places", {
+        params: {
+          municipality: filters.municipality ?? undefined,
+          category: filters.category ?? undefined,
+        },
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se pudieron cargar servicios");
+      }
+
+      return { places: response.data.places, fromFixture: false };
+    } catch (error: any) {
+      if (!isBackendUnavailable(error)) throw error;
+
+      console.log("📍 [Places] Backend unavailable, using local fixture");
+      return {
+        places: PLACES_FIXTURE.filter((place) =>
+          matchesFilters(place, filters)
+        ),
+        fromFixture: true,
+      };
+    }
+  }
+
+  async getPlace(id: string): Promise<Place> {
+    try {
+      const response = await httpClient.get<{ place: Place }>(
+        `/places/${encodeURIComponent(id)}`
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se encontró el servicio");
+      }
+
+      return response.data.place;
+    } catch (error: any) {
+      const place = PLACES_FIXTURE.find((item) => item.id === id);
+      if (!place || !isBackendUnavailable(error)) throw error;
+
+      return place;
+    }
+  }
+}
+
+// Singleton instance
+export const placesService = new PlacesService();
@@ -0,0 +1,292 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { File, Paths } from "expo-file-system";
+import * as Notifications from "expo-notifications";
+import * as Sharing from "expo-sharing";
+
+import {
+  CONSENT_DOCUMENT_IDS,
+  CONSENT_DOCUMENTS,
+  ConsentDocument,
+} from "@/constants/privacy";
+import { biometricLock } from "./biometric-auth";
+import { httpClient } from "./http-client";
+import { secureTokenStorage } from "./secure-storage";
+
+/**
+ * TolimaGO - Privacy Service
+ * Derechos del titular de los datos (Habeas Data): registro de
+ * consentimientos, exportación de datos y eliminación de la cuenta
+ */
+
+// =================== TIPOS ===================
+export interface ConsentGrant {
+  document: ConsentDocument;
+  version: string;
+  acceptedAt: string;
+}
+
+export interface ConsentRecord extends ConsentGrant {
+  id: string;
+  // Dónde se otorgó (p. ej. "register")
+  source: string;
+  revokedAt: string | null;
+}
+
+export type DataExportStatus = "pending" | "ready" | "expired" | "failed";
+
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  requestedAt: string;
+  readyAt?: string;
+  // Enlace firmado al ZIP; vence en `expiresAt`
+  downloadUrl?: string;
+  expiresAt?: string;
+}
+
+export interface AccountDeletion {
+  requestedAt: string;
+  // Fecha en la que el servidor borra la cuenta si no se cancela
+  scheduledFor: string;
+}
+
+// Todo lo que la app guarda en AsyncStorage usa este prefijo
+const STORAGE_PREFIX = "@tolimago/";
+
+// Claves con datos creados por el usuario que solo existen en el dispositivo
+const DEVICE_DATA_PREFIXES = [
+  "@tolimago/report_draft",
+  "@tolimago/trips:",
+  "@tolimago/trip_saved:",
+  "@tolimago/event_reminders",
+  "@tolimago/notification_preferences",
+  "@tolimago/news_read:",
+  "@tolimago/offline_queue",
+];
+
+/**
+ * Consentimientos que se otorgan al aceptar los términos en el registro
+ */
+export const buildRegisterConsents = (
+  acceptedAt = new Date().toISOString()
+): ConsentGrant[] =>
+  CONSENT_DOCUMENT_IDS.map((document) => ({
+    document,
+    version: CONSENT_DOCUMENTS[document].version,
+    acceptedAt,
+  }));
+
+class PrivacyService {
+  // =================== CONSENTIMIENTOS ===================
+
+  async getConsents(): Promise<ConsentRecord[]> {
+    const response = await httpClient.get<{ consents: ConsentRecord[] }>(
+      "/users/me/consents"
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "No se pudo cargar tu historial de autorizaciones"
+      );
+    }
+
+    return response.data.consents.sort((a, b) =>
+      b.acceptedAt.localeCompare(a.acceptedAt)
+    );
+  }
+
+  // =================== EXPORTACIÓN ===================
+
+  /**
+   * Última exportación solicitada (null si nunca se pidió una)
+   */
+  async getLatestDataExport(): Promise<DataExport | null> {
+    const response = await httpClient.get<{ export: DataExport | null }>(
+      "/users/me/data-export"
+    );
+
+    if (!response.success) {
+      throw new Error(
+        response.message || "No se pudo consultar tu exportación"
+      );
+    }
+
+    return response.data?.export ?? null;
+  }
+
+  /**
+   * Pide al servidor que empaquete los datos de la cuenta en un ZIP (JSON
+   * por cada tipo de dato más las fotos de los reportes)
+   */
+  async requestDataExport(): Promise<DataExport> {
+    const response = await httpClient.post<{ export: DataExport }>(
+      "/users/me/data-export"
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "No se pudo solicitar la exportación"
+      );
+    }
+
+    console.log("🛡️ [Privacy] Data export requested");
+    return response.data.export;
+  }
+
+  /**
+   * Descarga el ZIP listo y abre la hoja para guardarlo o compartirlo
+   */
+  async downloadDataExport(dataExport: DataExport): Promise<void> {
+    if (dataExport.status !== "ready" || !dataExport.downloadUrl) {
+      throw new Error("Tu exportación todavía no está lista");
+    }
+
+    await this.ensureSharingAvailable();
+
+    const destination = new File(
+      Paths.cache,
+      `tolimago-mis-datos-${dataExport.id}.zip`
+    );
+    const file = await File.downloadFileAsync(
+      dataExport.downloadUrl,
+      destination,
+      { idempotent: true }
+    );
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: "application/zip",
+      UTI: "public.zip-archive",
+      dialogTitle: "Mis datos de TolimaGO",
+    });
+  }
+
+  /**
+   * Empaqueta en JSON los datos que solo existen en este dispositivo
+   * (borradores, viajes sin sincronizar, recordatorios, preferencias)
+   */
+  async shareDeviceData(): Promise<void> {
+    await this.ensureSharingAvailable();
+
+    const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+      DEVICE_DATA_PREFIXES.some((prefix) => key.startsWith(prefix))
+    );
+    const entries = await AsyncStorage.multiGet(keys);
+
+    const data = Object.fromEntries(
+      entries.map(([key, value]) => [
+        key.slice(STORAGE_PREFIX.length),
+        value ? JSON.parse(value) : null,
+      ])
+    );
+
+    const file = new File(Paths.cache, "tolimago-datos-dispositivo.json");
+    file.create({ overwrite: true });
+    file.write(
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          profile: await secureTokenStorage.getUserData(),
+          data,
+        },
+        null,
+        2
+      )
+    );
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: "application/json",
+      UTI: "public.json",
+      dialogTitle: "Datos de TolimaGO en este dispositivo",
+    });
+  }
+
+  private async ensureSharingAvailable(): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error(
+        "Compartir archivos no está disponible en este dispositivo"
+      );
+    }
+  }
+
+  // =================== ELIMINACIÓN DE CUENTA ===================
+
+  async getAccountDeletion(): Promise<AccountDeletion | null> {
+    const response = await httpClient.get<{
+      deletion: AccountDeletion | null;
+    }>("/users/me/deletion");
+
+    if (!response.success) {
+      throw new Error(
+        response.message || "No se pudo consultar el estado de tu cuenta"
+      );
+    }
+
+    return response.data?.deletion ?? null;
+  }
+
+  /**
+   * Programa la eliminación de la cuenta tras el periodo de gracia,
+   * confirmando la contraseña
+   */
+  async requestAccountDeletion(password: string): Promise<AccountDeletion> {
+    try {
+      const response = await httpClient.post<{ deletion: AccountDeletion }>(
+        "/users/me/deletion",
+        { password }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "No se pudo solicitar la eliminación"
+        );
+      }
+
+      console.log(
+        `🛡️ [Privacy] Account deletion scheduled for ${response.data.deletion.scheduledFor}`
+      );
+      return response.data.deletion;
+    } catch (error: any) {
+      // La contraseña incorrecta llega como 403 (un 401 dispararía el refresh)
+      if (error?.status === 403 || error?.code === "INVALID_PASSWORD") {
+        throw new Error("La contraseña no es correcta");
+      }
+      throw error;
+    }
+  }
+
+  async cancelAccountDeletion(): Promise<void> {
+    const response = await httpClient.delete<void>("/users/me/deletion");
+
+    if (!response.success) {
+      throw new Error(response.message || "No se pudo cancelar la eliminación");
+    }
+
+    console.log("🛡️ [Privacy] Account deletion cancelled");
+  }
+
+  // =================== BORRADO LOCAL ===================
+
+  /**
+   * Borra del dispositivo la sesión, las cachés, los borradores y los
+   * recordatorios programados
+   */
+  async wipeLocalData(): Promise<void> {
+    const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+      key.startsWith(STORAGE_PREFIX)
+    );
+
+    await Promise.all([
+      secureTokenStorage.clearAll(),
+      biometricLock.disable(),
+      AsyncStorage.multiRemove(keys),
+      Notifications.cancelAllScheduledNotificationsAsync(),
+    ]).catch((error) =>
+      console.error("🛡️ [Privacy] Local wipe incomplete:", error)
+    );
+
+    console.log(`🛡️ [Privacy] Local data wiped (${keys.length} keys)`);
+  }
+}
+
+// Singleton instance
+export const privacyService = new PrivacyService();
@@ -0,0 +1,158 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { ReportCategory, ReportStatus } from "@/constants/reports";
+import { appendFormDataFile } from "@/lib/form-data";
+import { ReportFormData } from "@/lib/validations";
+import { AUTH_EVENTS, authEvents } from "./auth-events";
+import { httpClient } from "./http-client";
+
+/**
+ * TolimaGO - Report Service
+ * Reportes ciudadanos de incidencias: envío con fotos, seguimiento de
+ * estado y borrador persistente del formulario entre reinicios
+ */
+
+// =================== TIPOS ===================
+export interface ReportStatusChange {
+  status: ReportStatus;
+  changedAt: string;
+  // Comentario de la alcaldía al cambiar el estado
+  note?: string;
+}
+
+export interface Report {
+  id: string;
+  category: ReportCategory;
+  title: string;
+  description: string;
+  municipality: string;
+  address: string;
+  reference?: string;
+  photos: string[];
+  status: ReportStatus;
+  history: ReportStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportDraft {
+  values: Partial<ReportFormData>;
+  // Paso del formulario donde quedó el usuario
+  step: number;
+  updatedAt: string;
+}
+
+const DRAFT_KEY = "@tolimago/report_draft";
+
+class ReportService {
+  // =================== REPORTES ===================
+
+  /**
+   * Envía un reporte con sus fotos como multipart/form-data
+   */
+  async createReport(data: ReportFormData): Promise<Report> {
+    const formData = new FormData();
+    formData.append("category", data.category);
+    formData.append("title", data.title);
+    formData.append("description", data.description);
+    formData.append("municipality", data.municipality);
+    formData.append("address", data.address);
+    if (data.reference) {
+      formData.append("reference", data.reference);
+    }
+
+    data.photos.forEach((photo, index) => {
+      appendFormDataFile(formData, "photos", {
+        uri: photo.uri,
+        name: photo.fileName ?? `reporte-${index + 1}.jpg`,
+        type: photo.mimeType ?? "image/jpeg",
+      });
+    });
+
+    console.log(`📝 [Reports] Submitting ${data.category} report`);
+
+    const response = await httpClient.post<{ report: Report }>(
+      "/reports",
+      formData,
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo enviar el reporte");
+    }
+
+    return response.data.report;
+  }
+
+  /**
+   * Reportes del usuario actual, del más reciente al más antiguo
+   */
+  async getMyReports(): Promise<Report[]> {
+    const response = await httpClient.get<{ reports: Report[] }>("/reports/me");
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudieron cargar los reportes");
+    }
+
+    return [...response.data.reports].sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+
+  async getReport(id: string): Promise<Report> {
+    const response = await httpClient.get<{ report: Report }>(
+      `/reports/${encodeURIComponent(id)}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se encontró el reporte");
+    }
+
+    return response.data.report;
+  }
+
+  // =================== BORRADOR ===================
+
+  async getDraft(): Promise<ReportDraft | null> {
+    try {
+      const stored = await AsyncStorage.getItem(DRAFT_KEY);
+      return stored ? (JSON.parse(stored) as ReportDraft) : null;
+    } catch (error) {
+      console.error("📝 [Reports] Failed to load draft:", error);
+      return null;
+    }
+  }
+
+  async saveDraft(
+    values: Partial<ReportFormData>,
+    step: number
+  ): Promise<void> {
+    const draft: ReportDraft = {
+      values,
+      step,
+      updatedAt: new Date().toISOString(),
+    };
+
+    try {
+      await AsyncStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+    } catch (error) {
+      console.error("📝 [Reports] Failed to save draft:", error);
+    }
+  }
+
+  async clearDraft(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(DRAFT_KEY);
+    } catch (error) {
+      console.error("📝 [Reports] Failed to clear draft:", error);
+    }
+  }
+}
+
+// Singleton instance
+export const reportService = new ReportService();
+
+// Un borrador no debe quedar visible para el siguiente usuario
+authEvents.on(AUTH_EVENTS.LOGOUT, () => {
+  reportService.clearDraft();
+});
@@ -0,0 +1,267 @@
+import { RatingValue, ReviewSort, ReviewTargetType } from "@/constants/reviews";
+import { appendFormDataFile } from "@/lib/form-data";
+import { ReviewFormData, ReviewReportFormData } from "@/lib/validations";
+import { httpClient } from "./http-client";
+import { secureTokenStorage } from "./secure-storage";
+
+/**
+ * TolimaGO - Review Service
+ * Reseñas con calificación y fotos para atractivos turísticos y comercios:
+ * una reseña editable por usuario y lugar, votos de utilidad, denuncias y
+ * el resumen de calificaciones de cada lugar
+ */
+
+// =================== TIPOS ===================
+export interface ReviewTarget {
+  type: ReviewTargetType;
+  id: string;
+}
+
+export interface ReviewAuthor {
+  id: string;
+  name: string;
+}
+
+export interface ReviewPhoto {
+  id: string;
+  url: string;
+}
+
+export interface Review {
+  id: string;
+  targetType: ReviewTargetType;
+  targetId: string;
+  rating: RatingValue;
+  body: string;
+  photos: ReviewPhoto[];
+  author: ReviewAuthor;
+  helpfulCount: number;
+  // Si el usuario actual ya la marcó como útil
+  markedHelpful: boolean;
+  isOwn: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  // Número de reseñas por cada calificación
+  distribution: Record<RatingValue, number>;
+}
+
+export interface ReviewsQuery {
+  sort: ReviewSort;
+  cursor?: string;
+}
+
+export interface ReviewsPage {
+  reviews: Review[];
+  nextCursor?: string;
+}
+
+export interface HelpfulVoteResult {
+  helpfulCount: number;
+  markedHelpful: boolean;
+}
+
+const targetPath = (target: ReviewTarget) =>
+  `/reviews/${target.type}/${target.id}`;
+
+/**
+ * Calificación, texto, fotos nuevas e ids de las fotos publicadas que se
+ * conservan, como multipart/form-data
+ */
+const toReviewFormData = (data: ReviewFormData, keepPhotoIds: string[]) => {
+  const formData = new FormData();
+
+  formData.append("rating", String(data.rating));
+  formData.append("body", data.body.trim());
+  keepPhotoIds.forEach((photoId) => formData.append("keepPhotoIds", photoId));
+
+  data.photos.forEach((photo, index) => {
+    appendFormDataFile(formData, "photos", {
+      uri: photo.uri,
+      name: photo.fileName ?? `resena-${index + 1}.jpg`,
+      type: photo.mimeType ?? "image/jpeg",
+    });
+  });
+
+  return formData;
+};
+
+class ReviewService {
+  // =================== CONSULTA ===================
+
+  async getSummary(target: ReviewTarget): Promise<RatingSummary> {
+    const response = await httpClient.get<{ summary: RatingSummary }>(
+      `${targetPath(target)}/summary`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo cargar la calificación");
+    }
+
+    return response.data.summary;
+  }
+
+  async getReviews(
+    target: ReviewTarget,
+    query: ReviewsQuery
+  ): Promise<ReviewsPage> {
+    const response = await httpClient.get<ReviewsPage>(targetPath(target), {
+      params: query,
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudieron cargar las reseñas");
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Reseña del usuario actual para el lugar; null si aún no ha escrito una
+   */
+  async getMyReview(target: ReviewTarget): Promise<Review | null> {
+    try {
+      const response = await httpClient.get<{ review: Review }>(
+        `${targetPath(target)}/mine`
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se pudo cargar tu reseña");
+      }
+
+      return response.data.review;
+    } catch (error: any) {
+      if (error?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  // =================== PUBLICACIÓN ===================
+
+  /**
+   * Publica la reseña del usuario; el servidor admite una por lugar
+   */
+  async createReview(
+    target: ReviewTarget,
+    data: ReviewFormData
+  ): Promise<Review> {
+    await this.assertVerifiedEmail();
+
+    try {
+      const response = await httpClient.post<{ review: Review }>(
+        targetPath(target),
+        toReviewFormData(data, []),
+        { headers: { "Content-Type": "multipart/form-data" } }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se pudo publicar la reseña");
+      }
+
+      console.log(
+        `⭐ [Reviews] Review published for ${target.type} ${target.id}`
+      );
+      return response.data.review;
+    } catch (error: any) {
+      if (error?.status === 409 || error?.code === "ALREADY_REVIEWED") {
+        throw new Error(
+          "Ya publicaste una reseña de este lugar; puedes editarla"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async updateReview(
+    reviewId: string,
+    data: ReviewFormData,
+    keepPhotoIds: string[]
+  ): Promise<Review> {
+    await this.assertVerifiedEmail();
+
+    const response = await httpClient.put<{ review: Review }>(
+      `/reviews/${reviewId}`,
+      toReviewFormData(data, keepPhotoIds),
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo guardar la reseña");
+    }
+
+    console.log(`⭐ [Reviews] Review updated: ${reviewId}`);
+    return response.data.review;
+  }
+
+  async deleteReview(reviewId: string): Promise<void> {
+    const response = await httpClient.delete(`/reviews/${reviewId}`);
+
+    if (!response.success) {
+      throw new Error(response.message || "No se pudo eliminar la reseña");
+    }
+
+    console.log(`⭐ [Reviews] Review deleted: ${reviewId}`);
+  }
+
+  // =================== INTERACCIÓN ===================
+
+  async setHelpful(
+    reviewId: string,
+    helpful: boolean
+  ): Promise<HelpfulVoteResult> {
+    const url = `/reviews/${reviewId}/helpful`;
+    const response = helpful
+      ? await httpClient.post<HelpfulVoteResult>(url)
+      : await httpClient.delete<HelpfulVoteResult>(url);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo registrar tu voto");
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Denuncia una reseña abusiva; queda en la cola de moderación
+   */
+  async reportReview(
+    reviewId: string,
+    data: ReviewReportFormData
+  ): Promise<void> {
+    try {
+      const response = await httpClient.post(`/reviews/${reviewId}/reports`, {
+        reason: data.reason,
+        details: data.details?.trim() || undefined,
+      });
+
+      if (!response.success) {
+        throw new Error(response.message || "No se pudo enviar la denuncia");
+      }
+
+      console.log(`⭐ [Reviews] Review reported: ${reviewId}`);
+    } catch (error: any) {
+      if (error?.status === 409 || error?.code === "ALREADY_REPORTED") {
+        throw new Error("Ya denunciaste esta reseña");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Solo las cuentas con email verificado pueden publicar reseñas
+   */
+  private async assertVerifiedEmail(): Promise<void> {
+    const user = await secureTokenStorage.getUserData();
+
+    if (!user?.isEmailVerified) {
+      throw new Error("Verifica tu email para publicar reseñas");
+    }
+  }
+}
+
+// Singleton instance
+export const reviewService = new ReviewService();
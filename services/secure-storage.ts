@@ -29,9 +29,26 @@ export interface UserData {
   isResident?: boolean;
   createdAt: string;
   lastLoginAt?: string;
+  // Claims enviados por el servidor; reemplazan la matriz del rol
+  permissions?: string[];
 }
 
 class SecureTokenStorage {
+  // Con el bloqueo biométrico activo el refresh token no se entrega
+  private refreshTokenLocked = false;
+
+  lockRefreshToken(): void {
+    this.refreshTokenLocked = true;
+  }
+
+  unlockRefreshToken(): void {
+    this.refreshTokenLocked = false;
+  }
+
+  isRefreshTokenLocked(): boolean {
+    return this.refreshTokenLocked;
+  }
+
   /**
    * Guarda los tokens de manera segura
    */
@@ -73,6 +90,8 @@ class SecureTokenStorage {
    * Obtiene el refresh token
    */
   async getRefreshToken(): Promise<string | null> {
+    if (this.refreshTokenLocked) return null;
+
     try {
       return await SecureStore.getItemAsync(TOKEN_KEYS.REFRESH_TOKEN);
     } catch (error) {
@@ -151,9 +170,10 @@ class SecureTokenStorage {
    */
   async hasStoredTokens(): Promise<boolean> {
     try {
+      // Lectura directa: una sesión bloqueada sigue existiendo
       const [accessToken, refreshToken] = await Promise.all([
         this.getAccessToken(),
-        this.getRefreshToken(),
+        SecureStore.getItemAsync(TOKEN_KEYS.REFRESH_TOKEN),
       ]);
       return !!(accessToken && refreshToken);
     } catch {
@@ -191,6 +211,20 @@ class SecureTokenStorage {
     return (now + milliseconds).toString();
   }
 
+  /**
+   * Obtiene el timestamp (ms) de expiración del access token
+   */
+  async getTokenExpiry(): Promise<number | null> {
+    try {
+      const expiryTimestamp = await SecureStore.getItemAsync(
+        TOKEN_KEYS.TOKEN_EXPIRY
+      );
+      return expiryTimestamp ? parseInt(expiryTimestamp, 10) : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Obtiene el tiempo restante de expiración en minutos
    */
@@ -0,0 +1,110 @@
+import { AccessibilityFeature, TourismCategory } from "@/constants/tourism";
+import { ATTRACTIONS_FIXTURE } from "./fixtures/attractions";
+import { httpClient, isBackendUnavailable } from "./http-client";
+
+/**
+ * TolimaGO - Tourism Service
+ * Catálogo turístico del Tolima por municipio: atractivos, parques
+ * naturales, termales, gastronomía y festivales. Si el backend no está
+ * disponible se responde con el fixture local
+ */
+
+// =================== TIPOS ===================
+export interface OpeningHours {
+  days: string;
+  hours: string;
+}
+
+export interface Attraction {
+  id: string;
+  name: string;
+  category: TourismCategory;
+  municipality: string;
+  summary: string;
+  description: string;
+  images: string[];
+  // Vacío si el lugar no tiene horario (p. ej. espacios públicos)
+  openingHours: OpeningHours[];
+  accessibility: {
+    features: AccessibilityFeature[];
+    notes?: string;
+  };
+  fee?: string;
+  // Temporada o fechas, para festivales
+  season?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface AttractionFilters {
+  // null para todo el departamento
+  municipality: string | null;
+  category: TourismCategory | null;
+}
+
+export interface AttractionsResult {
+  attractions: Attraction[];
+  fromFixture: boolean;
+}
+
+const matchesFilters = (attraction: Attraction, filters: AttractionFilters) =>
+  (!filters.municipality || attraction.municipality === filters.municipality) &&
+  (!filters.category || attraction.category === filters.category);
+
+class TourismService {
+  // =================== CATÁLOGO ===================
+
+  async getAttractions(filters: AttractionFilters): Promise<AttractionsResult> {
+    try {
+      const response = await httpClient.get<{ attractions: Attraction[] }>(
+        "/tourism/attractions",
+        {
+          params: {
+            municipality: filters.municipality ?? undefined,
+            category: filters.category ?? undefined,
+          },
+        }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "No se pudo cargar el catálogo turístico"
+        );
+      }
+
+      return { attractions: response.data.attractions, fromFixture: false };
+    } catch (error: any) {
+      if (!isBackendUnavailable(error)) throw error;
+
+      console.log("🧭 [Tourism] Backend unavailable, using local fixture");
+      return {
+        attractions: ATTRACTIONS_FIXTURE.filter((attraction) =>
+          matchesFilters(attraction, filters)
+        ),
+        fromFixture: true,
+      };
+    }
+  }
+
+  async getAttraction(id: string): Promise<Attraction> {
+    try {
+      const response = await httpClient.get<{ attraction: Attraction }>(
+        `/tourism/attractions/${encodeURIComponent(id)}`
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "No se encontró el lugar");
+      }
+
+      return response.data.attraction;
+    } catch (error: any) {
+      const attraction = ATTRACTIONS_FIXTURE.find((item) => item.id === id);
+      if (!attraction || !isBackendUnavailable(error)) throw error;
+
+      return attraction;
+    }
+  }
+}
+
+// Singleton instance
+export const tourismService = new TourismService();
@@ -0,0 +1,235 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  RequestedDocumentStatus,
+  TramiteRequestStatus,
+} from "@/constants/tramites";
+import { httpClient, isNetworkError } from "./http-client";
+
+/**
+ * TolimaGO - Tramite Service
+ * Catálogo de trámites por municipio (con caché para consulta offline),
+ * radicación de solicitudes y seguimiento de las solicitudes del usuario
+ */
+
+// =================== TIPOS ===================
+export interface Tramite {
+  id: string;
+  municipality: string;
+  name: string;
+  description: string;
+  requirements: string[];
+  // Valor en pesos colombianos; 0 si es gratuito
+  fee: number;
+  officeName: string;
+  officeAddress?: string;
+  officeHours: string;
+  estimatedDuration: string;
+}
+
+export interface TramiteCatalogue {
+  municipality: string;
+  tramites: Tramite[];
+  fetchedAt: string;
+  // Datos leídos de la caché porque no hubo conexión
+  fromCache: boolean;
+}
+
+export interface TramiteTimelineEntry {
+  status: TramiteRequestStatus;
+  at: string;
+  note?: string;
+}
+
+export interface RequestedDocument {
+  id: string;
+  name: string;
+  description?: string;
+  status: RequestedDocumentStatus;
+  requestedAt: string;
+  dueDate?: string;
+  rejectionReason?: string;
+}
+
+export interface TramiteRequest {
+  id: string;
+  tramiteId: string;
+  tramiteName: string;
+  municipality: string;
+  status: TramiteRequestStatus;
+  timeline: TramiteTimelineEntry[];
+  requestedDocuments: RequestedDocument[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTramiteRequestData {
+  tramiteId: string;
+  municipality: string;
+  contactPhone: string;
+  notes?: string;
+}
+
+/**
+ * Resultado de radicar: enviada al servidor o guardada en la cola offline
+ */
+export type SubmitTramiteResult =
+  | { status: "submitted"; request: TramiteRequest }
+  | { status: "queued" };
+
+const CATALOGUE_KEY_PREFIX = "@tolimago/tramites_catalogue:";
+
+class TramiteService {
+  // =================== CATÁLOGO ===================
+
+  /**
+   * Catálogo del municipio; sin conexión se devuelve la última copia guardada
+   */
+  async getCatalogue(municipality: string): Promise<TramiteCatalogue> {
+    try {
+      const response = await httpClient.get<{ tramites: Tramite[] }>(
+        "/tramites",
+        { params: { municipality } }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "No se pudo cargar el catálogo de trámites"
+        );
+      }
+
+      const catalogue: TramiteCatalogue = {
+        municipality,
+        tramites: response.data.tramites,
+        fetchedAt: new Date().toISOString(),
+        fromCache: false,
+      };
+      await this.saveCatalogue(catalogue);
+
+      return catalogue;
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+
+      const cached = await this.getCachedCatalogue(municipality);
+      if (!cached) throw error;
+
+      console.log(`🏛️ [Tramites] Offline, using cached ${municipality}`);
+      return cached;
+    }
+  }
+
+  async getCachedCatalogue(
+    municipality: string
+  ): Promise<TramiteCatalogue | null> {
+    try {
+      const stored = await AsyncStorage.getItem(
+        CATALOGUE_KEY_PREFIX + municipality
+      );
+      if (!stored) return null;
+
+      return { ...(JSON.parse(stored) as TramiteCatalogue), fromCache: true };
+    } catch (error) {
+      console.error("🏛️ [Tramites] Failed to read cache:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Busca un trámite en la caché del municipio y, si no está, en el servidor
+   */
+  async getTramite(id: string, municipality?: string): Promise<Tramite> {
+    if (municipality) {
+      const cached = await this.getCachedCatalogue(municipality);
+      const tramite = cached?.tramites.find((item) => item.id === id);
+      if (tramite) return tramite;
+    }
+
+    const response = await httpClient.get<{ tramite: Tramite }>(
+      `/tramites/${encodeURIComponent(id)}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se encontró el trámite");
+    }
+
+    return response.data.tramite;
+  }
+
+  private async saveCatalogue(catalogue: TramiteCatalogue): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        CATALOGUE_KEY_PREFIX + catalogue.municipality,
+        JSON.stringify(catalogue)
+      );
+    } catch (error) {
+      console.error("🏛️ [Tramites] Failed to cache catalogue:", error);
+    }
+  }
+
+  // =================== SOLICITUDES ===================
+
+  /**
+   * Radica una solicitud; sin conexión queda en la bandeja de salida
+   */
+  async submitRequest(
+    data: CreateTramiteRequestData,
+    tramiteName: string
+  ): Promise<SubmitTramiteResult> {
+    console.log(`🏛️ [Tramites] Submitting request for ${data.tramiteId}`);
+
+    const response = await httpClient.post<{ request: TramiteRequest }>(
+      "/tramites/requests",
+      data,
+      {
+        offline: {
+          queueIfOffline: true,
+          label: `Trámite: ${tramiteName}`,
+        },
+      }
+    );
+
+    if (response.queued) {
+      return { status: "queued" };
+    }
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se pudo radicar la solicitud");
+    }
+
+    return { status: "submitted", request: response.data.request };
+  }
+
+  /**
+   * Solicitudes del usuario, con la actualización más reciente primero
+   */
+  async getMyRequests(): Promise<TramiteRequest[]> {
+    const response = await httpClient.get<{ requests: TramiteRequest[] }>(
+      "/tramites/requests/me"
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "No se pudieron cargar tus solicitudes"
+      );
+    }
+
+    return [...response.data.requests].sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt)
+    );
+  }
+
+  async getRequest(id: string): Promise<TramiteRequest> {
+    const response = await httpClient.get<{ request: TramiteRequest }>(
+      `/tramites/requests/${encodeURIComponent(id)}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "No se encontró la solicitud");
+    }
+
+    return response.data.request;
+  }
+}
+
+// Singleton instance
+export const tramiteService = new TramiteService();
@@ -0,0 +1,338 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { TripStopKind } from "@/constants/trips";
+import { addDaysToDate } from "@/lib/trip-planning";
+import { httpClient } from "./http-client";
+import type { Attraction } from "./tourism-service";
+
+/**
+ * TolimaGO - Trip Service
+ * "Mi viaje": lugares guardados desde el catálogo turístico e itinerarios
+ * de varios días. Todo se guarda en el dispositivo por usuario; si el
+ * usuario lo activa, los itinerarios se sincronizan con su cuenta
+ */
+
+// =================== TIPOS ===================
+export interface SavedAttraction {
+  attraction: Attraction;
+  savedAt: string;
+}
+
+export interface TripStop {
+  // Único dentro del viaje
+  id: string;
+  kind: TripStopKind;
+  // id del lugar turístico o del servicio
+  refId: string;
+  name: string;
+  municipality: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface TripDay {
+  // YYYY-MM-DD
+  date: string;
+  stops: TripStop[];
+  notes: string;
+}
+
+export interface Trip {
+  id: string;
+  name: string;
+  startDate: string;
+  days: TripDay[];
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTripData {
+  name: string;
+  startDate: string;
+  dayCount: number;
+  notes?: string;
+}
+
+/**
+ * Itinerario sin ids ni fechas de auditoría, tal como se comparte
+ */
+export type SharedTrip = Pick<Trip, "name" | "startDate" | "notes"> & {
+  days: { notes: string; stops: Omit<TripStop, "id">[] }[];
+};
+
+// Viaje eliminado en este dispositivo, para la sincronización
+interface TripRemoval {
+  id: string;
+  removedAt: string;
+}
+
+interface TripSyncState {
+  lastSyncedAt: string | null;
+  removals: TripRemoval[];
+}
+
+const SAVED_KEY_PREFIX = "@tolimago/trip_saved:";
+const TRIPS_KEY_PREFIX = "@tolimago/trips:";
+const SYNC_KEY_PREFIX = "@tolimago/trips_sync:";
+const SYNC_STATE_KEY_PREFIX = "@tolimago/trips_sync_state:";
+
+const generateId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class TripService {
+  // =================== GUARDADOS ===================
+
+  async getSavedAttractions(userId: string): Promise<SavedAttraction[]> {
+    try {
+      const stored = await AsyncStorage.getItem(SAVED_KEY_PREFIX + userId);
+      return stored ? (JSON.parse(stored) as SavedAttraction[]) : [];
+    } catch (error) {
+      console.error("🧳 [Trip] Failed to read saved places:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Agrega un lugar a "Mi viaje"; devuelve la lista actualizada
+   */
+  async saveAttraction(
+    userId: string,
+    attraction: Attraction
+  ): Promise<SavedAttraction[]> {
+    const saved = await this.getSavedAttractions(userId);
+    const updated = [
+      { attraction, savedAt: new Date().toISOString() },
+      ...saved.filter((item) => item.attraction.id !== attraction.id),
+    ];
+
+    await this.persist(SAVED_KEY_PREFIX + userId, updated);
+    return updated;
+  }
+
+  async removeAttraction(
+    userId: string,
+    attractionId: string
+  ): Promise<SavedAttraction[]> {
+    const saved = await this.getSavedAttractions(userId);
+    const updated = saved.filter((item) => item.attraction.id !== attractionId);
+
+    await this.persist(SAVED_KEY_PREFIX + userId, updated);
+    return updated;
+  }
+
+  // =================== ITINERARIOS ===================
+
+  async getTrips(userId: string): Promise<Trip[]> {
+    try {
+      const stored = await AsyncStorage.getItem(TRIPS_KEY_PREFIX + userId);
+      const trips = stored ? (JSON.parse(stored) as Trip[]) : [];
+      return trips.sort((a, b) => a.startDate.localeCompare(b.startDate));
+    } catch (error) {
+      console.error("🧳 [Trip] Failed to read trips:", error);
+      return [];
+    }
+  }
+
+  async getTrip(userId: string, id: string): Promise<Trip | null> {
+    const trips = await this.getTrips(userId);
+    return trips.find((trip) => trip.id === id) ?? null;
+  }
+
+  async createTrip(userId: string, data: CreateTripData): Promise<Trip> {
+    const now = new Date().toISOString();
+    const trip: Trip = {
+      id: generateId(),
+      name: data.name.trim(),
+      startDate: data.startDate,
+      days: Array.from({ length: data.dayCount }, (_, index) => ({
+        date: addDaysToDate(data.startDate, index),
+        stops: [],
+        notes: "",
+      })),
+      notes: data.notes?.trim() ?? "",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveTrip(userId, trip);
+    return trip;
+  }
+
+  /**
+   * Crea un viaje nuevo a partir de un itinerario compartido
+   */
+  async importTrip(userId: string, shared: SharedTrip): Promise<Trip> {
+    const trip = await this.createTrip(userId, {
+      name: shared.name,
+      startDate: shared.startDate,
+      dayCount: shared.days.length,
+      notes: shared.notes,
+    });
+
+    return this.updateTrip(userId, {
+      ...trip,
+      days: trip.days.map((day, index) => ({
+        ...day,
+        notes: shared.days[index].notes,
+        stops: shared.days[index].stops.map((stop) => ({
+          ...stop,
+          id: generateId(),
+        })),
+      })),
+    });
+  }
+
+  async updateTrip(userId: string, trip: Trip): Promise<Trip> {
+    const updated = { ...trip, updatedAt: new Date().toISOString() };
+    await this.saveTrip(userId, updated);
+    return updated;
+  }
+
+  async deleteTrip(userId: string, id: string): Promise<void> {
+    const trips = await this.getTrips(userId);
+    await this.persist(
+      TRIPS_KEY_PREFIX + userId,
+      trips.filter((trip) => trip.id !== id)
+    );
+
+    if (await this.isSyncEnabled(userId)) {
+      // Hasta que el DELETE llegue, la copia remota no debe volver
+      const syncState = await this.getSyncState(userId);
+      await this.persist(SYNC_STATE_KEY_PREFIX + userId, {
+        ...syncState,
+        removals: [
+          ...syncState.removals.filter((removal) => removal.id !== id),
+          { id, removedAt: new Date().toISOString() },
+        ],
+      });
+
+      httpClient
+        .delete(`/trips/${encodeURIComponent(id)}`, {
+          offline: { queueIfOffline: true, label: "Eliminar viaje" },
+        })
+        .catch((error) =>
+          console.error("🧳 [Trip] Failed to delete remote trip:", error)
+        );
+    }
+  }
+
+  createStopId(): string {
+    return generateId();
+  }
+
+  private async saveTrip(userId: string, trip: Trip): Promise<void> {
+    const trips = await this.getTrips(userId);
+    await this.persist(TRIPS_KEY_PREFIX + userId, [
+      ...trips.filter((item) => item.id !== trip.id),
+      trip,
+    ]);
+
+    if (await this.isSyncEnabled(userId)) {
+      this.pushTrip(trip).catch((error) =>
+        console.error("🧳 [Trip] Failed to sync trip:", error)
+      );
+    }
+  }
+
+  // =================== SINCRONIZACIÓN ===================
+
+  async isSyncEnabled(userId: string): Promise<boolean> {
+    return (await AsyncStorage.getItem(SYNC_KEY_PREFIX + userId)) === "true";
+  }
+
+  async setSyncEnabled(userId: string, enabled: boolean): Promise<void> {
+    await AsyncStorage.setItem(SYNC_KEY_PREFIX + userId, String(enabled));
+    if (enabled) await this.syncTrips(userId);
+  }
+
+  /**
+   * Une los viajes locales con los de la cuenta: gana la versión más
+   * reciente. Un viaje local sin copia remota se sube solo si cambió desde la
+   * última sincronización; si no, se eliminó desde otro dispositivo
+   */
+  async syncTrips(userId: string): Promise<Trip[]> {
+    const response = await httpClient.get<{ trips: Trip[] }>("/trips/me");
+    const remoteTrips = response.data?.trips;
+    if (!response.success || !remoteTrips) {
+      throw new Error(response.message || "No se pudieron sincronizar viajes");
+    }
+
+    const local = await this.getTrips(userId);
+    const { lastSyncedAt, removals } = await this.getSyncState(userId);
+    const remoteById = new Map(remoteTrips.map((trip) => [trip.id, trip]));
+    const localIds = new Set(local.map((trip) => trip.id));
+    const removed = new Map(removals.map((removal) => [removal.id, removal]));
+    const merged: Trip[] = [];
+    const toPush: Trip[] = [];
+
+    local.forEach((trip) => {
+      const remote = remoteById.get(trip.id);
+
+      if (!remote) {
+        if (!lastSyncedAt || trip.updatedAt > lastSyncedAt) {
+          merged.push(trip);
+          toPush.push(trip);
+        }
+      } else if (trip.updatedAt > remote.updatedAt) {
+        merged.push(trip);
+        toPush.push(trip);
+      } else {
+        merged.push(remote);
+      }
+    });
+
+    remoteTrips.forEach((remote) => {
+      if (localIds.has(remote.id)) return;
+
+      // Eliminado aquí después de su último cambio: el DELETE ya está en camino
+      const removal = removed.get(remote.id);
+      if (removal && removal.removedAt > remote.updatedAt) return;
+
+      merged.push(remote);
+    });
+
+    await this.persist(TRIPS_KEY_PREFIX + userId, merged);
+    await Promise.all(toPush.map((trip) => this.pushTrip(trip)));
+    await this.persist(SYNC_STATE_KEY_PREFIX + userId, {
+      lastSyncedAt: new Date().toISOString(),
+      // Solo siguen haciendo falta las que el servidor aún no aplicó
+      removals: removals.filter((removal) => remoteById.has(removal.id)),
+    } satisfies TripSyncState);
+
+    console.log(
+      `🧳 [Trip] Synced ${merged.length} trips (${toPush.length} uploaded)`
+    );
+    return this.getTrips(userId);
+  }
+
+  private async getSyncState(userId: string): Promise<TripSyncState> {
+    try {
+      const stored = await AsyncStorage.getItem(SYNC_STATE_KEY_PREFIX + userId);
+      return stored
+        ? (JSON.parse(stored) as TripSyncState)
+        : { lastSyncedAt: null, removals: [] };
+    } catch (error) {
+      console.error("🧳 [Trip] Failed to read sync state:", error);
+      return { lastSyncedAt: null, removals: [] };
+    }
+  }
+
+  private async pushTrip(trip: Trip): Promise<void> {
+    await httpClient.put(`/trips/${encodeURIComponent(trip.id)}`, trip, {
+      offline: { queueIfOffline: true, label: `Sincronizar "${trip.name}"` },
+    });
+  }
+
+  private async persist(key: string, value: unknown): Promise<void> {
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error("🧳 [Trip] Failed to persist:", error);
+      throw new Error("No se pudo actualizar tu viaje");
+    }
+  }
+}
+
+// Singleton instance
+export const tripService = new TripService();
@@ -0,0 +1,107 @@
+import { ApiError, httpClient } from "./http-client";
+import { secureTokenStorage, UserData } from "./secure-storage";
+
+/**
+ * TolimaGO - User Service
+ * Perfil y datos de la cuenta del usuario autenticado
+ */
+
+// =================== TIPOS ===================
+export interface ProfileUpdate {
+  name: string;
+  phone?: string;
+  city?: string;
+  isResident: boolean;
+}
+
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangeEmailData {
+  newEmail: string;
+  currentPassword: string;
+}
+
+class UserService {
+  // =================== PERFIL ===================
+
+  /**
+   * Actualiza los datos del perfil y la copia guardada del usuario
+   */
+  async updateProfile(data: ProfileUpdate): Promise<UserData> {
+    const response = await httpClient.patch<{ user: UserData }>(
+      "/users/me",
+      data
+    );
+
+    if (!response.success || !response.data?.user) {
+      throw new Error(response.message || "No se pudo actualizar tu perfil");
+    }
+
+    await secureTokenStorage.setUserData(response.data.user);
+    console.log("👤 [User] Profile updated");
+    return response.data.user;
+  }
+
+  // =================== CREDENCIALES ===================
+
+  /**
+   * Cambia la contraseña confirmando la actual
+   */
+  async changePassword(data: ChangePasswordData): Promise<void> {
+    try {
+      const response = await httpClient.post<void>("/users/me/password", data);
+
+      if (!response.success) {
+        throw new Error(response.message || "No se pudo cambiar tu contraseña");
+      }
+    } catch (error: any) {
+      throw this.handleCredentialError(error);
+    }
+  }
+
+  /**
+   * Cambia el email confirmando la contraseña. La cuenta queda sin
+   * verificar hasta que el usuario abra el enlace enviado al nuevo correo
+   */
+  async changeEmail(data: ChangeEmailData): Promise<UserData> {
+    try {
+      const response = await httpClient.post<{ user: UserData }>(
+        "/users/me/email",
+        { ...data, newEmail: data.newEmail.trim().toLowerCase() }
+      );
+
+      if (!response.success || !response.data?.user) {
+        throw new Error(response.message || "No se pudo cambiar tu email");
+      }
+
+      await secureTokenStorage.setUserData(response.data.user);
+      console.log("👤 [User] Email changed, verification pending");
+      return response.data.user;
+    } catch (error: any) {
+      throw this.handleCredentialError(error);
+    }
+  }
+
+  /**
+   * Traduce los rechazos esperados del servidor a mensajes para el usuario.
+   * La contraseña incorrecta llega como 403 para no confundirse con un
+   * token vencido (401), que dispararía el refresh de la sesión
+   */
+  private handleCredentialError(error: any): Error | ApiError {
+    if (error?.status === 403 || error?.code === "INVALID_PASSWORD") {
+      return new Error("La contraseña actual no es correcta");
+    }
+
+    if (error?.status === 409 || error?.code === "EMAIL_IN_USE") {
+      return new Error("Ya existe una cuenta con este email");
+    }
+
+    return error;
+  }
+}
+
+// Singleton instance
+export const userService = new UserService();